@@ -5,8 +5,13 @@ import { Alert, Animated, FlatList, Keyboard, StyleSheet, Text, TextInput, Touch
 import BookCard from '../../../components/BookCard';
 import BookDetailModal from '../../../components/BookDetailModal';
 import BookStatusModal, { BookStatus } from '../../../components/BookStatusModal';
-import { EnhancedBook, execute, queryAll } from '../../../db/db';
+import UndoToast from '../../../components/UndoToast';
+import { BookRepository } from '../../../db/bookRepository';
+import { CycleStop } from '../../../db/cycleRepository';
+import { EnhancedBook } from '../../../db/db';
+import { TrashRepository } from '../../../db/trashRepository';
 import { getBookReadingTime } from '../../../utils/readingProgress';
+import { BookReadingSpeed, getReadingSpeeds } from '../../../utils/readingSpeed';
 type BooksearchProps = {
   name: string;
   setName: (name: string) => void;
@@ -123,14 +128,18 @@ export default function HomeScreen() {
   const [author, setAuthor] = useState('');
   const [page, setPage] = useState('');
   const [books, setBooks] = useState<(EnhancedBook & { reading_time?: number })[]>([]);
+  const [readingSpeeds, setReadingSpeeds] = useState<Map<number, BookReadingSpeed | null>>(new Map());
   const [allBooksCount, setAllBooksCount] = useState(0);
   const [statusCounts, setStatusCounts] = useState({
     want_to_read: 0,
     currently_reading: 0,
-    read: 0
+    read: 0,
+    paused: 0,
+    dnf: 0
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [undoToast, setUndoToast] = useState<{ message: string; trashId: number } | null>(null);
   const [isAddingManually, setIsAddingManually] = useState(false);
   const [fadeAnim] = useState(new Animated.Value(0));
   const [scaleAnim] = useState(new Animated.Value(0.8));
@@ -159,37 +168,13 @@ export default function HomeScreen() {
   const loadBooks = async () => {
     setLoading(true);
     try {
-      // Get total counts first
-      const totalResult = await queryAll<{total: number}>('SELECT COUNT(*) as total FROM enhanced_books');
-      const totalCount = totalResult[0]?.total || 0;
-      setAllBooksCount(totalCount);
-
-      // Get status counts
-      const statusCountsResult = await queryAll<{reading_status: string, count: number}>(`
-        SELECT reading_status, COUNT(*) as count 
-        FROM enhanced_books 
-        GROUP BY reading_status
-      `);
-      
-      const counts = { want_to_read: 0, currently_reading: 0, read: 0 };
-      statusCountsResult.forEach(row => {
-        if (row.reading_status in counts) {
-          counts[row.reading_status as keyof typeof counts] = row.count;
-        }
-      });
+      // Get total and status counts
+      const { total, ...counts } = await BookRepository.countByStatus();
+      setAllBooksCount(total);
       setStatusCounts(counts);
 
       // Get books with default sorting (currently reading -> want to read -> read)
-      const res = await queryAll<EnhancedBook>(`
-        SELECT * FROM enhanced_books 
-        ORDER BY 
-          CASE WHEN reading_status = 'currently_reading' THEN 1 
-               WHEN reading_status = 'want_to_read' THEN 2 
-               WHEN reading_status = 'read' THEN 3 
-               ELSE 4 END,
-          date_added DESC
-        LIMIT 10
-      `);
+      const res = await BookRepository.list(10);
       
       // Fetch reading time for each book (only for preview)
       const booksWithReadingTime = await Promise.all(
@@ -199,6 +184,10 @@ export default function HomeScreen() {
         })
       );
       
+      // Speeds for the finish estimates of the books being read, looked up once for the list
+      setReadingSpeeds(await getReadingSpeeds(
+        res.filter(book => book.reading_status === 'currently_reading').map(book => book.id)
+      ));
       setBooks(booksWithReadingTime);
     } catch (e) {
       setError(t('booksPage.failedToLoad'));
@@ -224,29 +213,12 @@ export default function HomeScreen() {
     setLoading(true);
     setError(null);
     try {
-      let dateField = '';
-      let dateValue = null;
-
-      // Set appropriate date fields based on status
-      if (manualBookStatus === 'currently_reading') {
-        dateField = ', date_started';
-        dateValue = new Date().toISOString();
-      } else if (manualBookStatus === 'read') {
-        dateField = ', date_finished';
-        dateValue = new Date().toISOString();
-      }
-
-      const query = `
-        INSERT INTO enhanced_books (name, author, page, reading_status, date_added${dateField})
-        VALUES (?, ?, ?, ?, ? ${dateValue ? ', ?' : ''})
-      `;
-
-      const params = [name.trim(), author.trim(), Number(page), manualBookStatus, new Date().toISOString()];
-      if (dateValue) {
-        params.push(dateValue);
-      }
-
-      await execute(query, params);
+      await BookRepository.create({
+        name: name.trim(),
+        author: author.trim(),
+        page: Number(page),
+        reading_status: manualBookStatus,
+      });
       
       setName('');
       setAuthor('');
@@ -264,32 +236,51 @@ export default function HomeScreen() {
   };
 
   const deleteBook = async (bookId: number, bookTitle: string) => {
+    const runDelete = async (keepSessions: boolean) => {
+      setLoading(true);
+      setError(null);
+      try {
+        if (keepSessions) {
+          // Archive the book so its sessions still count toward streaks and stats
+          await BookRepository.archive(bookId);
+        } else {
+          // Moves the book and its sessions to the trash; it can be restored from there
+          const trashId = await TrashRepository.trashBook(bookId);
+          setUndoToast({ message: t('booksPage.alert.movedToTrash', { title: bookTitle }), trashId });
+        }
+        await loadBooks();
+      } catch (e) {
+        setError(t('booksPage.alert.failedDelete'));
+        console.error('Delete book error:', e);
+      } finally {
+        setLoading(false);
+      }
+    };
+
     Alert.alert(
       t('booksPage.alert.deleteTitle'),
       t('booksPage.alert.deleteMessage', { title: bookTitle }),
       [
         { text: t('booksPage.alert.cancel'), style: 'cancel' },
-        {
-          text: t('booksPage.alert.delete'),
-          style: 'destructive',
-          onPress: async () => {
-            setLoading(true);
-            setError(null);
-            try {
-              await execute('DELETE FROM enhanced_books WHERE id = ?', [bookId]);
-              await loadBooks();
-            } catch (e) {
-              setError('Failed to delete book');
-              console.error('Delete book error:', e);
-            } finally {
-              setLoading(false);
-            }
-          }
-        }
+        { text: t('booksPage.alert.keepHistory'), onPress: () => runDelete(true) },
+        { text: t('booksPage.alert.deleteWithSessions'), style: 'destructive', onPress: () => runDelete(false) }
       ]
     );
   };
 
+  const undoDelete = async () => {
+    if (!undoToast) return;
+    const { trashId } = undoToast;
+    setUndoToast(null);
+    try {
+      await TrashRepository.restore(trashId);
+      await loadBooks();
+    } catch (e) {
+      console.error('Undo delete error:', e);
+      Alert.alert(t('booksPage.alert.restoreFailedTitle'), t('booksPage.alert.restoreFailed'));
+    }
+  };
+
   const toggleManualForm = () => {
     if (!isAddingManually) {
       setIsAddingManually(true);
@@ -365,39 +356,18 @@ export default function HomeScreen() {
     });
   };
 
-  const handleStatusChange = async (newStatus: BookStatus) => {
+  const handleStatusChange = async (newStatus: BookStatus, stop?: CycleStop) => {
     if (!selectedBook) return;
 
     setLoading(true);
     setError(null);
 
     try {
-      let dateField = '';
-      let dateValue = null;
-
-      // Set appropriate date fields based on status
-      if (newStatus === 'currently_reading') {
-        dateField = ', date_started = ?';
-        dateValue = new Date().toISOString();
-      } else if (newStatus === 'read') {
-        dateField = ', date_finished = ?';
-        dateValue = new Date().toISOString();
-      }
-
-      const query = `UPDATE enhanced_books SET reading_status = ?${dateField} WHERE id = ?`;
-      const params = dateValue 
-        ? [newStatus, dateValue, selectedBook.id]
-        : [newStatus, selectedBook.id];
-      // remove finished date if switching back to currently_reading or want_to_read
-      if (newStatus !== 'read') {
-        await execute('UPDATE enhanced_books SET date_finished = NULL WHERE id = ?', [selectedBook.id]);
-      }
-      await execute(query, params);
+      await BookRepository.setStatus(selectedBook.id, newStatus, stop);
       await loadBooks();
 
       // Show success message
-      const statusText = newStatus === 'want_to_read' ? 'Want to Read' : 
-                        newStatus === 'currently_reading' ? 'Currently Reading' : 'Read';
+      const statusText = t(`booksPage.status.${newStatus}`);
       
       Alert.alert('Status Updated', `"${selectedBook.name}" has been marked as ${statusText}.`);
     } catch (e) {
@@ -409,48 +379,21 @@ export default function HomeScreen() {
     }
   };
 
-  const handleDetailModalStatusChange = async (bookId: number, newStatus: BookStatus) => {
+  const handleDetailModalStatusChange = async (bookId: number, newStatus: BookStatus, stop?: CycleStop) => {
     setLoading(true);
     setError(null);
 
     try {
-      let dateField = '';
-      let dateValue = null;
-
-      // Set appropriate date fields based on status
-      if (newStatus === 'currently_reading') {
-        dateField = ', date_started = ?';
-        dateValue = new Date().toISOString();
-      } else if (newStatus === 'read') {
-        dateField = ', date_finished = ?';
-        dateValue = new Date().toISOString();
-      }
-
-      const query = `UPDATE enhanced_books SET reading_status = ?${dateField} WHERE id = ?`;
-      const params = dateValue 
-        ? [newStatus, dateValue, bookId]
-        : [newStatus, bookId];
-      
-      // remove finished date if switching back to currently_reading or want_to_read
-      if (newStatus !== 'read') {
-        await execute('UPDATE enhanced_books SET date_finished = NULL WHERE id = ?', [bookId]);
-      }
-      await execute(query, params);
+      const changes = await BookRepository.setStatus(bookId, newStatus, stop);
       await loadBooks();
 
       // Update the selected book for detail modal
       if (selectedBookForDetail && selectedBookForDetail.id === bookId) {
-        setSelectedBookForDetail({
-          ...selectedBookForDetail,
-          reading_status: newStatus,
-          date_started: newStatus === 'currently_reading' ? dateValue || selectedBookForDetail.date_started : selectedBookForDetail.date_started,
-          date_finished: newStatus === 'read' ? dateValue || selectedBookForDetail.date_finished : undefined,
-        });
+        setSelectedBookForDetail({ ...selectedBookForDetail, ...changes });
       }
 
       // Show success message
-      const statusText = newStatus === 'want_to_read' ? t('components.bookCard.wantToRead') : 
-                        newStatus === 'currently_reading' ? t('components.bookCard.currentlyReading') : t('components.bookCard.read');
+      const statusText = t(`booksPage.status.${newStatus}`);
 
       Alert.alert(t("booksPage.alert.statusUpdated"), t("booksPage.alert.bookStatusUpdated", { statusText }));
     } catch (e) {
@@ -505,6 +448,7 @@ export default function HomeScreen() {
       showStatusButton={true}
       showReadingTime={true}
       readingTimeMinutes={item.reading_time || 0}
+      readingSpeed={readingSpeeds.get(item.id)}
       onPress={() => openDetailModal(item)}
       onDelete={() => deleteBook(item.id, item.name)}
       onStatusChange={() => openStatusModal(item)}
@@ -551,6 +495,8 @@ export default function HomeScreen() {
           bookTitle={selectedBook?.name || ''}
           currentStatus={(selectedBook?.reading_status || 'currently_reading') as BookStatus}
           onStatusChange={handleStatusChange}
+          currentPage={selectedBook?.current_page || 0}
+          totalPages={selectedBook?.page || 0}
           onClose={closeStatusModal}
           fadeAnim={statusModalFadeAnim}
           scaleAnim={statusModalScaleAnim}
@@ -684,6 +630,13 @@ export default function HomeScreen() {
           />
         </View>
       </View>
+
+        <UndoToast
+          visible={undoToast !== null}
+          message={undoToast?.message ?? ''}
+          onUndo={undoDelete}
+          onDismiss={() => setUndoToast(null)}
+        />
       </View>
     </TouchableWithoutFeedback>
   );
@@ -5,8 +5,13 @@ import { Alert, Animated, FlatList, StyleSheet, Text, TextInput, TouchableOpacit
 import BookCard from '../../../components/BookCard';
 import BookDetailModal from '../../../components/BookDetailModal';
 import BookStatusModal, { BookStatus } from '../../../components/BookStatusModal';
-import { EnhancedBook, execute, queryAll } from '../../../db/db';
+import UndoToast from '../../../components/UndoToast';
+import { BookRepository, DnfStats } from '../../../db/bookRepository';
+import { CycleStop } from '../../../db/cycleRepository';
+import { EnhancedBook } from '../../../db/db';
+import { TrashRepository } from '../../../db/trashRepository';
 import { getBookReadingTime, initializeReadingSessions } from '../../../utils/readingProgress';
+import { BookReadingSpeed, getReadingSpeeds } from '../../../utils/readingSpeed';
 
 type SortOption = 'date_added' | 'title' | 'author' | 'reading_time' | 'progress';
 type SortDirection = 'asc' | 'desc';
@@ -15,6 +20,7 @@ export default function MyBooksScreen() {
   const { t } = useTranslation();
   
   const [books, setBooks] = useState<(EnhancedBook & { reading_time?: number })[]>([]);
+  const [readingSpeeds, setReadingSpeeds] = useState<Map<number, BookReadingSpeed | null>>(new Map());
   const [filteredBooks, setFilteredBooks] = useState<(EnhancedBook & { reading_time?: number })[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -30,6 +36,8 @@ export default function MyBooksScreen() {
   const [detailModalScaleAnim] = useState(new Animated.Value(0.8));
   const [selectedBookForDetail, setSelectedBookForDetail] = useState<(EnhancedBook & { reading_time?: number }) | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [undoToast, setUndoToast] = useState<{ message: string; trashId: number } | null>(null);
+  const [dnfStats, setDnfStats] = useState<DnfStats | null>(null);
 
   useFocusEffect(
     useCallback(() => {
@@ -43,15 +51,7 @@ export default function MyBooksScreen() {
     setLoading(true);
     try {
       // Get all books with reading progress data
-      const booksData = await queryAll<EnhancedBook>(`
-        SELECT * FROM enhanced_books 
-        ORDER BY 
-          CASE WHEN reading_status = 'currently_reading' THEN 1 
-               WHEN reading_status = 'want_to_read' THEN 2 
-               WHEN reading_status = 'read' THEN 3 
-               ELSE 4 END,
-          date_added DESC
-      `);
+      const booksData = await BookRepository.list();
       
       // Fetch reading time for each book
       const booksWithReadingTime = await Promise.all(
@@ -61,8 +61,13 @@ export default function MyBooksScreen() {
         })
       );
       
+      // Speeds for the finish estimates of the books being read, looked up once for the list
+      setReadingSpeeds(await getReadingSpeeds(
+        booksData.filter(book => book.reading_status === 'currently_reading').map(book => book.id)
+      ));
       setBooks(booksWithReadingTime);
       setFilteredBooks(booksWithReadingTime);
+      setDnfStats(await BookRepository.getDnfStats());
     } catch (e) {
       setError('Failed to load books');
       console.error('Load books error:', e);
@@ -72,66 +77,61 @@ export default function MyBooksScreen() {
   };
   
   const deleteBook = async (bookId: number, bookTitle: string) => {
+    const runDelete = async (keepSessions: boolean) => {
+      setLoading(true);
+      try {
+        if (keepSessions) {
+          // Archive the book so its sessions still count toward streaks and stats
+          await BookRepository.archive(bookId);
+        } else {
+          // Moves the book and its sessions to the trash; it can be restored from there
+          const trashId = await TrashRepository.trashBook(bookId);
+          setUndoToast({ message: t('booksPage.alert.movedToTrash', { title: bookTitle }), trashId });
+        }
+        await loadBooks();
+      } catch (e) {
+        setError(t('booksPage.alert.failedDelete'));
+        console.error('Delete book error:', e);
+      } finally {
+        setLoading(false);
+      }
+    };
+
     Alert.alert(
-      'Delete Book',
-      `Are you sure you want to delete "${bookTitle}"? This will also remove all reading session data for this book.`,
+      t('booksPage.alert.deleteTitle'),
+      t('booksPage.alert.deleteMessage', { title: bookTitle }),
       [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            setLoading(true);
-            try {
-              // Delete reading sessions first (foreign key constraint)
-              await execute('DELETE FROM reading_sessions WHERE book_id = ?', [bookId]);
-              // Delete the book
-              await execute('DELETE FROM enhanced_books WHERE id = ?', [bookId]);
-              await loadBooks();
-            } catch (e) {
-              setError('Failed to delete book');
-              console.error('Delete book error:', e);
-            } finally {
-              setLoading(false);
-            }
-          }
-        }
+        { text: t('booksPage.alert.cancel'), style: 'cancel' },
+        { text: t('booksPage.alert.keepHistory'), onPress: () => runDelete(true) },
+        { text: t('booksPage.alert.deleteWithSessions'), style: 'destructive', onPress: () => runDelete(false) }
       ]
     );
   };
-  const handleStatusChange = async (newStatus: BookStatus) => {
+
+  const undoDelete = async () => {
+    if (!undoToast) return;
+    const { trashId } = undoToast;
+    setUndoToast(null);
+    try {
+      await TrashRepository.restore(trashId);
+      await loadBooks();
+    } catch (e) {
+      console.error('Undo delete error:', e);
+      Alert.alert(t('booksPage.alert.restoreFailedTitle'), t('booksPage.alert.restoreFailed'));
+    }
+  };
+  const handleStatusChange = async (newStatus: BookStatus, stop?: CycleStop) => {
     if (!selectedBook) return;
 
     setLoading(true);
     setError(null);
 
     try {
-      let dateField = '';
-      let dateValue = null;
-
-      // Set appropriate date fields based on status
-      if (newStatus === 'currently_reading') {
-        dateField = ', date_started = ?';
-        dateValue = new Date().toISOString();
-      } else if (newStatus === 'read') {
-        dateField = ', date_finished = ?';
-        dateValue = new Date().toISOString();
-      }
-
-      const query = `UPDATE enhanced_books SET reading_status = ?${dateField} WHERE id = ?`;
-      const params = dateValue 
-        ? [newStatus, dateValue, selectedBook.id]
-        : [newStatus, selectedBook.id];
-      // remove finished date if switching back to currently_reading or want_to_read
-      if (newStatus !== 'read') {
-        await execute('UPDATE enhanced_books SET date_finished = NULL WHERE id = ?', [selectedBook.id]);
-      }
-      await execute(query, params);
+      await BookRepository.setStatus(selectedBook.id, newStatus, stop);
       await loadBooks();
 
       // Show success message
-      const statusText = newStatus === 'want_to_read' ? 'Want to Read' : 
-                        newStatus === 'currently_reading' ? 'Currently Reading' : 'Read';
+      const statusText = t(`booksPage.status.${newStatus}`);
       
       Alert.alert('Status Updated', `"${selectedBook.name}" has been marked as ${statusText}.`);
     } catch (e) {
@@ -143,48 +143,21 @@ export default function MyBooksScreen() {
     }
   };
 
-  const handleDetailModalStatusChange = async (bookId: number, newStatus: BookStatus) => {
+  const handleDetailModalStatusChange = async (bookId: number, newStatus: BookStatus, stop?: CycleStop) => {
     setLoading(true);
     setError(null);
 
     try {
-      let dateField = '';
-      let dateValue = null;
-
-      // Set appropriate date fields based on status
-      if (newStatus === 'currently_reading') {
-        dateField = ', date_started = ?';
-        dateValue = new Date().toISOString();
-      } else if (newStatus === 'read') {
-        dateField = ', date_finished = ?';
-        dateValue = new Date().toISOString();
-      }
-
-      const query = `UPDATE enhanced_books SET reading_status = ?${dateField} WHERE id = ?`;
-      const params = dateValue 
-        ? [newStatus, dateValue, bookId]
-        : [newStatus, bookId];
-      
-      // remove finished date if switching back to currently_reading or want_to_read
-      if (newStatus !== 'read') {
-        await execute('UPDATE enhanced_books SET date_finished = NULL WHERE id = ?', [bookId]);
-      }
-      await execute(query, params);
+      const changes = await BookRepository.setStatus(bookId, newStatus, stop);
       await loadBooks();
 
       // Update the selected book for detail modal
       if (selectedBookForDetail && selectedBookForDetail.id === bookId) {
-        setSelectedBookForDetail({
-          ...selectedBookForDetail,
-          reading_status: newStatus,
-          date_started: newStatus === 'currently_reading' ? dateValue || selectedBookForDetail.date_started : selectedBookForDetail.date_started,
-          date_finished: newStatus === 'read' ? dateValue || selectedBookForDetail.date_finished : undefined,
-        });
+        setSelectedBookForDetail({ ...selectedBookForDetail, ...changes });
       }
 
       // Show success message
-      const statusText = newStatus === 'want_to_read' ? 'Want to Read' : 
-                        newStatus === 'currently_reading' ? 'Currently Reading' : 'Read';
+      const statusText = t(`booksPage.status.${newStatus}`);
       
       Alert.alert('Status Updated', `Book status has been updated to ${statusText}.`);
     } catch (e) {
@@ -344,6 +317,7 @@ export default function MyBooksScreen() {
       showStatusButton={true}
       showReadingTime={true}
       readingTimeMinutes={item.reading_time || 0}
+      readingSpeed={readingSpeeds.get(item.id)}
       onPress={() => openDetailModal(item)}
       onDelete={() => deleteBook(item.id, item.name)}
       onStatusChange={() => openStatusModal(item)}
@@ -361,6 +335,8 @@ export default function MyBooksScreen() {
         bookTitle={selectedBook?.name || ''}
         currentStatus={(selectedBook?.reading_status || 'currently_reading') as BookStatus}
         onStatusChange={handleStatusChange}
+        currentPage={selectedBook?.current_page || 0}
+        totalPages={selectedBook?.page || 0}
         onClose={() => {
           Animated.parallel([
             Animated.timing(statusModalFadeAnim, {
@@ -470,6 +446,36 @@ export default function MyBooksScreen() {
                 Read ({getStatusCount('read')})
               </Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.filterBtn,
+                filterStatus === 'paused' && styles.filterBtnActive
+              ]}
+              onPress={() => setFilterStatus('paused')}
+            >
+              <Text style={[
+                styles.filterBtnText,
+                filterStatus === 'paused' && styles.filterBtnTextActive
+              ]}>
+                Paused ({getStatusCount('paused')})
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.filterBtn,
+                filterStatus === 'dnf' && styles.filterBtnActive
+              ]}
+              onPress={() => setFilterStatus('dnf')}
+            >
+              <Text style={[
+                styles.filterBtnText,
+                filterStatus === 'dnf' && styles.filterBtnTextActive
+              ]}>
+                DNF ({getStatusCount('dnf')})
+              </Text>
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -516,6 +522,14 @@ export default function MyBooksScreen() {
             {filteredBooks.length} {filteredBooks.length === 1 ? 'book' : 'books'}
             {searchQuery ? ` matching "${searchQuery}"` : ''}
           </Text>
+          {dnfStats && dnfStats.dnf > 0 && (
+            <Text style={styles.dnfStatsText}>
+              {t('booksPage.dnfStats', {
+                rate: Math.round(dnfStats.dnfRate * 100),
+                pages: dnfStats.dnfPages
+              })}
+            </Text>
+          )}
         </View>
 
         <FlatList
@@ -550,6 +564,13 @@ export default function MyBooksScreen() {
           <Text style={styles.errorText}>{error}</Text>
         </View>
       )}
+
+      <UndoToast
+        visible={undoToast !== null}
+        message={undoToast?.message ?? ''}
+        onUndo={undoDelete}
+        onDismiss={() => setUndoToast(null)}
+      />
     </View>
   );
 }
@@ -682,6 +703,11 @@ const styles = StyleSheet.create({
     color: '#64748B',
     fontWeight: '500',
   },
+  dnfStatsText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 4,
+  },
   list: {
     flex: 1,
     paddingHorizontal: 20,
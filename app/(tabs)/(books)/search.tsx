@@ -16,7 +16,7 @@ import {
   View,
 } from 'react-native';
 import BookStatusModal, { BookStatus } from '../../../components/BookStatusModal';
-import { execute } from '../../../db/db';
+import { BookRepository } from '../../../db/bookRepository';
 import { OpenLibraryService, SearchBookResult } from '../../../services/openLibrary';
 
 export default function BookSearchScreen() {
@@ -125,49 +125,22 @@ export default function BookSearchScreen() {
     try {
       const subjects = selectedBook.subjects ? JSON.stringify(selectedBook.subjects) : null;
       
-      let dateField = '';
-      let dateValue = null;
-
-      // Set appropriate date fields based on status
-      if (status === 'currently_reading') {
-        dateField = ', date_started';
-        dateValue = new Date().toISOString();
-      } else if (status === 'read') {
-        dateField = ', date_finished';
-        dateValue = new Date().toISOString();
-      }
-
-      const query = `
-        INSERT INTO enhanced_books (
-          name, author, page, isbn, cover_id, cover_url,
-          first_publish_year, publisher, language, subjects,
-          open_library_key, author_key, rating, reading_status, date_added${dateField}
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?${dateValue ? ', ?' : ''})
-      `;
-
-      const params = [
-        selectedBook.title,
-        selectedBook.authors.join(', '),
-        selectedBook.pageCount || 0,
-        selectedBook.isbn || null,
-        selectedBook.coverId || null,
-        selectedBook.coverUrl || null,
-        selectedBook.firstPublishYear || null,
-        selectedBook.publisher || null,
-        selectedBook.language || 'eng',
+      await BookRepository.create({
+        name: selectedBook.title,
+        author: selectedBook.authors.join(', '),
+        page: selectedBook.pageCount || 0,
+        isbn: selectedBook.isbn || null,
+        cover_id: selectedBook.coverId || null,
+        cover_url: selectedBook.coverUrl || null,
+        first_publish_year: selectedBook.firstPublishYear || null,
+        publisher: selectedBook.publisher || null,
+        language: selectedBook.language || 'eng',
         subjects,
-        selectedBook.key,
-        null, // author_key - would need additional processing
-        selectedBook.rating || null,
-        status,
-        new Date().toISOString(),
-      ];
-
-      if (dateValue) {
-        params.push(dateValue);
-      }
-      
-      await execute(query, params);
+        open_library_key: selectedBook.key,
+        author_key: null, // would need additional processing
+        rating: selectedBook.rating || null,
+        reading_status: status,
+      });
       
       const statusText = t(`booksPage.search.statusLabels.${status}`);
       
@@ -410,6 +383,7 @@ export default function BookSearchScreen() {
           currentStatus="currently_reading"
           onStatusChange={handleStatusChange}
           onClose={closeStatusModal}
+          allowStop={false}
           fadeAnim={statusModalFadeAnim}
           scaleAnim={statusModalScaleAnim}
         />
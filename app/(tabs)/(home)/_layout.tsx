@@ -1,4 +1,5 @@
-import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Link, Stack } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 
 export default function HomeLayout() {
@@ -20,6 +21,11 @@ export default function HomeLayout() {
         name="index"
         options={{
           title: t('navigation.home'),
+          headerRight: () => (
+            <Link href="/global-search" accessibilityLabel={t('globalSearch.title')}>
+              <Ionicons name="search" size={22} color="#FFFFFF" />
+            </Link>
+          ),
         }}
       />
   
@@ -29,6 +35,18 @@ export default function HomeLayout() {
         title: t('components.readingLogs.title'),
       }}
     />
+    <Stack.Screen
+      name="global-search"
+      options={{
+        title: t('globalSearch.title'),
+      }}
+    />
+    <Stack.Screen
+      name="yearly-challenge"
+      options={{
+        title: t('yearlyChallenge.title'),
+      }}
+    />
     </Stack>
   );
 }
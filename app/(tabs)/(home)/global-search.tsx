@@ -0,0 +1,312 @@
+import { useRouter } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Animated,
+  SectionList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import BookDetailModal from '../../../components/BookDetailModal';
+import { BookStatus } from '../../../components/BookStatusModal';
+import HighlightedText from '../../../components/HighlightedText';
+import { BookRepository } from '../../../db/bookRepository';
+import { CycleStop } from '../../../db/cycleRepository';
+import { EnhancedBook } from '../../../db/db';
+import { BookSearchResult, SearchRepository, SessionSearchResult } from '../../../db/searchRepository';
+import { useLiveData } from '../../../hooks/useLiveQuery';
+import { localDateStringToDate } from '../../../utils/dateUtils';
+import { getBookReadingTime } from '../../../utils/readingProgress';
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 250;
+
+type SearchSection =
+  | { key: 'books'; title: string; data: BookSearchResult[] }
+  | { key: 'sessions'; title: string; data: SessionSearchResult[] };
+
+export default function GlobalSearchScreen() {
+  const router = useRouter();
+  const { t, i18n } = useTranslation();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [detailModalVisible, setDetailModalVisible] = useState(false);
+  const [detailModalFadeAnim] = useState(new Animated.Value(0));
+  const [detailModalScaleAnim] = useState(new Animated.Value(0.8));
+  const [selectedBook, setSelectedBook] = useState<(EnhancedBook & { reading_time?: number }) | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Results follow edits to books and sessions made while the screen is open
+  const loadResults = useCallback(() => SearchRepository.search(debouncedQuery), [debouncedQuery]);
+  const { data: results, loading } = useLiveData(loadResults, ['enhanced_books', 'reading_sessions']);
+
+  const sections: SearchSection[] = [];
+  if (results?.books.length) {
+    sections.push({ key: 'books', title: t('globalSearch.books', { count: results.books.length }), data: results.books });
+  }
+  if (results?.sessions.length) {
+    sections.push({ key: 'sessions', title: t('globalSearch.sessions', { count: results.sessions.length }), data: results.sessions });
+  }
+
+  const openBook = async (book: BookSearchResult) => {
+    const readingTime = await getBookReadingTime(book.id);
+    setSelectedBook({ ...book, reading_time: readingTime });
+    setDetailModalVisible(true);
+    Animated.parallel([
+      Animated.timing(detailModalFadeAnim, {
+        toValue: 1,
+        duration: 300,
+        useNativeDriver: true,
+      }),
+      Animated.spring(detailModalScaleAnim, {
+        toValue: 1,
+        tension: 50,
+        friction: 7,
+        useNativeDriver: true,
+      }),
+    ]).start();
+  };
+
+  const closeBook = () => {
+    Animated.parallel([
+      Animated.timing(detailModalFadeAnim, {
+        toValue: 0,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.timing(detailModalScaleAnim, {
+        toValue: 0.8,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setDetailModalVisible(false);
+      setSelectedBook(null);
+    });
+  };
+
+  const handleStatusChange = async (bookId: number, status: BookStatus, stop?: CycleStop) => {
+    try {
+      const changes = await BookRepository.setStatus(bookId, status, stop);
+      if (selectedBook && selectedBook.id === bookId) {
+        setSelectedBook({ ...selectedBook, ...changes });
+      }
+    } catch (error) {
+      console.error('Update status error:', error);
+      Alert.alert(t('globalSearch.errorTitle'), t('globalSearch.statusUpdateFailed'));
+    }
+  };
+
+  const openSessionWeek = (session: SessionSearchResult) => {
+    router.push({ pathname: '/readinglogs', params: { date: session.date } });
+  };
+
+  const formatSessionDate = (dateString: string) => {
+    return localDateStringToDate(dateString).toLocaleDateString(i18n.language, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const renderBook = (book: BookSearchResult) => (
+    <TouchableOpacity style={styles.resultCard} onPress={() => openBook(book)}>
+      <Text style={styles.resultTitle} numberOfLines={1}>{book.name}</Text>
+      <Text style={styles.resultSubtitle} numberOfLines={1}>{book.author}</Text>
+      <HighlightedText text={book.snippet} style={styles.snippet} numberOfLines={3} />
+    </TouchableOpacity>
+  );
+
+  const renderSession = (session: SessionSearchResult) => (
+    <TouchableOpacity style={styles.resultCard} onPress={() => openSessionWeek(session)}>
+      <View style={styles.sessionHeader}>
+        <Text style={[styles.resultTitle, styles.sessionBook]} numberOfLines={1}>{session.book_name}</Text>
+        <Text style={styles.sessionMeta}>
+          {formatSessionDate(session.date)} · {t('globalSearch.minutes', { count: session.minutes_read })}
+        </Text>
+      </View>
+      <HighlightedText text={session.snippet} style={styles.snippet} numberOfLines={3} />
+      <Text style={styles.linkText}>{t('globalSearch.openWeek')}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (loading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#6C63FF" />
+        </View>
+      );
+    }
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyIcon}>🔎</Text>
+        <Text style={styles.emptyTitle}>
+          {debouncedQuery ? t('globalSearch.noResults') : t('globalSearch.hintTitle')}
+        </Text>
+        <Text style={styles.emptySubtitle}>
+          {debouncedQuery ? t('globalSearch.noResultsMessage') : t('globalSearch.hintMessage')}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <BookDetailModal
+        visible={detailModalVisible}
+        book={selectedBook}
+        readingTimeMinutes={selectedBook?.reading_time || 0}
+        onClose={closeBook}
+        onStatusChange={handleStatusChange}
+        fadeAnim={detailModalFadeAnim}
+        scaleAnim={detailModalScaleAnim}
+      />
+
+      <View style={styles.searchContainer}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder={t('globalSearch.placeholder')}
+          placeholderTextColor="#9CA3AF"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <SectionList<BookSearchResult | SessionSearchResult, SearchSection>
+        sections={sections}
+        keyExtractor={(item, index) => `${item.id}-${index}`}
+        renderItem={({ item, section }) =>
+          section.key === 'books'
+            ? renderBook(item as BookSearchResult)
+            : renderSession(item as SessionSearchResult)
+        }
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        stickySectionHeadersEnabled={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  searchInput: {
+    height: 48,
+    borderColor: '#E2E8F0',
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#F8FAFC',
+    fontSize: 16,
+    color: '#1E293B',
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#64748B',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  resultCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  resultSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sessionBook: {
+    flex: 1,
+    marginRight: 8,
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6C63FF',
+    marginTop: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#64748B',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#94A3B8',
+    textAlign: 'center',
+    maxWidth: 280,
+  },
+});
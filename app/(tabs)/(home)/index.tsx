@@ -14,9 +14,20 @@ import {
 
 import BookCard from '../../../components/BookCard';
 import DailyProgressCard from '../../../components/DailyProgressCard';
+import GoalPlanReviewModal from '../../../components/GoalPlanReviewModal';
+import ReadingPlanCard from '../../../components/ReadingPlanCard';
 import ReadingTimeLogger from '../../../components/ReadingTimeLogger';
-import { EnhancedBook, queryAll, queryFirst } from '../../../db/db';
-import { getReadingStreak, getTodayReadingMinutes, initializeReadingSessions } from '../../../utils/readingProgress';
+import ReadingTimerCard from '../../../components/ReadingTimerCard';
+import YearlyChallengeCard from '../../../components/YearlyChallengeCard';
+import { BookRepository } from '../../../db/bookRepository';
+import { EnhancedBook, queryAll } from '../../../db/db';
+import { PreferencesRepository } from '../../../db/preferencesRepository';
+import { ReadingTimerWithBook } from '../../../db/timerRepository';
+import { useTableChanges } from '../../../hooks/useLiveQuery';
+import { GoalMode } from '../../../types/database';
+import { isGoalPlanFinished } from '../../../utils/goalPlan';
+import { getReadingGoalProgress, ReadingGoalProgress } from '../../../utils/readingGoal';
+import { getReadingStreak, initializeReadingSessions } from '../../../utils/readingProgress';
 
 type UserPreferences = {
   id: number;
@@ -26,6 +37,8 @@ type UserPreferences = {
   created_at?: string;
   updated_at?: string;
   current_reading_rate_minutes_per_day?: number;
+  end_reading_rate_goal_date?: string;
+  goal_mode?: GoalMode;
 };
 
 type ReadingSession = {
@@ -42,7 +55,9 @@ export default function HomeScreen() {
   const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
   const [loading, setLoading] = useState(false);
   const [showReadingLogger, setShowReadingLogger] = useState(false);
-  const [todayMinutes, setTodayMinutes] = useState(0);
+  const [showPlanReview, setShowPlanReview] = useState(false);
+  const [stoppedTimer, setStoppedTimer] = useState<ReadingTimerWithBook | null>(null);
+  const [goalProgress, setGoalProgress] = useState<ReadingGoalProgress | null>(null);
   const [readingStreak, setReadingStreak] = useState(0);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
@@ -58,6 +73,12 @@ export default function HomeScreen() {
     }, [])
   );
 
+  // Keep the progress card, streak and books current after writes from modals or backup imports
+  useTableChanges(['reading_sessions', 'enhanced_books', 'reading_cycles', 'user_preferences', 'streak_days'], () => {
+    loadData();
+    setRefreshTrigger(prev => prev + 1);
+  });
+
   const initializeApp = async () => {
     await initializeReadingSessions();
     loadData();
@@ -67,7 +88,7 @@ export default function HomeScreen() {
     setLoading(true);
     try {
       // Load user preferences
-      const user = await queryFirst<UserPreferences>('SELECT * FROM user_preferences WHERE id = 1');
+      const user = await PreferencesRepository.get();
       setUserPreferences(user);
 
       // Load today's reading progress
@@ -78,7 +99,7 @@ export default function HomeScreen() {
 
       // Load books - try enhanced books first, fallback to regular books
       try {
-        const enhancedBooks = await queryAll<EnhancedBook>('SELECT * FROM enhanced_books ORDER BY date_added DESC');
+        const enhancedBooks = await BookRepository.listRecent();
         setBooks(enhancedBooks);
       } catch (e) {
         // Fallback to regular books table
@@ -105,41 +126,17 @@ export default function HomeScreen() {
 
   const loadTodayProgress = async () => {
     try {
-      const minutes = await getTodayReadingMinutes();
-      setTodayMinutes(minutes);
+      setGoalProgress(await getReadingGoalProgress());
     } catch (e) {
       console.error('Error loading today progress:', e);
-      setTodayMinutes(0);
+      setGoalProgress(null);
     }
   };
 
   const loadReadingStreak = async () => {
     try {
-      // Get the user's daily goal with fallback for missing columns
-      let user;
-      let dailyGoal = 30; // Default fallback
-      
-      try {
-        user = await queryFirst<UserPreferences>('SELECT current_reading_rate_minutes_per_day FROM user_preferences WHERE id = 1');
-        dailyGoal = user?.current_reading_rate_minutes_per_day || 30;
-      } catch (columnError) {
-        // If the column doesn't exist, fall back to basic user check
-        console.log('📝 current_reading_rate_minutes_per_day column not found, using default goal');
-        try {
-          const basicUser = await queryFirst<UserPreferences>('SELECT id FROM user_preferences WHERE id = 1');
-          if (!basicUser) {
-            // No user exists yet
-            setReadingStreak(0);
-            return;
-          }
-        } catch (error) {
-          console.log('📝 user_preferences table not found, using default streak');
-          setReadingStreak(0);
-          return;
-        }
-      }
-
-      const streak = await getReadingStreak(dailyGoal);
+      const goal = await PreferencesRepository.getReadingGoal();
+      const streak = await getReadingStreak(goal.amount, goal.unit);
       setReadingStreak(streak);
     } catch (e) {
       console.error('Error calculating reading streak:', e);
@@ -151,21 +148,11 @@ export default function HomeScreen() {
   const booksRead = books.filter(book => book.reading_status === 'read').length;
   const currentlyReading = books.filter(book => book.reading_status === 'currently_reading').length;
   const wantToRead = books.filter(book => book.reading_status === 'want_to_read').length;
-  const yearlyGoal = userPreferences?.yearly_book_goal || 0;
-  const progressPercentage = yearlyGoal > 0 ? Math.min((booksRead / yearlyGoal) * 100, 100) : 0;
 
   const renderBook = ({ item }: { item: EnhancedBook }) => (
     <BookCard book={item} compact={true} refreshTrigger={refreshTrigger} />
   );
 
-  const handleReadingLoggerSuccess = () => {
-    loadTodayProgress();
-    loadReadingStreak();
-    // Refresh books data to trigger BookCard re-renders with updated progress
-    loadData();
-    // Increment refresh trigger to force BookCard re-renders
-    setRefreshTrigger(prev => prev + 1);
-  };
   const topPart = () => 
      (
 
@@ -187,9 +174,30 @@ export default function HomeScreen() {
 
         {/* Daily Reading Progress Card */}
         <DailyProgressCard
-          todayMinutes={todayMinutes}
-          goalMinutes={userPreferences?.current_reading_rate_minutes_per_day || 30}
+          progress={goalProgress?.progress ?? 0}
+          goal={goalProgress?.amount ?? (userPreferences?.current_reading_rate_minutes_per_day || 30)}
+          unit={goalProgress?.unit ?? 'minutes'}
           streakDays={readingStreak}
+          sessionsWithoutPages={goalProgress?.sessionsWithoutPages}
+        />
+
+        {/* The reading goal plan is over and waits for a choice */}
+        {userPreferences && isGoalPlanFinished(userPreferences) && (
+          <TouchableOpacity style={styles.planEndedBanner} onPress={() => setShowPlanReview(true)}>
+            <Text style={styles.planEndedTitle}>{t('home.goalPlanEnded')}</Text>
+            <Text style={styles.planEndedText}>{t('home.goalPlanEndedAction')}</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Finish-by-date plans */}
+        <ReadingPlanCard />
+
+        {/* Running Reading Timer */}
+        <ReadingTimerCard
+          onStop={(timer) => {
+            setStoppedTimer(timer);
+            setShowReadingLogger(true);
+          }}
         />
 
         {/* Log Reading Time Button */}
@@ -230,28 +238,12 @@ export default function HomeScreen() {
                 <Text style={styles.statLabel}>{t('home.wantToRead')}</Text>
               </View>
             </View>
-
-            {yearlyGoal > 0 && (
-              <View style={styles.progressBarContainer}>
-                <View style={styles.progressBarBackground}>
-                  <View
-                    style={[
-                      styles.progressBarFill,
-                      { width: `${progressPercentage}%` }
-                    ]}
-                  />
-                </View>
-                <Text style={styles.progressText}>
-                  {booksRead >= yearlyGoal
-                    ? t('home.goalAchieved')
-                    : t('home.goalProgress', { remaining: yearlyGoal - booksRead, goal: yearlyGoal })
-                  }
-                </Text>
-              </View>
-            )}
           </View>
         </View>
 
+        {/* Yearly book goal against its pace */}
+        <YearlyChallengeCard />
+
         {/* Recent Books Section */}
         <View style={styles.listSection}>
           <View style={styles.sectionHeader}>
@@ -291,11 +283,19 @@ export default function HomeScreen() {
         style={styles.list}
         showsVerticalScrollIndicator={false}
       />
+      <GoalPlanReviewModal
+        visible={showPlanReview}
+        onClose={() => setShowPlanReview(false)}
+      />
+
       {/* Reading Time Logger Modal */}
       <ReadingTimeLogger
         visible={showReadingLogger}
-        onClose={() => setShowReadingLogger(false)}
-        onSuccess={handleReadingLoggerSuccess}
+        timer={stoppedTimer}
+        onClose={() => {
+          setShowReadingLogger(false);
+          setStoppedTimer(null);
+        }}
       />
     </View>
   );
@@ -378,26 +378,6 @@ const styles = StyleSheet.create({
     height: 40,
     backgroundColor: '#E2E8F0',
   },
-  progressBarContainer: {
-    gap: 8,
-  },
-  progressBarBackground: {
-    height: 8,
-    backgroundColor: '#E2E8F0',
-    borderRadius: 4,
-    overflow: 'hidden',
-  },
-  progressBarFill: {
-    height: '100%',
-    backgroundColor: '#6C63FF',
-    borderRadius: 4,
-  },
-  progressText: {
-    fontSize: 14,
-    color: '#64748B',
-    textAlign: 'center',
-    fontWeight: '500',
-  },
   listSection: {
     flex: 1,
     marginTop: 24,
@@ -464,6 +444,26 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 16,
   },
+  planEndedBanner: {
+    backgroundColor: '#EEF2FF',
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#C7D2FE',
+  },
+  planEndedTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  planEndedText: {
+    fontSize: 14,
+    color: '#6C63FF',
+    fontWeight: '600',
+    marginTop: 4,
+  },
   logTimeButton: {
     backgroundColor: '#6C63FF',
     paddingVertical: 16,
@@ -1,6 +1,7 @@
 
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams } from 'expo-router';
 import { useCallback, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
@@ -15,11 +16,20 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
+import PageRangeInput from '../../../components/PageRangeInput';
+import SessionDatePicker from '../../../components/SessionDatePicker';
+import UndoToast from '../../../components/UndoToast';
 import WeeklyStatsView from '../../../components/WeeklyStatsView';
-import { EnhancedBook, execute, queryAll, ReadingSession } from '../../../db/db';
-import { dateToLocalDateString, getTodayDateString } from '../../../utils/dateUtils';
+import { BookRepository } from '../../../db/bookRepository';
+import { EnhancedBook, execute } from '../../../db/db';
+import { SessionRepository, SessionUpdate, SessionWithBook } from '../../../db/sessionRepository';
+import { TrashRepository } from '../../../db/trashRepository';
+import NotificationService from '../../../services/notificationService';
+import { useTableChanges } from '../../../hooks/useLiveQuery';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate, parseTimestamp } from '../../../utils/dateUtils';
 import { isDevModeEnabled } from '../../../utils/devMode';
-import { getEnhancedBookProgress, syncBookCurrentPageFromSessions } from '../../../utils/readingProgress';
+import { findOverlaps, formatPageRanges, getPageRangeProblem, PageRange, parsePageRange } from '../../../utils/pageRanges';
+import { getEnhancedBookProgress } from '../../../utils/readingProgress';
 interface WeekDay {
   date: string;
   day: string;
@@ -29,25 +39,27 @@ interface WeekDay {
   totalMinutes: number;
 }
 
-interface SessionWithBook extends ReadingSession {
-  book_name: string;
-  book_author: string;
-}
-
 interface EditSessionModalProps {
   visible: boolean;
   session: SessionWithBook | null;
   onClose: () => void;
-  onSave: (sessionId: number, minutes: number, notes: string, pages?: number) => void;
+  onSave: (sessionId: number, minutes: number, notes: string, pages: SessionPages, date: string) => void;
   onDelete: (sessionId: number) => void;
 }
 
+// Pages of an edited session: a range, or a plain count for sessions logged before ranges
+type SessionPages = Pick<SessionUpdate, 'pages' | 'startPage' | 'endPage'>;
+
 const { width: screenWidth } = Dimensions.get('window');
 
 function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditSessionModalProps) {
   const [minutes, setMinutes] = useState('');
   const [pages, setPages] = useState('');
+  const [startPage, setStartPage] = useState('');
+  const [endPage, setEndPage] = useState('');
+  const [readRanges, setReadRanges] = useState<PageRange[]>([]); // Pages read in the book's other sessions
   const [notes, setNotes] = useState('');
+  const [date, setDate] = useState(getTodayDateString());
   const [loading, setLoading] = useState(false);
   const [bookData, setBookData] = useState<EnhancedBook | null>(null);
   const [remainingPages, setRemainingPages] = useState<number>(0);
@@ -57,12 +69,9 @@ function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditS
     const loadBookData = async () => {
       if (session) {
         try {
-          const books = await queryAll<EnhancedBook>(
-            'SELECT * FROM enhanced_books WHERE id = ?',
-            [session.book_id]
-          );
-          if (books.length > 0) {
-            setBookData(books[0]);
+          const book = await BookRepository.getById(session.book_id);
+          if (book) {
+            setBookData(book);
           }
         } catch (error) {
           console.error('Error loading book data:', error);
@@ -73,11 +82,16 @@ function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditS
     if (session) {
       setMinutes(session.minutes_read.toString());
       setPages(session.pages_read ? session.pages_read.toString() : '');
+      setStartPage(session.start_page?.toString() ?? '');
+      setEndPage(session.end_page?.toString() ?? '');
       setNotes(session.notes || '');
+      setDate(session.date);
       loadBookData();
     } else {
       setMinutes('');
       setPages('');
+      setStartPage('');
+      setEndPage('');
       setNotes('');
       setBookData(null);
     }
@@ -95,6 +109,7 @@ function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditS
       // Add back the pages from the current session being edited, since we can modify them
       const sessionPages = session.pages_read || 0;
       setRemainingPages(Math.max(0, remaining + sessionPages));
+      setReadRanges(await SessionRepository.getPageRangesForBook(bookData.id, { excludeSessionId: session.id }));
     } catch (error) {
       console.error('Error calculating remaining pages:', error);
       const sessionPages = session.pages_read || 0;
@@ -108,12 +123,55 @@ function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditS
     }
   }, [bookData]);
 
+  // Sessions logged as a plain page count keep it; everything else is edited as a range
+  const usesPageRange = !!session && (session.start_page != null || !session.pages_read);
+
   const handleSave = async () => {
     if (!session || !minutes.trim() || isNaN(Number(minutes)) || Number(minutes) <= 0) {
       Alert.alert(t('components.readingLogsEditModal.invalidInput'), t('components.readingLogsEditModal.enterValidMinutes'));
       return;
     }
 
+    if (date > getTodayDateString()) {
+      Alert.alert(t('components.readingLogsEditModal.invalidInput'), t('components.readingTimeLogger.dateInFuture'));
+      return;
+    }
+
+    if (usesPageRange) {
+      const pageRange = parsePageRange(startPage, endPage);
+      if (pageRange === 'invalid') {
+        Alert.alert(t('components.readingLogsEditModal.invalidInput'), t('components.readingTimeLogger.enterValidPages'));
+        return;
+      }
+      const pageRangeProblem = pageRange && bookData ? getPageRangeProblem(pageRange, bookData.page) : null;
+      if (pageRangeProblem === 'backward') {
+        Alert.alert(t('components.readingLogsEditModal.invalidInput'), t('components.pageRangeInput.backwardWarning'));
+        return;
+      }
+      if (pageRangeProblem === 'beyondBook') {
+        Alert.alert(
+          t('components.readingTimeLogger.tooManyPages'),
+          t('components.pageRangeInput.beyondBookWarning', { bookName: bookData?.name || 'Unknown Book', total: bookData?.page })
+        );
+        return;
+      }
+
+      const overlaps = pageRange ? findOverlaps(pageRange, readRanges) : [];
+      if (overlaps.length > 0) {
+        Alert.alert(
+          t('components.pageRangeInput.overlapTitle'),
+          t('components.pageRangeInput.overlapMessage', { pages: formatPageRanges(overlaps) }),
+          [
+            { text: t('components.pageRangeInput.cancel'), style: 'cancel' },
+            { text: t('components.pageRangeInput.logAnyway'), onPress: () => saveSession(pageRange) }
+          ]
+        );
+        return;
+      }
+      await saveSession(pageRange);
+      return;
+    }
+
     // Validate pages if provided
     if (pages.trim() && (isNaN(Number(pages)) || Number(pages) <= 0)) {
       Alert.alert(t('components.readingLogsEditModal.invalidInput'), t('components.readingTimeLogger.enterValidPages'));
@@ -133,10 +191,18 @@ function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditS
       return;
     }
 
+    await saveSession(null);
+  };
+
+  const saveSession = async (pageRange: PageRange | null) => {
+    if (!session) return;
+
     setLoading(true);
     try {
-      const pagesValue = pages.trim() ? Number(pages) : undefined;
-      await onSave(session.id, Number(minutes), notes.trim(), pagesValue);
+      const sessionPages: SessionPages = pageRange
+        ? { startPage: pageRange.start, endPage: pageRange.end }
+        : { pages: pages.trim() && !usesPageRange ? Number(pages) : undefined };
+      await onSave(session.id, Number(minutes), notes.trim(), sessionPages, date);
       onClose();
     } catch (error) {
       Alert.alert(t('components.readingLogsEditModal.updateError'), t('components.readingLogsEditModal.updateErrorMessage'));
@@ -191,6 +257,11 @@ function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditS
             </View>
           </View>
 
+          <View style={styles.modalSection}>
+            <Text style={styles.modalSectionTitle}>{t('components.readingLogsEditModal.dateLabel')}</Text>
+            <SessionDatePicker date={date} onChange={setDate} />
+          </View>
+
           <View style={styles.modalSection}>
             <Text style={styles.modalSectionTitle}>{t('components.readingLogsEditModal.readingTimeLabel')}</Text>
             <TextInput
@@ -216,59 +287,75 @@ function EditSessionModal({ visible, session, onClose, onSave, onDelete }: EditS
               </Text>
             )}
             
-            {bookData && (
-              <View style={styles.remainingPagesInfo}>
-                <Text style={styles.remainingPagesText}>
-                  {(session.pages_read || 0) > 0 
-                    ? t('components.readingTimeLogger.remainingPagesForEdit', { 
-                        remaining: remainingPages, 
-                        total: bookData.page,
-                        current: session.pages_read || 0
-                      })
-                    : t('components.readingTimeLogger.remainingPages', { 
-                        remaining: remainingPages, 
-                        total: bookData.page 
-                      })
-                  }
-                </Text>
-              </View>
-            )}
+            {usesPageRange ? (
+              bookData && (
+                <PageRangeInput
+                  startPage={startPage}
+                  endPage={endPage}
+                  onChangeStartPage={setStartPage}
+                  onChangeEndPage={setEndPage}
+                  bookName={bookData.name}
+                  totalPages={bookData.page}
+                  readRanges={readRanges}
+                />
+              )
+            ) : (
+              <>
+                {bookData && (
+                  <View style={styles.remainingPagesInfo}>
+                    <Text style={styles.remainingPagesText}>
+                      {(session.pages_read || 0) > 0 
+                        ? t('components.readingTimeLogger.remainingPagesForEdit', { 
+                            remaining: remainingPages, 
+                            total: bookData.page,
+                            current: session.pages_read || 0
+                          })
+                        : t('components.readingTimeLogger.remainingPages', { 
+                            remaining: remainingPages, 
+                            total: bookData.page 
+                          })
+                      }
+                    </Text>
+                  </View>
+                )}
             
-            <TextInput
-              style={styles.modalInput}
-              value={pages}
-              onChangeText={setPages}
-              keyboardType="numeric"
-              placeholder={bookData ? t('components.readingTimeLogger.enterPagesPlaceholder', { max: remainingPages }) : t('components.readingTimeLogger.selectBookFirst')}
-              editable={!!bookData && remainingPages > 0}
-            />
+                <TextInput
+                  style={styles.modalInput}
+                  value={pages}
+                  onChangeText={setPages}
+                  keyboardType="numeric"
+                  placeholder={bookData ? t('components.readingTimeLogger.enterPagesPlaceholder', { max: remainingPages }) : t('components.readingTimeLogger.selectBookFirst')}
+                  editable={!!bookData && remainingPages > 0}
+                />
             
-            {bookData && pages.trim() && !isNaN(Number(pages)) && Number(pages) > 0 && Number(pages) <= remainingPages && (
-              <View style={styles.progressPreview}>
-                <Text style={styles.progressPreviewText}>
-                  {(session.pages_read || 0) > 0 
-                    ? t('components.readingTimeLogger.progressPreviewForEdit', { 
-                        pages: Number(pages),
-                        oldPages: session.pages_read || 0,
-                        bookName: bookData.name,
-                        total: bookData.page 
-                      })
-                    : t('components.readingTimeLogger.progressPreview', { 
-                        pages: Number(pages), 
-                        bookName: bookData.name, 
-                        total: bookData.page 
-                      })
-                  }
-                </Text>
-              </View>
-            )}
+                {bookData && pages.trim() && !isNaN(Number(pages)) && Number(pages) > 0 && Number(pages) <= remainingPages && (
+                  <View style={styles.progressPreview}>
+                    <Text style={styles.progressPreviewText}>
+                      {(session.pages_read || 0) > 0 
+                        ? t('components.readingTimeLogger.progressPreviewForEdit', { 
+                            pages: Number(pages),
+                            oldPages: session.pages_read || 0,
+                            bookName: bookData.name,
+                            total: bookData.page 
+                          })
+                        : t('components.readingTimeLogger.progressPreview', { 
+                            pages: Number(pages), 
+                            bookName: bookData.name, 
+                            total: bookData.page 
+                          })
+                      }
+                    </Text>
+                  </View>
+                )}
 
-            {pages.trim() && Number(pages) > remainingPages && (
-              <View style={styles.warningContainer}>
-                <Text style={styles.warningText}>
-                  {t('components.readingTimeLogger.tooManyPagesWarning', { remaining: remainingPages })}
-                </Text>
-              </View>
+                {pages.trim() && Number(pages) > remainingPages && (
+                  <View style={styles.warningContainer}>
+                    <Text style={styles.warningText}>
+                      {t('components.readingTimeLogger.tooManyPagesWarning', { remaining: remainingPages })}
+                    </Text>
+                  </View>
+                )}
+              </>
             )}
           </View>
 
@@ -303,11 +390,7 @@ const generateRandomReadingData = async (): Promise<void> => {
     }
 
     // Get currently reading books
-    const currentlyReadingBooks = await queryAll<EnhancedBook>(
-      `SELECT * FROM enhanced_books 
-       WHERE reading_status = 'currently_reading' 
-       ORDER BY date_started DESC, date_added DESC`
-    );
+    const currentlyReadingBooks = await BookRepository.listCurrentlyReading();
 
     if (currentlyReadingBooks.length === 0) {
       Alert.alert(
@@ -343,12 +426,15 @@ const generateRandomReadingData = async (): Promise<void> => {
 
       // Create session with timestamp including hour
       const createdAt = sessionDate.toISOString();
+      const endedAt = new Date(sessionDate.getTime() + minutesRead * 60 * 1000).toISOString();
 
       sessions.push({
         book_id: randomBook.id,
         minutes_read: minutesRead,
         date: dateString,
         created_at: createdAt,
+        started_at: createdAt,
+        ended_at: endedAt,
         notes: null
       });
     }
@@ -356,9 +442,12 @@ const generateRandomReadingData = async (): Promise<void> => {
     // Insert all sessions into the database
     for (const session of sessions) {
       await execute(
-        `INSERT INTO reading_sessions (book_id, minutes_read, date, created_at, notes) 
-         VALUES (?, ?, ?, ?, ?)`,
-        [session.book_id, session.minutes_read, session.date, session.created_at, session.notes]
+        `INSERT INTO reading_sessions (book_id, cycle_id, minutes_read, date, created_at, started_at, ended_at, notes)
+         VALUES (?, (SELECT MAX(id) FROM reading_cycles WHERE book_id = ?), ?, ?, ?, ?, ?, ?)`,
+        [
+          session.book_id, session.book_id, session.minutes_read, session.date, session.created_at,
+          session.started_at, session.ended_at, session.notes
+        ]
       );
     }
 
@@ -376,15 +465,21 @@ const generateRandomReadingData = async (): Promise<void> => {
 
 export default function ReadingLogs() {
   const [weekData, setWeekData] = useState<WeekDay[]>([]);
-  const [currentWeekStart, setCurrentWeekStart] = useState<Date>(new Date());
+  // Opened with ?date=YYYY-MM-DD (e.g. from search) to show the week containing that day
+  const { date: initialDate } = useLocalSearchParams<{ date?: string }>();
+  const [currentWeekStart, setCurrentWeekStart] = useState<Date>(
+    initialDate ? localDateStringToDate(initialDate) : new Date()
+  );
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [selectedSession, setSelectedSession] = useState<SessionWithBook | null>(null);
+  // Trash entry of the session just deleted, while its undo toast is showing
+  const [undoTrashId, setUndoTrashId] = useState<number | null>(null);
 
   const [isWeeklyView, setIsWeeklyView] = useState(false);
 
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
 
   const getLocalizedWeekday = (date: Date): string => {
     const dayIndex = date.getDay();
@@ -403,12 +498,21 @@ export default function ReadingLogs() {
     ];
     return t(`components.readingLogs.months.${months[monthIndex]}`);
   };
+  useEffect(() => {
+    if (initialDate) {
+      setCurrentWeekStart(localDateStringToDate(initialDate));
+    }
+  }, [initialDate]);
+
   useFocusEffect(
     useCallback(() => {
       loadWeekData();
     }, [currentWeekStart])
   );
 
+  // Sessions edited here, logged from a modal or imported from a backup reload the week
+  useTableChanges(['reading_sessions', 'enhanced_books'], () => loadWeekData());
+
   const getWeekStart = (date: Date) => {
     const d = new Date(date);
     const day = d.getDay();
@@ -451,13 +555,7 @@ export default function ReadingLogs() {
       const endDateString = dateToLocalDateString(weekEnd);
 
       // Get all sessions for the week with book info
-      const sessions = await queryAll<SessionWithBook>(`
-        SELECT rs.*, eb.name as book_name, eb.author as book_author
-        FROM reading_sessions rs
-        JOIN enhanced_books eb ON rs.book_id = eb.id
-        WHERE rs.date BETWEEN ? AND ?
-        ORDER BY rs.date, rs.created_at
-      `, [startDateString, endDateString]);
+      const sessions = await SessionRepository.listWithBooksBetween(startDateString, endDateString);
 
       // Initialize week data
       const weekDates = getWeekDates(weekStart);
@@ -502,37 +600,28 @@ export default function ReadingLogs() {
     loadWeekData();
   };
 
+  const formatClockTime = (timestamp: string) =>
+    parseTimestamp(timestamp).toLocaleTimeString(i18n.language, { hour: '2-digit', minute: '2-digit' });
+
   const handleEditSession = (session: SessionWithBook) => {
     setSelectedSession(session);
     setEditModalVisible(true);
   };
 
-  const handleUpdateSession = async (sessionId: number, minutes: number, notes: string, pages?: number) => {
+  const handleUpdateSession = async (
+    sessionId: number,
+    minutes: number,
+    notes: string,
+    pages: SessionPages,
+    date: string
+  ) => {
     try {
-      // Get the session to find the book_id
-      const sessions = await queryAll<ReadingSession>(
-        'SELECT * FROM reading_sessions WHERE id = ?',
-        [sessionId]
-      );
-
-      if (sessions.length === 0) {
-        throw new Error('Session not found');
-      }
-
-      const session = sessions[0];
-
-      // Update the session
-      await execute(
-        `UPDATE reading_sessions SET minutes_read = ?, notes = ?, pages_read = ? WHERE id = ?`,
-        [minutes, notes || null, pages || null, sessionId]
-      );
+      // The repository re-syncs the book's current page from all sessions and
+      // recounts the weekly progress of the week the session left and the one it moved to
+      await SessionRepository.update(sessionId, { minutes, notes, ...pages, date });
+      // Moving a session into or out of today changes whether today's goal is met
+      await NotificationService.checkAndScheduleNotification();
 
-      // If pages were updated, sync the book's current page from all sessions
-      if (pages !== undefined) {
-        await syncBookCurrentPageFromSessions(session.book_id);
-      }
-
-      loadWeekData();
       Alert.alert(t('components.readingLogsEditModal.updateSuccess'), t('components.readingLogsEditModal.updateSuccessMessage'));
     } catch (error) {
       console.error('Error updating session:', error);
@@ -542,39 +631,30 @@ export default function ReadingLogs() {
 
   const handleDeleteSession = async (sessionId: number) => {
     try {
-      // Get the session to find the book_id before deleting
-      const sessions = await queryAll<ReadingSession>(
-        'SELECT * FROM reading_sessions WHERE id = ?',
-        [sessionId]
-      );
-
-      if (sessions.length === 0) {
-        throw new Error('Session not found');
-      }
-
-      const session = sessions[0];
-
-      // Delete the session
-      await execute(`DELETE FROM reading_sessions WHERE id = ?`, [sessionId]);
-
-      // If the session had pages, sync the book's current page from remaining sessions
-      if (session.pages_read) {
-        await syncBookCurrentPageFromSessions(session.book_id);
-      }
-
-      loadWeekData();
-      Alert.alert(t('components.readingLogsEditModal.deleteSuccess'), t('components.readingLogsEditModal.deleteSuccessMessage'));
+      // Moves the session to the trash and re-syncs the book's current page
+      const trashId = await TrashRepository.trashSession(sessionId);
+      setUndoTrashId(trashId);
     } catch (error) {
       console.error('Error deleting session:', error);
       Alert.alert(t('components.readingLogsEditModal.deleteError'), t('components.readingLogsEditModal.deleteErrorMessage'));
     }
   };
 
+  const handleUndoDelete = async () => {
+    if (undoTrashId === null) return;
+    const trashId = undoTrashId;
+    setUndoTrashId(null);
+    try {
+      await TrashRepository.restore(trashId);
+    } catch (error) {
+      console.error('Error restoring session:', error);
+      Alert.alert(t('components.readingLogsEditModal.deleteError'), t('components.readingLogsEditModal.restoreErrorMessage'));
+    }
+  };
+
   const handleGenerateRandomData = async () => {
     try {
       await generateRandomReadingData();
-      // Refresh the data after generation
-      loadWeekData();
     } catch (error) {
       console.error('Error generating random data:', error);
     }
@@ -745,6 +825,17 @@ export default function ReadingLogs() {
                       <Text style={styles.sessionAuthor} numberOfLines={1}>
                         {t('components.readingLogs.sessionCardBy')} {session.book_author}
                       </Text>
+                      {session.started_at && (
+                        <Text style={styles.sessionClock} numberOfLines={1}>
+                          🕒 {formatClockTime(session.started_at)}
+                          {session.ended_at ? ` – ${formatClockTime(session.ended_at)}` : ''}
+                        </Text>
+                      )}
+                      {session.start_page != null && session.end_page != null && (
+                        <Text style={styles.sessionClock} numberOfLines={1}>
+                          📖 {t('components.readingLogs.pageRange', { start: session.start_page, end: session.end_page })}
+                        </Text>
+                      )}
                       {session.notes && (
                         <Text style={styles.sessionNotes} numberOfLines={2}>
                           "{session.notes}"
@@ -766,6 +857,13 @@ export default function ReadingLogs() {
         onSave={handleUpdateSession}
         onDelete={handleDeleteSession}
       />
+
+      <UndoToast
+        visible={undoTrashId !== null}
+        message={t('components.readingLogsEditModal.movedToTrash')}
+        onUndo={handleUndoDelete}
+        onDismiss={() => setUndoTrashId(null)}
+      />
     </View>
   );
 }
@@ -937,6 +1035,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  sessionClock: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 4,
+  },
   sessionBook: {
     fontSize: 14,
     fontWeight: '600',
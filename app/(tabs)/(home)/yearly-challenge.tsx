@@ -0,0 +1,293 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { YEARLY_CHALLENGE_TABLES } from '../../../components/YearlyChallengeCard';
+import { useLiveData } from '../../../hooks/useLiveQuery';
+import { getPaceStatus, getYearlyChallenge, listPastYears } from '../../../utils/yearlyChallenge';
+
+const CHART_HEIGHT = 140;
+
+export default function YearlyChallengeScreen() {
+  const { t, i18n } = useTranslation();
+  const loadChallenge = useCallback(async () => ({
+    challenge: await getYearlyChallenge(),
+    pastYears: await listPastYears(),
+  }), []);
+  const { data } = useLiveData(loadChallenge, YEARLY_CHALLENGE_TABLES);
+
+  if (!data) {
+    return null;
+  }
+
+  const { challenge, pastYears } = data;
+  if (!challenge) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>{t('yearlyChallenge.noGoal')}</Text>
+      </View>
+    );
+  }
+
+  const status = getPaceStatus(challenge);
+  const monthlyPace = challenge.goal / 12;
+  const highestMonth = Math.max(monthlyPace, ...challenge.months, 1);
+  const currentMonth = new Date().getMonth();
+
+  const formatMonth = (month: number) => {
+    return new Date(challenge.year, month, 1).toLocaleDateString(i18n.language, { month: 'narrow' });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Where the year stands */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('yearlyChallenge.cardTitle', { year: challenge.year })}</Text>
+        <View style={styles.stats}>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{challenge.finished}</Text>
+            <Text style={styles.statLabel}>{t('yearlyChallenge.finished')}</Text>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{challenge.expected}</Text>
+            <Text style={styles.statLabel}>{t('yearlyChallenge.expected')}</Text>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{challenge.goal}</Text>
+            <Text style={styles.statLabel}>{t('yearlyChallenge.goal')}</Text>
+          </View>
+        </View>
+
+        <Text style={[styles.paceText, status === 'behind' && styles.paceTextBehind]}>
+          {t(`yearlyChallenge.${status}`, { count: Math.abs(challenge.difference) })}
+        </Text>
+        {status !== 'achieved' && (
+          <Text style={styles.detailText}>{t('yearlyChallenge.pagesPerDay', { count: challenge.pagesPerDay })}</Text>
+        )}
+        <Text style={styles.detailText}>{t('yearlyChallenge.daysLeft', { count: challenge.daysLeft })}</Text>
+      </View>
+
+      {/* Month by month */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('yearlyChallenge.byMonth')}</Text>
+        <View style={styles.chart}>
+          <View style={[styles.paceLine, { bottom: (monthlyPace / highestMonth) * CHART_HEIGHT + 16 }]} />
+          {challenge.months.map((count, month) => (
+            <View key={month} style={styles.barColumn}>
+              <Text style={styles.barValue}>{count > 0 ? count : ''}</Text>
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.bar,
+                    { height: (count / highestMonth) * CHART_HEIGHT },
+                    count >= monthlyPace && styles.barAtPace,
+                    month > currentMonth && styles.barUpcoming
+                  ]}
+                />
+              </View>
+              <Text style={[styles.barLabel, month === currentMonth && styles.barLabelCurrent]}>{formatMonth(month)}</Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.detailText}>
+          {t('yearlyChallenge.monthlyPace', { pace: Math.round(monthlyPace * 10) / 10 })}
+        </Text>
+      </View>
+
+      {/* Earlier years for comparison */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('yearlyChallenge.pastYears')}</Text>
+        {pastYears.length === 0 ? (
+          <Text style={styles.detailText}>{t('yearlyChallenge.noPastYears')}</Text>
+        ) : (
+          pastYears.map(result => {
+            const reachedGoal = result.goal !== null && result.finished >= result.goal;
+            return (
+              <View key={result.year} style={styles.yearRow}>
+                <Text style={styles.yearLabel}>{result.year}</Text>
+                <View style={styles.yearBarBackground}>
+                  {result.goal !== null && (
+                    <View
+                      style={[
+                        styles.yearBarFill,
+                        { width: `${Math.min((result.finished / Math.max(result.goal, 1)) * 100, 100)}%` },
+                        reachedGoal && styles.yearBarFillDone
+                      ]}
+                    />
+                  )}
+                </View>
+                <Text style={styles.yearResult}>
+                  {result.goal !== null
+                    ? t('yearlyChallenge.yearResult', { finished: result.finished, goal: result.goal })
+                    : t('yearlyChallenge.yearResultNoGoal', { count: result.finished })}
+                  {reachedGoal ? ' ✓' : ''}
+                </Text>
+              </View>
+            );
+          })
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  content: {
+    paddingVertical: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: '#F8FAFC',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748B',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 20,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    gap: 10,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginBottom: 6,
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#6C63FF',
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748B',
+    fontWeight: '500',
+  },
+  statDivider: {
+    width: 1,
+    height: 40,
+    backgroundColor: '#E2E8F0',
+  },
+  paceText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  paceTextBehind: {
+    color: '#B45309',
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#64748B',
+    textAlign: 'center',
+  },
+  chart: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  paceLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#94A3B8',
+  },
+  barColumn: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  barValue: {
+    fontSize: 10,
+    color: '#64748B',
+    marginBottom: 2,
+  },
+  barTrack: {
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: 14,
+    minHeight: 2,
+    borderRadius: 4,
+    backgroundColor: '#A5B4FC',
+  },
+  barAtPace: {
+    backgroundColor: '#10B981',
+  },
+  barUpcoming: {
+    backgroundColor: '#E2E8F0',
+  },
+  barLabel: {
+    fontSize: 11,
+    color: '#94A3B8',
+    marginTop: 2,
+    height: 14,
+  },
+  barLabelCurrent: {
+    color: '#6C63FF',
+    fontWeight: '700',
+  },
+  yearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  yearLabel: {
+    width: 44,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  yearBarBackground: {
+    flex: 1,
+    height: 8,
+    backgroundColor: '#E2E8F0',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  yearBarFill: {
+    height: '100%',
+    backgroundColor: '#A5B4FC',
+    borderRadius: 4,
+  },
+  yearBarFillDone: {
+    backgroundColor: '#10B981',
+  },
+  yearResult: {
+    minWidth: 90,
+    fontSize: 13,
+    color: '#64748B',
+    textAlign: 'right',
+  },
+});
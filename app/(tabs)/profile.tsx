@@ -11,7 +11,13 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
-import { execute, queryFirst } from '../../db/db';
+import GoalPlanReviewModal from '../../components/GoalPlanReviewModal';
+import GoalSchedulePreview from '../../components/GoalSchedulePreview';
+import { PreferencesRepository } from '../../db/preferencesRepository';
+import { GoalMode, GoalProgressionStrategy, GoalUnit } from '../../types/database';
+import { isGoalPlanFinished } from '../../utils/goalPlan';
+import { buildProgressionSettings, DEFAULT_GOAL_PROGRESSION_STRATEGY } from '../../utils/goalProgression';
+import { GOAL_UNITS } from '../../utils/readingGoal';
 
 type FullUserPreferences = {
   id: number;
@@ -23,17 +29,28 @@ type FullUserPreferences = {
   end_reading_rate_goal_minutes_per_day?: number;
   end_reading_rate_goal_date?: string;
   current_reading_rate_minutes_per_day?: number;
+  goal_progression_strategy?: GoalProgressionStrategy;
+  goal_mode?: GoalMode;
+  goal_unit?: GoalUnit;
+  daily_page_goal?: number | null;
+  monthly_book_goal?: number | null;
   created_at?: string;
   updated_at?: string;
 };
 
+// Edited goals ramp up toward the target over a year
+const PROGRESSION_WEEKS = 52;
 
+// A book goal without its own amount spreads the yearly goal over the months
+const getMonthlyBookGoal = (user: FullUserPreferences): number =>
+  user.monthly_book_goal || Math.max(1, Math.ceil((user.yearly_book_goal || 0) / 12));
 
 export default function ProfileScreen() {
   
   const { t } = useTranslation();
   const [userPreferences, setUserPreferences] = useState<FullUserPreferences | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [showPlanReview, setShowPlanReview] = useState(false);
 
   // Editable fields
   const [editedUsername, setEditedUsername] = useState('');
@@ -41,6 +58,10 @@ export default function ProfileScreen() {
   const [editedDailyGoal, setEditedDailyGoal] = useState('');
   const [editedTargetGoal, setEditedTargetGoal] = useState('');
   const [editedGenres, setEditedGenres] = useState<string[]>([]);
+  const [editedStrategy, setEditedStrategy] = useState<GoalProgressionStrategy>(DEFAULT_GOAL_PROGRESSION_STRATEGY);
+  const [editedGoalUnit, setEditedGoalUnit] = useState<GoalUnit>('minutes');
+  const [editedPageGoal, setEditedPageGoal] = useState('');
+  const [editedBookGoal, setEditedBookGoal] = useState('');
 
   const [loading, setLoading] = useState(false);
 
@@ -80,7 +101,7 @@ export default function ProfileScreen() {
 
   const loadUserPreferences = async () => {
     try {
-      const user = await queryFirst<FullUserPreferences>('SELECT * FROM user_preferences WHERE id = 1');
+      const user = await PreferencesRepository.get();
       if (user) {
         setUserPreferences(user);
         populateEditFields(user);
@@ -96,6 +117,10 @@ export default function ProfileScreen() {
     setEditedDailyGoal(user.current_reading_rate_minutes_per_day?.toString() || '30');
     setEditedTargetGoal(user.end_reading_rate_goal_minutes_per_day?.toString() || '60');
     setEditedGenres(user.preferred_genres ? user.preferred_genres.split(',').filter(g => g.trim()) : []);
+    setEditedStrategy(user.goal_progression_strategy || DEFAULT_GOAL_PROGRESSION_STRATEGY);
+    setEditedGoalUnit(user.goal_unit || 'minutes');
+    setEditedPageGoal(user.daily_page_goal?.toString() || '20');
+    setEditedBookGoal(getMonthlyBookGoal(user).toString());
   };
 
   const toggleGenre = (genre: string) => {
@@ -121,6 +146,12 @@ export default function ProfileScreen() {
       return;
     }
 
+    const unitAmount = editedGoalUnit === 'pages' ? Number(editedPageGoal) : Number(editedBookGoal);
+    if (editedGoalUnit !== 'minutes' && !(unitAmount > 0)) {
+      Alert.alert(t('profile.error.title'), t('profile.validation.unitGoalRequired'));
+      return;
+    }
+
     setLoading(true);
     try {
       // Calculate derived values
@@ -129,39 +160,25 @@ export default function ProfileScreen() {
       const weeklyGoal = initialRate * 7;
 
       // Calculate weekly increase needed over 52 weeks
-      const totalIncrease = targetRate - initialRate;
-      const weeklyIncrease = totalIncrease > 0 ? Math.ceil(totalIncrease / 52) : 0;
-      const weeklyIncreasePercentage = initialRate > 0 ? (weeklyIncrease / initialRate) * 100 : 0;
+      const progression = buildProgressionSettings(initialRate, targetRate, PROGRESSION_WEEKS);
 
       // Set end goal date to end of current year
       const currentYear = new Date().getFullYear();
       const endGoalDate = new Date(currentYear, 11, 31).toISOString();
 
-      await execute(
-        `UPDATE user_preferences SET 
-          username = ?, 
-          yearly_book_goal = ?, 
-          preferred_genres = ?,
-          weekly_reading_goal = ?,
-          end_reading_rate_goal_minutes_per_day = ?,
-          end_reading_rate_goal_date = ?,
-          current_reading_rate_minutes_per_day = ?,
-          weekly_reading_rate_increase_minutes = ?,
-          weekly_reading_rate_increase_minutes_percentage = ?,
-          updated_at = CURRENT_TIMESTAMP
-        WHERE id = 1`,
-        [
-          editedUsername.trim(),
-          Number(editedYearlyGoal),
-          editedGenres.join(','),
-          weeklyGoal,
-          targetRate,
-          endGoalDate,
-          initialRate, // reset current rate to initial
-          weeklyIncrease,
-          weeklyIncreasePercentage
-        ]
-      );
+      await PreferencesRepository.update({
+        username: editedUsername.trim(),
+        yearly_book_goal: Number(editedYearlyGoal),
+        preferred_genres: editedGenres.join(','),
+        weekly_reading_goal: weeklyGoal,
+        end_reading_rate_goal_minutes_per_day: targetRate,
+        end_reading_rate_goal_date: endGoalDate,
+        current_reading_rate_minutes_per_day: initialRate, // reset current rate to initial
+        weekly_reading_rate_increase_minutes: progression.weeklyIncreaseMinutes,
+        weekly_reading_rate_increase_minutes_percentage: progression.weeklyIncreasePercentage,
+        goal_progression_strategy: editedStrategy
+      });
+      await PreferencesRepository.setGoalUnit(editedGoalUnit, editedGoalUnit === 'minutes' ? undefined : Math.round(unitAmount));
 
       await loadUserPreferences();
       setIsEditing(false);
@@ -233,6 +250,24 @@ export default function ProfileScreen() {
 
           <View style={styles.divider} />
 
+          <View style={styles.infoRow}>
+            <View style={styles.infoIcon}>
+              <Ionicons name="options" size={20} color="#8B5CF6" />
+            </View>
+            <View style={styles.infoContent}>
+              <Text style={styles.infoLabel}>{t('profile.fields.goalUnit')}</Text>
+              <Text style={styles.infoValue}>
+                {userPreferences?.goal_unit === 'pages'
+                  ? `${userPreferences.daily_page_goal || 20} ${t('profile.units.pagesPerDay')}`
+                  : userPreferences?.goal_unit === 'books'
+                    ? `${getMonthlyBookGoal(userPreferences)} ${t('profile.units.booksPerMonth')}`
+                    : t('profile.goalUnits.minutes')}
+              </Text>
+            </View>
+          </View>
+
+          <View style={styles.divider} />
+
           <View style={styles.infoRow}>
             <View style={styles.infoIcon}>
               <Ionicons name="time" size={20} color="#10B981" />
@@ -257,6 +292,20 @@ export default function ProfileScreen() {
 
           <View style={styles.divider} />
 
+          <View style={styles.infoRow}>
+            <View style={styles.infoIcon}>
+              <Ionicons name="analytics" size={20} color="#6C63FF" />
+            </View>
+            <View style={styles.infoContent}>
+              <Text style={styles.infoLabel}>{t('profile.fields.goalProgression')}</Text>
+              <Text style={styles.infoValue}>
+                {t(`components.goalProgression.strategies.${userPreferences?.goal_progression_strategy || DEFAULT_GOAL_PROGRESSION_STRATEGY}`)}
+              </Text>
+            </View>
+          </View>
+
+          <View style={styles.divider} />
+
           <View style={styles.infoRow}>
             <View style={styles.infoIcon}>
               <Ionicons name="calendar" size={20} color="#EF4444" />
@@ -267,6 +316,14 @@ export default function ProfileScreen() {
             </View>
           </View>
         </View>
+        <TouchableOpacity style={styles.planReviewButton} onPress={() => setShowPlanReview(true)}>
+          <Ionicons name="flag-outline" size={18} color="#6C63FF" />
+          <Text style={styles.planReviewButtonText}>
+            {userPreferences && isGoalPlanFinished(userPreferences)
+              ? t('profile.goalPlan.ended')
+              : t('profile.goalPlan.review')}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Reading Progress Section */}
@@ -425,6 +482,44 @@ export default function ProfileScreen() {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{t('profile.sections.goals')}</Text>
         <View style={styles.card}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>
+              <Ionicons name="options" size={16} color="#8B5CF6" /> {t('profile.fields.goalUnit')}
+            </Text>
+            <View style={styles.unitOptions}>
+              {GOAL_UNITS.map(unit => (
+                <TouchableOpacity
+                  key={unit}
+                  style={[styles.genreChip, editedGoalUnit === unit && styles.genreChipSelected]}
+                  onPress={() => setEditedGoalUnit(unit)}
+                  disabled={loading}
+                >
+                  <Text style={[styles.genreChipText, editedGoalUnit === unit && styles.genreChipTextSelected]}>
+                    {t(`profile.goalUnits.${unit}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.unitHint}>{t(`profile.goalUnitHints.${editedGoalUnit}`)}</Text>
+          </View>
+
+          {editedGoalUnit !== 'minutes' && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>
+                <Ionicons name={editedGoalUnit === 'pages' ? 'document-text' : 'book'} size={16} color="#8B5CF6" />{' '}
+                {t(editedGoalUnit === 'pages' ? 'profile.fields.dailyPageGoal' : 'profile.fields.monthlyBookGoal')}
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={editedGoalUnit === 'pages' ? editedPageGoal : editedBookGoal}
+                onChangeText={editedGoalUnit === 'pages' ? setEditedPageGoal : setEditedBookGoal}
+                placeholder={t(editedGoalUnit === 'pages' ? 'profile.placeholders.pageGoal' : 'profile.placeholders.bookGoal')}
+                keyboardType="numeric"
+                editable={!loading}
+              />
+            </View>
+          )}
+
           <View style={styles.inputGroup}>
             <Text style={styles.inputLabel}>
               <Ionicons name="time" size={16} color="#10B981" /> {t('profile.fields.currentDailyGoal')}
@@ -452,6 +547,16 @@ export default function ProfileScreen() {
               editable={!loading}
             />
           </View>
+
+          {Number(editedDailyGoal) > 0 && Number(editedTargetGoal) >= Number(editedDailyGoal) && (
+            <GoalSchedulePreview
+              settings={buildProgressionSettings(Number(editedDailyGoal), Number(editedTargetGoal), PROGRESSION_WEEKS)}
+              weeks={PROGRESSION_WEEKS}
+              strategy={editedStrategy}
+              onStrategyChange={setEditedStrategy}
+              disabled={loading}
+            />
+          )}
         </View>
       </View>
 
@@ -516,6 +621,14 @@ export default function ProfileScreen() {
       </View>
 
       {isEditing ? renderEditMode() : renderViewMode()}
+
+      <GoalPlanReviewModal
+        visible={showPlanReview}
+        onClose={() => {
+          setShowPlanReview(false);
+          loadUserPreferences();
+        }}
+      />
     </View>
 
   );
@@ -659,6 +772,23 @@ const styles = StyleSheet.create({
     backgroundColor: '#E2E8F0',
     marginHorizontal: -20,
   },
+  planReviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#C7D2FE',
+    backgroundColor: '#EEF2FF',
+  },
+  planReviewButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6C63FF',
+  },
   genresDisplay: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -714,6 +844,16 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1E293B',
   },
+  unitOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  unitHint: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 8,
+  },
   genresGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
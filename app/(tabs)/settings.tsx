@@ -16,7 +16,9 @@ import DataImportModal from '../../components/DataImportModal';
 import LanguageSelector from '../../components/LanguageSelector';
 import NotificationSettings from '../../components/NotificationSettings';
 import NotificationTester from '../../components/NotificationTester';
-import { queryFirst } from '../../db/db';
+import ProfileSwitcherModal from '../../components/ProfileSwitcherModal';
+import TrashModal from '../../components/TrashModal';
+import { PreferencesRepository } from '../../db/preferencesRepository';
 import { isDevModeEnabled } from '../../utils/devMode';
 import { logoutUser } from '../../utils/migration';
 
@@ -35,6 +37,8 @@ export default function SettingsScreen() {
   const [loading, setLoading] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showTrashModal, setShowTrashModal] = useState(false);
+  const [showProfileSwitcher, setShowProfileSwitcher] = useState(false);
 
   useEffect(() => {
     loadUserPreferences();
@@ -42,7 +46,7 @@ export default function SettingsScreen() {
 
   const loadUserPreferences = async () => {
     try {
-      const user = await queryFirst<UserPreferences>('SELECT * FROM user_preferences WHERE id = 1');
+      const user = await PreferencesRepository.get();
       if (user) {
         setUserPreferences(user);
       }
@@ -86,6 +90,17 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleProfileSwitched = () => {
+    setShowProfileSwitcher(false);
+    // Start over from the root so goals, weekly progress and reminders load for the new reader
+    router.replace('/');
+  };
+
+  const handleAddProfile = () => {
+    setShowProfileSwitcher(false);
+    router.push({ pathname: '/intro', params: { newProfile: 'true' } });
+  };
+
   const handleExportSuccess = (filePath: string) => {
     Alert.alert(
       t('dataBackup.export.messages.exportComplete'),
@@ -144,6 +159,21 @@ export default function SettingsScreen() {
                 </View>
               </TouchableOpacity>
             </View>
+            <View style={[styles.backupCard, styles.readersCard]}>
+              <TouchableOpacity 
+                style={styles.backupOption}
+                onPress={() => setShowProfileSwitcher(true)}
+              >
+                <View style={styles.backupOptionLeft}>
+                  <Ionicons name="people" size={24} color="#6C63FF" />
+                  <View style={styles.backupOptionInfo}>
+                    <Text style={styles.backupOptionTitle}>{t('settings.switchReader')}</Text>
+                    <Text style={styles.backupOptionSubtitle}>{t('settings.switchReaderSubtitle')}</Text>
+                  </View>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#6C63FF" />
+              </TouchableOpacity>
+            </View>
           </View>
 
           {/* Language Section */}
@@ -202,6 +232,26 @@ export default function SettingsScreen() {
             </View>
           </View>
 
+          {/* Trash Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('settings.trash')}</Text>
+            <View style={styles.backupCard}>
+              <TouchableOpacity 
+                style={styles.backupOption}
+                onPress={() => setShowTrashModal(true)}
+              >
+                <View style={styles.backupOptionLeft}>
+                  <Ionicons name="trash-outline" size={24} color="#64748B" />
+                  <View style={styles.backupOptionInfo}>
+                    <Text style={styles.backupOptionTitle}>{t('components.trash.title')}</Text>
+                    <Text style={styles.backupOptionSubtitle}>{t('settings.trashSubtitle')}</Text>
+                  </View>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#64748B" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
           {/* App Info Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>{t('settings.about')}</Text>
@@ -262,6 +312,19 @@ export default function SettingsScreen() {
         onClose={() => setShowImportModal(false)}
         onSuccess={handleImportSuccess}
       />
+
+      {/* Trash Modal */}
+      <TrashModal
+        visible={showTrashModal}
+        onClose={() => setShowTrashModal(false)}
+      />
+
+      <ProfileSwitcherModal
+        visible={showProfileSwitcher}
+        onClose={() => setShowProfileSwitcher(false)}
+        onSwitched={handleProfileSwitched}
+        onAddProfile={handleAddProfile}
+      />
     </View>
   );
 }
@@ -436,6 +499,9 @@ const styles = StyleSheet.create({
     elevation: 3,
     overflow: 'hidden',
   },
+  readersCard: {
+    marginTop: 12,
+  },
   backupOption: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2,9 +2,14 @@ import { Stack } from 'expo-router';
 import { useEffect } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 import { LanguageProvider } from '../contexts/LanguageContext';
+import { DATABASE_NAME, setDatabaseHandle } from '../db/db';
+import { openExpoDatabase } from '../db/expoSqliteAdapter';
 import '../i18n';
 import NotificationService from '../services/notificationService';
 
+// Every screen and service talks to the on-device database through db/db.tsx
+setDatabaseHandle(openExpoDatabase(DATABASE_NAME));
+
 export default function RootLayout() {
   useEffect(() => {
     // Initialize notification service and track app opened
@@ -1,25 +1,12 @@
 import { router } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { Image, StyleSheet, Text, View } from 'react-native';
-import { checkNotificationDatabaseIntegrity, execute, initializeDatabase, queryFirst, repairNotificationDatabase } from '../db/db';
+import { checkNotificationDatabaseIntegrity, initializeDatabase, repairNotificationDatabase } from '../db/db';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { ProfileRepository } from '../db/profileRepository';
+import { TrashRepository } from '../db/trashRepository';
 import NotificationService from '../services/notificationService';
-
-type UserPreferences = {
-  id: number;
-  username: string;
-  yearly_book_goal: number;
-  preferred_genres?: string;
-  created_at?: string;
-  updated_at?: string;
-  weekly_reading_goal?: number;
-  initial_reading_rate_minutes_per_day?: number;
-  end_reading_rate_goal_minutes_per_day?: number;
-  end_reading_rate_goal_date?: Date;
-  current_reading_rate_minutes_per_day?: number;
-  current_reading_rate_last_updated?: Date;
-  weekly_reading_rate_increase_minutes?: number;
-  weekly_reading_rate_increase_minutes_percentage?: number;
-};
+import { syncWeeklyProgress } from '../utils/weeklyProgress';
 
 export default function Index() {
   const [isLoading, setIsLoading] = useState(true);
@@ -37,6 +24,17 @@ export default function Index() {
       await initializeDatabase();
       console.log('✅ Database tables initialized');
       
+      // Permanently remove trash older than the user's retention period
+      try {
+        const retentionDays = await PreferencesRepository.getTrashRetentionDays();
+        const purged = await TrashRepository.purgeOlderThan(retentionDays);
+        if (purged > 0) {
+          console.log(`🗑️ Purged ${purged} expired trash item(s)`);
+        }
+      } catch (trashError) {
+        console.error('⚠️ Trash purge failed, continuing:', trashError);
+      }
+      
       // Verify database integrity before proceeding
       const dbIntegrity = await checkNotificationDatabaseIntegrity();
       console.log('📊 Database integrity check:', dbIntegrity);
@@ -83,41 +81,8 @@ export default function Index() {
 
   const initiateWeeklyProgressLogic = async () => {
     try {
-      const info = await getUserGoalInformation();
-      if (!info) return;
-      
-      const dateToCheck = info?.current_reading_rate_last_updated ? new Date(info.current_reading_rate_last_updated) : new Date();
-      const weeksPassed = getWeeksPassed(dateToCheck);
-      
-      if (weeksPassed > 0 && info.end_reading_rate_goal_date && new Date(info.end_reading_rate_goal_date) > new Date()) {
-        const lastProgress = await getLastWeeklyProgress();
-        
-        if (lastProgress) {
-          // Update reading rate using percentage increase
-          let newReadingRate = info.current_reading_rate_minutes_per_day * (1 + (info.weekly_reading_rate_increase_minutes_percentage / 100));
-          newReadingRate = Math.min(newReadingRate, info.end_reading_rate_goal_minutes_per_day);
-          newReadingRate = Math.max(newReadingRate, info.current_reading_rate_minutes_per_day + 1); // Ensure it doesn't drop below initial + 1
-          const newReadingRateInteger = Math.round(newReadingRate);
-          
-          await execute('UPDATE user_preferences SET current_reading_rate_minutes_per_day = ?, current_reading_rate_last_updated = ? WHERE id = 1', [newReadingRateInteger, new Date().toISOString()]);
-          console.log('✅ Updated reading rate based on percentage increase');
-          
-          // Update weekly progress with new achieved reading minutes
-          const newAchivedMinutes = newReadingRate;
-          await execute('UPDATE weekly_progress SET weeks_passed = ?, achived_reading_minutes = ? WHERE id = ?', [weeksPassed, newAchivedMinutes, lastProgress.id]);
-          console.log('✅ Weekly progress updated');
-        } else {
-          // No previous record, insert a full new one using info
-          const initialReadingRate = info.initial_reading_rate_minutes_per_day;
-          const achivedReadingMinutes = initialReadingRate;
-          
-          await execute(`
-            INSERT INTO weekly_progress (weeks_passed, target_reading_minutes, achived_reading_minutes)
-            VALUES (?, ?, ?)
-          `, [0, info.end_reading_rate_goal_minutes_per_day, Math.round(achivedReadingMinutes)]);
-          console.log('✅ Weekly progress initialized');
-        }
-      }
+      await syncWeeklyProgress();
+      console.log('✅ Weekly progress up to date');
     } catch (error) {
       console.error('❌ Failed to initialize weekly progress logic:', error);
     }
@@ -125,7 +90,15 @@ export default function Index() {
 
   const checkUserSetup = async () => {
     try {
-      const user = await queryFirst<UserPreferences>('SELECT * FROM user_preferences WHERE id = 1');
+      let user = await PreferencesRepository.get();
+      if (!user) {
+        // The remembered profile is gone; open another reader's profile before asking for a new one
+        const [firstProfile] = await ProfileRepository.list();
+        if (firstProfile) {
+          await ProfileRepository.switchTo(firstProfile.id);
+          user = await PreferencesRepository.get();
+        }
+      }
       setHasUser(!!user);
 
       // Automatically navigate based on user status
@@ -144,42 +117,6 @@ export default function Index() {
     }
   };
 
-  const getWeeksPassed = (startDate: Date) => {
-    const now = new Date();
-    const diffInMs = now.getTime() - startDate.getTime();
-    return Math.floor(diffInMs / (1000 * 60 * 60 * 24 * 7));
-  };
-
-  const getLastWeeklyProgress = async () => {
-    try {
-      const progress = await queryFirst('SELECT * FROM weekly_progress ORDER BY weeks_passed DESC LIMIT 1');
-      return progress || null;
-    } catch (error) {
-      console.error('❌ Error fetching last weekly progress:', error);
-      return null;
-    }
-  };
-
-  const getUserGoalInformation = async () => {
-    try {
-      const user = await queryFirst<UserPreferences>('SELECT * FROM user_preferences WHERE id = 1');
-      if (!user) return null;
-      
-      return {
-        weekly_reading_goal: user.weekly_reading_goal || 210,
-        initial_reading_rate_minutes_per_day: user.initial_reading_rate_minutes_per_day || 30,
-        end_reading_rate_goal_minutes_per_day: user.end_reading_rate_goal_minutes_per_day || 60,
-        end_reading_rate_goal_date: user.end_reading_rate_goal_date || null,
-        current_reading_rate_minutes_per_day: user.current_reading_rate_minutes_per_day || 30,
-        current_reading_rate_last_updated: user.current_reading_rate_last_updated || null,
-        weekly_reading_rate_increase_minutes: user.weekly_reading_rate_increase_minutes || 1,
-        weekly_reading_rate_increase_minutes_percentage: user.weekly_reading_rate_increase_minutes_percentage || 3.33
-      };
-    } catch (error) {
-      console.error('❌ Error fetching user goal information:', error);
-      return null;
-    }
-  };
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
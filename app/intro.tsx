@@ -1,5 +1,5 @@
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
@@ -16,8 +16,16 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
-import { execute } from '../db/db';
+import GoalSchedulePreview from '../components/GoalSchedulePreview';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { ProfileRepository } from '../db/profileRepository';
 import NotificationService from '../services/notificationService';
+import { GoalProgressionStrategy } from '../types/database';
+import {
+  buildProgressionSettings,
+  DEFAULT_GOAL_PROGRESSION_STRATEGY,
+  getWeeksUntil
+} from '../utils/goalProgression';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -25,6 +33,9 @@ type Step = 1 | 2 | 3 | 4 | 5;
 
 export default function IntroScreen() {
   const { t } = useTranslation();
+  // Set when another reader is being added from settings rather than on first launch
+  const { newProfile } = useLocalSearchParams<{ newProfile?: string }>();
+  const isAddingProfile = newProfile === 'true';
   const [currentStep, setCurrentStep] = useState<Step>(1);
   const [username, setUsername] = useState('');
   const [yearlyGoal, setYearlyGoal] = useState('');
@@ -33,6 +44,7 @@ export default function IntroScreen() {
   const [targetDailyGoal, setTargetDailyGoal] = useState('');
   const [goalDate, setGoalDate] = useState<Date>(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [progressionStrategy, setProgressionStrategy] = useState<GoalProgressionStrategy>(DEFAULT_GOAL_PROGRESSION_STRATEGY);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const slideAnimation = useRef(new Animated.Value(0)).current;
@@ -111,7 +123,7 @@ export default function IntroScreen() {
     );
   };
 
-  const handleNext = () => {
+  const handleNext = async () => {
     setError(null);
 
     if (currentStep === 1) {
@@ -127,6 +139,11 @@ export default function IntroScreen() {
         setError(t('intro.validation.nameInvalid'));
         return;
       }
+      const profiles = await ProfileRepository.list();
+      if (profiles.some(profile => profile.username.toLocaleLowerCase() === username.trim().toLocaleLowerCase())) {
+        setError(t('intro.validation.nameTaken'));
+        return;
+      }
       animateStepTransition(2);
     } else if (currentStep === 2) {
       if (!yearlyGoal.trim()) {
@@ -254,40 +271,30 @@ export default function IntroScreen() {
       const dailyGoal = initialReadingRateMinutesPerDay;
 
       // Calculate weekly increase needed based on the selected date
-      const timeDifferenceMs = goalDate.getTime() - new Date().getTime();
-      const weeks = Math.max(1, Math.ceil(timeDifferenceMs / (1000 * 60 * 60 * 24 * 7)));
-      
-      const totalIncreaseNeeded = endReadingRateGoalMinutesPerDay - initialReadingRateMinutesPerDay;
-      const weeklyReadingRateIncreaseMinutes = totalIncreaseNeeded > 0 ? Math.ceil(totalIncreaseNeeded / weeks) : 0;
-      const weeklyReadingRateIncreasePercentage = initialReadingRateMinutesPerDay > 0 ?
-        (weeklyReadingRateIncreaseMinutes / initialReadingRateMinutesPerDay) * 100 : 0;
+      const progression = buildProgressionSettings(
+        initialReadingRateMinutesPerDay,
+        endReadingRateGoalMinutesPerDay,
+        getWeeksUntil(goalDate)
+      );
 
       // Use the selected goal date instead of end of year
       const endGoalDate = goalDate.toISOString();
 
-      // Insert or replace the single user preferences record
-      await execute(
-        `INSERT OR REPLACE INTO user_preferences (
-          id, username, yearly_book_goal, preferred_genres, updated_at,
-          weekly_reading_goal, 
-          initial_reading_rate_minutes_per_day, end_reading_rate_goal_minutes_per_day,
-          end_reading_rate_goal_date, current_reading_rate_minutes_per_day,
-          current_reading_rate_last_updated, weekly_reading_rate_increase_minutes,
-          weekly_reading_rate_increase_minutes_percentage
-        ) VALUES (1, ?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?, ?)`,
-        [
-          username.trim(),
-          Number(yearlyGoal),
-          preferredGenres.join(','),
-          weeklyReadingGoal,
-          initialReadingRateMinutesPerDay,
-          endReadingRateGoalMinutesPerDay,
-          endGoalDate,
-          initialReadingRateMinutesPerDay, // current rate starts at initial rate
-          weeklyReadingRateIncreaseMinutes,
-          weeklyReadingRateIncreasePercentage
-        ]
-      );
+      // Every completed intro creates a profile, which becomes the active one
+      const profileId = await PreferencesRepository.create({
+        username: username.trim(),
+        yearly_book_goal: Number(yearlyGoal),
+        preferred_genres: preferredGenres.join(','),
+        weekly_reading_goal: weeklyReadingGoal,
+        initial_reading_rate_minutes_per_day: initialReadingRateMinutesPerDay,
+        end_reading_rate_goal_minutes_per_day: endReadingRateGoalMinutesPerDay,
+        end_reading_rate_goal_date: endGoalDate,
+        current_reading_rate_minutes_per_day: initialReadingRateMinutesPerDay, // current rate starts at initial rate
+        weekly_reading_rate_increase_minutes: progression.weeklyIncreaseMinutes,
+        weekly_reading_rate_increase_minutes_percentage: progression.weeklyIncreasePercentage,
+        goal_progression_strategy: progressionStrategy
+      });
+      await ProfileRepository.switchTo(profileId);
 
       // Initialize notification preferences for new user
       const notificationPrefs = await NotificationService.getNotificationPreferences();
@@ -613,6 +620,18 @@ export default function IntroScreen() {
             classification: classifyPercentageIncrease(Number(calculateNeededWeeklyPercentageIncrease())) 
           })}
         </Text>
+
+        {Number(targetDailyGoal) >= Number(dailyReadingGoal) && Number(dailyReadingGoal) > 0 && (
+          <View style={styles.schedulePreview}>
+            <GoalSchedulePreview
+              settings={buildProgressionSettings(Number(dailyReadingGoal), Number(targetDailyGoal), getWeeksUntil(goalDate))}
+              weeks={getWeeksUntil(goalDate)}
+              strategy={progressionStrategy}
+              onStrategyChange={setProgressionStrategy}
+              disabled={loading}
+            />
+          </View>
+        )}
       </View>
 
       <Text style={styles.goalHint}>
@@ -632,6 +651,15 @@ export default function IntroScreen() {
           <Text style={styles.backButtonText}>{t('intro.buttons.back')}</Text>
         </TouchableOpacity>
       )}
+      {currentStep === 1 && isAddingProfile && (
+        <TouchableOpacity
+          style={[styles.backButton]}
+          onPress={() => router.back()}
+          disabled={loading}
+        >
+          <Text style={styles.backButtonText}>{t('intro.buttons.cancel')}</Text>
+        </TouchableOpacity>
+      )}
 
       <TouchableOpacity
         style={[
@@ -711,9 +739,11 @@ export default function IntroScreen() {
               style={styles.welcomeLogo}
               resizeMode="contain"
             />
-            <Text style={styles.welcomeTitle}>{t('intro.appWelcome.title')}</Text>
+            <Text style={styles.welcomeTitle}>
+              {isAddingProfile ? t('intro.newProfile.title') : t('intro.appWelcome.title')}
+            </Text>
             <Text style={styles.welcomeSubtitle}>
-              {t('intro.appWelcome.subtitle')}
+              {isAddingProfile ? t('intro.newProfile.subtitle') : t('intro.appWelcome.subtitle')}
             </Text>
           </View>
 
@@ -1118,4 +1148,8 @@ const styles = StyleSheet.create({
     color: '#64748B',
     fontWeight: '500',
   },
+  schedulePreview: {
+    width: '100%',
+    marginTop: 16,
+  },
 });
@@ -3,7 +3,9 @@ import { useTranslation } from 'react-i18next';
 import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import Svg, { Path } from 'react-native-svg';
 import { EnhancedBook } from '../db/db';
+import { localDateStringToDate } from '../utils/dateUtils';
 import { getEnhancedBookProgress } from '../utils/readingProgress';
+import { BookReadingSpeed, FinishEstimate, getBookFinishEstimate } from '../utils/readingSpeed';
 
 interface BookCardProps {
   book: EnhancedBook;
@@ -17,6 +19,7 @@ interface BookCardProps {
   compact?: boolean;
   smaller?: boolean;
   refreshTrigger?: number;
+  readingSpeed?: BookReadingSpeed | null; // From the list's getReadingSpeeds; looked up per card when missing
 }
 
 export default function BookCard({ 
@@ -30,7 +33,8 @@ export default function BookCard({
   readingTimeMinutes = 0,
   compact = false,
   smaller = false,
-  refreshTrigger = 0
+  refreshTrigger = 0,
+  readingSpeed
 }: BookCardProps) {
   const { t } = useTranslation();
   const [progressData, setProgressData] = useState<{
@@ -39,11 +43,17 @@ export default function BookCard({
     isComplete: boolean;
     source: 'sessions' | 'current_page' | 'none';
   }>({ pagesRead: 0, percentage: 0, isComplete: false, source: 'none' });
+  const [finishEstimate, setFinishEstimate] = useState<FinishEstimate | null>(null);
 
   useEffect(() => {
     const loadProgress = async () => {
       const progress = await getEnhancedBookProgress(book.id, book.page, book.current_page || 0);
       setProgressData(progress);
+      // Compact cards do not show the estimate
+      setFinishEstimate(compact ? null : await getBookFinishEstimate(
+        { id: book.id, page: book.page, current_page: book.current_page },
+        readingSpeed
+      ));
     };
     
     if (book.reading_status === 'currently_reading') {
@@ -51,8 +61,9 @@ export default function BookCard({
     } else {
       // Reset progress data for non-currently-reading books
       setProgressData({ pagesRead: 0, percentage: 0, isComplete: false, source: 'none' });
+      setFinishEstimate(null);
     }
-  }, [book.id, book.page, book.current_page, book.reading_status, refreshTrigger]);
+  }, [book.id, book.page, book.current_page, book.reading_status, refreshTrigger, compact, readingSpeed]);
   
   const formatReadingTime = (minutes: number) => {
     if (minutes < 60) {
@@ -70,6 +81,10 @@ export default function BookCard({
     return date.toLocaleDateString();
   };
 
+  const formatFinishDate = (dateString: string) => {
+    return localDateStringToDate(dateString).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  };
+
   const getStatusColor = (status?: string) => {
     switch (status) {
       case 'currently_reading':
@@ -78,6 +93,10 @@ export default function BookCard({
         return '#10B981';
       case 'want_to_read':
         return '#F59E0B';
+      case 'paused':
+        return '#8B5CF6';
+      case 'dnf':
+        return '#EF4444';
       default:
         return '#64748B';
     }
@@ -91,6 +110,10 @@ export default function BookCard({
         return t('components.bookCard.read');
       case 'want_to_read':
         return t('components.bookCard.wantToRead');
+      case 'paused':
+        return t('components.bookCard.paused');
+      case 'dnf':
+        return t('components.bookCard.dnf');
       default:
         return t('components.bookCard.unknown');
     }
@@ -105,6 +128,11 @@ export default function BookCard({
 
   const progress = getReadingProgress();
 
+  // Paused and given up books show the page they stopped at
+  const stoppedAt = (book.reading_status === 'paused' || book.reading_status === 'dnf') && book.current_page
+    ? t('components.bookCard.stoppedAt', { page: book.current_page })
+    : null;
+
   const getProgressColor = (percentage: number) => {
     if (percentage >= 100) return '#10B981'; // Green - Complete
     if (percentage >= 75) return '#F59E0B'; // Orange - Almost done
@@ -262,6 +290,14 @@ export default function BookCard({
                 ⏱️ {formatReadingTime(readingTimeMinutes)}
               </Text>
             )}
+            {stoppedAt && (
+              <Text style={styles.smallerPages}>🔖 {stoppedAt}</Text>
+            )}
+            {finishEstimate && (
+              <Text style={styles.smallerPages}>
+                ⏳ {t('components.bookCard.timeLeft', { time: formatReadingTime(finishEstimate.minutesLeft) })}
+              </Text>
+            )}
           </View>
           
           {book.reading_status && (
@@ -359,6 +395,13 @@ export default function BookCard({
             </View>
           )}
           
+          {finishEstimate && (
+            <Text style={styles.finishEstimate}>
+              ⏳ {t('components.bookCard.timeLeft', { time: formatReadingTime(finishEstimate.minutesLeft) })}
+              {finishEstimate.finishDate && ` · ${t('components.bookCard.finishBy', { date: formatFinishDate(finishEstimate.finishDate) })}`}
+            </Text>
+          )}
+          
           {book.rating && (
             <View style={styles.ratingContainer}>
               <Text style={styles.rating}>⭐ {book.rating.toFixed(1)}</Text>
@@ -370,6 +413,10 @@ export default function BookCard({
               {t('components.bookCard.finished')} {formatDate(book.date_finished)}
             </Text>
           )}
+
+          {stoppedAt && (
+            <Text style={styles.stoppedAt}>🔖 {stoppedAt}</Text>
+          )}
         </View>
         
         {showDeleteButton && onDelete && (
@@ -502,6 +549,17 @@ const styles = StyleSheet.create({
     color: '#10B981',
     fontWeight: '500',
   },
+  stoppedAt: {
+    fontSize: 12,
+    color: '#64748B',
+    fontWeight: '500',
+  },
+  finishEstimate: {
+    fontSize: 12,
+    color: '#3B82F6',
+    fontWeight: '500',
+    marginBottom: 4,
+  },
   deleteButton: {
     backgroundColor: '#FEE2E2',
     borderRadius: 8,
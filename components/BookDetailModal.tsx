@@ -10,15 +10,21 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
-import { EnhancedBook, queryFirst } from '../db/db';
+import { CycleRepository, CycleStop, ReadingCycleWithStats } from '../db/cycleRepository';
+import { EnhancedBook } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { localDateStringToDate } from '../utils/dateUtils';
 import { getEnhancedBookProgress } from '../utils/readingProgress';
+import { FinishEstimate, getBookFinishEstimate } from '../utils/readingSpeed';
+import BookHistory from './BookHistory';
 import BookStatusModal, { BookStatus } from './BookStatusModal';
+import ReadingPlanEditor from './ReadingPlanEditor';
 interface BookDetailModalProps {
   visible: boolean;
   book: EnhancedBook | null;
   readingTimeMinutes?: number;
   onClose: () => void;
-  onStatusChange?: (bookId: number, status: BookStatus) => void;
+  onStatusChange?: (bookId: number, status: BookStatus, stop?: CycleStop) => void;
   fadeAnim: Animated.Value;
   scaleAnim: Animated.Value;
 }
@@ -36,6 +42,9 @@ export default function BookDetailModal({
   // State to hold the first reading date
   const [firstReadingDate, setFirstReadingDate] = useState<string | null>(null);
   const [showStatusModal, setShowStatusModal] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [cycles, setCycles] = useState<ReadingCycleWithStats[]>([]);
+  const [finishEstimate, setFinishEstimate] = useState<FinishEstimate | null>(null);
   const [progressData, setProgressData] = useState<{
     pagesRead: number;
     percentage: number;
@@ -51,26 +60,56 @@ export default function BookDetailModal({
     if (book && visible) {
       loadFirstReadingDate();
       loadProgressData();
+      loadCycles();
     }
   }, [book, visible]);
 
+  useEffect(() => {
+    // History is loaded on demand; start collapsed for each book
+    setShowHistory(false);
+  }, [book?.id]);
+
   const loadProgressData = async () => {
     if (!book) return;
     
     const progress = await getEnhancedBookProgress(book.id, book.page, book.current_page || 0);
     setProgressData(progress);
+    setFinishEstimate(book.reading_status === 'currently_reading' ? await getBookFinishEstimate(book) : null);
+  };
+
+  const loadCycles = async () => {
+    if (!book) return;
+
+    try {
+      setCycles(await CycleRepository.listForBook(book.id));
+    } catch (error) {
+      console.error('Error loading reading cycles:', error);
+      setCycles([]);
+    }
+  };
+
+  const finishedCount = cycles.filter(cycle => cycle.outcome === 'finished').length;
+
+  const getCycleOutcomeText = (cycle: ReadingCycleWithStats, isLatest: boolean) => {
+    switch (cycle.outcome) {
+      case 'finished':
+        return t('components.bookDetailModal.cycleFinished');
+      case 'abandoned':
+        return t('components.bookDetailModal.cycleAbandoned');
+      default:
+        return isLatest && book?.reading_status === 'paused'
+          ? t('components.bookDetailModal.cyclePaused')
+          : t('components.bookDetailModal.cycleInProgress');
+    }
   };
 
   const loadFirstReadingDate = async () => {
     if (!book) return;
     
     try {
-      const result = await queryFirst<{ date: string }>(
-        'SELECT date FROM reading_sessions WHERE book_id = ? ORDER BY date ASC LIMIT 1',
-        [book.id]
-      );
+      const firstDate = await SessionRepository.getFirstSessionDate(book.id);
       console.log(book.date_added)
-      setFirstReadingDate(result?.date || t("components.bookDetailModal.haveNotStartedReading"));
+      setFirstReadingDate(firstDate || t("components.bookDetailModal.haveNotStartedReading"));
     } catch (error) {
       console.error('Error loading first reading date:', error);
       setFirstReadingDate(null);
@@ -109,6 +148,10 @@ export default function BookDetailModal({
         return '#10B981';
       case 'want_to_read':
         return '#F59E0B';
+      case 'paused':
+        return '#8B5CF6';
+      case 'dnf':
+        return '#EF4444';
       default:
         return '#64748B';
     }
@@ -122,6 +165,10 @@ export default function BookDetailModal({
         return t("components.bookCard.read");
       case 'want_to_read':
         return t("components.bookCard.wantToRead");
+      case 'paused':
+        return t("components.bookCard.paused");
+      case 'dnf':
+        return t("components.bookCard.dnf");
       default:
         return t("components.bookCard.unknown");
     }
@@ -170,9 +217,9 @@ export default function BookDetailModal({
     });
   };
 
-  const handleStatusChange = (status: BookStatus) => {
+  const handleStatusChange = (status: BookStatus, stop?: CycleStop) => {
     if (book && onStatusChange) {
-      onStatusChange(book.id, status);
+      onStatusChange(book.id, status, stop);
     }
     handleStatusModalClose();
   };
@@ -285,10 +332,45 @@ export default function BookDetailModal({
                       </View>
                     )}
                   </View>
+
+                  {finishEstimate && (
+                    <View style={styles.estimateContainer}>
+                      <View style={styles.estimateRow}>
+                        <Text style={styles.estimateLabel}>{t("components.bookDetailModal.timeLeft")}</Text>
+                        <Text style={styles.estimateValue}>{formatReadingTime(finishEstimate.minutesLeft)}</Text>
+                      </View>
+                      <View style={styles.estimateRow}>
+                        <Text style={styles.estimateLabel}>{t("components.bookDetailModal.projectedFinish")}</Text>
+                        <Text style={styles.estimateValue}>
+                          {finishEstimate.finishDate
+                            ? formatDate(localDateStringToDate(finishEstimate.finishDate).toISOString())
+                            : t("components.bookDetailModal.noRecentPace")}
+                        </Text>
+                      </View>
+                      <View style={styles.estimateRow}>
+                        <Text style={styles.estimateLabel}>{t("components.bookDetailModal.readingSpeed")}</Text>
+                        <Text style={styles.estimateValue}>
+                          {t(finishEstimate.speedSource === 'book'
+                            ? "components.bookDetailModal.pagesPerHour"
+                            : "components.bookDetailModal.pagesPerHourOverall", {
+                            pages: Math.round(finishEstimate.pagesPerMinute * 60)
+                          })}
+                        </Text>
+                      </View>
+                    </View>
+                  )}
                 </View>
               </View>
             )}
 
+            {/* Finish-by Plan */}
+            {book.reading_status !== 'read' && book.reading_status !== 'dnf' && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t("components.readingPlan.sectionTitle")}</Text>
+                <ReadingPlanEditor book={book} />
+              </View>
+            )}
+
             {/* Reading Statistics */}
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>{t("components.bookDetailModal.statistics")}</Text>
@@ -382,6 +464,52 @@ export default function BookDetailModal({
               </View>
             </View>
 
+            {/* Read-throughs */}
+            {cycles.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t("components.bookDetailModal.readThroughs")}</Text>
+                {finishedCount > 0 && (
+                  <Text style={styles.readCount}>
+                    {t("components.bookDetailModal.timesRead", { count: finishedCount })}
+                  </Text>
+                )}
+                <View style={styles.timelineContainer}>
+                  {cycles.map((cycle, index) => (
+                    <View key={cycle.id} style={styles.cycleItem}>
+                      <View style={styles.cycleHeader}>
+                        <Text style={styles.cycleTitle}>
+                          {t("components.bookDetailModal.cycleNumber", { number: index + 1 })}
+                        </Text>
+                        <Text style={styles.cycleOutcome}>{getCycleOutcomeText(cycle, index === cycles.length - 1)}</Text>
+                      </View>
+                      <Text style={styles.cycleDates}>
+                        {cycle.started_at ? formatDate(cycle.started_at) : '?'}
+                        {' – '}
+                        {cycle.finished_at ? formatDate(cycle.finished_at) : '…'}
+                      </Text>
+                      <Text style={styles.cycleStats}>
+                        {t("components.bookDetailModal.cycleStats", {
+                          sessions: cycle.session_count,
+                          time: formatReadingTime(cycle.total_minutes),
+                          pages: cycle.total_pages
+                        })}
+                      </Text>
+                      {cycle.stop_page !== null && (
+                        <Text style={styles.cycleStats}>
+                          {t("components.bookDetailModal.cycleStopped", { page: cycle.stop_page })}
+                        </Text>
+                      )}
+                      {cycle.stop_reason && (
+                        <Text style={styles.cycleStats}>
+                          {t("components.bookDetailModal.cycleStopReason", { reason: cycle.stop_reason })}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
             {/* Notes */}
             {book.notes && (
               <View style={styles.section}>
@@ -389,6 +517,19 @@ export default function BookDetailModal({
                 <Text style={styles.notes}>{book.notes}</Text>
               </View>
             )}
+
+            {/* Change History */}
+            <View style={styles.section}>
+              <View style={styles.historyHeader}>
+                <Text style={styles.sectionTitle}>{t("components.bookHistory.title")}</Text>
+                <TouchableOpacity onPress={() => setShowHistory(!showHistory)}>
+                  <Text style={styles.historyToggle}>
+                    {showHistory ? t("components.bookHistory.hide") : t("components.bookHistory.show")}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {showHistory && <BookHistory bookId={book.id} />}
+            </View>
             </ScrollView>
         </Animated.View>
       </View>
@@ -400,6 +541,8 @@ export default function BookDetailModal({
         currentStatus={(book?.reading_status as BookStatus) || 'want_to_read'}
         onStatusChange={handleStatusChange}
         onClose={handleStatusModalClose}
+        currentPage={book?.current_page || 0}
+        totalPages={book?.page || 0}
         fadeAnim={statusModalFadeAnim}
         scaleAnim={statusModalScaleAnim}
       />
@@ -527,6 +670,16 @@ const styles = StyleSheet.create({
     color: '#1E293B',
     marginBottom: 12,
   },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  historyToggle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6C63FF',
+  },
   progressContainer: {
     backgroundColor: '#F8FAFC',
     padding: 20,
@@ -601,6 +754,26 @@ const styles = StyleSheet.create({
     color: '#1E40AF',
     fontWeight: '600',
   },
+  estimateContainer: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+    gap: 6,
+  },
+  estimateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  estimateLabel: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  estimateValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -677,6 +850,42 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: 12,
   },
+  readCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  cycleItem: {
+    backgroundColor: '#F8FAFC',
+    padding: 12,
+    borderRadius: 12,
+  },
+  cycleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  cycleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6C63FF',
+  },
+  cycleOutcome: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  cycleDates: {
+    fontSize: 13,
+    color: '#1E293B',
+  },
+  cycleStats: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
   notes: {
     fontSize: 14,
     color: '#64748B',
@@ -0,0 +1,214 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    ActivityIndicator,
+    Alert,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { ChangeLogEntry, ChangeLogRepository, FieldChange } from '../db/changeLogRepository';
+import { useLiveData } from '../hooks/useLiveQuery';
+import { localDateStringToDate } from '../utils/dateUtils';
+
+// Columns shown in the history; anything else (cover art, Open Library keys...) is left out
+const VISIBLE_FIELDS = [
+  'name', 'author', 'page', 'current_page', 'reading_status', 'rating', 'notes',
+  'date_started', 'date_finished', 'archived_at', 'target_finish_date', 'minutes_read', 'pages_read', 'start_page', 'end_page', 'date',
+];
+const TIMESTAMP_FIELDS = ['date_started', 'date_finished', 'archived_at'];
+
+const OPERATION_ICONS = {
+  insert: { name: 'add-circle', color: '#10B981' },
+  update: { name: 'create', color: '#6C63FF' },
+  delete: { name: 'remove-circle', color: '#EF4444' },
+} as const;
+
+interface BookHistoryProps {
+  bookId: number;
+}
+
+/**
+ * Recorded changes to a book and its reading sessions, each with a revert action
+ */
+export default function BookHistory({ bookId }: BookHistoryProps) {
+  const { t, i18n } = useTranslation();
+
+  const loadHistory = useCallback(() => ChangeLogRepository.listForBook(bookId), [bookId]);
+  const { data: entries, loading } = useLiveData(loadHistory, ['enhanced_books', 'reading_sessions']);
+
+  const formatDay = (date: string) =>
+    localDateStringToDate(date).toLocaleDateString(i18n.language, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const formatChangedAt = (changedAt: string) => {
+    // changed_at is stored by SQLite as UTC "YYYY-MM-DD HH:MM:SS"
+    return new Date(`${changedAt.replace(' ', 'T')}Z`).toLocaleDateString(i18n.language, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === '') {
+      return t('components.bookHistory.emptyValue');
+    }
+    if (field === 'reading_status') {
+      const statusKeys: Record<string, string> = {
+        want_to_read: 'components.bookCard.wantToRead',
+        currently_reading: 'components.bookCard.currentlyReading',
+        read: 'components.bookCard.read',
+        paused: 'components.bookCard.paused',
+        dnf: 'components.bookCard.dnf',
+      };
+      return t(statusKeys[String(value)] ?? 'components.bookCard.unknown');
+    }
+    if (field === 'date') {
+      return formatDay(String(value));
+    }
+    if (TIMESTAMP_FIELDS.includes(field)) {
+      return new Date(String(value)).toLocaleDateString(i18n.language);
+    }
+    return String(value);
+  };
+
+  const getTitle = (entry: ChangeLogEntry) => {
+    const operation = entry.operation === 'insert' ? 'Added' : entry.operation === 'update' ? 'Edited' : 'Deleted';
+    if (entry.table_name === 'enhanced_books') {
+      return t(`components.bookHistory.book${operation}`);
+    }
+    const session = entry.after ?? entry.before;
+    return t(`components.bookHistory.session${operation}`, { date: formatDay(session?.date) });
+  };
+
+  const getDetails = (entry: ChangeLogEntry): string[] => {
+    if (entry.operation !== 'update') {
+      const session = entry.after ?? entry.before;
+      return entry.table_name === 'reading_sessions'
+        ? [t('components.bookHistory.sessionSummary', { minutes: session?.minutes_read, pages: session?.pages_read ?? 0 })]
+        : [];
+    }
+    return entry.changes
+      .filter((change: FieldChange) => VISIBLE_FIELDS.includes(change.field))
+      .map((change: FieldChange) =>
+        `${t(`components.bookHistory.fields.${change.field}`)}: ${formatValue(change.field, change.before)} → ${formatValue(change.field, change.after)}`
+      );
+  };
+
+  const handleRevert = (entry: ChangeLogEntry) => {
+    Alert.alert(
+      t('components.bookHistory.revertConfirmTitle'),
+      t('components.bookHistory.revertConfirmMessage'),
+      [
+        { text: t('components.bookHistory.cancel'), style: 'cancel' },
+        {
+          text: t('components.bookHistory.revert'),
+          onPress: async () => {
+            try {
+              await ChangeLogRepository.revert(entry.id);
+            } catch (error) {
+              console.error('Error reverting change:', error);
+              const message = error instanceof Error && ['Row not found', 'Row already exists'].includes(error.message)
+                ? t('components.bookHistory.revertRowMissing')
+                : error instanceof Error && error.message === 'Book not found'
+                  ? t('components.bookHistory.revertBookMissing')
+                  : t('components.bookHistory.revertFailed');
+              Alert.alert(t('components.bookHistory.errorTitle'), message);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading && !entries) {
+    return <ActivityIndicator style={styles.loading} color="#6C63FF" />;
+  }
+
+  if (!entries?.length) {
+    return <Text style={styles.emptyText}>{t('components.bookHistory.empty')}</Text>;
+  }
+
+  return (
+    <View style={styles.list}>
+      {entries.map((entry, index) => {
+        const icon = OPERATION_ICONS[entry.operation];
+        // Undoing the book's own creation would delete the book being viewed
+        const canRevert = !(entry.table_name === 'enhanced_books' && entry.operation === 'insert');
+        return (
+          <View key={entry.id} style={[styles.entry, index > 0 && styles.entryDivider]}>
+            <Ionicons name={icon.name} size={18} color={icon.color} />
+            <View style={styles.entryInfo}>
+              <Text style={styles.entryTitle}>{getTitle(entry)}</Text>
+              {getDetails(entry).map(detail => (
+                <Text key={detail} style={styles.entryDetail} numberOfLines={2}>{detail}</Text>
+              ))}
+              <Text style={styles.entryTime}>{formatChangedAt(entry.changed_at)}</Text>
+            </View>
+            {canRevert && (
+              <TouchableOpacity
+                style={styles.revertButton}
+                onPress={() => handleRevert(entry)}
+                accessibilityLabel={t('components.bookHistory.revert')}
+              >
+                <Ionicons name="arrow-undo" size={18} color="#6C63FF" />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94A3B8',
+  },
+  list: {
+    backgroundColor: '#F8FAFC',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    overflow: 'hidden',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+  },
+  entryDivider: {
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  entryDetail: {
+    fontSize: 13,
+    color: '#475569',
+    marginTop: 2,
+  },
+  entryTime: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 4,
+  },
+  revertButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+});
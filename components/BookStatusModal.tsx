@@ -1,24 +1,31 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
     Animated,
     Modal,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     View,
 } from 'react-native';
+import { CycleStop } from '../db/cycleRepository';
 
-export type BookStatus = 'want_to_read' | 'currently_reading' | 'read';
+export type BookStatus = 'want_to_read' | 'currently_reading' | 'read' | 'paused' | 'dnf';
+
+type StopStatus = 'paused' | 'dnf';
 
 interface BookStatusModalProps {
   visible: boolean;
   bookTitle: string;
   currentStatus: BookStatus;
-  onStatusChange: (status: BookStatus) => void;
+  onStatusChange: (status: BookStatus, stop?: CycleStop) => void;
   onClose: () => void;
   fadeAnim: Animated.Value;
   scaleAnim: Animated.Value;
+  currentPage?: number; // Prefills the page a paused or given up book stopped at
+  totalPages?: number;
+  allowStop?: boolean; // Books not added yet cannot be paused or given up
 }
 
 export default function BookStatusModal({
@@ -29,8 +36,22 @@ export default function BookStatusModal({
   onClose,
   fadeAnim,
   scaleAnim,
+  currentPage = 0,
+  totalPages = 0,
+  allowStop = true,
 }: BookStatusModalProps) {
   const { t } = useTranslation();
+  const [stopStatus, setStopStatus] = useState<StopStatus | null>(null);
+  const [stopPage, setStopPage] = useState('');
+  const [stopReason, setStopReason] = useState('');
+  const [stopError, setStopError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setStopStatus(null);
+      setStopError(null);
+    }
+  }, [visible]);
 
   const statusOptions: Array<{
     value: BookStatus;
@@ -46,7 +67,20 @@ export default function BookStatusModal({
       emoji: '📚',
       color: '#F59E0B',
     },
-    {
+    // Starting a finished or given up book again is a reread; the earlier read is kept
+    currentStatus === 'read' || currentStatus === 'dnf' ? {
+      value: 'currently_reading',
+      label: t('bookStatus.options.reread.label'),
+      description: t('bookStatus.options.reread.description'),
+      emoji: '🔁',
+      color: '#3B82F6',
+    } : currentStatus === 'paused' ? {
+      value: 'currently_reading',
+      label: t('bookStatus.options.resume.label'),
+      description: t('bookStatus.options.resume.description'),
+      emoji: '▶️',
+      color: '#3B82F6',
+    } : {
       value: 'currently_reading',
       label: t('bookStatus.options.currentlyReading.label'),
       description: t('bookStatus.options.currentlyReading.description'),
@@ -60,13 +94,53 @@ export default function BookStatusModal({
       emoji: '✅',
       color: '#10B981',
     },
+    ...(allowStop ? [
+      {
+        value: 'paused' as const,
+        label: t('bookStatus.options.paused.label'),
+        description: t('bookStatus.options.paused.description'),
+        emoji: '⏸️',
+        color: '#8B5CF6',
+      },
+      {
+        value: 'dnf' as const,
+        label: t('bookStatus.options.dnf.label'),
+        description: t('bookStatus.options.dnf.description'),
+        emoji: '🚫',
+        color: '#EF4444',
+      },
+    ] : []),
   ];
 
   const handleStatusSelect = (status: BookStatus) => {
+    if (status === 'paused' || status === 'dnf') {
+      // Ask where the book stopped before changing its status
+      setStopStatus(status);
+      setStopPage(currentPage > 0 ? currentPage.toString() : '');
+      setStopReason('');
+      setStopError(null);
+      return;
+    }
     onStatusChange(status);
     onClose();
   };
 
+  const handleStopConfirm = () => {
+    if (!stopStatus) return;
+
+    let page: number | null = null;
+    if (stopPage.trim()) {
+      page = Number(stopPage);
+      if (!Number.isInteger(page) || page < 0 || (totalPages > 0 && page > totalPages)) {
+        setStopError(t('bookStatus.stop.invalidPage', { total: totalPages }));
+        return;
+      }
+    }
+
+    onStatusChange(stopStatus, { page, reason: stopReason.trim() || null });
+    onClose();
+  };
+
   return (
     <Modal
       transparent
@@ -95,46 +169,92 @@ export default function BookStatusModal({
             {bookTitle}
           </Text>
 
-          <View style={styles.statusOptions}>
-            {statusOptions.map((option) => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.statusOption,
-                  currentStatus === option.value && styles.statusOptionActive,
-                  { borderColor: option.color },
-                ]}
-                onPress={() => handleStatusSelect(option.value)}
-              >
-                <View style={styles.statusOptionLeft}>
-                  <View
-                    style={[
-                      styles.statusEmoji,
-                      { backgroundColor: option.color + '20' },
-                    ]}
-                  >
-                    <Text style={styles.statusEmojiText}>{option.emoji}</Text>
-                  </View>
-                  <View style={styles.statusTextContainer}>
-                    <Text style={styles.statusLabel}>{option.label}</Text>
-                    <Text style={styles.statusDescription}>
-                      {option.description}
-                    </Text>
-                  </View>
-                </View>
-                {currentStatus === option.value && (
-                  <View
-                    style={[
-                      styles.selectedIndicator,
-                      { backgroundColor: option.color },
-                    ]}
-                  >
-                    <Text style={styles.selectedIndicatorText}>✓</Text>
+          {stopStatus ? (
+            <View style={styles.stopForm}>
+              <Text style={styles.stopTitle}>
+                {stopStatus === 'paused' ? t('bookStatus.stop.pausedTitle') : t('bookStatus.stop.dnfTitle')}
+              </Text>
+
+              <Text style={styles.stopLabel}>
+                {totalPages > 0
+                  ? t('bookStatus.stop.pageOf', { total: totalPages })
+                  : t('bookStatus.stop.page')}
+              </Text>
+              <TextInput
+                style={styles.stopInput}
+                value={stopPage}
+                onChangeText={(value) => {
+                  setStopPage(value);
+                  setStopError(null);
+                }}
+                keyboardType="numeric"
+                placeholder={t('bookStatus.stop.pagePlaceholder')}
+                placeholderTextColor="#94A3B8"
+              />
+
+              <Text style={styles.stopLabel}>{t('bookStatus.stop.reason')}</Text>
+              <TextInput
+                style={[styles.stopInput, styles.stopReasonInput]}
+                value={stopReason}
+                onChangeText={setStopReason}
+                placeholder={t('bookStatus.stop.reasonPlaceholder')}
+                placeholderTextColor="#94A3B8"
+                multiline
+              />
+
+              {stopError && <Text style={styles.stopError}>{stopError}</Text>}
+
+              <View style={styles.stopButtons}>
+                <TouchableOpacity style={styles.stopBackButton} onPress={() => setStopStatus(null)}>
+                  <Text style={styles.stopBackButtonText}>{t('bookStatus.stop.back')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.stopConfirmButton} onPress={handleStopConfirm}>
+                  <Text style={styles.stopConfirmButtonText}>{t('bookStatus.stop.confirm')}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.statusOptions}>
+              {statusOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.statusOption,
+                    currentStatus === option.value && styles.statusOptionActive,
+                    { borderColor: option.color },
+                  ]}
+                  onPress={() => handleStatusSelect(option.value)}
+                >
+                  <View style={styles.statusOptionLeft}>
+                    <View
+                      style={[
+                        styles.statusEmoji,
+                        { backgroundColor: option.color + '20' },
+                      ]}
+                    >
+                      <Text style={styles.statusEmojiText}>{option.emoji}</Text>
+                    </View>
+                    <View style={styles.statusTextContainer}>
+                      <Text style={styles.statusLabel}>{option.label}</Text>
+                      <Text style={styles.statusDescription}>
+                        {option.description}
+                      </Text>
+                    </View>
                   </View>
-                )}
-              </TouchableOpacity>
-            ))}
-          </View>
+                  {currentStatus === option.value && (
+                    <View
+                      style={[
+                        styles.selectedIndicator,
+                        { backgroundColor: option.color },
+                      ]}
+                    >
+                      <Text style={styles.selectedIndicatorText}>✓</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </Animated.View>
       </View>
     </Modal>
@@ -251,4 +371,65 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: 'bold',
   },
+  stopForm: {
+    gap: 8,
+  },
+  stopTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  stopLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+    marginTop: 4,
+  },
+  stopInput: {
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1E293B',
+  },
+  stopReasonInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  stopError: {
+    fontSize: 14,
+    color: '#EF4444',
+  },
+  stopButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  stopBackButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#F1F5F9',
+    alignItems: 'center',
+  },
+  stopBackButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  stopConfirmButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#6C63FF',
+    alignItems: 'center',
+  },
+  stopConfirmButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
 });
@@ -1,21 +1,27 @@
 import { useTranslation } from 'react-i18next';
 import { StyleSheet, Text, View } from 'react-native';
 import Svg, { Circle } from 'react-native-svg';
+import { GoalUnit } from '../types/database';
 
 interface DailyProgressCardProps {
-  todayMinutes: number;
-  goalMinutes: number;
+  progress: number; // In the goal's unit; books count this month
+  goal: number;
+  unit: GoalUnit;
   streakDays: number;
+  sessionsWithoutPages?: number; // Today's sessions a page goal cannot count
 }
 
 export default function DailyProgressCard({ 
-  todayMinutes, 
-  goalMinutes, 
-  streakDays 
+  progress, 
+  goal, 
+  unit,
+  streakDays,
+  sessionsWithoutPages = 0
 }: DailyProgressCardProps) {
   const { t } = useTranslation();
-  const percentage = goalMinutes > 0 ? Math.min((todayMinutes / goalMinutes) * 100, 100) : 0;
-  const isGoalReached = todayMinutes >= goalMinutes;
+  const percentage = goal > 0 ? Math.min((progress / goal) * 100, 100) : 0;
+  const isGoalReached = progress >= goal;
+  const isMonthly = unit === 'books';
   
   // Calculate the visual progress for the circular progress
   const radius = 40;
@@ -31,6 +37,13 @@ export default function DailyProgressCard({
     return `${minutes} ${t('components.readingTimeLogger.minutesShort')}`;
   };
 
+  const formatAmount = (amount: number) => {
+    if (unit === 'minutes') {
+      return formatMinutes(amount);
+    }
+    return t(`components.dailyProgress.${unit}`, { count: amount });
+  };
+
   const getMotivationMessage = () => {
     if (isGoalReached) {
       return t('components.dailyProgress.goalCrushed');
@@ -40,7 +53,7 @@ export default function DailyProgressCard({
       return t('components.dailyProgress.goodProgress');
     } else if (percentage >= 25) {
       return t('components.dailyProgress.greatStart');
-    } else if (todayMinutes > 0) {
+    } else if (progress > 0) {
       return t('components.dailyProgress.everyMinute');
     } else {
       return t('components.dailyProgress.readyToStart');
@@ -49,7 +62,9 @@ export default function DailyProgressCard({
 
   return (
     <View style={styles.card}>
-      <Text style={styles.cardTitle}>{t('components.dailyProgress.title')}</Text>
+      <Text style={styles.cardTitle}>
+        {t(isMonthly ? 'components.dailyProgress.monthTitle' : 'components.dailyProgress.title')}
+      </Text>
       
       <View style={styles.progressContainer}>
         {/* Progress Ring */}
@@ -90,14 +105,16 @@ export default function DailyProgressCard({
         {/* Stats */}
         <View style={styles.stats}>
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>{formatMinutes(todayMinutes)}</Text>
-            <Text style={styles.statLabel}>{t('components.dailyProgress.today')}</Text>
+            <Text style={styles.statValue}>{formatAmount(progress)}</Text>
+            <Text style={styles.statLabel}>
+              {t(isMonthly ? 'components.dailyProgress.thisMonth' : 'components.dailyProgress.today')}
+            </Text>
           </View>
           
           <View style={styles.statDivider} />
           
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>{formatMinutes(goalMinutes)}</Text>
+            <Text style={styles.statValue}>{formatAmount(goal)}</Text>
             <Text style={styles.statLabel}>{t('components.dailyProgress.goal')}</Text>
           </View>
           
@@ -124,9 +141,18 @@ export default function DailyProgressCard({
       </View>
 
       {/* Time Remaining */}
-      {!isGoalReached && goalMinutes > 0 && (
+      {!isGoalReached && goal > 0 && (
         <Text style={styles.remainingText}>
-          {t('components.dailyProgress.leftToReach', { time: formatMinutes(goalMinutes - todayMinutes) })}
+          {t(isMonthly ? 'components.dailyProgress.leftToReachMonthly' : 'components.dailyProgress.leftToReach', {
+            time: formatAmount(goal - progress)
+          })}
+        </Text>
+      )}
+
+      {/* Sessions logged without pages can't count toward a page goal */}
+      {unit === 'pages' && sessionsWithoutPages > 0 && (
+        <Text style={styles.warningText}>
+          {t('components.dailyProgress.missingPages', { count: sessionsWithoutPages })}
         </Text>
       )}
     </View>
@@ -235,4 +261,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  warningText: {
+    fontSize: 12,
+    color: '#B45309',
+    textAlign: 'center',
+    marginTop: 8,
+  },
 });
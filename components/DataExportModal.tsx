@@ -1,5 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
     ActivityIndicator,
@@ -12,6 +12,8 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
+import { getActiveProfileId } from '../db/db';
+import { ProfileRepository } from '../db/profileRepository';
 import { BackupOptions, exportAndSaveBackup } from '../services/dataBackupService';
 
 interface DataExportModalProps {
@@ -31,10 +33,21 @@ export default function DataExportModal({ visible, onClose, onSuccess }: DataExp
     includeAppUsage: false, // Default to false as this can be large
     compressed: false,
   });
+  // Only the active reader is exported unless every reader is asked for
+  const [includeAllReaders, setIncludeAllReaders] = useState(false);
+  const [profileCount, setProfileCount] = useState(1);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
   const [exportMessage, setExportMessage] = useState('');
 
+  useEffect(() => {
+    if (visible) {
+      ProfileRepository.list()
+        .then(profiles => setProfileCount(profiles.length))
+        .catch(error => console.error('Error loading profiles:', error));
+    }
+  }, [visible]);
+
   const handleExport = async () => {
     setIsExporting(true);
     setExportProgress(0);
@@ -42,7 +55,7 @@ export default function DataExportModal({ visible, onClose, onSuccess }: DataExp
 
     try {
       const result = await exportAndSaveBackup(
-        exportOptions,
+        { ...exportOptions, profileId: includeAllReaders ? undefined : getActiveProfileId() },
         (progress: number, message: string) => {
           setExportProgress(progress);
           setExportMessage(message);
@@ -138,6 +151,24 @@ export default function DataExportModal({ visible, onClose, onSuccess }: DataExp
             </Text>
 
             <View style={styles.optionsList}>
+              {profileCount > 1 && (
+                <View style={styles.option}>
+                  <View style={styles.optionLeft}>
+                    <Ionicons name="people" size={20} color="#6C63FF" />
+                    <View style={styles.optionText}>
+                      <Text style={styles.optionTitle}>{t('dataBackup.export.options.includeAllReaders')}</Text>
+                      <Text style={styles.optionDescription}>{t('dataBackup.export.options.includeAllReadersDescription')}</Text>
+                    </View>
+                  </View>
+                  <Switch
+                    value={includeAllReaders}
+                    onValueChange={setIncludeAllReaders}
+                    trackColor={{ false: '#E5E7EB', true: '#C7D2FE' }}
+                    thumbColor={includeAllReaders ? '#6C63FF' : '#9CA3AF'}
+                  />
+                </View>
+              )}
+
               <View style={styles.option}>
                 <View style={styles.optionLeft}>
                   <Ionicons name="library" size={20} color="#6C63FF" />
@@ -0,0 +1,401 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    Alert,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { GoalProgressionStrategy } from '../types/database';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate } from '../utils/dateUtils';
+import { GoalPlanSummary, getGoalPlanSummary } from '../utils/goalPlan';
+import { buildProgressionSettings, DEFAULT_GOAL_PROGRESSION_STRATEGY, getWeeksUntil } from '../utils/goalProgression';
+import GoalSchedulePreview from './GoalSchedulePreview';
+
+interface GoalPlanReviewModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Suggested length of a new plan
+const DEFAULT_PLAN_WEEKS = 12;
+const MAX_DAILY_GOAL_MINUTES = 480;
+
+/**
+ * Review how a reading goal plan went, then keep the goal, start a new plan
+ * toward another target, or switch to maintenance
+ */
+export default function GoalPlanReviewModal({ visible, onClose }: GoalPlanReviewModalProps) {
+  const { t, i18n } = useTranslation();
+  const [summary, setSummary] = useState<GoalPlanSummary | null>(null);
+  const [choosingTarget, setChoosingTarget] = useState(false);
+  const [targetGoal, setTargetGoal] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [showPicker, setShowPicker] = useState(false);
+  const [strategy, setStrategy] = useState<GoalProgressionStrategy>(DEFAULT_GOAL_PROGRESSION_STRATEGY);
+  const [saving, setSaving] = useState(false);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const preferences = await PreferencesRepository.get();
+      setStrategy(preferences?.goal_progression_strategy || DEFAULT_GOAL_PROGRESSION_STRATEGY);
+      setSummary(await getGoalPlanSummary());
+    } catch (error) {
+      console.error('Error loading goal plan summary:', error);
+      setSummary(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      setChoosingTarget(false);
+      loadSummary();
+    }
+  }, [visible, loadSummary]);
+
+  const formatDate = (date: string) => {
+    return localDateStringToDate(date).toLocaleDateString(i18n.language, { year: 'numeric', month: 'long', day: 'numeric' });
+  };
+
+  const startChoosingTarget = () => {
+    const suggested = new Date();
+    suggested.setDate(suggested.getDate() + DEFAULT_PLAN_WEEKS * 7);
+    setTargetGoal(summary ? String(summary.endRate) : '');
+    setTargetDate(dateToLocalDateString(suggested));
+    setChoosingTarget(true);
+  };
+
+  const endPlan = async (mode: 'keep' | 'maintenance') => {
+    setSaving(true);
+    try {
+      await PreferencesRepository.endGoalPlan(mode);
+      onClose();
+    } catch (error) {
+      console.error('Error ending goal plan:', error);
+      Alert.alert(t('components.goalPlanReview.errorTitle'), t('components.goalPlanReview.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currentRate = summary?.endRate || 0;
+  const target = Number(targetGoal);
+  const isTargetValid = target > 0 && target >= currentRate && target <= MAX_DAILY_GOAL_MINUTES && targetDate > getTodayDateString();
+  const weeks = targetDate ? getWeeksUntil(localDateStringToDate(targetDate)) : 1;
+  const settings = buildProgressionSettings(currentRate, target, weeks);
+
+  const startNewPlan = async () => {
+    if (!isTargetValid) {
+      Alert.alert(t('components.goalPlanReview.errorTitle'), t('components.goalPlanReview.invalidTarget', { minutes: currentRate }));
+      return;
+    }
+    setSaving(true);
+    try {
+      await PreferencesRepository.startGoalPlan({
+        end_reading_rate_goal_minutes_per_day: target,
+        end_reading_rate_goal_date: localDateStringToDate(targetDate).toISOString(),
+        weekly_reading_rate_increase_minutes: settings.weeklyIncreaseMinutes,
+        weekly_reading_rate_increase_minutes_percentage: settings.weeklyIncreasePercentage,
+        goal_progression_strategy: strategy,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error starting goal plan:', error);
+      Alert.alert(t('components.goalPlanReview.errorTitle'), t('components.goalPlanReview.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSummary = (planSummary: GoalPlanSummary) => (
+    <View style={styles.card}>
+      <Text style={styles.period}>
+        {planSummary.endDate
+          ? t(planSummary.endDate < getTodayDateString() ? 'components.goalPlanReview.endedOn' : 'components.goalPlanReview.endsOn', {
+            date: formatDate(planSummary.endDate),
+          })
+          : t('components.goalPlanReview.noEndDate')}
+      </Text>
+
+      <View style={styles.rates}>
+        <View style={styles.rate}>
+          <Text style={styles.rateValue}>{planSummary.startRate}</Text>
+          <Text style={styles.rateLabel}>{t('components.goalPlanReview.startRate')}</Text>
+        </View>
+        <Ionicons name="arrow-forward" size={20} color="#94A3B8" />
+        <View style={styles.rate}>
+          <Text style={[styles.rateValue, planSummary.endRate >= planSummary.targetRate && styles.rateValueReached]}>
+            {planSummary.endRate}
+          </Text>
+          <Text style={styles.rateLabel}>{t('components.goalPlanReview.endRate')}</Text>
+        </View>
+        <View style={styles.rate}>
+          <Text style={styles.rateValue}>{planSummary.targetRate}</Text>
+          <Text style={styles.rateLabel}>{t('components.goalPlanReview.targetRate')}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.adherence}>
+        {planSummary.weeksTracked > 0
+          ? t('components.goalPlanReview.adherence', {
+            met: planSummary.weeksMet,
+            count: planSummary.weeksTracked,
+            percent: Math.round(planSummary.adherence * 100),
+          })
+          : t('components.goalPlanReview.noWeeks')}
+      </Text>
+    </View>
+  );
+
+  const renderChoices = () => (
+    <View style={styles.choices}>
+      <TouchableOpacity style={styles.choice} onPress={() => endPlan('keep')} disabled={saving}>
+        <Text style={styles.choiceTitle}>{t('components.goalPlanReview.keep')}</Text>
+        <Text style={styles.choiceDescription}>
+          {t('components.goalPlanReview.keepDescription', { minutes: currentRate })}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.choice} onPress={startChoosingTarget} disabled={saving}>
+        <Text style={styles.choiceTitle}>{t('components.goalPlanReview.newTarget')}</Text>
+        <Text style={styles.choiceDescription}>{t('components.goalPlanReview.newTargetDescription')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.choice} onPress={() => endPlan('maintenance')} disabled={saving}>
+        <Text style={styles.choiceTitle}>{t('components.goalPlanReview.maintenance')}</Text>
+        <Text style={styles.choiceDescription}>
+          {t('components.goalPlanReview.maintenanceDescription', { minutes: currentRate })}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderNewTarget = () => (
+    <View style={styles.card}>
+      <Text style={styles.label}>{t('components.goalPlanReview.targetLabel')}</Text>
+      <TextInput
+        style={styles.input}
+        value={targetGoal}
+        onChangeText={text => setTargetGoal(text.replace(/[^0-9]/g, ''))}
+        keyboardType="numeric"
+        maxLength={3}
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>{t('components.goalPlanReview.dateLabel')}</Text>
+      <TouchableOpacity style={styles.dateButton} onPress={() => setShowPicker(!showPicker)}>
+        <Text style={styles.dateButtonText}>📅 {formatDate(targetDate)}</Text>
+      </TouchableOpacity>
+      {showPicker && (
+        <DateTimePicker
+          value={localDateStringToDate(targetDate)}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          minimumDate={new Date()}
+          onChange={(event, selectedDate) => {
+            setShowPicker(false);
+            if (selectedDate && event.type !== 'dismissed') {
+              setTargetDate(dateToLocalDateString(selectedDate));
+            }
+          }}
+        />
+      )}
+
+      {isTargetValid && (
+        <GoalSchedulePreview
+          settings={settings}
+          weeks={weeks}
+          strategy={strategy}
+          onStrategyChange={setStrategy}
+          disabled={saving}
+        />
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setChoosingTarget(false)} disabled={saving}>
+          <Text style={styles.secondaryButtonText}>{t('components.goalPlanReview.back')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={startNewPlan} disabled={saving}>
+          <Text style={styles.primaryButtonText}>{t('components.goalPlanReview.startPlan')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#6C63FF" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('components.goalPlanReview.title')}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {summary && renderSummary(summary)}
+          {choosingTarget ? renderNewTarget() : renderChoices()}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 20,
+    gap: 12,
+  },
+  period: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  rates: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+  },
+  rate: {
+    alignItems: 'center',
+  },
+  rateValue: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  rateValueReached: {
+    color: '#10B981',
+  },
+  rateLabel: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  adherence: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    textAlign: 'center',
+  },
+  choices: {
+    marginTop: 20,
+    gap: 12,
+  },
+  choice: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    padding: 16,
+    gap: 4,
+  },
+  choiceTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  choiceDescription: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1E293B',
+  },
+  dateButton: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    color: '#1E293B',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#6C63FF',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,143 @@
+import { useTranslation } from 'react-i18next';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { GoalProgressionStrategy } from '../types/database';
+import { buildGoalSchedule, GOAL_PROGRESSION_STRATEGIES, ProgressionSettings } from '../utils/goalProgression';
+
+interface GoalSchedulePreviewProps {
+  settings: ProgressionSettings;
+  weeks: number;
+  strategy: GoalProgressionStrategy;
+  onStrategyChange: (strategy: GoalProgressionStrategy) => void;
+  disabled?: boolean;
+}
+
+const CHART_HEIGHT = 100;
+
+/**
+ * Strategy picker with a week-by-week chart of the daily goal it would set
+ */
+export default function GoalSchedulePreview({ settings, weeks, strategy, onStrategyChange, disabled }: GoalSchedulePreviewProps) {
+  const { t } = useTranslation();
+  const schedule = buildGoalSchedule(strategy, settings, weeks);
+  const highestGoal = Math.max(settings.targetGoal, ...schedule, 1);
+  const finalGoal = schedule[schedule.length - 1];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{t('components.goalProgression.title')}</Text>
+      <View style={styles.strategyButtons}>
+        {GOAL_PROGRESSION_STRATEGIES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.strategyButton, strategy === option && styles.strategyButtonActive]}
+            onPress={() => onStrategyChange(option)}
+            disabled={disabled}
+          >
+            <Text style={[styles.strategyButtonText, strategy === option && styles.strategyButtonTextActive]}>
+              {t(`components.goalProgression.strategies.${option}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.description}>
+        {t(`components.goalProgression.descriptions.${strategy}`, { minutes: settings.weeklyIncreaseMinutes })}
+      </Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chart}>
+        {schedule.map((goal, index) => (
+          <View key={index} style={styles.barColumn}>
+            <View style={styles.barTrack}>
+              <View
+                style={[
+                  styles.bar,
+                  { height: (goal / highestGoal) * CHART_HEIGHT },
+                  goal >= settings.targetGoal && styles.barAtTarget
+                ]}
+              />
+            </View>
+            <Text style={styles.barLabel}>{index + 1}</Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <Text style={styles.summary}>
+        {finalGoal >= settings.targetGoal
+          ? t('components.goalProgression.reachesTarget', { minutes: settings.targetGoal, count: schedule.indexOf(finalGoal) + 1 })
+          : t('components.goalProgression.endsAt', { minutes: finalGoal, count: weeks })}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    width: '100%',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  strategyButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  strategyButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+  },
+  strategyButtonActive: {
+    borderColor: '#6C63FF',
+    backgroundColor: '#EEF2FF',
+  },
+  strategyButtonText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  strategyButtonTextActive: {
+    color: '#6C63FF',
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  chart: {
+    alignItems: 'flex-end',
+    gap: 4,
+    paddingVertical: 4,
+  },
+  barColumn: {
+    alignItems: 'center',
+    width: 16,
+  },
+  barTrack: {
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: 12,
+    minHeight: 2,
+    borderRadius: 4,
+    backgroundColor: '#A5B4FC',
+  },
+  barAtTarget: {
+    backgroundColor: '#10B981',
+  },
+  barLabel: {
+    fontSize: 10,
+    color: '#94A3B8',
+    marginTop: 2,
+  },
+  summary: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+});
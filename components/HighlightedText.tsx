@@ -0,0 +1,40 @@
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+import { HIGHLIGHT_END, HIGHLIGHT_START } from '../db/searchRepository';
+
+interface HighlightedTextProps {
+  text: string;
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+/**
+ * Render a search snippet, emphasising the terms wrapped in highlight markers
+ */
+export default function HighlightedText({ text, style, highlightStyle, numberOfLines }: HighlightedTextProps) {
+  // Splitting on the start marker leaves "match<END>rest" in every part after the first
+  const parts = text.split(HIGHLIGHT_START);
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts[0]}
+      {parts.slice(1).map((part, index) => {
+        const [match, rest = ''] = part.split(HIGHLIGHT_END);
+        return (
+          <Text key={index}>
+            <Text style={[styles.highlight, highlightStyle]}>{match}</Text>
+            {rest}
+          </Text>
+        );
+      })}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: '#EDE9FE',
+    color: '#5B21B6',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,177 @@
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TextInput, View } from 'react-native';
+import { findOverlaps, formatPageRanges, getPageRangeProblem, PageRange, parsePageRange } from '../utils/pageRanges';
+
+interface PageRangeInputProps {
+  startPage: string;
+  endPage: string;
+  onChangeStartPage: (value: string) => void;
+  onChangeEndPage: (value: string) => void;
+  bookName: string;
+  totalPages: number;
+  readRanges: PageRange[]; // Pages already read in other sessions of the book
+  editable?: boolean;
+}
+
+/**
+ * "From page … to page …" inputs with feedback on the entered range:
+ * its size, and warnings for backward ranges, pages past the end of the book and rereads.
+ */
+export default function PageRangeInput({
+  startPage,
+  endPage,
+  onChangeStartPage,
+  onChangeEndPage,
+  bookName,
+  totalPages,
+  readRanges,
+  editable = true,
+}: PageRangeInputProps) {
+  const { t } = useTranslation();
+  const range = parsePageRange(startPage, endPage);
+  const validRange = range && range !== 'invalid' ? range : null;
+  const problem = validRange ? getPageRangeProblem(validRange, totalPages) : null;
+  const overlaps = validRange && !problem ? findOverlaps(validRange, readRanges) : [];
+
+  return (
+    <View>
+      <View style={styles.inputsRow}>
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>{t('components.pageRangeInput.from')}</Text>
+          <TextInput
+            style={styles.input}
+            value={startPage}
+            onChangeText={onChangeStartPage}
+            keyboardType="numeric"
+            placeholder="1"
+            placeholderTextColor="#94A3B8"
+            editable={editable}
+          />
+        </View>
+        <Text style={styles.arrow}>→</Text>
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>{t('components.pageRangeInput.to')}</Text>
+          <TextInput
+            style={styles.input}
+            value={endPage}
+            onChangeText={onChangeEndPage}
+            keyboardType="numeric"
+            placeholder={totalPages > 0 ? totalPages.toString() : ''}
+            placeholderTextColor="#94A3B8"
+            editable={editable}
+          />
+        </View>
+      </View>
+
+      {validRange && !problem && (
+        <View style={styles.preview}>
+          <Text style={styles.previewText}>
+            {t('components.pageRangeInput.preview', {
+              start: validRange.start,
+              end: validRange.end,
+              pages: validRange.end - validRange.start + 1,
+              bookName,
+            })}
+          </Text>
+        </View>
+      )}
+
+      {problem === 'backward' && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>{t('components.pageRangeInput.backwardWarning')}</Text>
+        </View>
+      )}
+
+      {problem === 'beyondBook' && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {t('components.pageRangeInput.beyondBookWarning', { bookName, total: totalPages })}
+          </Text>
+        </View>
+      )}
+
+      {overlaps.length > 0 && (
+        <View style={styles.notice}>
+          <Text style={styles.noticeText}>
+            {t('components.pageRangeInput.overlapWarning', { pages: formatPageRanges(overlaps) })}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputsRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 12,
+    marginBottom: 12,
+  },
+  inputContainer: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 16,
+    height: 48,
+    fontSize: 16,
+    color: '#1E293B',
+  },
+  arrow: {
+    fontSize: 18,
+    color: '#94A3B8',
+    paddingBottom: 12,
+  },
+  preview: {
+    backgroundColor: '#F0F9FF',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#0EA5E9',
+    marginBottom: 8,
+  },
+  previewText: {
+    fontSize: 12,
+    color: '#0369A1',
+    lineHeight: 16,
+    textAlign: 'center',
+  },
+  warning: {
+    backgroundColor: '#FEF2F2',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+    marginBottom: 8,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#DC2626',
+    lineHeight: 16,
+    textAlign: 'center',
+  },
+  notice: {
+    backgroundColor: '#FFFBEB',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+    marginBottom: 8,
+  },
+  noticeText: {
+    fontSize: 12,
+    color: '#B45309',
+    lineHeight: 16,
+    textAlign: 'center',
+  },
+});
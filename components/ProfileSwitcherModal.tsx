@@ -0,0 +1,275 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { getActiveProfileId } from '../db/db';
+import { Profile, ProfileRepository } from '../db/profileRepository';
+import { syncWeeklyProgress } from '../utils/weeklyProgress';
+
+interface ProfileSwitcherModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSwitched: () => void;
+  onAddProfile: () => void;
+}
+
+export default function ProfileSwitcherModal({ visible, onClose, onSwitched, onAddProfile }: ProfileSwitcherModalProps) {
+  const { t } = useTranslation();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadProfiles = useCallback(async () => {
+    setLoading(true);
+    try {
+      setProfiles(await ProfileRepository.list());
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadProfiles();
+    }
+  }, [visible, loadProfiles]);
+
+  const handleSwitch = async (profile: Profile) => {
+    if (profile.id === getActiveProfileId()) {
+      onClose();
+      return;
+    }
+    try {
+      await ProfileRepository.switchTo(profile.id);
+      // Fill in the weeks this profile missed while another one was in use
+      await syncWeeklyProgress();
+      onSwitched();
+    } catch (error) {
+      console.error('Error switching profile:', error);
+      Alert.alert(t('components.profileSwitcher.errorTitle'), t('components.profileSwitcher.switchFailed'));
+    }
+  };
+
+  const handleDelete = (profile: Profile) => {
+    Alert.alert(
+      t('components.profileSwitcher.deleteConfirmTitle'),
+      t('components.profileSwitcher.deleteConfirmMessage', { name: profile.username }),
+      [
+        { text: t('components.profileSwitcher.cancel'), style: 'cancel' },
+        {
+          text: t('components.profileSwitcher.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ProfileRepository.delete(profile.id);
+              await loadProfiles();
+            } catch (error) {
+              console.error('Error deleting profile:', error);
+              Alert.alert(t('components.profileSwitcher.errorTitle'), t('components.profileSwitcher.deleteFailed'));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#6C63FF" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('components.profileSwitcher.title')}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Text style={styles.subtitle}>{t('components.profileSwitcher.subtitle')}</Text>
+
+          {loading && profiles.length === 0 ? (
+            <ActivityIndicator style={styles.loading} color="#6C63FF" />
+          ) : (
+            <View style={styles.profileList}>
+              {profiles.map((profile, index) => {
+                const isActive = profile.id === getActiveProfileId();
+                return (
+                  <View key={profile.id} style={[styles.profileRow, index > 0 && styles.profileDivider]}>
+                    <TouchableOpacity style={styles.profileButton} onPress={() => handleSwitch(profile)}>
+                      <View style={[styles.avatar, isActive && styles.avatarActive]}>
+                        <Text style={[styles.avatarText, isActive && styles.avatarTextActive]}>
+                          {profile.username.charAt(0).toUpperCase()}
+                        </Text>
+                      </View>
+                      <View style={styles.profileInfo}>
+                        <Text style={styles.profileName} numberOfLines={1}>{profile.username}</Text>
+                        <Text style={styles.profileDetails}>
+                          {t('components.profileSwitcher.books', { count: profile.book_count })}
+                        </Text>
+                      </View>
+                      {isActive && (
+                        <View style={styles.activeBadge}>
+                          <Text style={styles.activeBadgeText}>{t('components.profileSwitcher.active')}</Text>
+                        </View>
+                      )}
+                    </TouchableOpacity>
+                    {!isActive && (
+                      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(profile)}>
+                        <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          <TouchableOpacity style={styles.addButton} onPress={onAddProfile}>
+            <Ionicons name="person-add" size={20} color="#FFFFFF" />
+            <Text style={styles.addButtonText}>{t('components.profileSwitcher.addReader')}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 24,
+    marginBottom: 16,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  profileList: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: 8,
+  },
+  profileDivider: {
+    borderTopWidth: 1,
+    borderTopColor: '#F1F5F9',
+  },
+  profileButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarActive: {
+    backgroundColor: '#6C63FF',
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#6C63FF',
+  },
+  avatarTextActive: {
+    color: '#FFFFFF',
+  },
+  profileInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1E293B',
+  },
+  profileDetails: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  activeBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+  },
+  activeBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6C63FF',
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#6C63FF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 20,
+    marginBottom: 40,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -1,8 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { queryAll } from '../db/db';
+import { GoalHistoryRepository } from '../db/goalHistoryRepository';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { StreakDayKind, StreakRepository } from '../db/streakRepository';
+import { useLiveData } from '../hooks/useLiveQuery';
 import { dateToLocalDateString, getTodayDateString } from '../utils/dateUtils';
+import { isDailyGoalMet } from '../utils/readingGoal';
 interface ReadingCalendarProps {
   onDatePress?: (date: string, minutes: number) => void;
 }
@@ -11,66 +16,77 @@ interface DayData {
   date: string;
   minutes: number;
   hasData: boolean;
+  goalMet: boolean; // Against the goal in force on that day
+  streakDay: StreakDayKind | null; // Covered by a streak freeze or planned as a rest day
 }
 
 export default function ReadingCalendar({ onDatePress }: ReadingCalendarProps) {
-  const [monthData, setMonthData] = useState<DayData[]>([]);
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [loading, setLoading] = useState(false);
 
-  useEffect(() => {
-    loadMonthData();
-  }, [currentDate]);
+  const loadMonthData = useCallback(async (): Promise<DayData[]> => {
+    const year = currentDate.getFullYear();
+    const month = currentDate.getMonth();
+    
+    // Get first and last day of the month
+    const firstDay = new Date(year, month, 1);
+    const lastDay = new Date(year, month + 1, 0);
+    
+    // Get reading data for the month
+    const startDate = dateToLocalDateString(firstDay);
+    const endDate = dateToLocalDateString(lastDay);
+    
+    const readingData = await SessionRepository.getDailyTotals(startDate, endDate);
+    const streakDays = await StreakRepository.listBetween(startDate, endDate);
+    const streakDayKinds = new Map(streakDays.map(day => [day.date, day.kind]));
+    const goalHistory = await GoalHistoryRepository.list();
+    const readingGoal = await PreferencesRepository.getReadingGoal();
 
-  const loadMonthData = async () => {
-    setLoading(true);
-    try {
-      const year = currentDate.getFullYear();
-      const month = currentDate.getMonth();
-      
-      // Get first and last day of the month
-      const firstDay = new Date(year, month, 1);
-      const lastDay = new Date(year, month + 1, 0);
-      
-      // Get reading data for the month
-      const startDate = dateToLocalDateString(firstDay);
-      const endDate = dateToLocalDateString(lastDay);
-      
-      const readingData = await queryAll<{date: string, total_minutes: number}>(
-        `SELECT date, SUM(minutes_read) as total_minutes 
-         FROM reading_sessions 
-         WHERE date BETWEEN ? AND ?
-         GROUP BY date`,
-        [startDate, endDate]
-      );
+    // Create data map for easy lookup
+    const dataMap = new Map();
+    const pagesMap = new Map<string, number>();
+    readingData.forEach(item => {
+      dataMap.set(item.date, item.total_minutes);
+      pagesMap.set(item.date, item.total_pages);
+    });
+
+    // Generate calendar days
+    const daysInMonth = lastDay.getDate();
+    const monthDataArray: DayData[] = [];
 
-      // Create data map for easy lookup
-      const dataMap = new Map();
-      readingData.forEach(item => {
-        dataMap.set(item.date, item.total_minutes);
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(year, month, day);
+      const dateString = dateToLocalDateString(date);
+      const minutes = dataMap.get(dateString) || 0;
+      
+      monthDataArray.push({
+        date: dateString,
+        minutes,
+        hasData: minutes > 0,
+        goalMet: minutes > 0 && isDailyGoalMet(readingGoal, { date: dateString, minutes, pages: pagesMap.get(dateString) ?? 0 }, goalHistory),
+        streakDay: streakDayKinds.get(dateString) ?? null
       });
+    }
 
-      // Generate calendar days
-      const daysInMonth = lastDay.getDate();
-      const monthDataArray: DayData[] = [];
+    return monthDataArray;
+  }, [currentDate]);
 
-      for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month, day);
-        const dateString = dateToLocalDateString(date);
-        const minutes = dataMap.get(dateString) || 0;
-        
-        monthDataArray.push({
-          date: dateString,
-          minutes,
-          hasData: minutes > 0
-        });
-      }
+  // Re-runs whenever reading sessions change, e.g. after logging from a modal or importing a backup
+  const { data: monthData = [] } = useLiveData(loadMonthData, ['reading_sessions', 'streak_days', 'goal_history', 'user_preferences']);
 
-      setMonthData(monthDataArray);
+  // Long-pressing today or a later day plans it as a rest day, or takes the rest day back
+  const toggleRestDay = async (dayData: DayData) => {
+    const today = getTodayDateString();
+    if (dayData.date < today || dayData.streakDay === 'freeze') {
+      return;
+    }
+    try {
+      if (dayData.streakDay === 'rest') {
+        await StreakRepository.removeRestDay(dayData.date);
+      } else {
+        await StreakRepository.addRestDay(dayData.date, today);
+      }
     } catch (error) {
-      console.error('Error loading month data:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error updating rest day:', error);
     }
   };
 
@@ -145,9 +161,13 @@ export default function ReadingCalendar({ onDatePress }: ReadingCalendarProps) {
               style={[
                 styles.day,
                 { backgroundColor },
+                dayData.streakDay === 'freeze' && styles.frozenDay,
+                dayData.streakDay === 'rest' && styles.restDay,
+                dayData.goalMet && styles.goalMetDay,
                 isToday(dayData.date) && styles.today
               ]}
               onPress={() => onDatePress?.(dayData.date, dayData.minutes)}
+              onLongPress={() => toggleRestDay(dayData)}
             >
               <Text style={[
                 styles.dayNumber,
@@ -159,6 +179,9 @@ export default function ReadingCalendar({ onDatePress }: ReadingCalendarProps) {
               {dayData.minutes > 0 && (
                 <Text style={styles.minutesText}>{dayData.minutes} {t('components.readingTimeLogger.minutesShort')}</Text>
               )}
+              {dayData.streakDay && (
+                <Text style={styles.streakDayIcon}>{dayData.streakDay === 'freeze' ? '❄️' : '🌙'}</Text>
+              )}
             </TouchableOpacity>
           );
         })}
@@ -185,6 +208,21 @@ export default function ReadingCalendar({ onDatePress }: ReadingCalendarProps) {
             <Text style={styles.legendText}>Heavy</Text>
           </View>
         </View>
+        <View style={styles.legendColors}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSquare, styles.goalMetDay]} />
+            <Text style={styles.legendText}>{t('components.readingCalendar.goalMet')}</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSquare, styles.frozenDay]} />
+            <Text style={styles.legendText}>{t('components.readingCalendar.frozen')}</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSquare, styles.restDay]} />
+            <Text style={styles.legendText}>{t('components.readingCalendar.rest')}</Text>
+          </View>
+        </View>
+        <Text style={styles.legendText}>{t('components.readingCalendar.restHint')}</Text>
       </View>
     </View>
   );
@@ -266,6 +304,23 @@ const styles = StyleSheet.create({
     color: '#1E293B',
     fontWeight: '700',
   },
+  goalMetDay: {
+    borderWidth: 2,
+    borderColor: '#10B981',
+  },
+  frozenDay: {
+    borderWidth: 1,
+    borderColor: '#38BDF8',
+    backgroundColor: '#E0F2FE',
+  },
+  restDay: {
+    borderWidth: 1,
+    borderColor: '#94A3B8',
+    borderStyle: 'dashed',
+  },
+  streakDayIcon: {
+    fontSize: 8,
+  },
   todayText: {
     color: '#6C63FF',
     fontWeight: 'bold',
@@ -286,6 +341,7 @@ const styles = StyleSheet.create({
   legendColors: {
     flexDirection: 'row',
     gap: 12,
+    marginBottom: 8,
   },
   legendItem: {
     alignItems: 'center',
@@ -0,0 +1,158 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, View } from 'react-native';
+import { useLiveData } from '../hooks/useLiveQuery';
+import { localDateStringToDate } from '../utils/dateUtils';
+import { BookPlan, listBookPlans } from '../utils/readingPlans';
+
+/**
+ * Today's quota for every book with a finish-by-date plan.
+ * Renders nothing when no book has a plan.
+ */
+export default function ReadingPlanCard() {
+  const { t, i18n } = useTranslation();
+  const loadPlans = useCallback(() => listBookPlans(), []);
+  const { data: plans } = useLiveData(loadPlans, ['enhanced_books', 'reading_sessions']);
+
+  if (!plans || plans.length === 0) {
+    return null;
+  }
+
+  const formatTargetDate = (date: string) => {
+    return localDateStringToDate(date).toLocaleDateString(i18n.language, { month: 'short', day: 'numeric' });
+  };
+
+  const getQuotaText = (plan: BookPlan) => {
+    if (plan.dailyQuota === null) {
+      return t('components.readingPlan.needsSpeed');
+    }
+    const key = plan.unit === 'minutes' ? 'components.readingPlan.minutesToday' : 'components.readingPlan.pagesToday';
+    return t(key, { read: plan.readToday, quota: plan.dailyQuota });
+  };
+
+  const getStatusText = (plan: BookPlan) => {
+    if (plan.daysLeft === 0) {
+      return t('components.readingPlan.overdue');
+    }
+    if (plan.isBehind) {
+      return t('components.readingPlan.behind');
+    }
+    return t('components.readingPlan.onTrack');
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{t('components.readingPlan.title')}</Text>
+
+      {plans.map(plan => {
+        const percentage = plan.dailyQuota
+          ? Math.min((plan.readToday / plan.dailyQuota) * 100, 100)
+          : 0;
+        const isQuotaMet = plan.dailyQuota !== null && plan.readToday >= plan.dailyQuota;
+
+        return (
+          <View key={plan.book.id} style={styles.plan}>
+            <View style={styles.planHeader}>
+              <Text style={styles.bookName} numberOfLines={1}>{plan.book.name}</Text>
+              <Text style={styles.deadline}>
+                {t('components.readingPlan.due', {
+                  date: formatTargetDate(plan.targetDate),
+                  count: plan.daysLeft,
+                })}
+              </Text>
+            </View>
+
+            <View style={styles.progressBarBackground}>
+              <View
+                style={[
+                  styles.progressBarFill,
+                  { width: `${percentage}%` },
+                  isQuotaMet && styles.progressBarFillDone,
+                ]}
+              />
+            </View>
+
+            <View style={styles.planFooter}>
+              <Text style={styles.quotaText}>{getQuotaText(plan)}</Text>
+              <Text style={[styles.statusText, plan.isBehind && styles.statusTextBehind]}>
+                {getStatusText(plan)}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 20,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginBottom: 16,
+  },
+  plan: {
+    marginBottom: 16,
+  },
+  planHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    gap: 8,
+  },
+  bookName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  deadline: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  progressBarBackground: {
+    height: 8,
+    backgroundColor: '#E2E8F0',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressBarFill: {
+    height: '100%',
+    backgroundColor: '#6C63FF',
+    borderRadius: 4,
+  },
+  progressBarFillDone: {
+    backgroundColor: '#10B981',
+  },
+  planFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  quotaText: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  statusTextBehind: {
+    color: '#EF4444',
+  },
+});
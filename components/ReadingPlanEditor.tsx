@@ -0,0 +1,277 @@
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { BookRepository, CLEARED_PLAN } from '../db/bookRepository';
+import { EnhancedBook, PlanUnit } from '../db/db';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate } from '../utils/dateUtils';
+import { BookPlan, getBookPlan } from '../utils/readingPlans';
+
+interface ReadingPlanEditorProps {
+  book: EnhancedBook;
+}
+
+// Suggested deadline for a new plan
+const DEFAULT_PLAN_DAYS = 14;
+
+/**
+ * Set, change or remove a book's finish-by date, with today's quota once it has one
+ */
+export default function ReadingPlanEditor({ book }: ReadingPlanEditorProps) {
+  const { t, i18n } = useTranslation();
+  const [planFields, setPlanFields] = useState<Partial<EnhancedBook>>({});
+  const [plan, setPlan] = useState<BookPlan | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  const [targetDate, setTargetDate] = useState('');
+  const [unit, setUnit] = useState<PlanUnit>('pages');
+
+  const plannedBook = { ...book, ...planFields };
+
+  useEffect(() => {
+    setPlanFields({});
+    setEditing(false);
+  }, [book.id]);
+
+  useEffect(() => {
+    // Ignore a plan that arrives after switching to another book
+    let cancelled = false;
+    getBookPlan({ ...book, ...planFields })
+      .then(loaded => {
+        if (!cancelled) setPlan(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading reading plan:', error);
+        if (!cancelled) setPlan(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [book, planFields]);
+
+  const formatDate = (date: string) => {
+    return localDateStringToDate(date).toLocaleDateString(i18n.language, { month: 'long', day: 'numeric' });
+  };
+
+  const startEditing = () => {
+    const suggested = new Date();
+    suggested.setDate(suggested.getDate() + DEFAULT_PLAN_DAYS);
+    setTargetDate(plannedBook.target_finish_date || dateToLocalDateString(suggested));
+    setUnit(plannedBook.plan_unit || 'pages');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const changes = await BookRepository.setPlan(book.id, targetDate, unit, getTodayDateString());
+      setPlanFields(changes);
+      setEditing(false);
+    } catch (error) {
+      console.error('Error saving reading plan:', error);
+      Alert.alert(t('components.readingPlan.errorTitle'), t('components.readingPlan.saveFailed'));
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await BookRepository.clearPlan(book.id);
+      setPlanFields(CLEARED_PLAN);
+    } catch (error) {
+      console.error('Error removing reading plan:', error);
+      Alert.alert(t('components.readingPlan.errorTitle'), t('components.readingPlan.saveFailed'));
+    }
+  };
+
+  if (editing) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.label}>{t('components.readingPlan.targetDate')}</Text>
+        <TouchableOpacity style={styles.dateButton} onPress={() => setShowPicker(!showPicker)}>
+          <Text style={styles.dateButtonText}>📅 {formatDate(targetDate)}</Text>
+        </TouchableOpacity>
+        {showPicker && (
+          <DateTimePicker
+            value={localDateStringToDate(targetDate)}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            minimumDate={new Date()}
+            onChange={(event, selectedDate) => {
+              setShowPicker(false);
+              if (selectedDate && event.type !== 'dismissed') {
+                setTargetDate(dateToLocalDateString(selectedDate));
+              }
+            }}
+          />
+        )}
+
+        <Text style={styles.label}>{t('components.readingPlan.unitLabel')}</Text>
+        <View style={styles.unitButtons}>
+          {(['pages', 'minutes'] as PlanUnit[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.unitButton, unit === option && styles.unitButtonActive]}
+              onPress={() => setUnit(option)}
+            >
+              <Text style={[styles.unitButtonText, unit === option && styles.unitButtonTextActive]}>
+                {option === 'pages' ? t('components.readingPlan.unitPages') : t('components.readingPlan.unitMinutes')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditing(false)}>
+            <Text style={styles.secondaryButtonText}>{t('components.readingPlan.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+            <Text style={styles.primaryButtonText}>{t('components.readingPlan.save')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <TouchableOpacity style={styles.setButton} onPress={startEditing}>
+        <Text style={styles.setButtonText}>{t('components.readingPlan.setPlan')}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.summary}>
+        {t('components.readingPlan.due', { date: formatDate(plan.targetDate), count: plan.daysLeft })}
+      </Text>
+      <Text style={styles.quota}>
+        {plan.dailyQuota === null
+          ? t('components.readingPlan.needsSpeed')
+          : t(plan.unit === 'minutes' ? 'components.readingPlan.minutesToday' : 'components.readingPlan.pagesToday', {
+            read: plan.readToday,
+            quota: plan.dailyQuota,
+          })}
+      </Text>
+      <Text style={[styles.status, plan.isBehind && styles.statusBehind]}>
+        {plan.daysLeft === 0
+          ? t('components.readingPlan.overdue')
+          : plan.isBehind ? t('components.readingPlan.behind') : t('components.readingPlan.onTrack')}
+      </Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleRemove}>
+          <Text style={styles.secondaryButtonText}>{t('components.readingPlan.remove')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={startEditing}>
+          <Text style={styles.primaryButtonText}>{t('components.readingPlan.change')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  dateButton: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    color: '#1E293B',
+  },
+  unitButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  unitButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    alignItems: 'center',
+  },
+  unitButtonActive: {
+    borderColor: '#6C63FF',
+    backgroundColor: '#EEF2FF',
+  },
+  unitButtonText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  unitButtonTextActive: {
+    color: '#6C63FF',
+    fontWeight: '600',
+  },
+  summary: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  quota: {
+    fontSize: 14,
+    color: '#475569',
+  },
+  status: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  statusBehind: {
+    color: '#EF4444',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#6C63FF',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#F1F5F9',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  setButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#6C63FF',
+    borderStyle: 'dashed',
+    alignItems: 'center',
+  },
+  setButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6C63FF',
+  },
+});
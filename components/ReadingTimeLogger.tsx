@@ -1,3 +1,4 @@
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
@@ -5,6 +6,7 @@ import {
     Dimensions,
     findNodeHandle,
     Modal,
+    Platform,
     StyleSheet,
     Text,
     TextInput,
@@ -12,42 +14,61 @@ import {
     View
 } from 'react-native';
 import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
-import { EnhancedBook, execute, queryAll } from '../db/db';
+import { BookRepository } from '../db/bookRepository';
+import { EnhancedBook } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { getElapsedSeconds, ReadingTimerWithBook, TimerRepository } from '../db/timerRepository';
 import NotificationService from '../services/notificationService';
-import { getTodayDateString } from '../utils/dateUtils';
-import { getEnhancedBookProgress, syncBookCurrentPageFromSessions } from '../utils/readingProgress';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate } from '../utils/dateUtils';
+import { findOverlaps, formatPageRanges, getPageRangeProblem, PageRange, parsePageRange } from '../utils/pageRanges';
+import { getEnhancedBookProgress } from '../utils/readingProgress';
+import PageRangeInput from './PageRangeInput';
+import SessionDatePicker from './SessionDatePicker';
 
 
 interface ReadingTimeLoggerProps {
   visible: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess?: () => void;
+  timer?: ReadingTimerWithBook | null; // Stopped timer to turn into a session; pre-fills the book and minutes
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 
 
 
-export default function ReadingTimeLogger({ visible, onClose, onSuccess }: ReadingTimeLoggerProps) {
+export default function ReadingTimeLogger({ visible, onClose, onSuccess, timer }: ReadingTimeLoggerProps) {
   const { t } = useTranslation();
   const [minutes, setMinutes] = useState('');
-  const [pages, setPages] = useState('');
+  const [startPage, setStartPage] = useState('');
+  const [endPage, setEndPage] = useState('');
   const [selectedBook, setSelectedBook] = useState<EnhancedBook | null>(null);
   const [currentlyReadingBooks, setCurrentlyReadingBooks] = useState<EnhancedBook[]>([]);
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
   const [remainingPages, setRemainingPages] = useState<number>(0);
+  const [readRanges, setReadRanges] = useState<PageRange[]>([]); // Pages of the selected book already read
   const [finishBook, setFinishBook] = useState(false);
+  const [logDate, setLogDate] = useState(getTodayDateString()); // YYYY-MM-DD; earlier days for forgotten sessions
+  const [startTime, setStartTime] = useState<Date | null>(null); // Null: the reading just ended
+  const [showTimePicker, setShowTimePicker] = useState(false);
 
   useEffect(() => {
     if (visible) {
-      loadCurrentlyReadingBooks();
+      loadCurrentlyReadingBooks(timer);
     }
-  }, [visible]);
+    if (visible && timer) {
+      setMinutes(Math.max(1, Math.round(getElapsedSeconds(timer) / 60)).toString());
+    }
+  }, [visible, timer]);
 
   useEffect(() => {
     if (selectedBook) {
       calculateRemainingPages();
+      // Carry on from where the book was left off
+      const currentPage = selectedBook.current_page || 0;
+      setStartPage(currentPage < selectedBook.page ? (currentPage + 1).toString() : '');
+      setEndPage('');
     }
   }, [selectedBook]);
 
@@ -61,19 +82,24 @@ export default function ReadingTimeLogger({ visible, onClose, onSuccess }: Readi
       const progress = await getEnhancedBookProgress(selectedBook.id, selectedBook.page, selectedBook.current_page || 0);
       const remaining = selectedBook.page - progress.pagesRead;
       setRemainingPages(Math.max(0, remaining));
+      setReadRanges(await SessionRepository.getPageRangesForBook(selectedBook.id));
     } catch (error) {
       console.error('Error calculating remaining pages:', error);
       setRemainingPages(selectedBook.page - (selectedBook.current_page || 0));
     }
   };
 
-  const loadCurrentlyReadingBooks = async () => {
+  const loadCurrentlyReadingBooks = async (stoppedTimer?: ReadingTimerWithBook | null) => {
     try {
-      const books = await queryAll<EnhancedBook>(
-        `SELECT * FROM enhanced_books 
-         WHERE reading_status = 'currently_reading' 
-         ORDER BY date_started DESC, date_added DESC`
-      );
+      if (stoppedTimer) {
+        // The timed reading belongs to the timer's book
+        const timerBook = await BookRepository.getById(stoppedTimer.book_id);
+        setCurrentlyReadingBooks(timerBook ? [timerBook] : []);
+        setSelectedBook(timerBook);
+        return;
+      }
+
+      const books = await BookRepository.listCurrentlyReading();
       setCurrentlyReadingBooks(books);
 
       // Auto-select the first book if there's only one
@@ -96,53 +122,91 @@ export default function ReadingTimeLogger({ visible, onClose, onSuccess }: Readi
       return;
     }
 
-    // Validate pages if provided
-    if (pages.trim() && (isNaN(Number(pages)) || Number(pages) <= 0)) {
+    // Validate the page range if provided
+    const pageRange = parsePageRange(startPage, endPage);
+    if (pageRange === 'invalid') {
       Alert.alert(t('components.readingTimeLogger.invalidInput'), t('components.readingTimeLogger.enterValidPages'));
       return;
     }
-
-    // Validate pages don't exceed remaining pages
-    if (pages.trim() && Number(pages) > remainingPages) {
+    const pageRangeProblem = pageRange ? getPageRangeProblem(pageRange, selectedBook.page) : null;
+    if (pageRangeProblem === 'backward') {
+      Alert.alert(t('components.readingTimeLogger.invalidInput'), t('components.pageRangeInput.backwardWarning'));
+      return;
+    }
+    if (pageRangeProblem === 'beyondBook') {
       Alert.alert(
-        t('components.readingTimeLogger.tooManyPages'), 
-        t('components.readingTimeLogger.tooManyPagesMessage', { 
-          pages: Number(pages), 
-          remaining: remainingPages,
-          bookName: selectedBook.name 
-        })
+        t('components.readingTimeLogger.tooManyPages'),
+        t('components.pageRangeInput.beyondBookWarning', { bookName: selectedBook.name, total: selectedBook.page })
       );
       return;
     }
 
-    setLoading(true);
-    try {
-      const today = getTodayDateString(); // YYYY-MM-DD format
-      const pagesRead = pages.trim() ? Number(pages) : null;
-
-      // Insert the reading session
-      await execute(
-        `INSERT INTO reading_sessions (book_id, minutes_read, pages_read, date, notes) 
-         VALUES (?, ?, ?, ?, ?)`,
-        [selectedBook.id, Number(minutes), pagesRead, today, notes.trim() || null]
+    if (logDate > getTodayDateString()) {
+      Alert.alert(t('components.readingTimeLogger.invalidInput'), t('components.readingTimeLogger.dateInFuture'));
+      return;
+    }
+
+    // The picked time of day on the logged day
+    let startedAt: Date | null = null;
+    if (startTime) {
+      startedAt = localDateStringToDate(logDate);
+      startedAt.setHours(startTime.getHours(), startTime.getMinutes(), 0, 0);
+    }
+    if (startedAt && startedAt > new Date()) {
+      Alert.alert(t('components.readingTimeLogger.invalidInput'), t('components.readingTimeLogger.startTimeInFuture'));
+      return;
+    }
+
+    // Rereading is fine, but make sure it is not a typo before counting the pages again
+    const overlaps = pageRange ? findOverlaps(pageRange, readRanges) : [];
+    if (overlaps.length > 0) {
+      Alert.alert(
+        t('components.pageRangeInput.overlapTitle'),
+        t('components.pageRangeInput.overlapMessage', { pages: formatPageRanges(overlaps) }),
+        [
+          { text: t('components.pageRangeInput.cancel'), style: 'cancel' },
+          { text: t('components.pageRangeInput.logAnyway'), onPress: () => saveSession(selectedBook, pageRange, startedAt) }
+        ]
       );
+      return;
+    }
 
-      // Sync the book's current_page based on cumulative pages from sessions
-      if (pagesRead) {
-        await syncBookCurrentPageFromSessions(selectedBook.id);
-      }
+    await saveSession(selectedBook, pageRange, startedAt);
+  };
 
-      // Handle book completion if finish book is checked
-      if (finishBook) {
-        const today = getTodayDateString();
-        await execute(
-          `UPDATE enhanced_books 
-           SET reading_status = 'read', 
-               date_finished = ?,
-               current_page = page
-           WHERE id = ?`,
-          [today, selectedBook.id]
-        );
+  const saveSession = async (book: EnhancedBook, pageRange: PageRange | null, startedAt: Date | null) => {
+    const isToday = logDate === getTodayDateString();
+    setLoading(true);
+    try {
+      // Without a picked start time, a session logged for today is assumed to have just ended;
+      // for an earlier day the time is unknown
+      const minutesInMs = Number(minutes) * 60 * 1000;
+      const sessionStart = startedAt ?? (isToday ? new Date(Date.now() - minutesInMs) : null);
+      const sessionEnd = sessionStart ? new Date(sessionStart.getTime() + minutesInMs) : null;
+      const pagesRead = pageRange ? pageRange.end - pageRange.start + 1 : null;
+
+      // Insert the reading session; the repository syncs current_page, finishes the book
+      // and recounts the week's progress when the session is backdated into a recorded week
+      if (timer) {
+        // Timed sessions count on the day the reading started and keep the real start and end
+        await TimerRepository.complete({
+          minutes: Number(minutes),
+          startPage: pageRange?.start ?? null,
+          endPage: pageRange?.end ?? null,
+          date: dateToLocalDateString(new Date(timer.started_at)),
+          notes: notes.trim() || null,
+        }, { finishBook });
+      } else {
+        await SessionRepository.log({
+          bookId: book.id,
+          minutes: Number(minutes),
+          startPage: pageRange?.start ?? null,
+          endPage: pageRange?.end ?? null,
+          date: logDate,
+          notes: notes.trim() || null,
+          startedAt: sessionStart?.toISOString() ?? null,
+          endedAt: sessionEnd?.toISOString() ?? null,
+        }, { finishBook });
       }
 
       // Check if daily goal is met and update notification schedule
@@ -150,19 +214,22 @@ export default function ReadingTimeLogger({ visible, onClose, onSuccess }: Readi
 
       // Reset form
       setMinutes('');
-      setPages('');
+      setStartPage('');
+      setEndPage('');
       setSelectedBook(currentlyReadingBooks.length === 1 ? currentlyReadingBooks[0] : null);
       setNotes('');
       setFinishBook(false);
+      setLogDate(getTodayDateString());
+      setStartTime(null);
 
-      onSuccess();
+      onSuccess?.();
       onClose();
 
       const successMessage = finishBook
-        ? `Successfully finished "${selectedBook.name}"! 🎉`
+        ? `Successfully finished "${book.name}"! 🎉`
         : pagesRead 
-        ? `Successfully logged ${minutes} minutes and ${pagesRead} pages for "${selectedBook.name}"!`
-        : `Successfully logged ${minutes} minutes for "${selectedBook.name}"!`;
+        ? `Successfully logged ${minutes} minutes and ${pagesRead} pages for "${book.name}"!`
+        : `Successfully logged ${minutes} minutes for "${book.name}"!`;
 
       Alert.alert(
         t('components.readingTimeLogger.success'),
@@ -176,12 +243,34 @@ export default function ReadingTimeLogger({ visible, onClose, onSuccess }: Readi
     }
   };
 
+  const handleStartTimer = async () => {
+    if (!selectedBook) {
+      Alert.alert(t('components.readingTimeLogger.selectBook'), t('components.readingTimeLogger.pleaseSelectBook'));
+      return;
+    }
+
+    try {
+      await TimerRepository.start(selectedBook.id);
+      handleClose();
+    } catch (error) {
+      console.error('Error starting reading timer:', error);
+      const message = error instanceof Error && error.message === 'Timer already running'
+        ? t('components.readingTimeLogger.timerAlreadyRunning')
+        : t('components.readingTimeLogger.failedToStartTimer');
+      Alert.alert(t('components.readingTimeLogger.error'), message);
+    }
+  };
+
   const handleClose = () => {
     setMinutes('');
-    setPages('');
+    setStartPage('');
+    setEndPage('');
     setSelectedBook(currentlyReadingBooks.length === 1 ? currentlyReadingBooks[0] : null);
     setNotes('');
     setFinishBook(false);
+    setLogDate(getTodayDateString());
+    setStartTime(null);
+    setShowTimePicker(false);
     onClose();
   };
   const notesInputRef = useRef<TextInput>(null);
@@ -236,8 +325,7 @@ export default function ReadingTimeLogger({ visible, onClose, onSuccess }: Readi
                       selectedBook?.id === book.id && styles.bookOptionSelected
                     ]}
                     onPress={() => {
-                      setSelectedBook(book);
-                      setPages(''); // Clear pages when switching books
+                      setSelectedBook(book); // Also restarts the page range from this book's current page
                       setFinishBook(false); // Reset finish book toggle
                     }}
                   >
@@ -302,8 +390,69 @@ export default function ReadingTimeLogger({ visible, onClose, onSuccess }: Readi
               />
               <Text style={styles.minutesLabel}>{t('components.readingTimeLogger.minutes')}</Text>
             </View>
+
+            {!timer && (
+              <TouchableOpacity
+                style={[styles.startTimerButton, !selectedBook && styles.startTimerButtonDisabled]}
+                onPress={handleStartTimer}
+              >
+                <Text style={styles.startTimerText}>{t('components.readingTimeLogger.startTimer')}</Text>
+              </TouchableOpacity>
+            )}
           </View>
 
+          {/* Day and Start Time (Optional) - timed sessions already know theirs */}
+          {!timer && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('components.readingTimeLogger.whichDay')}</Text>
+              <SessionDatePicker date={logDate} onChange={setLogDate} />
+            </View>
+          )}
+
+          {!timer && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>{t('components.readingTimeLogger.startedAt')}</Text>
+                <View style={styles.optionalBadge}>
+                  <Text style={styles.optionalText}>{t('components.readingTimeLogger.optional')}</Text>
+                </View>
+              </View>
+              <Text style={styles.sectionSubtitle}>
+                {t('components.readingTimeLogger.startedAtDescription')}
+              </Text>
+              <View style={styles.startTimeRow}>
+                <TouchableOpacity style={styles.startTimeButton} onPress={() => setShowTimePicker(!showTimePicker)}>
+                  <Text style={styles.startTimeText}>
+                    🕒 {startTime
+                      ? startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                      : t('components.readingTimeLogger.startedAtDefault')}
+                  </Text>
+                </TouchableOpacity>
+                {startTime && (
+                  <TouchableOpacity style={styles.clearPagesButton} onPress={() => setStartTime(null)}>
+                    <Text style={styles.clearPagesText}>✕</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {showTimePicker && (
+                <DateTimePicker
+                  value={startTime ?? new Date(Date.now() - (Number(minutes) || 0) * 60 * 1000)}
+                  mode="time"
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  onChange={(event, date) => {
+                    // The Android dialog closes itself; the iOS spinner stays until toggled off
+                    if (Platform.OS !== 'ios') {
+                      setShowTimePicker(false);
+                    }
+                    if (date && event.type !== 'dismissed') {
+                      setStartTime(date);
+                    }
+                  }}
+                />
+              )}
+            </View>
+          )}
+
           {/* Pages Input (Optional) */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -324,71 +473,46 @@ export default function ReadingTimeLogger({ visible, onClose, onSuccess }: Readi
               </View>
             )}
 
-            {/* Quick Page Buttons */}
-            {selectedBook && remainingPages > 0 && (
+            {/* Quick Page Buttons: read this many pages from the start page */}
+            {selectedBook && Number(startPage) > 0 && (
               <View style={styles.quickPagesContainer}>
-                {quickPageButtons.filter(pageCount => pageCount <= remainingPages).map((pageCount) => (
-                  <TouchableOpacity
-                    key={pageCount}
-                    style={[
-                      styles.quickPageButton,
-                      pages === pageCount.toString() && styles.quickPageButtonSelected
-                    ]}
-                    onPress={() => setPages(pageCount.toString())}
-                  >
-                    <Text style={[
-                      styles.quickPageText,
-                      pages === pageCount.toString() && styles.quickPageTextSelected
-                    ]}>
-                      {pageCount} {t('components.readingTimeLogger.pagesShort')}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            )}
-            
-            <View style={styles.pagesInputContainer}>
-              <View style={styles.pagesIconContainer}>
-                <Text style={styles.pagesIcon}>📚</Text>
-              </View>
-              <TextInput
-                style={styles.pagesInput}
-                placeholder={selectedBook ? t('components.readingTimeLogger.enterPagesPlaceholder', { max: remainingPages }) : t('components.readingTimeLogger.selectBookFirst')}
-                placeholderTextColor="#94A3B8"
-                value={pages}
-                onChangeText={setPages}
-                keyboardType="numeric"
-                returnKeyType="next"
-                editable={!!selectedBook && remainingPages > 0}
-              />
-              {pages.trim() && (
-                <TouchableOpacity 
-                  style={styles.clearPagesButton}
-                  onPress={() => setPages('')}
-                >
-                  <Text style={styles.clearPagesText}>✕</Text>
-                </TouchableOpacity>
-              )}
-            </View>
-            
-            {selectedBook && pages.trim() && !isNaN(Number(pages)) && Number(pages) > 0 && Number(pages) <= remainingPages && (
-              <View style={styles.progressPreview}>
-                <Text style={styles.progressPreviewText}>
-                  {t('components.readingTimeLogger.progressPreview', { 
-                    pages: Number(pages), 
-                    bookName: selectedBook.name, 
-                    total: selectedBook.page 
+                {quickPageButtons
+                  .filter(pageCount => Number(startPage) + pageCount - 1 <= selectedBook.page)
+                  .map((pageCount) => {
+                    const quickEndPage = (Number(startPage) + pageCount - 1).toString();
+                    return (
+                      <TouchableOpacity
+                        key={pageCount}
+                        style={[
+                          styles.quickPageButton,
+                          endPage === quickEndPage && styles.quickPageButtonSelected
+                        ]}
+                        onPress={() => setEndPage(quickEndPage)}
+                      >
+                        <Text style={[
+                          styles.quickPageText,
+                          endPage === quickEndPage && styles.quickPageTextSelected
+                        ]}>
+                          +{pageCount} {t('components.readingTimeLogger.pagesShort')}
+                        </Text>
+                      </TouchableOpacity>
+                    );
                   })}
-                </Text>
               </View>
             )}
 
-            {pages.trim() && Number(pages) > remainingPages && (
-              <View style={styles.warningContainer}>
-                <Text style={styles.warningText}>
-                  {t('components.readingTimeLogger.tooManyPagesWarning', { remaining: remainingPages })}
-                </Text>
-              </View>
+            {selectedBook ? (
+              <PageRangeInput
+                startPage={startPage}
+                endPage={endPage}
+                onChangeStartPage={setStartPage}
+                onChangeEndPage={setEndPage}
+                bookName={selectedBook.name}
+                totalPages={selectedBook.page}
+                readRanges={readRanges}
+              />
+            ) : (
+              <Text style={styles.sectionSubtitle}>{t('components.readingTimeLogger.selectBookFirst')}</Text>
             )}
           </View>
 
@@ -641,6 +765,40 @@ const styles = StyleSheet.create({
     color: '#64748B',
     fontWeight: '500',
   },
+  startTimeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  startTimeButton: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  startTimeText: {
+    fontSize: 16,
+    color: '#1E293B',
+  },
+  startTimerButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#6C63FF',
+    borderStyle: 'dashed',
+    alignItems: 'center',
+  },
+  startTimerButtonDisabled: {
+    borderColor: '#CBD5E1',
+  },
+  startTimerText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6C63FF',
+  },
   notesInput: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -678,28 +836,6 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     lineHeight: 18,
   },
-  pagesInputContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#FFFFFF',
-    borderRadius: 12,
-    borderWidth: 2,
-    borderColor: '#E2E8F0',
-    paddingHorizontal: 16,
-    marginBottom: 12,
-  },
-  pagesIconContainer: {
-    marginRight: 12,
-  },
-  pagesIcon: {
-    fontSize: 20,
-  },
-  pagesInput: {
-    flex: 1,
-    height: 48,
-    fontSize: 16,
-    color: '#1E293B',
-  },
   clearPagesButton: {
     width: 24,
     height: 24,
@@ -714,19 +850,6 @@ const styles = StyleSheet.create({
     color: '#64748B',
     fontWeight: 'bold',
   },
-  progressPreview: {
-    backgroundColor: '#F0F9FF',
-    borderRadius: 8,
-    padding: 12,
-    borderWidth: 1,
-    borderColor: '#0EA5E9',
-  },
-  progressPreviewText: {
-    fontSize: 12,
-    color: '#0369A1',
-    lineHeight: 16,
-    textAlign: 'center',
-  },
   // Remaining pages info
   remainingPagesInfo: {
     backgroundColor: '#F0F9FF',
@@ -771,21 +894,6 @@ const styles = StyleSheet.create({
   quickPageTextSelected: {
     color: '#FFFFFF',
   },
-  // Warning styles
-  warningContainer: {
-    backgroundColor: '#FEF2F2',
-    borderRadius: 8,
-    padding: 12,
-    borderWidth: 1,
-    borderColor: '#FECACA',
-  },
-  warningText: {
-    fontSize: 12,
-    color: '#DC2626',
-    lineHeight: 16,
-    textAlign: 'center',
-    fontWeight: '500',
-  },
   // Finish book styles
   finishBookToggle: {
     flexDirection: 'row',
@@ -0,0 +1,223 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { getElapsedSeconds, ReadingTimerWithBook, TimerRepository } from '../db/timerRepository';
+import { useLiveData } from '../hooks/useLiveQuery';
+import NotificationService from '../services/notificationService';
+
+interface ReadingTimerCardProps {
+  onStop: (timer: ReadingTimerWithBook) => void;
+}
+
+const formatElapsed = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+/**
+ * The running reading timer with pause/resume, stop and discard.
+ * Renders nothing when no timer is running for the active profile.
+ */
+export default function ReadingTimerCard({ onStop }: ReadingTimerCardProps) {
+  const { t } = useTranslation();
+  const loadTimer = useCallback(() => TimerRepository.get(), []);
+  const { data: timer } = useLiveData(loadTimer, ['reading_timer', 'enhanced_books']);
+  const [now, setNow] = useState(() => new Date());
+
+  const isPaused = !!timer?.paused_at;
+  const elapsedSeconds = timer ? getElapsedSeconds(timer, now) : 0;
+  const elapsedMinutes = Math.floor(elapsedSeconds / 60);
+
+  // Tick once a second while running; the elapsed time itself comes from the stored timestamps
+  useEffect(() => {
+    if (!timer || isPaused) {
+      return;
+    }
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [timer, isPaused]);
+
+  // Keep the ongoing notification in step with the timer, a minute at a time
+  useEffect(() => {
+    if (timer === undefined) {
+      return;
+    }
+    if (!timer) {
+      NotificationService.dismissReadingTimerNotification();
+      return;
+    }
+    NotificationService.showReadingTimerNotification(
+      isPaused
+        ? t('components.readingTimer.notificationPausedTitle')
+        : t('components.readingTimer.notificationTitle'),
+      t('components.readingTimer.notificationBody', { bookName: timer.book_name, minutes: elapsedMinutes })
+    );
+  }, [timer, isPaused, elapsedMinutes, t]);
+
+  if (!timer) {
+    return null;
+  }
+
+  const handlePauseResume = async () => {
+    try {
+      if (isPaused) {
+        await TimerRepository.resume();
+      } else {
+        await TimerRepository.pause();
+      }
+    } catch (error) {
+      console.error('Error updating reading timer:', error);
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      // Stopping freezes the end time while the log form is open
+      await TimerRepository.pause();
+      onStop(timer);
+    } catch (error) {
+      console.error('Error stopping reading timer:', error);
+    }
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      t('components.readingTimer.discardTitle'),
+      t('components.readingTimer.discardMessage'),
+      [
+        { text: t('components.readingTimer.cancel'), style: 'cancel' },
+        {
+          text: t('components.readingTimer.discard'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await TimerRepository.discard();
+            } catch (error) {
+              console.error('Error discarding reading timer:', error);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={[styles.statusDot, isPaused && styles.statusDotPaused]} />
+        <Text style={styles.status}>
+          {isPaused ? t('components.readingTimer.paused') : t('components.readingTimer.reading')}
+        </Text>
+        <TouchableOpacity onPress={handleDiscard} accessibilityLabel={t('components.readingTimer.discard')}>
+          <Ionicons name="close" size={20} color="#94A3B8" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.bookName} numberOfLines={1}>{timer.book_name}</Text>
+      <Text style={styles.elapsed}>{formatElapsed(elapsedSeconds)}</Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handlePauseResume}>
+          <Ionicons name={isPaused ? 'play' : 'pause'} size={18} color="#6C63FF" />
+          <Text style={styles.secondaryButtonText}>
+            {isPaused ? t('components.readingTimer.resume') : t('components.readingTimer.pause')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleStop}>
+          <Ionicons name="stop" size={18} color="#FFFFFF" />
+          <Text style={styles.primaryButtonText}>{t('components.readingTimer.stop')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#C7D2FE',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#10B981',
+    marginRight: 8,
+  },
+  statusDotPaused: {
+    backgroundColor: '#F59E0B',
+  },
+  status: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748B',
+    textTransform: 'uppercase',
+  },
+  bookName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginTop: 8,
+  },
+  elapsed: {
+    fontSize: 40,
+    fontWeight: '700',
+    color: '#6C63FF',
+    marginVertical: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#EEF2FF',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6C63FF',
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#6C63FF',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,73 @@
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate } from '../utils/dateUtils';
+
+interface SessionDatePickerProps {
+  date: string; // YYYY-MM-DD
+  onChange: (date: string) => void;
+}
+
+/**
+ * Day a reading session belongs to; today or any day before it
+ */
+export default function SessionDatePicker({ date, onChange }: SessionDatePickerProps) {
+  const { t, i18n } = useTranslation();
+  const [showPicker, setShowPicker] = useState(false);
+
+  const getLabel = () => {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    if (date === getTodayDateString()) {
+      return t('components.sessionDatePicker.today');
+    }
+    if (date === dateToLocalDateString(yesterday)) {
+      return t('components.sessionDatePicker.yesterday');
+    }
+    return localDateStringToDate(date).toLocaleDateString(i18n.language, {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <View>
+      <TouchableOpacity style={styles.button} onPress={() => setShowPicker(!showPicker)}>
+        <Text style={styles.buttonText}>📅 {getLabel()}</Text>
+      </TouchableOpacity>
+      {showPicker && (
+        <DateTimePicker
+          value={localDateStringToDate(date)}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          maximumDate={new Date()}
+          onChange={(event, selectedDate) => {
+            // The Android dialog closes itself; on iOS picking a day closes the calendar
+            setShowPicker(false);
+            if (selectedDate && event.type !== 'dismissed') {
+              onChange(dateToLocalDateString(selectedDate));
+            }
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  buttonText: {
+    fontSize: 16,
+    color: '#1E293B',
+  },
+});
@@ -0,0 +1,357 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { TrashItem, TrashRepository } from '../db/trashRepository';
+import { localDateStringToDate } from '../utils/dateUtils';
+
+// Retention periods offered for automatic purging
+const RETENTION_OPTIONS = [7, 30, 90];
+
+interface TrashModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function TrashModal({ visible, onClose }: TrashModalProps) {
+  const { t, i18n } = useTranslation();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      const days = await PreferencesRepository.getTrashRetentionDays();
+      // Apply the retention period before showing what is left
+      await TrashRepository.purgeOlderThan(days);
+      setRetentionDays(days);
+      setItems(await TrashRepository.list());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadTrash();
+    }
+  }, [visible, loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await TrashRepository.restore(item.id);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error restoring trash item:', error);
+      const message = error instanceof Error && error.message === 'Book not found'
+        ? t('components.trash.restoreBookFirst', { title: item.label })
+        : t('components.trash.restoreFailed');
+      Alert.alert(t('components.trash.errorTitle'), message);
+    }
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    Alert.alert(
+      t('components.trash.purgeConfirmTitle'),
+      item.item_type === 'book'
+        ? t('components.trash.purgeBookConfirmMessage', { title: item.label })
+        : t('components.trash.purgeSessionConfirmMessage'),
+      [
+        { text: t('components.trash.cancel'), style: 'cancel' },
+        {
+          text: t('components.trash.deleteForever'),
+          style: 'destructive',
+          onPress: async () => {
+            await TrashRepository.purge(item.id);
+            await loadTrash();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleEmpty = () => {
+    Alert.alert(
+      t('components.trash.emptyConfirmTitle'),
+      t('components.trash.emptyConfirmMessage', { count: items.length }),
+      [
+        { text: t('components.trash.cancel'), style: 'cancel' },
+        {
+          text: t('components.trash.emptyTrash'),
+          style: 'destructive',
+          onPress: async () => {
+            await TrashRepository.empty();
+            await loadTrash();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      await PreferencesRepository.setTrashRetentionDays(days);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error updating trash retention:', error);
+    }
+  };
+
+  const formatDeletedAt = (deletedAt: string) => {
+    // deleted_at is stored by SQLite as UTC "YYYY-MM-DD HH:MM:SS"
+    return new Date(`${deletedAt.replace(' ', 'T')}Z`).toLocaleDateString(i18n.language, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getItemDetails = (item: TrashItem) => {
+    if (item.item_type === 'book') {
+      return t('components.trash.bookDetails', {
+        author: item.book?.author ?? '',
+        count: item.sessions.length,
+      });
+    }
+    const session = item.sessions[0];
+    return t('components.trash.sessionDetails', {
+      date: localDateStringToDate(session.date).toLocaleDateString(i18n.language, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      }),
+      minutes: session.minutes_read,
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#6C63FF" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('components.trash.title')}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('components.trash.retentionTitle')}</Text>
+            <Text style={styles.sectionSubtitle}>{t('components.trash.retentionSubtitle')}</Text>
+            <View style={styles.retentionOptions}>
+              {RETENTION_OPTIONS.map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.retentionOption, retentionDays === days && styles.retentionOptionActive]}
+                  onPress={() => handleRetentionChange(days)}
+                >
+                  <Text style={[styles.retentionText, retentionDays === days && styles.retentionTextActive]}>
+                    {t('components.trash.days', { count: days })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.listHeader}>
+              <Text style={styles.sectionTitle}>{t('components.trash.items', { count: items.length })}</Text>
+              {items.length > 0 && (
+                <TouchableOpacity onPress={handleEmpty}>
+                  <Text style={styles.emptyTrashText}>{t('components.trash.emptyTrash')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {loading && items.length === 0 ? (
+              <ActivityIndicator style={styles.loading} color="#6C63FF" />
+            ) : items.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="trash-outline" size={48} color="#CBD5E1" />
+                <Text style={styles.emptyText}>{t('components.trash.empty')}</Text>
+              </View>
+            ) : (
+              <View style={styles.itemsList}>
+                {items.map((item, index) => (
+                  <View key={item.id} style={[styles.item, index > 0 && styles.itemDivider]}>
+                    <Ionicons
+                      name={item.item_type === 'book' ? 'book' : 'time'}
+                      size={20}
+                      color={item.item_type === 'book' ? '#6C63FF' : '#10B981'}
+                    />
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemTitle} numberOfLines={1}>{item.label}</Text>
+                      <Text style={styles.itemDetails} numberOfLines={1}>{getItemDetails(item)}</Text>
+                      <Text style={styles.itemDeletedAt}>
+                        {t('components.trash.deletedAt', { date: formatDeletedAt(item.deleted_at) })}
+                      </Text>
+                    </View>
+                    <TouchableOpacity style={styles.itemAction} onPress={() => handleRestore(item)}>
+                      <Ionicons name="arrow-undo" size={20} color="#6C63FF" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.itemAction} onPress={() => handlePurge(item)}>
+                      <Ionicons name="trash" size={20} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  retentionOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  retentionOptionActive: {
+    borderColor: '#6C63FF',
+    backgroundColor: '#EEF2FF',
+  },
+  retentionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  retentionTextActive: {
+    color: '#6C63FF',
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  emptyTrashText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#94A3B8',
+    marginTop: 12,
+  },
+  itemsList: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 40,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  itemDivider: {
+    borderTopWidth: 1,
+    borderTopColor: '#F1F5F9',
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1E293B',
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  itemDeletedAt: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 2,
+  },
+  itemAction: {
+    padding: 8,
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Animated, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+const DEFAULT_DURATION_MS = 5000;
+
+interface UndoToastProps {
+  visible: boolean;
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+/**
+ * Short-lived banner offering to undo the action that was just taken.
+ * Dismisses itself after `duration` ms; render it last so it sits above the screen content.
+ */
+export default function UndoToast({
+  visible,
+  message,
+  onUndo,
+  onDismiss,
+  duration = DEFAULT_DURATION_MS,
+}: UndoToastProps) {
+  const { t } = useTranslation();
+  const opacity = useRef(new Animated.Value(0)).current;
+  const onDismissRef = useRef(onDismiss);
+
+  useEffect(() => {
+    onDismissRef.current = onDismiss;
+  });
+
+  useEffect(() => {
+    if (!visible) return;
+
+    opacity.setValue(0);
+    Animated.timing(opacity, {
+      toValue: 1,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+
+    // A new message restarts the timer
+    const timeout = setTimeout(() => onDismissRef.current(), duration);
+    return () => clearTimeout(timeout);
+  }, [visible, message, duration, opacity]);
+
+  if (!visible) return null;
+
+  return (
+    <Animated.View
+      style={[
+        styles.toast,
+        {
+          opacity,
+          transform: [{ translateY: opacity.interpolate({ inputRange: [0, 1], outputRange: [20, 0] }) }],
+        },
+      ]}
+    >
+      <Text style={styles.message} numberOfLines={2}>{message}</Text>
+      <TouchableOpacity style={styles.undoButton} onPress={onUndo}>
+        <Text style={styles.undoText}>{t('components.undoToast.undo')}</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E293B',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  message: {
+    flex: 1,
+    color: '#F8FAFC',
+    fontSize: 14,
+    marginRight: 12,
+  },
+  undoButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  undoText: {
+    color: '#A5B4FC',
+    fontSize: 14,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+});
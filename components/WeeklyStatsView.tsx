@@ -9,8 +9,15 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
-import { queryAll, queryFirst } from '../db/db';
+import { getGoalOnDate, GoalChange, GoalHistoryRepository } from '../db/goalHistoryRepository';
+import { PreferencesRepository, ReadingGoal } from '../db/preferencesRepository';
+import { SessionRepository, SessionWithBook } from '../db/sessionRepository';
+import { StreakDayKind, StreakRepository } from '../db/streakRepository';
+import { useTableChanges } from '../hooks/useLiveQuery';
 import { dateToLocalDateString, getTodayDateString } from '../utils/dateUtils';
+import { isDailyGoalMet } from '../utils/readingGoal';
+import { getSessionStartTime } from '../utils/readingProgress';
+import { applyStreakFreezes, getFreezeInventory } from '../utils/streakFreezes';
 
 interface WeeklyStats {
   weekStart: string;
@@ -32,13 +39,16 @@ interface DailyStats {
   dayName: string;
   minutes: number;
   sessions: number;
+  goalMinutes: number; // The goal in force on that day
   goalMet: boolean;
+  streakDay: StreakDayKind | null; // Kept the streak without meeting the goal
 }
 
 interface StreakInfo {
   currentStreak: number;
   longestStreak: number;
   streakThisWeek: number;
+  freezesAvailable: number;
 }
 
 interface BookStats {
@@ -79,11 +89,10 @@ export default function WeeklyStatsView({
       setLoading(true);
       
       // Get user's daily goal
-      const userPrefs = await queryFirst<{current_reading_rate_minutes_per_day: number}>(
-        'SELECT current_reading_rate_minutes_per_day FROM user_preferences WHERE id = 1'
-      );
-      const goalMinutes = userPrefs?.current_reading_rate_minutes_per_day || 30;
+      const goalMinutes = await PreferencesRepository.getDailyGoalMinutes();
       setDailyGoal(goalMinutes);
+      // Streaks follow the goal in the reader's chosen unit
+      const readingGoal = await PreferencesRepository.getReadingGoal();
 
       const weekEnd = new Date(weekStart);
       weekEnd.setDate(weekEnd.getDate() + 6);
@@ -92,25 +101,16 @@ export default function WeeklyStatsView({
       const endDateString = dateToLocalDateString(weekEnd);
 
       // Get all sessions for the week with book info
-      const sessions = await queryAll<{
-        id: number;
-        book_id: number;
-        minutes_read: number;
-        date: string;
-        created_at: string;
-        notes: string;
-        book_name: string;
-        book_author: string;
-      }>(`
-        SELECT rs.*, eb.name as book_name, eb.author as book_author
-        FROM reading_sessions rs
-        JOIN enhanced_books eb ON rs.book_id = eb.id
-        WHERE rs.date BETWEEN ? AND ?
-        ORDER BY rs.date, rs.created_at
-      `, [startDateString, endDateString]);
+      const sessions = await SessionRepository.listWithBooksBetween(startDateString, endDateString);
+
+      // Frozen and rest days of the week; freezes are spent first so they show up
+      await applyStreakFreezes(readingGoal.amount, getTodayDateString(), readingGoal.unit);
+      const streakDays = await StreakRepository.listBetween(startDateString, endDateString);
 
       // Calculate daily breakdown
-      const dailyBreakdown = getDailyBreakdown(weekStart, sessions, goalMinutes);
+      // Each day is judged in the goal's unit, minutes against the goal in force on that day
+      const goalHistory = await GoalHistoryRepository.list();
+      const dailyBreakdown = getDailyBreakdown(weekStart, sessions, goalMinutes, streakDays, goalHistory, readingGoal);
       
       // Calculate total minutes
       const totalMinutes = sessions.reduce((sum, session) => sum + session.minutes_read, 0);
@@ -125,12 +125,12 @@ export default function WeeklyStatsView({
       // Get unique books read this week
       const uniqueBooks = [...new Set(sessions.map(session => `${session.book_name} by ${session.book_author}`))];
       
-      // Calculate goal progress (weekly goal is daily goal * 7)
-      const weeklyGoal = goalMinutes * 7;
+      // Calculate goal progress (weekly goal is the sum of the week's daily goals)
+      const weeklyGoal = dailyBreakdown.reduce((sum, day) => sum + day.goalMinutes, 0);
       const goalProgress = weeklyGoal > 0 ? (totalMinutes / weeklyGoal) * 100 : 0;
       
       // Calculate streak info
-      const streakInfo = await calculateStreakInfo(startDateString, endDateString, goalMinutes);
+      const streakInfo = await calculateStreakInfo(endDateString, dailyBreakdown, readingGoal);
       
       // Find top book (most minutes read this week)
       const topBook = getTopBook(sessions);
@@ -165,11 +165,19 @@ export default function WeeklyStatsView({
     loadWeeklyStats();
   }, [loadWeeklyStats]);
 
+  // Reload when sessions are logged, edited or imported elsewhere
+  useTableChanges(['reading_sessions', 'enhanced_books', 'user_preferences', 'streak_days', 'goal_history'], loadWeeklyStats);
+
   const getDailyBreakdown = (
     weekStart: Date, 
     sessions: any[], 
-    goalMinutes: number
+    goalMinutes: number,
+    streakDays: { date: string; kind: StreakDayKind }[],
+    goalHistory: GoalChange[],
+    readingGoal: ReadingGoal
   ): DailyStats[] => {
+    const streakDayKinds = new Map(streakDays.map(day => [day.date, day.kind]));
+
     const dailyStats: DailyStats[] = [];
     
     for (let i = 0; i < 7; i++) {
@@ -179,68 +187,40 @@ export default function WeeklyStatsView({
       
       const daySessions = sessions.filter(session => session.date === dateString);
       const dayMinutes = daySessions.reduce((sum, session) => sum + session.minutes_read, 0);
+      const dayPages = daySessions.reduce((sum, session) => sum + (session.pages_read ?? 0), 0);
+      const dayGoal = getGoalOnDate(goalHistory, dateString, goalMinutes);
+      const goalMet = isDailyGoalMet(readingGoal, { date: dateString, minutes: dayMinutes, pages: dayPages }, goalHistory);
       
       dailyStats.push({
         date: dateString,
         dayName: getLocalizedWeekday(date),
         minutes: dayMinutes,
         sessions: daySessions.length,
-        goalMet: dayMinutes >= goalMinutes
+        goalMinutes: dayGoal,
+        goalMet,
+        streakDay: goalMet ? null : streakDayKinds.get(dateString) ?? null
       });
     }
     
     return dailyStats;
   };
 
-  const calculateStreakInfo = async (startDate: string, endDate: string, goalMinutes: number): Promise<StreakInfo> => {
-    // Get all daily totals for streak calculation
-    const dailyTotals = await queryAll<{date: string, total_minutes: number}>(`
-      SELECT rs.date, SUM(rs.minutes_read) as total_minutes
-      FROM reading_sessions rs
-      WHERE rs.date <= ?
-      GROUP BY rs.date
-      ORDER BY rs.date DESC
-    `, [endDate]);
-
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let tempStreak = 0;
-    let streakThisWeek = 0;
-
-    // Calculate current streak (from today backwards)
-    const today = getTodayDateString();
-    let checkDate = today;
-    
-    for (const day of dailyTotals) {
-      if (day.date === checkDate && day.total_minutes >= goalMinutes) {
-        currentStreak++;
-        const checkDateObj = new Date(checkDate);
-        checkDateObj.setDate(checkDateObj.getDate() - 1);
-        checkDate = dateToLocalDateString(checkDateObj);
-      } else {
-        break;
-      }
-    }
+  const calculateStreakInfo = async (endDate: string, dailyBreakdown: DailyStats[], readingGoal: ReadingGoal): Promise<StreakInfo> => {
+    // One row per run of consecutive goal days up to the end of this week
+    const streaks = await SessionRepository.listGoalStreaks(readingGoal.amount, endDate, undefined, readingGoal.unit);
 
-    // Calculate longest streak and streak this week
-    for (const day of dailyTotals) {
-      if (day.total_minutes >= goalMinutes) {
-        tempStreak++;
-        longestStreak = Math.max(longestStreak, tempStreak);
-        
-        // Count streak days within this week
-        if (day.date >= startDate && day.date <= endDate) {
-          streakThisWeek++;
-        }
-      } else {
-        tempStreak = 0;
-      }
-    }
+    // Current streak only counts if the latest run reaches today
+    const today = getTodayDateString();
+    const currentStreak = streaks[0]?.end_date === today ? streaks[0].days : 0;
+    const longestStreak = streaks.reduce((longest, streak) => Math.max(longest, streak.days), 0);
+    const streakThisWeek = dailyBreakdown.filter(day => day.goalMet).length;
+    const { available } = await getFreezeInventory(readingGoal.amount, today, readingGoal.unit);
 
     return {
       currentStreak,
       longestStreak,
-      streakThisWeek
+      streakThisWeek,
+      freezesAvailable: available
     };
   };
 
@@ -270,7 +250,7 @@ export default function WeeklyStatsView({
     );
   };
 
-  const getTimeDistribution = (sessions: any[]): TimeDistribution[] => {
+  const getTimeDistribution = (sessions: SessionWithBook[]): TimeDistribution[] => {
     const ranges = {
       'Morning (6-12)': 0,
       'Afternoon (12-17)': 0,
@@ -279,7 +259,7 @@ export default function WeeklyStatsView({
     };
 
     sessions.forEach(session => {
-      const hour = new Date(session.created_at).getHours();
+      const hour = getSessionStartTime(session).getHours();
       if (hour >= 6 && hour < 12) {
         ranges['Morning (6-12)'] += session.minutes_read;
       } else if (hour >= 12 && hour < 17) {
@@ -330,7 +310,7 @@ export default function WeeklyStatsView({
     );
   }
 
-  const maxMinutes = Math.max(...stats.dailyBreakdown.map(day => day.minutes), dailyGoal);
+  const maxMinutes = Math.max(...stats.dailyBreakdown.map(day => Math.max(day.minutes, day.goalMinutes)), dailyGoal);
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -402,7 +382,7 @@ export default function WeeklyStatsView({
           <View style={styles.chartArea}>
             {stats.dailyBreakdown.map((day, index) => {
               const barHeight = maxMinutes > 0 ? (day.minutes / maxMinutes) * barMaxHeight : 0;
-              const goalHeight = maxMinutes > 0 ? (dailyGoal / maxMinutes) * barMaxHeight : 0;
+              const goalHeight = maxMinutes > 0 ? (day.goalMinutes / maxMinutes) * barMaxHeight : 0;
               
               return (
                 <View key={day.date} style={styles.barContainer}>
@@ -431,6 +411,7 @@ export default function WeeklyStatsView({
                   <View style={styles.barFooter}>
                     <Text style={styles.sessionsCount}>
                       {day.sessions > 0 ? `${day.sessions} 📝` : ''}
+                      {day.streakDay === 'freeze' ? '❄️' : day.streakDay === 'rest' ? '🌙' : ''}
                     </Text>
                   </View>
                 </View>
@@ -490,6 +471,9 @@ export default function WeeklyStatsView({
             <Text style={styles.statNote}>
               {t('components.weeklyStats.days')}
             </Text>
+            <Text style={styles.statNote}>
+              {t('components.weeklyStats.freezesAvailable', { count: stats.streakInfo.freezesAvailable })}
+            </Text>
           </View>
 
           <View style={styles.statCard}>
@@ -0,0 +1,111 @@
+import { useRouter } from 'expo-router';
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useLiveData } from '../hooks/useLiveQuery';
+import { getPaceStatus, getYearlyChallenge } from '../utils/yearlyChallenge';
+
+export const YEARLY_CHALLENGE_TABLES = ['reading_cycles', 'enhanced_books', 'user_preferences', 'yearly_book_goals'];
+
+/**
+ * This year's book goal against its pace; opens the yearly challenge screen.
+ * Renders nothing without a yearly goal.
+ */
+export default function YearlyChallengeCard() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const loadChallenge = useCallback(() => getYearlyChallenge(), []);
+  const { data: challenge } = useLiveData(loadChallenge, YEARLY_CHALLENGE_TABLES);
+
+  if (!challenge) {
+    return null;
+  }
+
+  const percentage = Math.min((challenge.finished / challenge.goal) * 100, 100);
+  const status = getPaceStatus(challenge);
+  const isBehind = status === 'behind';
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={() => router.push('/yearly-challenge')}>
+      <View style={styles.header}>
+        <Text style={styles.cardTitle}>{t('yearlyChallenge.cardTitle', { year: challenge.year })}</Text>
+        <Text style={styles.count}>
+          {t('yearlyChallenge.booksOfGoal', { finished: challenge.finished, goal: challenge.goal })}
+        </Text>
+      </View>
+
+      <View style={styles.progressBarBackground}>
+        <View style={[styles.progressBarFill, { width: `${percentage}%` }, isBehind && styles.progressBarFillBehind]} />
+      </View>
+
+      <Text style={[styles.paceText, isBehind && styles.paceTextBehind]}>
+        {t(`yearlyChallenge.${status}`, { count: Math.abs(challenge.difference) })}
+      </Text>
+      {isBehind && (
+        <Text style={styles.catchUpText}>{t('yearlyChallenge.pagesPerDay', { count: challenge.pagesPerDay })}</Text>
+      )}
+      <Text style={styles.link}>{t('yearlyChallenge.viewDetails')}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 20,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    gap: 10,
+  },
+  header: {
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  count: {
+    fontSize: 14,
+    color: '#64748B',
+    fontWeight: '500',
+  },
+  progressBarBackground: {
+    height: 8,
+    backgroundColor: '#E2E8F0',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressBarFill: {
+    height: '100%',
+    backgroundColor: '#6C63FF',
+    borderRadius: 4,
+  },
+  progressBarFillBehind: {
+    backgroundColor: '#F59E0B',
+  },
+  paceText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  paceTextBehind: {
+    color: '#B45309',
+  },
+  catchUpText: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6C63FF',
+    textAlign: 'right',
+  },
+});
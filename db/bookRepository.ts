@@ -0,0 +1,333 @@
+import { CycleRepository, CycleStop } from './cycleRepository';
+import { EnhancedBook, execute, getActiveProfileId, PlanUnit, queryAll, queryFirst, ReadingStatus } from './db';
+
+// Fields needed to add a book to the library
+export type NewBook = {
+  name: string;
+  author: string;
+  page: number;
+  reading_status: ReadingStatus;
+  isbn?: string | null;
+  cover_id?: number | null;
+  cover_url?: string | null;
+  first_publish_year?: number | null;
+  publisher?: string | null;
+  language?: string | null;
+  subjects?: string | null;
+  open_library_key?: string | null;
+  author_key?: string | null;
+  rating?: number | null;
+};
+
+export type BookStatusCounts = Record<ReadingStatus, number> & { total: number };
+
+// How often books are given up, compared with books finished
+export type DnfStats = {
+  finished: number;
+  dnf: number;
+  dnfRate: number; // 0-1 share of finished or given up books that were given up
+  dnfPages: number; // Pages read in given up books, up to where they stopped
+};
+
+// Library ordering: currently reading -> paused -> want to read -> read -> did not finish, newest first
+const LIBRARY_ORDER = `
+  CASE WHEN reading_status = 'currently_reading' THEN 1
+       WHEN reading_status = 'paused' THEN 2
+       WHEN reading_status = 'want_to_read' THEN 3
+       WHEN reading_status = 'read' THEN 4
+       WHEN reading_status = 'dnf' THEN 5
+       ELSE 6 END,
+  date_added DESC
+`;
+
+// A finished or given up book's plan is over
+export const CLEARED_PLAN: Partial<EnhancedBook> = {
+  target_finish_date: null,
+  plan_unit: null,
+  plan_start_date: null,
+  plan_start_page: null,
+};
+
+/**
+ * Date columns implied by moving a book into a status.
+ * Starting sets date_started, finishing sets date_finished (and the book is
+ * fully read), any other status clears date_finished.
+ */
+function statusDateChanges(status: ReadingStatus, now: string): Partial<EnhancedBook> {
+  switch (status) {
+    case 'currently_reading':
+      return { date_started: now, date_finished: undefined };
+    case 'read':
+      return { date_finished: now };
+    default:
+      return { date_finished: undefined };
+  }
+}
+
+/**
+ * Data access for enhanced_books.
+ * Library listings only cover the active profile's books. Archived books
+ * (deleted with their sessions kept) are hidden from every library listing
+ * but can still be fetched by id.
+ */
+export const BookRepository = {
+  async getById(bookId: number): Promise<EnhancedBook | null> {
+    return queryFirst<EnhancedBook>('SELECT * FROM enhanced_books WHERE id = ?', [bookId]);
+  },
+
+  /**
+   * All library books in library order, optionally limited
+   */
+  async list(limit?: number): Promise<EnhancedBook[]> {
+    const limitClause = limit ? ` LIMIT ${Math.floor(limit)}` : '';
+    return queryAll<EnhancedBook>(`
+      SELECT * FROM enhanced_books
+      WHERE profile_id = ? AND archived_at IS NULL
+      ORDER BY ${LIBRARY_ORDER}${limitClause}
+    `, [getActiveProfileId()]);
+  },
+
+  /**
+   * Library books ordered by most recently added
+   */
+  async listRecent(): Promise<EnhancedBook[]> {
+    return queryAll<EnhancedBook>(
+      'SELECT * FROM enhanced_books WHERE profile_id = ? AND archived_at IS NULL ORDER BY date_added DESC',
+      [getActiveProfileId()]
+    );
+  },
+
+  async listCurrentlyReading(): Promise<EnhancedBook[]> {
+    return queryAll<EnhancedBook>(`
+      SELECT * FROM enhanced_books
+      WHERE profile_id = ? AND reading_status = 'currently_reading' AND archived_at IS NULL
+      ORDER BY date_started DESC, date_added DESC
+    `, [getActiveProfileId()]);
+  },
+
+  async countByStatus(): Promise<BookStatusCounts> {
+    const rows = await queryAll<{reading_status: string, count: number}>(`
+      SELECT reading_status, COUNT(*) as count
+      FROM enhanced_books
+      WHERE profile_id = ? AND archived_at IS NULL
+      GROUP BY reading_status
+    `, [getActiveProfileId()]);
+
+    const counts: BookStatusCounts = { total: 0, want_to_read: 0, currently_reading: 0, read: 0, paused: 0, dnf: 0 };
+    rows.forEach(row => {
+      counts.total += row.count;
+      if (row.reading_status in counts) {
+        counts[row.reading_status as ReadingStatus] = row.count;
+      }
+    });
+    return counts;
+  },
+
+  async getDnfStats(): Promise<DnfStats> {
+    const result = await queryFirst<{ finished: number | null; dnf: number | null; dnf_pages: number | null }>(`
+      SELECT
+        SUM(CASE WHEN eb.reading_status = 'read' THEN 1 ELSE 0 END) as finished,
+        SUM(CASE WHEN eb.reading_status = 'dnf' THEN 1 ELSE 0 END) as dnf,
+        SUM(CASE WHEN eb.reading_status = 'dnf' THEN COALESCE(rc.stop_page, eb.current_page, 0) ELSE 0 END) as dnf_pages
+      FROM enhanced_books eb
+      LEFT JOIN reading_cycles rc ON rc.id = (SELECT MAX(id) FROM reading_cycles WHERE book_id = eb.id)
+      WHERE eb.profile_id = ? AND eb.archived_at IS NULL
+    `, [getActiveProfileId()]);
+
+    const finished = result?.finished || 0;
+    const dnf = result?.dnf || 0;
+    return {
+      finished,
+      dnf,
+      dnfRate: finished + dnf > 0 ? dnf / (finished + dnf) : 0,
+      dnfPages: result?.dnf_pages || 0,
+    };
+  },
+
+  /**
+   * Add a book to the active profile, stamping the date columns its initial status implies
+   */
+  async create(book: NewBook): Promise<number> {
+    const now = new Date().toISOString();
+    const dates = statusDateChanges(book.reading_status, now);
+    const currentPage = book.reading_status === 'read' ? book.page : 0;
+
+    const result = await execute(`
+      INSERT INTO enhanced_books (
+        name, author, page, isbn, cover_id, cover_url,
+        first_publish_year, publisher, language, subjects,
+        open_library_key, author_key, rating, reading_status, date_added,
+        date_started, date_finished, current_page, profile_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      book.name,
+      book.author,
+      book.page,
+      book.isbn ?? null,
+      book.cover_id ?? null,
+      book.cover_url ?? null,
+      book.first_publish_year ?? null,
+      book.publisher ?? null,
+      book.language ?? 'eng',
+      book.subjects ?? null,
+      book.open_library_key ?? null,
+      book.author_key ?? null,
+      book.rating ?? null,
+      book.reading_status,
+      now,
+      dates.date_started ?? null,
+      dates.date_finished ?? null,
+      currentPage,
+      getActiveProfileId(),
+    ]);
+
+    if (book.reading_status === 'currently_reading') {
+      await CycleRepository.start(result.lastInsertRowId, now);
+    } else if (book.reading_status === 'read') {
+      await CycleRepository.end(result.lastInsertRowId, 'finished', now);
+    }
+    return result.lastInsertRowId;
+  },
+
+  /**
+   * Move a book to a new status and apply the matching date rules.
+   * Starting a book whose last read-through has ended begins a new one from
+   * page one; the earlier read is kept as a reading cycle. Resuming a paused
+   * book carries on where it stopped. Pausing or giving up a book can note
+   * the page it stopped at, which becomes its current page, and a reason.
+   * Stopping an unfinished book any other way ends its cycle as abandoned.
+   * Returns the changed fields so callers can patch local state.
+   */
+  async setStatus(bookId: number, status: ReadingStatus, stop?: CycleStop): Promise<Partial<EnhancedBook>> {
+    const now = new Date().toISOString();
+    const changes = statusDateChanges(status, now);
+
+    if (status === 'read') {
+      await execute(
+        `UPDATE enhanced_books
+         SET reading_status = ?, date_finished = ?, current_page = page,
+           target_finish_date = NULL, plan_unit = NULL, plan_start_date = NULL, plan_start_page = NULL
+         WHERE id = ?`,
+        [status, changes.date_finished, bookId]
+      );
+      await CycleRepository.end(bookId, 'finished', now);
+      Object.assign(changes, CLEARED_PLAN);
+    } else if (status === 'currently_reading') {
+      const previousCycle = await CycleRepository.getCurrent(bookId);
+      const startsOver = !!previousCycle?.outcome;
+      if (previousCycle && !previousCycle.outcome) {
+        // Resuming keeps the original start date
+        delete changes.date_started;
+      }
+      await execute(
+        `UPDATE enhanced_books
+         SET reading_status = ?, date_started = COALESCE(?, date_started), date_finished = NULL,
+           current_page = CASE WHEN ? THEN 0 ELSE current_page END
+         WHERE id = ?`,
+        [status, changes.date_started ?? null, startsOver ? 1 : 0, bookId]
+      );
+      await CycleRepository.start(bookId, now);
+      if (startsOver) {
+        changes.current_page = 0;
+      }
+    } else if (status === 'paused' || status === 'dnf') {
+      const stopDetails: CycleStop = { page: stop?.page ?? null, reason: stop?.reason ?? null };
+      await execute(
+        `UPDATE enhanced_books SET reading_status = ?, date_finished = NULL, current_page = COALESCE(?, current_page) WHERE id = ?`,
+        [status, stopDetails.page, bookId]
+      );
+      if (status === 'paused') {
+        await CycleRepository.pause(bookId, stopDetails, now);
+      } else {
+        await CycleRepository.end(bookId, 'abandoned', now, stopDetails);
+        await BookRepository.clearPlan(bookId);
+        Object.assign(changes, CLEARED_PLAN);
+      }
+      if (stopDetails.page !== null) {
+        changes.current_page = stopDetails.page;
+      }
+    } else {
+      await execute(
+        `UPDATE enhanced_books SET reading_status = ?, date_finished = NULL WHERE id = ?`,
+        [status, bookId]
+      );
+      await CycleRepository.end(bookId, 'abandoned', now);
+    }
+
+    return { reading_status: status, ...changes };
+  },
+
+  /**
+   * Mark a book as finished: status read, finish date set, current_page = page
+   */
+  async finish(bookId: number): Promise<void> {
+    await BookRepository.setStatus(bookId, 'read');
+  },
+
+  async setCurrentPage(bookId: number, currentPage: number): Promise<void> {
+    await execute('UPDATE enhanced_books SET current_page = ? WHERE id = ?', [currentPage, bookId]);
+  },
+
+  /**
+   * Books of the active profile with a finish-by-date plan that are not finished or given up, soonest deadline first
+   */
+  async listPlanned(): Promise<EnhancedBook[]> {
+    return queryAll<EnhancedBook>(`
+      SELECT * FROM enhanced_books
+      WHERE profile_id = ? AND archived_at IS NULL AND target_finish_date IS NOT NULL
+        AND reading_status IN ('want_to_read', 'currently_reading', 'paused')
+      ORDER BY target_finish_date, date_added DESC
+    `, [getActiveProfileId()]);
+  },
+
+  /**
+   * Plan to finish a book by a date, starting from where it stands today.
+   * Returns the changed fields so callers can patch local state.
+   */
+  async setPlan(bookId: number, targetDate: string, unit: PlanUnit, today: string): Promise<Partial<EnhancedBook>> {
+    const book = await BookRepository.getById(bookId);
+    if (!book) {
+      throw new Error('Book not found');
+    }
+    if (targetDate < today) {
+      throw new Error('Target date is in the past');
+    }
+
+    const changes: Partial<EnhancedBook> = {
+      target_finish_date: targetDate,
+      plan_unit: unit,
+      plan_start_date: today,
+      plan_start_page: book.current_page || 0,
+    };
+    await execute(
+      `UPDATE enhanced_books
+       SET target_finish_date = ?, plan_unit = ?, plan_start_date = ?, plan_start_page = ?
+       WHERE id = ?`,
+      [changes.target_finish_date, changes.plan_unit, changes.plan_start_date, changes.plan_start_page, bookId]
+    );
+    return changes;
+  },
+
+  async clearPlan(bookId: number): Promise<void> {
+    await execute(
+      `UPDATE enhanced_books
+       SET target_finish_date = NULL, plan_unit = NULL, plan_start_date = NULL, plan_start_page = NULL
+       WHERE id = ?`,
+      [bookId]
+    );
+  },
+
+  /**
+   * Hide a book from the library but keep it (and its sessions) for history
+   */
+  async archive(bookId: number): Promise<void> {
+    await execute('UPDATE enhanced_books SET archived_at = ? WHERE id = ?', [new Date().toISOString(), bookId]);
+  },
+
+  /**
+   * Delete a book; its reading sessions are removed by ON DELETE CASCADE
+   */
+  async delete(bookId: number): Promise<void> {
+    await execute('DELETE FROM enhanced_books WHERE id = ?', [bookId]);
+  },
+};
@@ -0,0 +1,115 @@
+/**
+ * Table change notifications for live queries.
+ * execute() reports every statement it runs; writes outside a transaction are
+ * announced right away, writes inside one are held until COMMIT (and dropped on
+ * ROLLBACK). Notifications raised in the same tick are delivered together.
+ */
+
+export type TableChangeListener = (changedTables: ReadonlySet<string>) => void;
+
+type Subscription = {
+  tables: ReadonlySet<string>;
+  listener: TableChangeListener;
+};
+
+// Deleting a row from these tables also removes rows from the dependents (ON DELETE CASCADE)
+const CASCADE_DEPENDENTS: Record<string, string[]> = {
+  enhanced_books: ['reading_sessions', 'reading_timer', 'reading_cycles'],
+};
+
+const WRITE_STATEMENT = /^\s*(?:INSERT(?:\s+OR\s+\w+)?\s+INTO|REPLACE\s+INTO|UPDATE(?:\s+OR\s+\w+)?|DELETE\s+FROM|DROP\s+TABLE(?:\s+IF\s+EXISTS)?|ALTER\s+TABLE)\s+["`[]?(\w+)/i;
+
+const subscriptions = new Set<Subscription>();
+const pendingTables = new Set<string>();
+const transactionTables = new Set<string>();
+let inTransaction = false;
+let flushScheduled = false;
+
+function flushPending(): void {
+  flushScheduled = false;
+  if (pendingTables.size === 0) return;
+
+  const changed: ReadonlySet<string> = new Set(pendingTables);
+  pendingTables.clear();
+
+  subscriptions.forEach(({ tables, listener }) => {
+    for (const table of changed) {
+      if (tables.has(table)) {
+        try {
+          listener(changed);
+        } catch (error) {
+          console.error('❌ Table change listener failed:', error);
+        }
+        return;
+      }
+    }
+  });
+}
+
+/**
+ * Table written by a SQL statement, or null for reads and other statements
+ */
+export function getWrittenTable(sql: string): string | null {
+  const match = WRITE_STATEMENT.exec(sql);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Announce that rows in the given tables changed.
+ * Listeners run once per tick no matter how many notifications arrive.
+ */
+export function notifyTablesChanged(tables: Iterable<string>): void {
+  for (const table of tables) {
+    pendingTables.add(table);
+    CASCADE_DEPENDENTS[table]?.forEach(dependent => pendingTables.add(dependent));
+  }
+
+  if (!flushScheduled && pendingTables.size > 0) {
+    flushScheduled = true;
+    setTimeout(flushPending, 0);
+  }
+}
+
+/**
+ * Record a statement that ran successfully, tracking transaction boundaries
+ */
+export function recordStatement(sql: string): void {
+  const statement = sql.trim().toUpperCase();
+
+  if (statement.startsWith('BEGIN')) {
+    inTransaction = true;
+    return;
+  }
+  if (statement.startsWith('COMMIT') || statement.startsWith('END')) {
+    inTransaction = false;
+    notifyTablesChanged(transactionTables);
+    transactionTables.clear();
+    return;
+  }
+  if (statement.startsWith('ROLLBACK') && !statement.includes(' TO ')) {
+    inTransaction = false;
+    transactionTables.clear();
+    return;
+  }
+
+  const table = getWrittenTable(sql);
+  if (!table) return;
+
+  if (inTransaction) {
+    transactionTables.add(table);
+  } else {
+    notifyTablesChanged([table]);
+  }
+}
+
+/**
+ * Listen for changes to any of the given tables.
+ * @returns A function that removes the listener
+ */
+export function subscribeToTables(tables: string[], listener: TableChangeListener): () => void {
+  const subscription: Subscription = { tables: new Set(tables), listener };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
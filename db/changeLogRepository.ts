@@ -0,0 +1,162 @@
+import { execute, insertRow, queryAll, queryFirst, withTransaction } from './db';
+import { SessionRepository } from './sessionRepository';
+import { TrashRepository } from './trashRepository';
+import { WeeklyProgressRepository } from './weeklyProgressRepository';
+
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+export type ChangeLogTable = 'enhanced_books' | 'reading_sessions';
+
+type ChangeLogRow = {
+  id: number;
+  table_name: ChangeLogTable;
+  row_id: number;
+  book_id: number | null;
+  operation: ChangeOperation;
+  before_json: string | null;
+  after_json: string | null;
+  changed_at: string;
+};
+
+// One column whose value differs between the before and after snapshots
+export type FieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type ChangeLogEntry = Omit<ChangeLogRow, 'before_json' | 'after_json'> & {
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changes: FieldChange[];
+};
+
+/**
+ * Columns that differ between two row snapshots; a missing side counts as all nulls
+ */
+export function diffSnapshots(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (previous !== next) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+function toChangeLogEntry({ before_json, after_json, ...row }: ChangeLogRow): ChangeLogEntry {
+  const before = before_json ? JSON.parse(before_json) : null;
+  const after = after_json ? JSON.parse(after_json) : null;
+  return { ...row, before, after, changes: diffSnapshots(before, after) };
+}
+
+/**
+ * Read access to the change history written by the change_log triggers,
+ * plus reverting a single recorded change.
+ * Reverts are ordinary writes, so they show up in the history themselves.
+ */
+export const ChangeLogRepository = {
+  /**
+   * Changes to a book and its reading sessions, most recent first
+   */
+  async listForBook(bookId: number, limit: number = 100): Promise<ChangeLogEntry[]> {
+    const rows = await queryAll<ChangeLogRow>(
+      'SELECT * FROM change_log WHERE book_id = ? ORDER BY id DESC LIMIT ?',
+      [bookId, limit]
+    );
+    return rows.map(toChangeLogEntry);
+  },
+
+  async getById(changeId: number): Promise<ChangeLogEntry | null> {
+    const row = await queryFirst<ChangeLogRow>('SELECT * FROM change_log WHERE id = ?', [changeId]);
+    return row ? toChangeLogEntry(row) : null;
+  },
+
+  /**
+   * Undo one recorded change:
+   * - an update puts the changed columns back to their previous values,
+   *   leaving later edits to other columns alone
+   * - an insert moves the row to the trash
+   * - a delete brings the row back (from the trash when it is still there)
+   */
+  async revert(changeId: number): Promise<void> {
+    const entry = await ChangeLogRepository.getById(changeId);
+    if (!entry) {
+      throw new Error('Change not found');
+    }
+    const itemType = entry.table_name === 'enhanced_books' ? 'book' : 'session';
+
+    if (entry.operation === 'insert') {
+      if (itemType === 'book') {
+        await TrashRepository.trashBook(entry.row_id);
+      } else {
+        await TrashRepository.trashSession(entry.row_id);
+      }
+      return;
+    }
+
+    if (entry.operation === 'delete') {
+      const trashed = await queryFirst<{ id: number }>(
+        'SELECT id FROM trash WHERE item_type = ? AND item_id = ?',
+        [itemType, entry.row_id]
+      );
+      if (trashed) {
+        await TrashRepository.restore(trashed.id);
+        return;
+      }
+    }
+
+    await withTransaction(async () => {
+      const current = await queryFirst(`SELECT id FROM ${entry.table_name} WHERE id = ?`, [entry.row_id]);
+
+      if (entry.operation === 'delete' && current) {
+        throw new Error('Row already exists');
+      }
+      if (entry.operation === 'update' && !current) {
+        throw new Error('Row not found');
+      }
+
+      // A session can only go back into a book that still exists; a book deleted
+      // outright (or purged from the trash) took its sessions with it
+      const bookChange = entry.changes.find(change => change.field === 'book_id');
+      const restoredBookId = entry.operation === 'delete' ? entry.before?.book_id : bookChange?.before;
+      if (entry.table_name === 'reading_sessions' && restoredBookId != null
+        && !(await queryFirst('SELECT id FROM enhanced_books WHERE id = ?', [restoredBookId]))) {
+        throw new Error('Book not found');
+      }
+
+      if (entry.operation === 'delete') {
+        await insertRow(entry.table_name, entry.before!);
+      } else {
+        const assignments = entry.changes.map(change => `${change.field} = ?`).join(', ');
+        await execute(
+          `UPDATE ${entry.table_name} SET ${assignments} WHERE id = ?`,
+          [...entry.changes.map(change => change.before), entry.row_id]
+        );
+      }
+
+      const pagesChanged = entry.changes.some(change =>
+        ['pages_read', 'start_page', 'end_page', 'book_id'].includes(change.field)
+      );
+      if (entry.table_name === 'reading_sessions' && pagesChanged) {
+        // A session moved between books changes the current page of both
+        const bookIds = new Set<number>([entry.before?.book_id, entry.after?.book_id].filter(bookId => bookId != null));
+        for (const bookId of bookIds) {
+          if (await queryFirst('SELECT id FROM enhanced_books WHERE id = ?', [bookId])) {
+            await SessionRepository.syncBookCurrentPage(bookId);
+          }
+        }
+      }
+      if (entry.table_name === 'reading_sessions') {
+        await WeeklyProgressRepository.refreshAchieved(
+          [entry.before?.date, entry.after?.date].filter((date): date is string => !!date)
+        );
+      }
+    });
+  },
+};
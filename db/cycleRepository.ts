@@ -0,0 +1,239 @@
+import { execute, getActiveProfileId, queryAll, queryFirst } from './db';
+
+// How a read-through ended; null while it is still going
+export type CycleOutcome = 'finished' | 'abandoned';
+
+// One read-through of a book
+export type ReadingCycle = {
+  id: number;
+  book_id: number;
+  started_at: string | null; // ISO timestamp; unknown for books added as already read
+  finished_at: string | null;
+  outcome: CycleOutcome | null;
+  stop_page: number | null; // Where a paused or did-not-finish read stopped
+  stop_reason: string | null;
+};
+
+// Where and why a read-through was paused or given up
+export type CycleStop = {
+  page: number | null;
+  reason: string | null;
+};
+
+export type ReadingCycleWithStats = ReadingCycle & {
+  session_count: number;
+  total_minutes: number;
+  total_pages: number;
+};
+
+/**
+ * Put sessions logged before a book had any cycle into its first one
+ */
+async function adoptUnassignedSessions(bookId: number, cycleId: number): Promise<void> {
+  await execute(
+    'UPDATE reading_sessions SET cycle_id = ? WHERE book_id = ? AND cycle_id IS NULL',
+    [cycleId, bookId]
+  );
+}
+
+/**
+ * Read-throughs of books.
+ * A book's latest cycle is its current one: new sessions are logged into it
+ * and the book's progress only counts its sessions, so a reread starts from
+ * page one while earlier reads keep their own dates and stats.
+ */
+export const CycleRepository = {
+  async getCurrent(bookId: number): Promise<ReadingCycle | null> {
+    return queryFirst<ReadingCycle>(
+      'SELECT * FROM reading_cycles WHERE book_id = ? ORDER BY id DESC LIMIT 1',
+      [bookId]
+    );
+  },
+
+  /**
+   * Cycles of a book, first read first, with what was read in each
+   */
+  async listForBook(bookId: number): Promise<ReadingCycleWithStats[]> {
+    return queryAll<ReadingCycleWithStats>(`
+      SELECT rc.*,
+        COUNT(rs.id) as session_count,
+        COALESCE(SUM(rs.minutes_read), 0) as total_minutes,
+        COALESCE(SUM(rs.pages_read), 0) as total_pages
+      FROM reading_cycles rc
+      LEFT JOIN reading_sessions rs ON rs.cycle_id = rc.id
+      WHERE rc.book_id = ?
+      GROUP BY rc.id
+      ORDER BY rc.id
+    `, [bookId]);
+  },
+
+  /**
+   * Start reading a book, unless a read-through is already going.
+   * Resuming a paused read-through clears where it was stopped.
+   */
+  async start(bookId: number, now: string = new Date().toISOString()): Promise<number> {
+    const current = await CycleRepository.getCurrent(bookId);
+    if (current && !current.outcome) {
+      if (current.stop_page !== null || current.stop_reason !== null) {
+        await execute(
+          'UPDATE reading_cycles SET stop_page = NULL, stop_reason = NULL WHERE id = ?',
+          [current.id]
+        );
+      }
+      return current.id;
+    }
+
+    const result = await execute(
+      'INSERT INTO reading_cycles (book_id, started_at) VALUES (?, ?)',
+      [bookId, now]
+    );
+    if (!current) {
+      await adoptUnassignedSessions(bookId, result.lastInsertRowId);
+    }
+    return result.lastInsertRowId;
+  },
+
+  /**
+   * Pause a book: its read-through stays open, remembering where it stopped
+   */
+  async pause(bookId: number, stop: CycleStop, now: string = new Date().toISOString()): Promise<void> {
+    const cycleId = await CycleRepository.start(bookId, now);
+    await execute(
+      'UPDATE reading_cycles SET stop_page = ?, stop_reason = ? WHERE id = ?',
+      [stop.page, stop.reason, cycleId]
+    );
+  },
+
+  /**
+   * End the read-through in progress, optionally noting where it was given up.
+   * Finishing a book that was never started records a read-through of unknown start.
+   */
+  async end(
+    bookId: number,
+    outcome: CycleOutcome,
+    now: string = new Date().toISOString(),
+    stop?: CycleStop
+  ): Promise<void> {
+    const current = await CycleRepository.getCurrent(bookId);
+    if (current && !current.outcome) {
+      await execute(
+        'UPDATE reading_cycles SET finished_at = ?, outcome = ?, stop_page = ?, stop_reason = ? WHERE id = ?',
+        [now, outcome, stop?.page ?? current.stop_page, stop?.reason ?? current.stop_reason, current.id]
+      );
+    } else if (outcome === 'abandoned' && stop && current?.outcome === 'abandoned') {
+      await execute(
+        'UPDATE reading_cycles SET stop_page = ?, stop_reason = ? WHERE id = ?',
+        [stop.page, stop.reason, current.id]
+      );
+    } else if (outcome === 'abandoned' && stop) {
+      // Giving up a book whose reading was never tracked still records where it stopped
+      const result = await execute(
+        `INSERT INTO reading_cycles (book_id, finished_at, outcome, stop_page, stop_reason)
+         VALUES (?, ?, 'abandoned', ?, ?)`,
+        [bookId, now, stop.page, stop.reason]
+      );
+      if (!current) {
+        await adoptUnassignedSessions(bookId, result.lastInsertRowId);
+      }
+    } else if (outcome === 'finished' && current?.outcome !== 'finished') {
+      const result = await execute(
+        `INSERT INTO reading_cycles (book_id, finished_at, outcome) VALUES (?, ?, 'finished')`,
+        [bookId, now]
+      );
+      if (!current) {
+        await adoptUnassignedSessions(bookId, result.lastInsertRowId);
+      }
+    }
+  },
+
+  /**
+   * Give started or read books without any cycle one from their own dates,
+   * and put sessions without a cycle into their book's latest one
+   */
+  async createMissing(): Promise<void> {
+    await execute(`
+      INSERT INTO reading_cycles (book_id, started_at, finished_at, outcome)
+      SELECT id, date_started,
+        CASE WHEN reading_status = 'read' THEN date_finished END,
+        CASE reading_status WHEN 'read' THEN 'finished' WHEN 'dnf' THEN 'abandoned' END
+      FROM enhanced_books
+      WHERE reading_status IN ('currently_reading', 'read', 'paused', 'dnf')
+        AND id NOT IN (SELECT book_id FROM reading_cycles)
+    `);
+    await execute(`
+      UPDATE reading_sessions
+      SET cycle_id = (SELECT MAX(id) FROM reading_cycles WHERE reading_cycles.book_id = reading_sessions.book_id)
+      WHERE cycle_id IS NULL
+    `);
+  },
+
+  /**
+   * Read-throughs of the active profile finished in a calendar year; a book read twice counts twice
+   */
+  async countFinishedInYear(year: number): Promise<number> {
+    const result = await queryFirst<{ count: number }>(`
+      SELECT COUNT(*) as count
+      FROM reading_cycles rc
+      JOIN enhanced_books eb ON eb.id = rc.book_id
+      WHERE eb.profile_id = ? AND rc.outcome = 'finished'
+        AND strftime('%Y', rc.finished_at, 'localtime') = ?
+    `, [getActiveProfileId(), year.toString()]);
+    return result?.count || 0;
+  },
+
+  /**
+   * Read-throughs of the active profile finished between two dates (YYYY-MM-DD, inclusive)
+   */
+  async countFinishedBetween(startDate: string, endDate: string): Promise<number> {
+    const result = await queryFirst<{ count: number }>(`
+      SELECT COUNT(*) as count
+      FROM reading_cycles rc
+      JOIN enhanced_books eb ON eb.id = rc.book_id
+      WHERE eb.profile_id = ? AND rc.outcome = 'finished'
+        AND date(rc.finished_at, 'localtime') BETWEEN ? AND ?
+    `, [getActiveProfileId(), startDate, endDate]);
+    return result?.count || 0;
+  },
+
+  /**
+   * Read-throughs finished in each month (1-12) of a year; months without any are omitted
+   */
+  async countFinishedByMonth(year: number): Promise<{ month: number; count: number }[]> {
+    return queryAll<{ month: number; count: number }>(`
+      SELECT CAST(strftime('%m', rc.finished_at, 'localtime') AS INTEGER) as month, COUNT(*) as count
+      FROM reading_cycles rc
+      JOIN enhanced_books eb ON eb.id = rc.book_id
+      WHERE eb.profile_id = ? AND rc.outcome = 'finished'
+        AND strftime('%Y', rc.finished_at, 'localtime') = ?
+      GROUP BY month
+      ORDER BY month
+    `, [getActiveProfileId(), year.toString()]);
+  },
+
+  /**
+   * Read-throughs finished in each year the active profile finished a book, latest first
+   */
+  async countFinishedByYear(): Promise<{ year: number; count: number }[]> {
+    return queryAll<{ year: number; count: number }>(`
+      SELECT CAST(strftime('%Y', rc.finished_at, 'localtime') AS INTEGER) as year, COUNT(*) as count
+      FROM reading_cycles rc
+      JOIN enhanced_books eb ON eb.id = rc.book_id
+      WHERE eb.profile_id = ? AND rc.outcome = 'finished' AND rc.finished_at IS NOT NULL
+      GROUP BY year
+      ORDER BY year DESC
+    `, [getActiveProfileId()]);
+  },
+
+  /**
+   * Average page count of the books the active profile has finished; null before the first finish
+   */
+  async getAverageFinishedPages(): Promise<number | null> {
+    const result = await queryFirst<{ pages: number | null }>(`
+      SELECT AVG(eb.page) as pages
+      FROM reading_cycles rc
+      JOIN enhanced_books eb ON eb.id = rc.book_id
+      WHERE eb.profile_id = ? AND rc.outcome = 'finished' AND eb.page > 0
+    `, [getActiveProfileId()]);
+    return result?.pages ?? null;
+  },
+};
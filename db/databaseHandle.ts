@@ -0,0 +1,19 @@
+/**
+ * The minimal SQLite surface the app needs.
+ * The app runs on expo-sqlite (see expoSqliteAdapter.ts); scripts and tests
+ * run headless under Node (see nodeSqliteAdapter.ts).
+ */
+
+export type RunResult = {
+  lastInsertRowId: number;
+  changes: number;
+};
+
+export interface DatabaseHandle {
+  /** Run a query and return every row */
+  getAllAsync<T>(sql: string, params: any): Promise<T[]>;
+  /** Run a query and return the first row, or null when there is none */
+  getFirstAsync<T>(sql: string, params: any): Promise<T | null>;
+  /** Run a statement that does not return rows */
+  runAsync(sql: string, params: any): Promise<RunResult>;
+}
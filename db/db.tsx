@@ -1,23 +1,26 @@
-import { openDatabaseSync, SQLiteDatabase, SQLiteExecuteAsyncResult } from 'expo-sqlite';
+import { recordStatement } from './changeEvents';
+import type { DatabaseHandle, RunResult } from './databaseHandle';
+import {
+  createOrUpdateAppUsageTrackingTable,
+  createOrUpdateNotificationPreferencesTable,
+  LATEST_DB_VERSION,
+  MigrationContext,
+  migrations
+} from './migrations';
 
-// Open or create a local SQLite database
-const db: SQLiteDatabase = openDatabaseSync('pagestreak.db');
+export const DATABASE_NAME = 'pagestreak.db';
 
-export type DB = SQLiteDatabase;
-export type DBResult<T = any> = SQLiteExecuteAsyncResult<T>;
+// Active database handle, installed by the app root (expo-sqlite) or by Node scripts and tests
+let db: DatabaseHandle | null = null;
 
 // Database initialization flag to prevent multiple calls
 let isInitialized = false;
 
-// Current database schema version
-const CURRENT_DB_VERSION = 3;
+// Profile created by the first run of the intro; data from before profiles existed belongs to it
+export const DEFAULT_PROFILE_ID = 1;
 
-// Type for column definitions
-type ColumnDefinition = {
-  name: string;
-  type: string;
-  default?: string;
-};
+// Profile whose books, sessions and goals the repositories read and write
+let activeProfileId = DEFAULT_PROFILE_ID;
 
 // Enhanced Book type with Open Library API fields
 export type EnhancedBook = {
@@ -41,19 +44,39 @@ export type EnhancedBook = {
   date_started?: string;
   date_finished?: string;
   current_page?: number;
-  reading_status?: 'want_to_read' | 'currently_reading' | 'read';
+  // paused keeps the read-through open; dnf (did not finish) ends it
+  reading_status?: 'want_to_read' | 'currently_reading' | 'read' | 'paused' | 'dnf';
   notes?: string;
+  profile_id?: number;
+  archived_at?: string; // Set when the book was deleted but its sessions were kept
+  // Finish-by-date plan; all null without one
+  target_finish_date?: string | null; // YYYY-MM-DD
+  plan_unit?: PlanUnit | null;
+  plan_start_date?: string | null; // YYYY-MM-DD the plan was made
+  plan_start_page?: number | null; // current_page when the plan was made
 };
 
+// What a finish-by-date plan's daily quota is counted in
+export type PlanUnit = 'pages' | 'minutes';
+
+export type ReadingStatus = NonNullable<EnhancedBook['reading_status']>;
+
+export const READING_STATUSES: ReadingStatus[] = ['want_to_read', 'currently_reading', 'read', 'paused', 'dnf'];
+
 // Reading Session type for tracking daily reading progress
 export type ReadingSession = {
   id: number;
   book_id: number;
+  cycle_id?: number | null; // Read-through of the book the session belongs to
   minutes_read: number;
   pages_read?: number; // Optional: pages read in this session
+  start_page?: number | null; // Optional: first and last page read, when logged as a range
+  end_page?: number | null;
   date: string; // YYYY-MM-DD format
   created_at: string;
   notes?: string;
+  started_at?: string | null; // ISO timestamp; null for sessions logged before it was recorded
+  ended_at?: string | null;
 };
 
 // Daily reading progress summary
@@ -86,13 +109,44 @@ export type AppUsageTracking = {
   date: string; // YYYY-MM-DD format
 };
 
+/**
+ * Install the database handle every helper below runs against.
+ * The next initializeDatabase() call sets up the new database.
+ */
+export function setDatabaseHandle(handle: DatabaseHandle): void {
+  db = handle;
+  isInitialized = false;
+}
+
+/**
+ * Id of the reader profile currently in use (a user_preferences row id)
+ */
+export function getActiveProfileId(): number {
+  return activeProfileId;
+}
+
+/**
+ * Point the repositories at another profile for the rest of the session.
+ * Use ProfileRepository.switchTo() to also remember the choice across launches.
+ */
+export function setActiveProfileId(profileId: number): void {
+  activeProfileId = profileId;
+}
+
+function getDatabase(): DatabaseHandle {
+  if (!db) {
+    throw new Error('No database handle installed; call setDatabaseHandle() first');
+  }
+  return db;
+}
+
 /**
  * Helper to run a SQL query with parameters and get all results as array.
  * @param sql SQL query string
  * @param params Query parameters (array or object)
  */
 export async function queryAll<T = any>(sql: string, params?: any): Promise<T[]> {
-  return db.getAllAsync<T>(sql, params ?? []);
+  return getDatabase().getAllAsync<T>(sql, params ?? []);
 }
 
 /**
@@ -101,19 +155,55 @@ export async function queryAll<T = any>(sql: string, params?: any): Promise<T[]>
  * @param params Query parameters (array or object)
  */
 export async function queryFirst<T = any>(sql: string, params?: any): Promise<T | null> {
-  return db.getFirstAsync<T>(sql, params ?? []);
+  return getDatabase().getFirstAsync<T>(sql, params ?? []);
 }
 
 /**
  * Helper to run a SQL statement (insert, update, delete).
+ * Live queries watching the written table are notified (after COMMIT inside a transaction).
  * @param sql SQL statement
  * @param params Query parameters (array or object)
  */
-import type { SQLiteRunResult } from 'expo-sqlite';
-export async function execute(sql: string, params?: any): Promise<SQLiteRunResult> {
-  return db.runAsync(sql, params ?? []);
+export async function execute(sql: string, params?: any): Promise<RunResult> {
+  const result = await getDatabase().runAsync(sql, params ?? []);
+  recordStatement(sql);
+  return result;
+}
+
+/**
+ * Re-insert a row from a saved snapshot, keeping its id.
+ * Only columns the table still has are written, so snapshots taken before a
+ * later migration dropped a column can still be put back.
+ */
+export async function insertRow(table: string, row: Record<string, any>): Promise<void> {
+  const tableColumns = await queryAll<{ name: string }>(`PRAGMA table_info(${table})`);
+  const columns = tableColumns.map(column => column.name).filter(name => name in row);
+  const placeholders = columns.map(() => '?').join(', ');
+
+  await execute(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`,
+    columns.map(column => row[column] ?? null)
+  );
 }
 
+/**
+ * Run a unit of work inside a single SQLite transaction.
+ * Rolls back and rethrows if the work fails.
+ */
+export async function withTransaction<T>(work: () => Promise<T>): Promise<T> {
+  await execute('BEGIN TRANSACTION');
+  try {
+    const result = await work();
+    await execute('COMMIT');
+    return result;
+  } catch (error) {
+    await execute('ROLLBACK');
+    throw error;
+  }
+}
+
+const migrationContext: MigrationContext = { execute, queryAll, queryFirst };
+
 /**
  * Initialize all database tables and ensure proper setup
  * This should be called when the app first starts
@@ -127,38 +217,15 @@ export async function initializeDatabase(): Promise<void> {
   try {
     console.log('🔄 Initializing database tables...');
 
-    // 0. Create database version tracking table and check version
+    // Create database version tracking table and apply pending migrations
     await createOrUpdateDatabaseVersionTable();
-    const needsUpdate = await checkDatabaseVersion();
-
-    if (!needsUpdate && isInitialized) {
-      console.log('📦 Database is up to date, skipping initialization...');
-      return;
-    }
-
-    // 1. Create and update enhanced_books table
-    await createOrUpdateEnhancedBooksTable();
-
-    // 2. Create and update user_preferences table
-    await createOrUpdateUserPreferencesTable();
+    await runMigrations();
 
-    // 3. Create and update reading_sessions table
-    await createOrUpdateReadingSessionsTable();
+    // Foreign keys are a per-connection setting in SQLite
+    await execute('PRAGMA foreign_keys = ON');
 
-    // 4. Create and update weekly_progress table
-    await createOrUpdateWeeklyProgressTable();
-
-    // 5. Create and update notification_preferences table
-    await createOrUpdateNotificationPreferencesTable();
-
-    // 6. Create and update app_usage_tracking table
-    await createOrUpdateAppUsageTrackingTable();
-
-    // 7. Migrate old books if they exist (from legacy 'books' table)
-    await migrateOldBooksIfNeeded();
-
-    // 8. Update database version
-    await updateDatabaseVersion();
+    const settings = await queryFirst<{ active_profile_id: number }>('SELECT active_profile_id FROM app_settings WHERE id = 1');
+    activeProfileId = settings?.active_profile_id ?? DEFAULT_PROFILE_ID;
 
     isInitialized = true;
     console.log('✅ Database initialization completed successfully');
@@ -183,341 +250,52 @@ async function createOrUpdateDatabaseVersionTable(): Promise<void> {
 }
 
 /**
- * Check if database needs updating based on version
+ * Get the schema version currently recorded in the database (0 for a new installation)
  */
-async function checkDatabaseVersion(): Promise<boolean> {
-  try {
-    const versionRecord = await queryFirst<{version: number}>('SELECT version FROM database_version WHERE id = 1');
-    
-    if (!versionRecord) {
-      console.log('📝 No version record found, treating as new installation');
-      return true; // New installation, needs setup
-    }
-    
-    if (versionRecord.version < CURRENT_DB_VERSION) {
-      console.log(`🔄 Database version ${versionRecord.version} < ${CURRENT_DB_VERSION}, updating...`);
-      return true; // Needs update
-    }
-    
-    console.log(`✅ Database version ${versionRecord.version} is up to date`);
-    return false; // No update needed
-    
-  } catch (error) {
-    console.log('📝 Error checking version, treating as new installation');
-    return true; // Treat as new installation if we can't check version
-  }
+export async function getDatabaseVersion(): Promise<number> {
+  const versionRecord = await queryFirst<{version: number}>('SELECT version FROM database_version WHERE id = 1');
+  return versionRecord?.version ?? 0;
 }
 
 /**
- * Update database version after successful initialization
+ * Apply every registered migration newer than the recorded version, in order.
+ * Each step and its version bump commit together. Foreign keys are disabled
+ * for the duration (the pragma is a no-op inside a transaction) and each step
+ * must leave no foreign key violations behind.
  */
-async function updateDatabaseVersion(): Promise<void> {
-  await execute(`
-    INSERT OR REPLACE INTO database_version (id, version, updated_at)
-    VALUES (1, ?, CURRENT_TIMESTAMP)
-  `, [CURRENT_DB_VERSION]);
-  
-  console.log(`📝 Updated database version to ${CURRENT_DB_VERSION}`);
-}
-
-/**
- * Helper function to check if a column exists in a table
- */
-async function columnExists(tableName: string, columnName: string): Promise<boolean> {
-  try {
-    const result = await queryAll(`PRAGMA table_info(${tableName})`);
-    return result.some((column: any) => column.name === columnName);
-  } catch (error) {
-    // Table might not exist yet
-    return false;
-  }
-}
-
-/**
- * Helper function to check if a table exists
- */
-async function tableExists(tableName: string): Promise<boolean> {
-  try {
-    const result = await queryFirst(
-      `SELECT name FROM sqlite_master WHERE type='table' AND name=?`,
-      [tableName]
-    );
-    return !!result;
-  } catch (error) {
-    return false;
-  }
-}
-
-/**
- * Create or update enhanced_books table with all required columns
- */
-async function createOrUpdateEnhancedBooksTable(): Promise<void> {
-  // Create table if it doesn't exist
-  await execute(`
-    CREATE TABLE IF NOT EXISTS enhanced_books (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      author TEXT NOT NULL,
-      page INTEGER NOT NULL
-    )
-  `);
-
-  // Define all required columns with their types and defaults
-  const requiredColumns: ColumnDefinition[] = [
-    { name: 'isbn', type: 'TEXT' },
-    { name: 'cover_id', type: 'INTEGER' },
-    { name: 'cover_url', type: 'TEXT' },
-    { name: 'first_publish_year', type: 'INTEGER' },
-    { name: 'publisher', type: 'TEXT' },
-    { name: 'language', type: 'TEXT', default: "'eng'" },
-    { name: 'description', type: 'TEXT' },
-    { name: 'subjects', type: 'TEXT' },
-    { name: 'open_library_key', type: 'TEXT' },
-    { name: 'author_key', type: 'TEXT' },
-    { name: 'rating', type: 'REAL' },
-    { name: 'date_added', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' },
-    { name: 'date_started', type: 'DATETIME' },
-    { name: 'date_finished', type: 'DATETIME' },
-    { name: 'current_page', type: 'INTEGER', default: '0' },
-    { name: 'reading_status', type: 'TEXT', default: "'want_to_read'" },
-    { name: 'notes', type: 'TEXT' }
-  ];
-
-  // Add missing columns
-  for (const column of requiredColumns) {
-    if (!(await columnExists('enhanced_books', column.name))) {
-      const defaultClause = column.default ? ` DEFAULT ${column.default}` : '';
-      await execute(`ALTER TABLE enhanced_books ADD COLUMN ${column.name} ${column.type}${defaultClause}`);
-      console.log(`✅ Added column: enhanced_books.${column.name}`);
-    }
-  }
-}
-
-/**
- * Create or update user_preferences table with all required columns
- */
-async function createOrUpdateUserPreferencesTable(): Promise<void> {
-  // Create table if it doesn't exist
-  await execute(`
-    CREATE TABLE IF NOT EXISTS user_preferences (
-      id INTEGER PRIMARY KEY,
-      username TEXT NOT NULL DEFAULT 'Reader',
-      yearly_book_goal INTEGER DEFAULT 12
-    )
-  `);
-
-  // Define all required columns
-  const requiredColumns: ColumnDefinition[] = [
-    { name: 'preferred_genres', type: 'TEXT' },
-    { name: 'created_at', type: 'TEXT', default: 'CURRENT_TIMESTAMP' },
-    { name: 'updated_at', type: 'TEXT', default: 'CURRENT_TIMESTAMP' },
-    { name: 'weekly_reading_goal', type: 'INTEGER' },
-    { name: 'initial_reading_rate_minutes_per_day', type: 'INTEGER' },
-    { name: 'end_reading_rate_goal_minutes_per_day', type: 'INTEGER' },
-    { name: 'end_reading_rate_goal_date', type: 'TEXT' },
-    { name: 'current_reading_rate_minutes_per_day', type: 'INTEGER' },
-    { name: 'current_reading_rate_last_updated', type: 'TEXT' },
-    { name: 'weekly_reading_rate_increase_minutes', type: 'INTEGER' },
-    { name: 'weekly_reading_rate_increase_minutes_percentage', type: 'REAL' }
-  ];
-
-  // Add missing columns
-  for (const column of requiredColumns) {
-    if (!(await columnExists('user_preferences', column.name))) {
-      const defaultClause = column.default ? ` DEFAULT ${column.default}` : '';
-      await execute(`ALTER TABLE user_preferences ADD COLUMN ${column.name} ${column.type}${defaultClause}`);
-      console.log(`✅ Added column: user_preferences.${column.name}`);
-    }
-  }
-}
-
-/**
- * Create or update reading_sessions table with all required columns
- */
-async function createOrUpdateReadingSessionsTable(): Promise<void> {
-  // Create table if it doesn't exist
-  await execute(`
-    CREATE TABLE IF NOT EXISTS reading_sessions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      book_id INTEGER NOT NULL,
-      minutes_read INTEGER NOT NULL,
-      date TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Define all required columns
-  const requiredColumns: ColumnDefinition[] = [
-    { name: 'notes', type: 'TEXT' },
-    { name: 'pages_read', type: 'INTEGER' } // New optional column for pages read in this session
-  ];
-
-  // Add missing columns
-  for (const column of requiredColumns) {
-    if (!(await columnExists('reading_sessions', column.name))) {
-      const defaultClause = column.default ? ` DEFAULT ${column.default}` : '';
-      await execute(`ALTER TABLE reading_sessions ADD COLUMN ${column.name} ${column.type}${defaultClause}`);
-      console.log(`✅ Added column: reading_sessions.${column.name}`);
-    }
-  }
-
-  // Note: Foreign key constraint for reading_sessions.book_id -> enhanced_books.id 
-  // is enforced at the application level (SQLite limitations with existing tables)
-}
-
-/**
- * Create or update weekly_progress table with all required columns
- */
-async function createOrUpdateWeeklyProgressTable(): Promise<void> {
-  // Create table if it doesn't exist
-  await execute(`
-    CREATE TABLE IF NOT EXISTS weekly_progress (
-      id INTEGER PRIMARY KEY,
-      weeks_passed INTEGER NOT NULL DEFAULT 0,
-      target_reading_minutes INTEGER NOT NULL DEFAULT 210,
-      achived_reading_minutes INTEGER NOT NULL DEFAULT 0
-    )
-  `);
-
-  // Define all required columns
-  const requiredColumns: ColumnDefinition[] = [
-    { name: 'date_created', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' }
-  ];
-
-  // Add missing columns
-  for (const column of requiredColumns) {
-    if (!(await columnExists('weekly_progress', column.name))) {
-      const defaultClause = column.default ? ` DEFAULT ${column.default}` : '';
-      await execute(`ALTER TABLE weekly_progress ADD COLUMN ${column.name} ${column.type}${defaultClause}`);
-      console.log(`✅ Added column: weekly_progress.${column.name}`);
-    }
+async function runMigrations(): Promise<void> {
+  const currentVersion = await getDatabaseVersion();
+  const pending = migrations
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    console.log(`✅ Database version ${currentVersion} is up to date`);
+    return;
   }
-}
 
-/**
- * Create or update notification_preferences table with all required columns
- */
-async function createOrUpdateNotificationPreferencesTable(): Promise<void> {
-  // Create table if it doesn't exist
-  await execute(`
-    CREATE TABLE IF NOT EXISTS notification_preferences (
-      id INTEGER PRIMARY KEY,
-      notifications_enabled BOOLEAN DEFAULT 1,
-      daily_reminder_enabled BOOLEAN DEFAULT 1,
-      daily_reminder_hours_after_last_open INTEGER DEFAULT 5,
-      daily_reminder_title TEXT DEFAULT 'Time to read! 📚',
-      daily_reminder_body TEXT DEFAULT 'You haven''t reached your daily reading goal yet. Keep your streak going!',
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
+  console.log(`🔄 Database version ${currentVersion} < ${LATEST_DB_VERSION}, applying ${pending.length} migration(s)...`);
 
-  // Define all required columns with their types and defaults
-  const requiredColumns: ColumnDefinition[] = [
-    { name: 'notifications_enabled', type: 'BOOLEAN', default: '1' },
-    { name: 'daily_reminder_enabled', type: 'BOOLEAN', default: '1' },
-    { name: 'daily_reminder_hours_after_last_open', type: 'INTEGER', default: '5' },
-    { name: 'daily_reminder_title', type: 'TEXT', default: "'Time to read! 📚'" },
-    { name: 'daily_reminder_body', type: 'TEXT', default: "'You haven''t reached your daily reading goal yet. Keep your streak going!'" },
-    { name: 'created_at', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' },
-    { name: 'updated_at', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' }
-  ];
-
-  // Add missing columns
-  for (const column of requiredColumns) {
-    if (!(await columnExists('notification_preferences', column.name))) {
-      const defaultClause = column.default ? ` DEFAULT ${column.default}` : '';
-      await execute(`ALTER TABLE notification_preferences ADD COLUMN ${column.name} ${column.type}${defaultClause}`);
-      console.log(`✅ Added column: notification_preferences.${column.name}`);
-    }
-  }
-
-  // Ensure default preferences exist (will handle first-time permission request)
+  await execute('PRAGMA foreign_keys = OFF');
   try {
-    const existingPrefs = await queryFirst('SELECT id FROM notification_preferences WHERE id = 1');
-    if (!existingPrefs) {
-      // Don't create defaults here - let NotificationService handle first-time setup
-      // This ensures permission request happens at the right time
-      console.log('🔔 No notification preferences found - will be created by NotificationService when needed');
-    }
-  } catch (error) {
-    console.error('⚠️  Failed to check notification preferences:', error);
-  }
+    for (const migration of pending) {
+      await withTransaction(async () => {
+        await migration.up(migrationContext);
 
-  console.log('✅ Created/verified notification_preferences table');
-}
-
-/**
- * Create or update app_usage_tracking table with all required columns
- */
-async function createOrUpdateAppUsageTrackingTable(): Promise<void> {
-  // Create table if it doesn't exist
-  await execute(`
-    CREATE TABLE IF NOT EXISTS app_usage_tracking (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      last_opened_at DATETIME NOT NULL,
-      last_closed_at DATETIME,
-      session_count_today INTEGER DEFAULT 1,
-      date TEXT NOT NULL
-    )
-  `);
-
-  // Define all required columns with their types and defaults
-  const requiredColumns: ColumnDefinition[] = [
-    { name: 'last_opened_at', type: 'DATETIME' },
-    { name: 'last_closed_at', type: 'DATETIME' },
-    { name: 'session_count_today', type: 'INTEGER', default: '1' },
-    { name: 'date', type: 'TEXT' }
-  ];
-
-  // Add missing columns
-  for (const column of requiredColumns) {
-    if (!(await columnExists('app_usage_tracking', column.name))) {
-      const defaultClause = column.default ? ` DEFAULT ${column.default}` : '';
-      await execute(`ALTER TABLE app_usage_tracking ADD COLUMN ${column.name} ${column.type}${defaultClause}`);
-      console.log(`✅ Added column: app_usage_tracking.${column.name}`);
-    }
-  }
-
-  // Create index for faster queries by date
-  await execute(`
-    CREATE INDEX IF NOT EXISTS idx_app_usage_date ON app_usage_tracking(date)
-  `);
-
-  console.log('✅ Created/verified app_usage_tracking table');
-}
-
-/**
- * Migrate data from old 'books' table to 'enhanced_books' table if needed
- */
-async function migrateOldBooksIfNeeded(): Promise<void> {
-  try {
-    // Check if old books table exists and has data
-    const oldBooks = await queryAll<{id: number, name: string, author: string, page: number}>('SELECT * FROM books');
-    
-    if (oldBooks.length > 0) {
-      console.log(`📚 Found ${oldBooks.length} books to migrate from old table`);
-      
-      for (const book of oldBooks) {
-        // Check if book already exists in enhanced_books
-        const existing = await queryAll('SELECT id FROM enhanced_books WHERE name = ? AND author = ?', [book.name, book.author]);
-        
-        if (existing.length === 0) {
-          await execute(`
-            INSERT INTO enhanced_books (
-              name, author, page, reading_status, date_added, current_page, date_finished
-            ) VALUES (?, ?, ?, 'read', datetime('now'), ?, datetime('now'))
-          `, [book.name, book.author, book.page, book.page]);
-          
-          console.log(`✅ Migrated: ${book.name} by ${book.author}`);
+        const violations = await queryAll('PRAGMA foreign_key_check');
+        if (violations.length > 0) {
+          throw new Error(`Migration ${migration.version} (${migration.name}) left ${violations.length} foreign key violation(s)`);
         }
-      }
-      
-      console.log('🎉 Book migration completed successfully!');
+
+        await execute(`
+          INSERT OR REPLACE INTO database_version (id, version, updated_at)
+          VALUES (1, ?, CURRENT_TIMESTAMP)
+        `, [migration.version]);
+      });
+      console.log(`📝 Applied migration ${migration.version}: ${migration.name}`);
     }
-  } catch (error) {
-    // Old books table doesn't exist, which is fine for new installations
-    console.log('📚 No old books table found, starting fresh');
+  } finally {
+    await execute('PRAGMA foreign_keys = ON');
   }
 }
 
@@ -549,7 +327,7 @@ export async function checkNotificationDatabaseIntegrity(): Promise<{
     // Check if default preferences exist
     let hasDefaults = false;
     if (notifTable) {
-      const defaultPrefs = await queryFirst('SELECT id FROM notification_preferences WHERE id = 1');
+      const defaultPrefs = await queryFirst('SELECT id FROM notification_preferences WHERE id = ?', [activeProfileId]);
       hasDefaults = !!defaultPrefs;
     }
 
@@ -576,8 +354,8 @@ export async function repairNotificationDatabase(): Promise<boolean> {
     console.log('🔧 Repairing notification database...');
     
     // Recreate notification tables
-    await createOrUpdateNotificationPreferencesTable();
-    await createOrUpdateAppUsageTrackingTable();
+    await createOrUpdateNotificationPreferencesTable(migrationContext);
+    await createOrUpdateAppUsageTrackingTable(migrationContext);
     
     console.log('✅ Notification database repaired');
     return true;
@@ -586,5 +364,3 @@ export async function repairNotificationDatabase(): Promise<boolean> {
     return false;
   }
 }
-
-export default db;
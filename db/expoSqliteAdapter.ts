@@ -0,0 +1,18 @@
+import { openDatabaseSync } from 'expo-sqlite';
+import { DatabaseHandle } from './databaseHandle';
+
+/**
+ * Open (or create) a SQLite database on the device through expo-sqlite
+ */
+export function openExpoDatabase(databaseName: string): DatabaseHandle {
+  const db = openDatabaseSync(databaseName);
+
+  return {
+    getAllAsync: <T>(sql: string, params: any) => db.getAllAsync<T>(sql, params),
+    getFirstAsync: <T>(sql: string, params: any) => db.getFirstAsync<T>(sql, params),
+    runAsync: async (sql: string, params: any) => {
+      const result = await db.runAsync(sql, params);
+      return { lastInsertRowId: result.lastInsertRowId, changes: result.changes };
+    },
+  };
+}
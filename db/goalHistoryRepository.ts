@@ -0,0 +1,62 @@
+import { getTodayDateString } from '../utils/dateUtils';
+import { execute, getActiveProfileId, queryAll } from './db';
+
+// A daily reading goal and the first day it applies to
+export type GoalChange = {
+  id: number;
+  profile_id: number;
+  effective_date: string; // YYYY-MM-DD
+  minutes_per_day: number;
+};
+
+/**
+ * The goal in force on a day: the latest change up to that day, or the first
+ * goal for days before any change was recorded. Falls back when there is no history.
+ * history must be ordered by effective_date.
+ */
+export function getGoalOnDate(history: GoalChange[], date: string, fallback: number): number {
+  let goal = history[0]?.minutes_per_day ?? fallback;
+  for (const change of history) {
+    if (change.effective_date > date) break;
+    goal = change.minutes_per_day;
+  }
+  return goal;
+}
+
+/**
+ * Daily goals a profile has had over time, so every past day is judged
+ * against the goal that applied on that day rather than today's
+ */
+export const GoalHistoryRepository = {
+  async list(): Promise<GoalChange[]> {
+    return queryAll<GoalChange>(
+      'SELECT * FROM goal_history WHERE profile_id = ? ORDER BY effective_date',
+      [getActiveProfileId()]
+    );
+  },
+
+  /**
+   * Record the goal from a day on. Nothing is stored when it is already the
+   * goal in force; a second change on the same day replaces the first.
+   */
+  async record(
+    minutesPerDay: number,
+    profileId: number = getActiveProfileId(),
+    date: string = getTodayDateString()
+  ): Promise<void> {
+    const history = await queryAll<GoalChange>(
+      'SELECT * FROM goal_history WHERE profile_id = ? ORDER BY effective_date',
+      [profileId]
+    );
+    const previous = history.filter(change => change.effective_date < date);
+    const currentGoal = previous.length > 0 ? previous[previous.length - 1].minutes_per_day : null;
+    if (currentGoal === minutesPerDay) {
+      await execute('DELETE FROM goal_history WHERE profile_id = ? AND effective_date = ?', [profileId, date]);
+      return;
+    }
+    await execute(
+      'INSERT OR REPLACE INTO goal_history (profile_id, effective_date, minutes_per_day) VALUES (?, ?, ?)',
+      [profileId, date, minutesPerDay]
+    );
+  },
+};
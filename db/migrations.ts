@@ -0,0 +1,849 @@
+import type { RunResult } from './databaseHandle';
+
+/**
+ * Database access handed to each migration step.
+ * Migrations only talk to the database through this context so the
+ * registry stays free of any import cycle with db.tsx.
+ */
+export type MigrationContext = {
+  execute: (sql: string, params?: any) => Promise<RunResult>;
+  queryAll: <T = any>(sql: string, params?: any) => Promise<T[]>;
+  queryFirst: <T = any>(sql: string, params?: any) => Promise<T | null>;
+};
+
+/**
+ * A single numbered schema migration.
+ * Each step runs inside its own transaction together with the version bump,
+ * so a failing step leaves the database at the previous version.
+ * Foreign key enforcement is off while migrations run (so table rebuilds
+ * don't cascade) and the result is checked with `PRAGMA foreign_key_check`.
+ */
+export type Migration = {
+  version: number;
+  name: string;
+  up: (ctx: MigrationContext) => Promise<void>;
+};
+
+// Type for column definitions
+type ColumnDefinition = {
+  name: string;
+  type: string;
+  default?: string;
+};
+
+/**
+ * Helper function to check if a column exists in a table
+ */
+export async function columnExists(ctx: MigrationContext, tableName: string, columnName: string): Promise<boolean> {
+  try {
+    const result = await ctx.queryAll(`PRAGMA table_info(${tableName})`);
+    return result.some((column: any) => column.name === columnName);
+  } catch {
+    // Table might not exist yet
+    return false;
+  }
+}
+
+/**
+ * Helper function to check if a table exists
+ */
+export async function tableExists(ctx: MigrationContext, tableName: string): Promise<boolean> {
+  try {
+    const result = await ctx.queryFirst(
+      `SELECT name FROM sqlite_master WHERE type='table' AND name=?`,
+      [tableName]
+    );
+    return !!result;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Add any of the given columns that are missing from a table
+ */
+async function addMissingColumns(ctx: MigrationContext, tableName: string, columns: ColumnDefinition[]): Promise<void> {
+  for (const column of columns) {
+    if (!(await columnExists(ctx, tableName, column.name))) {
+      const defaultClause = column.default ? ` DEFAULT ${column.default}` : '';
+      await ctx.execute(`ALTER TABLE ${tableName} ADD COLUMN ${column.name} ${column.type}${defaultClause}`);
+      console.log(`✅ Added column: ${tableName}.${column.name}`);
+    }
+  }
+}
+
+/**
+ * Rebuild a table with a new definition, copying rows across.
+ * This is the SQLite-recommended way to rename or retype columns and add
+ * constraints: create the new table, copy data, drop the old one, rename.
+ * Indexes and triggers on the old table are recreated on the new one.
+ *
+ * @param tableName Table to rebuild
+ * @param createSql CREATE TABLE statement using the placeholder table name `{table}`
+ * @param columnMap Target column -> SQL expression over the old table (defaults to the same column name)
+ */
+export async function rebuildTable(
+  ctx: MigrationContext,
+  tableName: string,
+  createSql: string,
+  columnMap: Record<string, string>
+): Promise<void> {
+  const tempName = `${tableName}_new`;
+  const dependents = await ctx.queryAll<{sql: string}>(
+    "SELECT sql FROM sqlite_master WHERE type IN ('index', 'trigger') AND tbl_name = ? AND sql IS NOT NULL",
+    [tableName]
+  );
+  await ctx.execute(`DROP TABLE IF EXISTS ${tempName}`);
+  await ctx.execute(createSql.replace('{table}', tempName));
+
+  const targetColumns = Object.keys(columnMap);
+  const sourceExpressions = targetColumns.map(column => columnMap[column]);
+  await ctx.execute(`
+    INSERT INTO ${tempName} (${targetColumns.join(', ')})
+    SELECT ${sourceExpressions.join(', ')} FROM ${tableName}
+  `);
+
+  await ctx.execute(`DROP TABLE ${tableName}`);
+  await ctx.execute(`ALTER TABLE ${tempName} RENAME TO ${tableName}`);
+  for (const dependent of dependents) {
+    await ctx.execute(dependent.sql);
+  }
+  console.log(`🔁 Rebuilt table: ${tableName}`);
+}
+
+/**
+ * Audited tables and the column holding the book each row belongs to
+ */
+const CHANGE_LOG_TABLES: Record<string, string> = {
+  enhanced_books: 'id',
+  reading_sessions: 'book_id',
+};
+
+/**
+ * (Re)create the triggers that record every insert, update and delete on the
+ * audited tables into change_log, snapshotting rows as JSON.
+ * The snapshots list each column explicitly, so any later migration that adds,
+ * drops or renames a column on an audited table must call this again.
+ */
+export async function refreshChangeLogTriggers(ctx: MigrationContext): Promise<void> {
+  for (const [tableName, bookIdColumn] of Object.entries(CHANGE_LOG_TABLES)) {
+    const columns = (await ctx.queryAll<{ name: string }>(`PRAGMA table_info(${tableName})`))
+      .map(column => column.name);
+    const snapshot = (row: 'new' | 'old') =>
+      `json_object(${columns.map(column => `'${column}', ${row}.${column}`).join(', ')})`;
+    const changed = columns.map(column => `old.${column} IS NOT new.${column}`).join(' OR ');
+
+    await ctx.execute(`DROP TRIGGER IF EXISTS ${tableName}_change_log_insert`);
+    await ctx.execute(`DROP TRIGGER IF EXISTS ${tableName}_change_log_update`);
+    await ctx.execute(`DROP TRIGGER IF EXISTS ${tableName}_change_log_delete`);
+
+    await ctx.execute(`
+      CREATE TRIGGER ${tableName}_change_log_insert AFTER INSERT ON ${tableName} BEGIN
+        INSERT INTO change_log (table_name, row_id, book_id, operation, after_json)
+        VALUES ('${tableName}', new.id, new.${bookIdColumn}, 'insert', ${snapshot('new')});
+      END
+    `);
+    // Updates that leave every column as it was are not worth a history entry
+    await ctx.execute(`
+      CREATE TRIGGER ${tableName}_change_log_update AFTER UPDATE ON ${tableName}
+      WHEN ${changed} BEGIN
+        INSERT INTO change_log (table_name, row_id, book_id, operation, before_json, after_json)
+        VALUES ('${tableName}', new.id, new.${bookIdColumn}, 'update', ${snapshot('old')}, ${snapshot('new')});
+      END
+    `);
+    await ctx.execute(`
+      CREATE TRIGGER ${tableName}_change_log_delete AFTER DELETE ON ${tableName} BEGIN
+        INSERT INTO change_log (table_name, row_id, book_id, operation, before_json)
+        VALUES ('${tableName}', old.id, old.${bookIdColumn}, 'delete', ${snapshot('old')});
+      END
+    `);
+  }
+}
+
+/**
+ * Create or update notification_preferences table with all required columns
+ */
+export async function createOrUpdateNotificationPreferencesTable(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS notification_preferences (
+      id INTEGER PRIMARY KEY,
+      notifications_enabled BOOLEAN DEFAULT 1,
+      daily_reminder_enabled BOOLEAN DEFAULT 1,
+      daily_reminder_hours_after_last_open INTEGER DEFAULT 5,
+      daily_reminder_title TEXT DEFAULT 'Time to read! 📚',
+      daily_reminder_body TEXT DEFAULT 'You haven''t reached your daily reading goal yet. Keep your streak going!',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await addMissingColumns(ctx, 'notification_preferences', [
+    { name: 'notifications_enabled', type: 'BOOLEAN', default: '1' },
+    { name: 'daily_reminder_enabled', type: 'BOOLEAN', default: '1' },
+    { name: 'daily_reminder_hours_after_last_open', type: 'INTEGER', default: '5' },
+    { name: 'daily_reminder_title', type: 'TEXT', default: "'Time to read! 📚'" },
+    { name: 'daily_reminder_body', type: 'TEXT', default: "'You haven''t reached your daily reading goal yet. Keep your streak going!'" },
+    { name: 'created_at', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' },
+    { name: 'updated_at', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' }
+  ]);
+
+  // Default preferences are not created here - NotificationService handles
+  // first-time setup so the permission request happens at the right time
+  console.log('✅ Created/verified notification_preferences table');
+}
+
+/**
+ * Create or update app_usage_tracking table with all required columns
+ */
+export async function createOrUpdateAppUsageTrackingTable(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS app_usage_tracking (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      last_opened_at DATETIME NOT NULL,
+      last_closed_at DATETIME,
+      session_count_today INTEGER DEFAULT 1,
+      date TEXT NOT NULL
+    )
+  `);
+
+  await addMissingColumns(ctx, 'app_usage_tracking', [
+    { name: 'last_opened_at', type: 'DATETIME' },
+    { name: 'last_closed_at', type: 'DATETIME' },
+    { name: 'session_count_today', type: 'INTEGER', default: '1' },
+    { name: 'date', type: 'TEXT' }
+  ]);
+
+  // Create index for faster queries by date
+  await ctx.execute(`
+    CREATE INDEX IF NOT EXISTS idx_app_usage_date ON app_usage_tracking(date)
+  `);
+
+  console.log('✅ Created/verified app_usage_tracking table');
+}
+
+/**
+ * Baseline schema (versions 1-3).
+ * These versions predate the migration registry, when the schema was patched
+ * by adding missing columns on every launch. Databases below version 3 may
+ * have any subset of those columns, so this step stays idempotent.
+ */
+async function legacyBaselineSchema(ctx: MigrationContext): Promise<void> {
+  // enhanced_books
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS enhanced_books (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      author TEXT NOT NULL,
+      page INTEGER NOT NULL
+    )
+  `);
+  await addMissingColumns(ctx, 'enhanced_books', [
+    { name: 'isbn', type: 'TEXT' },
+    { name: 'cover_id', type: 'INTEGER' },
+    { name: 'cover_url', type: 'TEXT' },
+    { name: 'first_publish_year', type: 'INTEGER' },
+    { name: 'publisher', type: 'TEXT' },
+    { name: 'language', type: 'TEXT', default: "'eng'" },
+    { name: 'description', type: 'TEXT' },
+    { name: 'subjects', type: 'TEXT' },
+    { name: 'open_library_key', type: 'TEXT' },
+    { name: 'author_key', type: 'TEXT' },
+    { name: 'rating', type: 'REAL' },
+    { name: 'date_added', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' },
+    { name: 'date_started', type: 'DATETIME' },
+    { name: 'date_finished', type: 'DATETIME' },
+    { name: 'current_page', type: 'INTEGER', default: '0' },
+    { name: 'reading_status', type: 'TEXT', default: "'want_to_read'" },
+    { name: 'notes', type: 'TEXT' }
+  ]);
+
+  // user_preferences
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS user_preferences (
+      id INTEGER PRIMARY KEY,
+      username TEXT NOT NULL DEFAULT 'Reader',
+      yearly_book_goal INTEGER DEFAULT 12
+    )
+  `);
+  await addMissingColumns(ctx, 'user_preferences', [
+    { name: 'preferred_genres', type: 'TEXT' },
+    { name: 'created_at', type: 'TEXT', default: 'CURRENT_TIMESTAMP' },
+    { name: 'updated_at', type: 'TEXT', default: 'CURRENT_TIMESTAMP' },
+    { name: 'weekly_reading_goal', type: 'INTEGER' },
+    { name: 'initial_reading_rate_minutes_per_day', type: 'INTEGER' },
+    { name: 'end_reading_rate_goal_minutes_per_day', type: 'INTEGER' },
+    { name: 'end_reading_rate_goal_date', type: 'TEXT' },
+    { name: 'current_reading_rate_minutes_per_day', type: 'INTEGER' },
+    { name: 'current_reading_rate_last_updated', type: 'TEXT' },
+    { name: 'weekly_reading_rate_increase_minutes', type: 'INTEGER' },
+    { name: 'weekly_reading_rate_increase_minutes_percentage', type: 'REAL' }
+  ]);
+
+  // reading_sessions
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS reading_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      minutes_read INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  await addMissingColumns(ctx, 'reading_sessions', [
+    { name: 'notes', type: 'TEXT' },
+    { name: 'pages_read', type: 'INTEGER' }
+  ]);
+
+  // weekly_progress
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS weekly_progress (
+      id INTEGER PRIMARY KEY,
+      weeks_passed INTEGER NOT NULL DEFAULT 0,
+      target_reading_minutes INTEGER NOT NULL DEFAULT 210,
+      achived_reading_minutes INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  await addMissingColumns(ctx, 'weekly_progress', [
+    { name: 'date_created', type: 'DATETIME', default: 'CURRENT_TIMESTAMP' }
+  ]);
+
+  await createOrUpdateNotificationPreferencesTable(ctx);
+  await createOrUpdateAppUsageTrackingTable(ctx);
+
+  // Migrate books from the legacy 'books' table if it exists
+  if (await tableExists(ctx, 'books')) {
+    const oldBooks = await ctx.queryAll<{id: number, name: string, author: string, page: number}>('SELECT * FROM books');
+    if (oldBooks.length > 0) {
+      console.log(`📚 Found ${oldBooks.length} books to migrate from old table`);
+
+      for (const book of oldBooks) {
+        const existing = await ctx.queryFirst('SELECT id FROM enhanced_books WHERE name = ? AND author = ?', [book.name, book.author]);
+        if (!existing) {
+          await ctx.execute(`
+            INSERT INTO enhanced_books (
+              name, author, page, reading_status, date_added, current_page, date_finished
+            ) VALUES (?, ?, ?, 'read', datetime('now'), ?, datetime('now'))
+          `, [book.name, book.author, book.page, book.page]);
+          console.log(`✅ Migrated: ${book.name} by ${book.author}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Version 4: enforce reading_sessions.book_id -> enhanced_books.id.
+ * Books gain an archived_at marker so a deleted book can keep its history.
+ * Sessions orphaned by earlier deletes are re-attached to archived
+ * placeholder books (same id) so streaks and stats stay unchanged.
+ */
+async function readingSessionsForeignKey(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'enhanced_books', [
+    { name: 'archived_at', type: 'DATETIME' }
+  ]);
+
+  const orphans = await ctx.queryFirst<{count: number}>(`
+    SELECT COUNT(*) as count FROM reading_sessions
+    WHERE book_id NOT IN (SELECT id FROM enhanced_books)
+  `);
+  if (orphans && orphans.count > 0) {
+    await ctx.execute(`
+      INSERT INTO enhanced_books (id, name, author, page, current_page, reading_status, archived_at)
+      SELECT DISTINCT book_id, 'Deleted book', 'Unknown', 0, 0, 'read', CURRENT_TIMESTAMP
+      FROM reading_sessions
+      WHERE book_id NOT IN (SELECT id FROM enhanced_books)
+    `);
+    console.log(`🧹 Re-attached ${orphans.count} orphaned reading session(s) to archived books`);
+  }
+
+  await rebuildTable(ctx, 'reading_sessions', `
+    CREATE TABLE {table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      minutes_read INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      notes TEXT,
+      pages_read INTEGER,
+      FOREIGN KEY (book_id) REFERENCES enhanced_books (id) ON DELETE CASCADE
+    )
+  `, {
+    id: 'id',
+    book_id: 'book_id',
+    minutes_read: 'minutes_read',
+    date: 'date',
+    created_at: 'created_at',
+    notes: 'notes',
+    pages_read: 'pages_read',
+  });
+}
+
+/**
+ * Version 5: index reading_sessions for the per-day and per-book aggregations.
+ * The date index also covers minutes_read so daily totals never touch the table.
+ */
+async function readingSessionsIndexes(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(
+    'CREATE INDEX IF NOT EXISTS idx_reading_sessions_date ON reading_sessions (date, minutes_read)'
+  );
+  await ctx.execute(
+    'CREATE INDEX IF NOT EXISTS idx_reading_sessions_book_id ON reading_sessions (book_id)'
+  );
+}
+
+/**
+ * Version 6: full-text search over books and session notes.
+ * Both FTS5 tables use external content (the rows live in the source
+ * tables) and triggers keep the index in step with every insert, update
+ * and delete, including deletes cascaded from enhanced_books.
+ */
+async function fullTextSearch(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS books_fts USING fts5(
+      name, author, description, subjects, notes,
+      content = 'enhanced_books', content_rowid = 'id',
+      tokenize = 'unicode61 remove_diacritics 2'
+    )
+  `);
+  await ctx.execute(`
+    CREATE TRIGGER IF NOT EXISTS enhanced_books_fts_insert AFTER INSERT ON enhanced_books BEGIN
+      INSERT INTO books_fts (rowid, name, author, description, subjects, notes)
+      VALUES (new.id, new.name, new.author, new.description, new.subjects, new.notes);
+    END
+  `);
+  await ctx.execute(`
+    CREATE TRIGGER IF NOT EXISTS enhanced_books_fts_delete AFTER DELETE ON enhanced_books BEGIN
+      INSERT INTO books_fts (books_fts, rowid, name, author, description, subjects, notes)
+      VALUES ('delete', old.id, old.name, old.author, old.description, old.subjects, old.notes);
+    END
+  `);
+  await ctx.execute(`
+    CREATE TRIGGER IF NOT EXISTS enhanced_books_fts_update
+    AFTER UPDATE OF name, author, description, subjects, notes ON enhanced_books BEGIN
+      INSERT INTO books_fts (books_fts, rowid, name, author, description, subjects, notes)
+      VALUES ('delete', old.id, old.name, old.author, old.description, old.subjects, old.notes);
+      INSERT INTO books_fts (rowid, name, author, description, subjects, notes)
+      VALUES (new.id, new.name, new.author, new.description, new.subjects, new.notes);
+    END
+  `);
+
+  await ctx.execute(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS session_notes_fts USING fts5(
+      notes,
+      content = 'reading_sessions', content_rowid = 'id',
+      tokenize = 'unicode61 remove_diacritics 2'
+    )
+  `);
+  await ctx.execute(`
+    CREATE TRIGGER IF NOT EXISTS reading_sessions_fts_insert AFTER INSERT ON reading_sessions BEGIN
+      INSERT INTO session_notes_fts (rowid, notes) VALUES (new.id, new.notes);
+    END
+  `);
+  await ctx.execute(`
+    CREATE TRIGGER IF NOT EXISTS reading_sessions_fts_delete AFTER DELETE ON reading_sessions BEGIN
+      INSERT INTO session_notes_fts (session_notes_fts, rowid, notes) VALUES ('delete', old.id, old.notes);
+    END
+  `);
+  await ctx.execute(`
+    CREATE TRIGGER IF NOT EXISTS reading_sessions_fts_update AFTER UPDATE OF notes ON reading_sessions BEGIN
+      INSERT INTO session_notes_fts (session_notes_fts, rowid, notes) VALUES ('delete', old.id, old.notes);
+      INSERT INTO session_notes_fts (rowid, notes) VALUES (new.id, new.notes);
+    END
+  `);
+
+  // Index the rows that already exist
+  await ctx.execute("INSERT INTO books_fts (books_fts) VALUES ('rebuild')");
+  await ctx.execute("INSERT INTO session_notes_fts (session_notes_fts) VALUES ('rebuild')");
+}
+
+/**
+ * Version 7: trash bin for deleted books and reading sessions.
+ * Deleted rows move into trash as JSON so every statistics query keeps
+ * reading the live tables only; restoring re-inserts them with their ids.
+ */
+async function trashBin(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS trash (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      item_type TEXT NOT NULL CHECK (item_type IN ('book', 'session')),
+      item_id INTEGER NOT NULL,
+      book_id INTEGER NOT NULL,
+      label TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      deleted_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  await ctx.execute('CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash (deleted_at)');
+
+  await addMissingColumns(ctx, 'user_preferences', [
+    { name: 'trash_retention_days', type: 'INTEGER', default: '30' }
+  ]);
+}
+
+/**
+ * Version 8: change history for books and reading sessions.
+ * Triggers write a before/after snapshot of every changed row, so edits made
+ * anywhere in the app (including backups and the trash) are recorded.
+ */
+async function changeLog(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS change_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      table_name TEXT NOT NULL,
+      row_id INTEGER NOT NULL,
+      book_id INTEGER,
+      operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+      before_json TEXT,
+      after_json TEXT,
+      changed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  await ctx.execute('CREATE INDEX IF NOT EXISTS idx_change_log_book_id ON change_log (book_id, id)');
+
+  await refreshChangeLogTriggers(ctx);
+}
+
+/**
+ * Version 9: multiple reader profiles.
+ * Each user_preferences row is a profile and notification_preferences rows
+ * share its id. Books, weekly progress and trash carry their profile;
+ * reading sessions belong to a profile through their book. Existing data
+ * becomes profile 1.
+ */
+async function readerProfiles(ctx: MigrationContext): Promise<void> {
+  for (const tableName of ['enhanced_books', 'weekly_progress', 'trash']) {
+    await addMissingColumns(ctx, tableName, [
+      { name: 'profile_id', type: 'INTEGER NOT NULL', default: '1' }
+    ]);
+  }
+  await ctx.execute('CREATE INDEX IF NOT EXISTS idx_enhanced_books_profile_id ON enhanced_books (profile_id)');
+  await ctx.execute('CREATE INDEX IF NOT EXISTS idx_weekly_progress_profile_id ON weekly_progress (profile_id)');
+
+  // Which profile the app opens with
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS app_settings (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      active_profile_id INTEGER NOT NULL DEFAULT 1
+    )
+  `);
+  await ctx.execute('INSERT OR IGNORE INTO app_settings (id, active_profile_id) VALUES (1, 1)');
+
+  await refreshChangeLogTriggers(ctx);
+}
+
+/**
+ * Version 10: live reading timer.
+ * Sessions record when the reading actually started and ended. The running
+ * timer (at most one per profile) lives in the database so it survives the
+ * app being killed; time spent paused is kept out of the elapsed total.
+ */
+async function readingTimer(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'reading_sessions', [
+    { name: 'started_at', type: 'DATETIME' },
+    { name: 'ended_at', type: 'DATETIME' }
+  ]);
+
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS reading_timer (
+      profile_id INTEGER PRIMARY KEY,
+      book_id INTEGER NOT NULL REFERENCES enhanced_books (id) ON DELETE CASCADE,
+      started_at DATETIME NOT NULL,
+      paused_at DATETIME,
+      paused_seconds INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+
+  await refreshChangeLogTriggers(ctx);
+}
+
+/**
+ * Version 11: page ranges on reading sessions.
+ * Sessions may record the first and last page read; pages_read stays the
+ * page count so totals and older sessions keep working.
+ */
+async function sessionPageRanges(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'reading_sessions', [
+    { name: 'start_page', type: 'INTEGER' },
+    { name: 'end_page', type: 'INTEGER' }
+  ]);
+
+  await refreshChangeLogTriggers(ctx);
+}
+
+/**
+ * Version 12: reading cycles, one per read-through of a book.
+ * Reading a finished book again starts a new cycle instead of overwriting
+ * the first read, and sessions belong to the cycle they were logged in.
+ * Books already started or read get one cycle from their own dates, holding
+ * all of their sessions.
+ */
+async function readingCycles(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS reading_cycles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL REFERENCES enhanced_books (id) ON DELETE CASCADE,
+      started_at DATETIME,
+      finished_at DATETIME,
+      outcome TEXT CHECK (outcome IN ('finished', 'abandoned'))
+    )
+  `);
+  await ctx.execute('CREATE INDEX IF NOT EXISTS idx_reading_cycles_book_id ON reading_cycles (book_id)');
+
+  await addMissingColumns(ctx, 'reading_sessions', [
+    { name: 'cycle_id', type: 'INTEGER' }
+  ]);
+  await ctx.execute('CREATE INDEX IF NOT EXISTS idx_reading_sessions_cycle_id ON reading_sessions (cycle_id)');
+
+  await ctx.execute(`
+    INSERT INTO reading_cycles (book_id, started_at, finished_at, outcome)
+    SELECT id, date_started,
+      CASE WHEN reading_status = 'read' THEN date_finished END,
+      CASE WHEN reading_status = 'read' THEN 'finished' END
+    FROM enhanced_books
+    WHERE reading_status IN ('currently_reading', 'read')
+      AND id NOT IN (SELECT book_id FROM reading_cycles)
+  `);
+  await ctx.execute(`
+    UPDATE reading_sessions
+    SET cycle_id = (SELECT MAX(id) FROM reading_cycles WHERE reading_cycles.book_id = reading_sessions.book_id)
+    WHERE cycle_id IS NULL
+  `);
+
+  await refreshChangeLogTriggers(ctx);
+}
+
+/**
+ * Where and why a read-through was stopped, for paused and did-not-finish books
+ */
+async function cycleStopDetails(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'reading_cycles', [
+    { name: 'stop_page', type: 'INTEGER' },
+    { name: 'stop_reason', type: 'TEXT' }
+  ]);
+}
+
+/**
+ * Finish-by-date plans: a book's target date, whether its daily quota is in
+ * pages or minutes, and where the book stood when the plan was made
+ */
+async function bookFinishPlans(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'enhanced_books', [
+    { name: 'target_finish_date', type: 'TEXT' },
+    { name: 'plan_unit', type: 'TEXT' },
+    { name: 'plan_start_date', type: 'TEXT' },
+    { name: 'plan_start_page', type: 'INTEGER' }
+  ]);
+
+  await refreshChangeLogTriggers(ctx);
+}
+
+/**
+ * Days that keep a reading streak alive without meeting the goal: days
+ * covered by a spent streak freeze and rest days declared ahead of time
+ */
+async function streakDays(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS streak_days (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      profile_id INTEGER NOT NULL DEFAULT 1,
+      date TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('freeze', 'rest')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (profile_id, date)
+    )
+  `);
+}
+
+/**
+ * Daily goal history, so past days are judged against the goal of their day.
+ * Seeded with what user_preferences still knows: the initial goal from the
+ * day the profile was made, and the current one from its last change.
+ */
+async function goalHistory(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS goal_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      profile_id INTEGER NOT NULL,
+      effective_date TEXT NOT NULL,
+      minutes_per_day INTEGER NOT NULL,
+      UNIQUE (profile_id, effective_date)
+    )
+  `);
+
+  // Databases that skipped the baseline may lack the goal columns; they have no history to keep
+  const goalColumns = [
+    'created_at', 'initial_reading_rate_minutes_per_day',
+    'current_reading_rate_minutes_per_day', 'current_reading_rate_last_updated'
+  ];
+  for (const column of goalColumns) {
+    if (!(await columnExists(ctx, 'user_preferences', column))) {
+      return;
+    }
+  }
+
+  await ctx.execute(`
+    INSERT OR IGNORE INTO goal_history (profile_id, effective_date, minutes_per_day)
+    SELECT id, date(COALESCE(created_at, CURRENT_TIMESTAMP)),
+      COALESCE(initial_reading_rate_minutes_per_day, current_reading_rate_minutes_per_day, 30)
+    FROM user_preferences
+  `);
+  await ctx.execute(`
+    INSERT OR REPLACE INTO goal_history (profile_id, effective_date, minutes_per_day)
+    SELECT id, MAX(date(current_reading_rate_last_updated), date(COALESCE(created_at, CURRENT_TIMESTAMP))),
+      current_reading_rate_minutes_per_day
+    FROM user_preferences
+    WHERE current_reading_rate_minutes_per_day IS NOT NULL
+      AND current_reading_rate_last_updated IS NOT NULL
+      AND current_reading_rate_minutes_per_day != COALESCE(initial_reading_rate_minutes_per_day, -1)
+  `);
+}
+
+/**
+ * How the daily goal ramps up toward the target each week.
+ * Existing profiles keep the compounding percentage they have always had.
+ */
+async function goalProgressionStrategy(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'user_preferences', [
+    { name: 'goal_progression_strategy', type: 'TEXT', default: "'percentage'" }
+  ]);
+}
+
+/**
+ * One weekly_progress row per calendar week, starting on Monday.
+ * The old code kept a single row per profile that it overwrote on every
+ * step; that row becomes the week the current goal took effect, and the
+ * weeks since are backfilled from reading sessions on the next app open.
+ * Older rows keep their history in the week they were created, or else the
+ * week their weeks_passed puts them before the latest row. Only the newest
+ * row of each week is kept, and rows with neither a date nor a weeks_passed
+ * below the latest row's cannot be placed and are dropped.
+ */
+async function weeklyProgressWeeks(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'weekly_progress', [
+    { name: 'week_start', type: 'TEXT' }
+  ]);
+
+  // Databases that skipped the baseline may lack either date
+  const goalChangedOn = await columnExists(ctx, 'user_preferences', 'current_reading_rate_last_updated')
+    ? `(SELECT date(up.current_reading_rate_last_updated) FROM user_preferences up
+        WHERE up.id = weekly_progress.profile_id)`
+    : 'NULL';
+  const rowCreatedOn = await columnExists(ctx, 'weekly_progress', 'date_created') ? 'date(date_created)' : 'NULL';
+  await ctx.execute(`
+    UPDATE weekly_progress
+    SET week_start = COALESCE(${goalChangedOn}, ${rowCreatedOn}, date('now'))
+    WHERE id IN (SELECT MAX(id) FROM weekly_progress GROUP BY profile_id)
+  `);
+  await ctx.execute(`
+    UPDATE weekly_progress
+    SET week_start = COALESCE(${rowCreatedOn}, (
+      SELECT date(latest.week_start, '-' || (7 * (latest.weeks_passed - weekly_progress.weeks_passed)) || ' days')
+      FROM weekly_progress latest
+      WHERE latest.id = (SELECT MAX(id) FROM weekly_progress wp WHERE wp.profile_id IS weekly_progress.profile_id)
+        AND latest.weeks_passed > weekly_progress.weeks_passed
+    ))
+    WHERE week_start IS NULL
+  `);
+  await ctx.execute(`
+    UPDATE weekly_progress
+    SET week_start = date(week_start, '-' || ((CAST(strftime('%w', week_start) AS INTEGER) + 6) % 7) || ' days')
+    WHERE week_start IS NOT NULL
+  `);
+  await ctx.execute(`
+    DELETE FROM weekly_progress
+    WHERE week_start IS NULL
+      OR id NOT IN (SELECT MAX(id) FROM weekly_progress GROUP BY profile_id, week_start)
+  `);
+  await ctx.execute(
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_weekly_progress_week ON weekly_progress (profile_id, week_start)'
+  );
+}
+
+/**
+ * What the daily goal does once a plan's end date has passed, and the day
+ * the current plan started so it can be reviewed. Existing plans count from
+ * the day their profile was made.
+ */
+async function goalPlanMode(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'user_preferences', [
+    { name: 'goal_mode', type: 'TEXT', default: "'plan'" },
+    { name: 'goal_plan_start_date', type: 'TEXT' }
+  ]);
+
+  if (await columnExists(ctx, 'user_preferences', 'created_at')) {
+    await ctx.execute(`
+      UPDATE user_preferences SET goal_plan_start_date = date(COALESCE(created_at, CURRENT_TIMESTAMP))
+      WHERE goal_plan_start_date IS NULL
+    `);
+  }
+}
+
+/**
+ * Goals counted in pages a day or books a month instead of minutes.
+ * Existing profiles keep their minute goals.
+ */
+async function goalUnits(ctx: MigrationContext): Promise<void> {
+  await addMissingColumns(ctx, 'user_preferences', [
+    { name: 'goal_unit', type: 'TEXT', default: "'minutes'" },
+    { name: 'daily_page_goal', type: 'INTEGER' },
+    { name: 'monthly_book_goal', type: 'INTEGER' }
+  ]);
+}
+
+/**
+ * The book goal of each year, so a year's finishes are still compared with
+ * the goal it had after the yearly goal changes. Profiles start with the
+ * current year's goal; earlier goals were never stored.
+ */
+async function yearlyBookGoals(ctx: MigrationContext): Promise<void> {
+  await ctx.execute(`
+    CREATE TABLE IF NOT EXISTS yearly_book_goals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      profile_id INTEGER NOT NULL,
+      year INTEGER NOT NULL,
+      goal INTEGER NOT NULL,
+      UNIQUE (profile_id, year)
+    )
+  `);
+
+  if (await columnExists(ctx, 'user_preferences', 'yearly_book_goal')) {
+    await ctx.execute(`
+      INSERT OR IGNORE INTO yearly_book_goals (profile_id, year, goal)
+      SELECT id, CAST(strftime('%Y', 'now', 'localtime') AS INTEGER), yearly_book_goal
+      FROM user_preferences
+      WHERE yearly_book_goal > 0
+    `);
+  }
+}
+
+/**
+ * Ordered migration registry.
+ * Append new steps with the next version number - never edit or reorder
+ * a step that has already shipped.
+ */
+export const migrations: Migration[] = [
+  { version: 3, name: 'legacy_baseline_schema', up: legacyBaselineSchema },
+  { version: 4, name: 'reading_sessions_foreign_key', up: readingSessionsForeignKey },
+  { version: 5, name: 'reading_sessions_indexes', up: readingSessionsIndexes },
+  { version: 6, name: 'full_text_search', up: fullTextSearch },
+  { version: 7, name: 'trash_bin', up: trashBin },
+  { version: 8, name: 'change_log', up: changeLog },
+  { version: 9, name: 'reader_profiles', up: readerProfiles },
+  { version: 10, name: 'reading_timer', up: readingTimer },
+  { version: 11, name: 'session_page_ranges', up: sessionPageRanges },
+  { version: 12, name: 'reading_cycles', up: readingCycles },
+  { version: 13, name: 'cycle_stop_details', up: cycleStopDetails },
+  { version: 14, name: 'book_finish_plans', up: bookFinishPlans },
+  { version: 15, name: 'streak_days', up: streakDays },
+  { version: 16, name: 'goal_history', up: goalHistory },
+  { version: 17, name: 'goal_progression_strategy', up: goalProgressionStrategy },
+  { version: 18, name: 'weekly_progress_weeks', up: weeklyProgressWeeks },
+  { version: 19, name: 'goal_plan_mode', up: goalPlanMode },
+  { version: 20, name: 'goal_units', up: goalUnits },
+  { version: 21, name: 'yearly_book_goals', up: yearlyBookGoals },
+];
+
+/**
+ * Schema version the app expects after all migrations have run
+ */
+export const LATEST_DB_VERSION = migrations[migrations.length - 1].version;
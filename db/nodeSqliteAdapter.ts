@@ -0,0 +1,63 @@
+import Database from 'better-sqlite3';
+import { DatabaseHandle } from './databaseHandle';
+
+export type NodeDatabaseHandle = DatabaseHandle & {
+  close: () => void;
+};
+
+/**
+ * better-sqlite3 only binds numbers, strings, bigints, buffers and null,
+ * while expo-sqlite also accepts booleans and undefined
+ */
+function normalizeParams(params: any): any[] | Record<string, any> {
+  const normalize = (value: any) => {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+  };
+
+  if (params === undefined || params === null) return [];
+  if (Array.isArray(params)) return params.map(normalize);
+
+  // Named parameters: expo-sqlite keys keep their $/:/@ prefix, better-sqlite3 keys don't
+  const named: Record<string, any> = {};
+  Object.entries(params).forEach(([key, value]) => {
+    named[key.replace(/^[$:@]/, '')] = normalize(value);
+  });
+  return named;
+}
+
+/**
+ * Open a SQLite database under Node for scripts and tests.
+ * Defaults to a private in-memory database.
+ */
+export function openNodeDatabase(filename: string = ':memory:'): NodeDatabaseHandle {
+  const db = new Database(filename);
+
+  return {
+    async getAllAsync<T>(sql: string, params: any): Promise<T[]> {
+      const statement = db.prepare(sql);
+      if (!statement.reader) {
+        statement.run(normalizeParams(params));
+        return [];
+      }
+      return statement.all(normalizeParams(params)) as T[];
+    },
+
+    async getFirstAsync<T>(sql: string, params: any): Promise<T | null> {
+      const statement = db.prepare(sql);
+      if (!statement.reader) {
+        statement.run(normalizeParams(params));
+        return null;
+      }
+      return (statement.get(normalizeParams(params)) as T | undefined) ?? null;
+    },
+
+    async runAsync(sql: string, params: any) {
+      const result = db.prepare(sql).run(normalizeParams(params));
+      return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+    },
+
+    close: () => db.close(),
+  };
+}
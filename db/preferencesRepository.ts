@@ -0,0 +1,265 @@
+import { GoalMode, GoalProgressionStrategy, GoalUnit, UserPreferences } from '../types/database';
+import { getTodayDateString } from '../utils/dateUtils';
+import { execute, getActiveProfileId, queryFirst } from './db';
+import { GoalHistoryRepository } from './goalHistoryRepository';
+import { YearlyGoalRepository } from './yearlyGoalRepository';
+
+const DEFAULT_DAILY_GOAL_MINUTES = 30;
+const DEFAULT_DAILY_PAGE_GOAL = 20;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Reading goal fields written when the user sets up or edits their profile
+export type ReadingGoalPreferences = {
+  username: string;
+  yearly_book_goal: number;
+  preferred_genres: string;
+  weekly_reading_goal: number;
+  end_reading_rate_goal_minutes_per_day: number;
+  end_reading_rate_goal_date: string;
+  current_reading_rate_minutes_per_day: number;
+  weekly_reading_rate_increase_minutes: number;
+  weekly_reading_rate_increase_minutes_percentage: number;
+  goal_progression_strategy: GoalProgressionStrategy;
+};
+
+// A new plan toward a target; it starts from the goal reached so far
+export type GoalPlan = Pick<ReadingGoalPreferences,
+  | 'end_reading_rate_goal_minutes_per_day'
+  | 'end_reading_rate_goal_date'
+  | 'weekly_reading_rate_increase_minutes'
+  | 'weekly_reading_rate_increase_minutes_percentage'
+  | 'goal_progression_strategy'
+>;
+
+// The goal progress is measured against: minutes or pages a day, or books a month
+export type ReadingGoal = {
+  unit: GoalUnit;
+  amount: number;
+};
+
+/**
+ * Data access for the active profile's user_preferences row.
+ * Every profile is one row; its id is the profile id.
+ */
+export const PreferencesRepository = {
+  async get(): Promise<UserPreferences | null> {
+    return queryFirst<UserPreferences>('SELECT * FROM user_preferences WHERE id = ?', [getActiveProfileId()]);
+  },
+
+  /**
+   * Whether the active profile has completed the intro and has a preferences row
+   */
+  async exists(): Promise<boolean> {
+    const user = await queryFirst<{ id: number }>('SELECT id FROM user_preferences WHERE id = ?', [getActiveProfileId()]);
+    return !!user;
+  },
+
+  /**
+   * Today's reading goal in minutes, falling back to the default goal
+   */
+  async getDailyGoalMinutes(): Promise<number> {
+    const user = await queryFirst<{ current_reading_rate_minutes_per_day: number | null }>(
+      'SELECT current_reading_rate_minutes_per_day FROM user_preferences WHERE id = ?',
+      [getActiveProfileId()]
+    );
+    return user?.current_reading_rate_minutes_per_day || DEFAULT_DAILY_GOAL_MINUTES;
+  },
+
+  /**
+   * The goal in the unit the reader chose. A book goal without its own amount
+   * is the yearly book goal spread over the months.
+   */
+  async getReadingGoal(): Promise<ReadingGoal> {
+    const user = await queryFirst<Pick<UserPreferences,
+      'goal_unit' | 'daily_page_goal' | 'monthly_book_goal' | 'current_reading_rate_minutes_per_day' | 'yearly_book_goal'
+    >>(
+      `SELECT goal_unit, daily_page_goal, monthly_book_goal, current_reading_rate_minutes_per_day, yearly_book_goal
+       FROM user_preferences WHERE id = ?`,
+      [getActiveProfileId()]
+    );
+    switch (user?.goal_unit) {
+      case 'pages':
+        return { unit: 'pages', amount: user.daily_page_goal || DEFAULT_DAILY_PAGE_GOAL };
+      case 'books':
+        return { unit: 'books', amount: user.monthly_book_goal || Math.max(1, Math.ceil((user.yearly_book_goal || 0) / 12)) };
+      default:
+        return { unit: 'minutes', amount: user?.current_reading_rate_minutes_per_day || DEFAULT_DAILY_GOAL_MINUTES };
+    }
+  },
+
+  /**
+   * Switch the unit goals count in. Page and book goals store their amount;
+   * the minute goal keeps following the reading plan.
+   */
+  async setGoalUnit(unit: GoalUnit, amount?: number): Promise<void> {
+    const amountColumn = unit === 'pages' ? 'daily_page_goal' : unit === 'books' ? 'monthly_book_goal' : null;
+    if (amountColumn && amount) {
+      await execute(
+        `UPDATE user_preferences SET goal_unit = ?, ${amountColumn} = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [unit, amount, getActiveProfileId()]
+      );
+      return;
+    }
+    await execute(
+      'UPDATE user_preferences SET goal_unit = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [unit, getActiveProfileId()]
+    );
+  },
+
+  async getYearlyBookGoal(): Promise<number | null> {
+    const user = await queryFirst<{ yearly_book_goal: number }>(
+      'SELECT yearly_book_goal FROM user_preferences WHERE id = ?',
+      [getActiveProfileId()]
+    );
+    return user?.yearly_book_goal ?? null;
+  },
+
+  /**
+   * Days a deleted book or session stays in the trash before it is purged
+   */
+  async getTrashRetentionDays(): Promise<number> {
+    const user = await queryFirst<{ trash_retention_days: number | null }>(
+      'SELECT trash_retention_days FROM user_preferences WHERE id = ?',
+      [getActiveProfileId()]
+    );
+    return user?.trash_retention_days || DEFAULT_TRASH_RETENTION_DAYS;
+  },
+
+  async setTrashRetentionDays(days: number): Promise<void> {
+    await execute('UPDATE user_preferences SET trash_retention_days = ? WHERE id = ?', [days, getActiveProfileId()]);
+  },
+
+  /**
+   * Create a new profile from its preferences; the initial rate doubles as the current rate.
+   * The profile does not become active; see ProfileRepository.switchTo().
+   * @returns The new profile id
+   */
+  async create(preferences: ReadingGoalPreferences & { initial_reading_rate_minutes_per_day: number }): Promise<number> {
+    const result = await execute(
+      `INSERT INTO user_preferences (
+        username, yearly_book_goal, preferred_genres, updated_at,
+        weekly_reading_goal,
+        initial_reading_rate_minutes_per_day, end_reading_rate_goal_minutes_per_day,
+        end_reading_rate_goal_date, current_reading_rate_minutes_per_day,
+        current_reading_rate_last_updated, weekly_reading_rate_increase_minutes,
+        weekly_reading_rate_increase_minutes_percentage, goal_progression_strategy,
+        goal_plan_start_date
+      ) VALUES (?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?)`,
+      [
+        preferences.username,
+        preferences.yearly_book_goal,
+        preferences.preferred_genres,
+        preferences.weekly_reading_goal,
+        preferences.initial_reading_rate_minutes_per_day,
+        preferences.end_reading_rate_goal_minutes_per_day,
+        preferences.end_reading_rate_goal_date,
+        preferences.current_reading_rate_minutes_per_day,
+        preferences.weekly_reading_rate_increase_minutes,
+        preferences.weekly_reading_rate_increase_minutes_percentage,
+        preferences.goal_progression_strategy,
+        getTodayDateString()
+      ]
+    );
+    await GoalHistoryRepository.record(preferences.current_reading_rate_minutes_per_day, result.lastInsertRowId);
+    await YearlyGoalRepository.record(preferences.yearly_book_goal, result.lastInsertRowId);
+    return result.lastInsertRowId;
+  },
+
+  /**
+   * Save edited preferences; the goals start over as a new plan from today,
+   * starting at the daily goal just set
+   */
+  async update(preferences: ReadingGoalPreferences): Promise<void> {
+    await execute(
+      `UPDATE user_preferences SET
+        username = ?,
+        yearly_book_goal = ?,
+        preferred_genres = ?,
+        weekly_reading_goal = ?,
+        initial_reading_rate_minutes_per_day = ?,
+        end_reading_rate_goal_minutes_per_day = ?,
+        end_reading_rate_goal_date = ?,
+        current_reading_rate_minutes_per_day = ?,
+        weekly_reading_rate_increase_minutes = ?,
+        weekly_reading_rate_increase_minutes_percentage = ?,
+        goal_progression_strategy = ?,
+        goal_mode = 'plan',
+        goal_plan_start_date = ?,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+      [
+        preferences.username,
+        preferences.yearly_book_goal,
+        preferences.preferred_genres,
+        preferences.weekly_reading_goal,
+        preferences.current_reading_rate_minutes_per_day,
+        preferences.end_reading_rate_goal_minutes_per_day,
+        preferences.end_reading_rate_goal_date,
+        preferences.current_reading_rate_minutes_per_day,
+        preferences.weekly_reading_rate_increase_minutes,
+        preferences.weekly_reading_rate_increase_minutes_percentage,
+        preferences.goal_progression_strategy,
+        getTodayDateString(),
+        getActiveProfileId()
+      ]
+    );
+    await GoalHistoryRepository.record(preferences.current_reading_rate_minutes_per_day);
+    await YearlyGoalRepository.record(preferences.yearly_book_goal);
+  },
+
+  /**
+   * Start a new plan from the goal reached so far toward a new target
+   */
+  async startGoalPlan(plan: GoalPlan): Promise<void> {
+    await execute(
+      `UPDATE user_preferences SET
+        initial_reading_rate_minutes_per_day = current_reading_rate_minutes_per_day,
+        weekly_reading_goal = current_reading_rate_minutes_per_day * 7,
+        end_reading_rate_goal_minutes_per_day = ?,
+        end_reading_rate_goal_date = ?,
+        weekly_reading_rate_increase_minutes = ?,
+        weekly_reading_rate_increase_minutes_percentage = ?,
+        goal_progression_strategy = ?,
+        goal_mode = 'plan',
+        goal_plan_start_date = ?,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+      [
+        plan.end_reading_rate_goal_minutes_per_day,
+        plan.end_reading_rate_goal_date,
+        plan.weekly_reading_rate_increase_minutes,
+        plan.weekly_reading_rate_increase_minutes_percentage,
+        plan.goal_progression_strategy,
+        getTodayDateString(),
+        getActiveProfileId()
+      ]
+    );
+  },
+
+  /**
+   * Close a plan. Keeping leaves the goal where it is; in maintenance the goal
+   * reached becomes the target, eased off after missed weeks and climbing back after met ones.
+   */
+  async endGoalPlan(mode: Exclude<GoalMode, 'plan'>): Promise<void> {
+    const target = mode === 'maintenance' ? 'current_reading_rate_minutes_per_day' : 'end_reading_rate_goal_minutes_per_day';
+    await execute(
+      `UPDATE user_preferences SET
+        goal_mode = ?,
+        end_reading_rate_goal_minutes_per_day = ${target},
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+      [mode, getActiveProfileId()]
+    );
+  },
+
+  /**
+   * Store a new daily reading rate and remember when it changed, from today on
+   */
+  async setCurrentReadingRate(minutesPerDay: number): Promise<void> {
+    await execute(
+      'UPDATE user_preferences SET current_reading_rate_minutes_per_day = ?, current_reading_rate_last_updated = ? WHERE id = ?',
+      [minutesPerDay, new Date().toISOString(), getActiveProfileId()]
+    );
+    await GoalHistoryRepository.record(minutesPerDay);
+  },
+};
@@ -0,0 +1,91 @@
+import { notifyTablesChanged } from './changeEvents';
+import { execute, getActiveProfileId, queryAll, queryFirst, setActiveProfileId, withTransaction } from './db';
+
+// A reader sharing the device; one row of user_preferences
+export type Profile = {
+  id: number;
+  username: string;
+  book_count: number;
+};
+
+// Tables whose contents depend on which profile is active
+const PROFILE_TABLES = [
+  'enhanced_books',
+  'reading_sessions',
+  'reading_cycles',
+  'user_preferences',
+  'weekly_progress',
+  'streak_days',
+  'goal_history',
+  'yearly_book_goals',
+  'notification_preferences',
+  'trash',
+];
+
+/**
+ * Reader profiles on this device.
+ * Profiles are created by the intro (PreferencesRepository.create); the
+ * active one is remembered in app_settings and scopes every other repository.
+ */
+export const ProfileRepository = {
+  async list(): Promise<Profile[]> {
+    return queryAll<Profile>(`
+      SELECT up.id, up.username,
+        (SELECT COUNT(*) FROM enhanced_books eb WHERE eb.profile_id = up.id AND eb.archived_at IS NULL) as book_count
+      FROM user_preferences up
+      ORDER BY up.id
+    `);
+  },
+
+  async getActive(): Promise<Profile | null> {
+    const profiles = await ProfileRepository.list();
+    return profiles.find(profile => profile.id === getActiveProfileId()) ?? null;
+  },
+
+  /**
+   * Make a profile active, now and on the next launch.
+   * Live queries on profile data reload for the new profile.
+   */
+  async switchTo(profileId: number): Promise<void> {
+    const profile = await queryFirst('SELECT id FROM user_preferences WHERE id = ?', [profileId]);
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    await execute('INSERT OR REPLACE INTO app_settings (id, active_profile_id) VALUES (1, ?)', [profileId]);
+    setActiveProfileId(profileId);
+    notifyTablesChanged(PROFILE_TABLES);
+  },
+
+  /**
+   * Permanently delete a profile with its books, sessions, goals, trash and history.
+   * The active profile cannot be deleted; switch to another one first.
+   */
+  async delete(profileId: number): Promise<void> {
+    if (profileId === getActiveProfileId()) {
+      throw new Error('Cannot delete the active profile');
+    }
+
+    await withTransaction(async () => {
+      // Collected first: deleting the books writes change_log entries of its own
+      const bookIds = await queryAll<{ id: number }>(`
+        SELECT id FROM enhanced_books WHERE profile_id = ?
+        UNION SELECT book_id FROM trash WHERE profile_id = ?
+      `, [profileId, profileId]);
+
+      // reading_sessions rows are removed by ON DELETE CASCADE
+      await execute('DELETE FROM enhanced_books WHERE profile_id = ?', [profileId]);
+      await execute('DELETE FROM trash WHERE profile_id = ?', [profileId]);
+      await execute('DELETE FROM weekly_progress WHERE profile_id = ?', [profileId]);
+      await execute('DELETE FROM streak_days WHERE profile_id = ?', [profileId]);
+      await execute('DELETE FROM goal_history WHERE profile_id = ?', [profileId]);
+      await execute('DELETE FROM yearly_book_goals WHERE profile_id = ?', [profileId]);
+      await execute('DELETE FROM notification_preferences WHERE id = ?', [profileId]);
+      await execute('DELETE FROM user_preferences WHERE id = ?', [profileId]);
+      await execute(
+        'DELETE FROM change_log WHERE book_id IN (SELECT value FROM json_each(?))',
+        [JSON.stringify(bookIds.map(row => row.id))]
+      );
+    });
+  },
+};
@@ -0,0 +1,90 @@
+import { EnhancedBook, getActiveProfileId, queryAll } from './db';
+import { SessionWithBook } from './sessionRepository';
+
+// Markers wrapped around matched terms in snippets; control characters never appear in user text
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const SNIPPET_ELLIPSIS = '…';
+const SNIPPET_TOKENS = 12;
+
+export type BookSearchResult = EnhancedBook & {
+  snippet: string;
+};
+
+export type SessionSearchResult = SessionWithBook & {
+  snippet: string;
+};
+
+export type SearchResults = {
+  books: BookSearchResult[];
+  sessions: SessionSearchResult[];
+};
+
+/**
+ * Turn free text into an FTS5 query: every word must match, and the last
+ * characters typed may be the start of a longer word.
+ * Returns null when there is nothing to search for.
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, ''))
+    .filter(term => term.length > 0);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  // Quoting each term keeps FTS5 operators (AND, NEAR, -, :) literal
+  return terms.map(term => `"${term}"*`).join(' ');
+}
+
+/**
+ * Full-text search over the books_fts and session_notes_fts indexes, within the active profile
+ */
+export const SearchRepository = {
+  /**
+   * Library books whose title, author, description, subjects or notes match, best match first
+   */
+  async searchBooks(text: string, limit: number = 20): Promise<BookSearchResult[]> {
+    const query = toFtsQuery(text);
+    if (!query) return [];
+
+    return queryAll<BookSearchResult>(`
+      SELECT eb.*, snippet(books_fts, -1, ?, ?, ?, ?) as snippet
+      FROM books_fts
+      JOIN enhanced_books eb ON eb.id = books_fts.rowid
+      WHERE books_fts MATCH ? AND eb.profile_id = ? AND eb.archived_at IS NULL
+      ORDER BY books_fts.rank
+      LIMIT ?
+    `, [HIGHLIGHT_START, HIGHLIGHT_END, SNIPPET_ELLIPSIS, SNIPPET_TOKENS, query, getActiveProfileId(), limit]);
+  },
+
+  /**
+   * Reading sessions whose notes match, with their book's name and author, best match first
+   */
+  async searchSessions(text: string, limit: number = 20): Promise<SessionSearchResult[]> {
+    const query = toFtsQuery(text);
+    if (!query) return [];
+
+    return queryAll<SessionSearchResult>(`
+      SELECT rs.*, eb.name as book_name, eb.author as book_author,
+        snippet(session_notes_fts, 0, ?, ?, ?, ?) as snippet
+      FROM session_notes_fts
+      JOIN reading_sessions rs ON rs.id = session_notes_fts.rowid
+      JOIN enhanced_books eb ON eb.id = rs.book_id
+      WHERE session_notes_fts MATCH ? AND eb.profile_id = ?
+      ORDER BY session_notes_fts.rank
+      LIMIT ?
+    `, [HIGHLIGHT_START, HIGHLIGHT_END, SNIPPET_ELLIPSIS, SNIPPET_TOKENS, query, getActiveProfileId(), limit]);
+  },
+
+  async search(text: string, limit: number = 20): Promise<SearchResults> {
+    const [books, sessions] = await Promise.all([
+      SearchRepository.searchBooks(text, limit),
+      SearchRepository.searchSessions(text, limit),
+    ]);
+    return { books, sessions };
+  },
+};
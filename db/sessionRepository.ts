@@ -0,0 +1,440 @@
+import { getTodayDateString, localDateStringToDate } from '../utils/dateUtils';
+import type { GoalUnit } from '../types/database';
+import { countPages, mergePageRanges, PageRange } from '../utils/pageRanges';
+import type { SpeedSample } from '../utils/readingSpeed';
+import { BookRepository } from './bookRepository';
+import { CycleRepository } from './cycleRepository';
+import { execute, getActiveProfileId, queryAll, queryFirst, ReadingSession } from './db';
+import { WeeklyProgressRepository } from './weeklyProgressRepository';
+
+// Session joined with the book it belongs to
+export type SessionWithBook = ReadingSession & {
+  book_name: string;
+  book_author: string;
+};
+
+export type NewSession = {
+  bookId: number;
+  minutes: number;
+  pages?: number | null;
+  startPage?: number | null; // Pages read as a range; pages is then derived from it
+  endPage?: number | null;
+  date: string; // YYYY-MM-DD format
+  notes?: string | null;
+  startedAt?: string | null; // ISO timestamps of when the reading happened
+  endedAt?: string | null;
+};
+
+// Daily goal in force on rs.date: the latest goal change up to that day, or the
+// first goal for days before any change. The parameter is the fallback goal for
+// profiles without a goal history.
+const GOAL_ON_SESSION_DATE = `COALESCE(
+  (SELECT gh.minutes_per_day FROM goal_history gh
+   WHERE gh.profile_id = eb.profile_id AND gh.effective_date <= rs.date
+   ORDER BY gh.effective_date DESC LIMIT 1),
+  (SELECT gh.minutes_per_day FROM goal_history gh
+   WHERE gh.profile_id = eb.profile_id
+   ORDER BY gh.effective_date LIMIT 1),
+  ?
+)`;
+
+/**
+ * HAVING condition for a day that met the goal, and its parameters. Minute
+ * goals follow the goal history, page goals count only sessions that logged
+ * pages, and a monthly book goal has no daily amount, so any reading counts.
+ */
+function goalDayCondition(unit: GoalUnit, dailyGoal: number): { condition: string; params: number[] } {
+  switch (unit) {
+    case 'pages':
+      return { condition: 'SUM(COALESCE(rs.pages_read, 0)) >= ?', params: [dailyGoal] };
+    case 'books':
+      return { condition: 'SUM(rs.minutes_read) > 0', params: [] };
+    default:
+      return { condition: `SUM(rs.minutes_read) >= ${GOAL_ON_SESSION_DATE}`, params: [dailyGoal] };
+  }
+}
+
+// Consecutive days that each met the daily goal
+export type GoalStreak = {
+  start_date: string;
+  end_date: string;
+  days: number;
+};
+
+export type SessionUpdate = {
+  minutes: number;
+  pages?: number | null;
+  startPage?: number | null;
+  endPage?: number | null;
+  notes?: string | null;
+  date?: string; // YYYY-MM-DD; moves the session to another day
+};
+
+/**
+ * Pages read by a session: the size of its range when it has one, otherwise the count given
+ */
+function getPageRange(session: { pages?: number | null; startPage?: number | null; endPage?: number | null }): {
+  pages: number | null;
+  startPage: number | null;
+  endPage: number | null;
+} {
+  if (session.startPage != null && session.endPage != null) {
+    if (session.endPage < session.startPage) {
+      throw new Error('Page range ends before it starts');
+    }
+    return { pages: session.endPage - session.startPage + 1, startPage: session.startPage, endPage: session.endPage };
+  }
+  return { pages: session.pages || null, startPage: null, endPage: null };
+}
+
+function assertNotInFuture(date: string): void {
+  if (date > getTodayDateString()) {
+    throw new Error('Session date is in the future');
+  }
+}
+
+/**
+ * Move a timestamp by whole days, keeping its local time of day
+ */
+function shiftTimestampByDays(timestamp: string | null | undefined, days: number): string | null {
+  if (!timestamp || days === 0) {
+    return timestamp ?? null;
+  }
+  const shifted = new Date(timestamp);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted.toISOString();
+}
+
+/**
+ * Data access for reading_sessions.
+ * Sessions belong to a profile through their book, so date-based queries
+ * join enhanced_books to stay within the active profile. Every write that
+ * touches pages keeps the book's current_page in sync with the pages logged
+ * across its sessions.
+ */
+export const SessionRepository = {
+  async getById(sessionId: number): Promise<ReadingSession | null> {
+    return queryFirst<ReadingSession>('SELECT * FROM reading_sessions WHERE id = ?', [sessionId]);
+  },
+
+  /**
+   * Sessions between two dates (inclusive) with their book's name and author
+   */
+  async listWithBooksBetween(startDate: string, endDate: string): Promise<SessionWithBook[]> {
+    return queryAll<SessionWithBook>(`
+      SELECT rs.*, eb.name as book_name, eb.author as book_author
+      FROM reading_sessions rs
+      JOIN enhanced_books eb ON rs.book_id = eb.id
+      WHERE eb.profile_id = ? AND rs.date BETWEEN ? AND ?
+      ORDER BY rs.date, datetime(COALESCE(rs.started_at, rs.created_at))
+    `, [getActiveProfileId(), startDate, endDate]);
+  },
+
+  async listRecentWithBooks(limit: number): Promise<SessionWithBook[]> {
+    return queryAll<SessionWithBook>(`
+      SELECT rs.*, eb.name as book_name, eb.author as book_author
+      FROM reading_sessions rs
+      JOIN enhanced_books eb ON rs.book_id = eb.id
+      WHERE eb.profile_id = ?
+      ORDER BY rs.created_at DESC
+      LIMIT ?
+    `, [getActiveProfileId(), limit]);
+  },
+
+  /**
+   * Total minutes read per day between two dates (inclusive); days without sessions are omitted
+   */
+  async getDailyTotals(startDate: string, endDate: string): Promise<{date: string, total_minutes: number, total_pages: number}[]> {
+    return queryAll<{date: string, total_minutes: number, total_pages: number}>(`
+      SELECT rs.date, SUM(rs.minutes_read) as total_minutes, COALESCE(SUM(rs.pages_read), 0) as total_pages
+      FROM reading_sessions rs
+      JOIN enhanced_books eb ON rs.book_id = eb.id
+      WHERE eb.profile_id = ? AND rs.date BETWEEN ? AND ?
+      GROUP BY rs.date
+      ORDER BY rs.date
+    `, [getActiveProfileId(), startDate, endDate]);
+  },
+
+  /**
+   * Runs of consecutive days meeting the daily goal up to a date (inclusive), most recent first.
+   * Minute goals judge each day against the goal in force on it (dailyGoal
+   * without a goal history); see goalDayCondition for the other units. Rest days and days covered by a streak freeze keep a run
+   * going without counting toward its days. Days in a run share the same
+   * julianday(date) - row number, so the grouping happens in SQL and only
+   * one row per run is returned.
+   */
+  async listGoalStreaks(dailyGoal: number, endDate: string, limit?: number, unit: GoalUnit = 'minutes'): Promise<GoalStreak[]> {
+    const { condition, params } = goalDayCondition(unit, dailyGoal);
+    return queryAll<GoalStreak>(`
+      WITH goal_days AS (
+        SELECT rs.date
+        FROM reading_sessions rs
+        JOIN enhanced_books eb ON rs.book_id = eb.id
+        WHERE eb.profile_id = ? AND rs.date <= ?
+        GROUP BY rs.date
+        HAVING ${condition}
+      ),
+      kept_days AS (
+        SELECT date, 1 as is_goal_day FROM goal_days
+        UNION ALL
+        SELECT date, 0 FROM streak_days
+        WHERE profile_id = ? AND date <= ? AND date NOT IN (SELECT date FROM goal_days)
+      ),
+      runs AS (
+        SELECT date, is_goal_day, julianday(date) - ROW_NUMBER() OVER (ORDER BY date) as run_key
+        FROM kept_days
+      )
+      SELECT MIN(date) as start_date, MAX(date) as end_date, SUM(is_goal_day) as days
+      FROM runs
+      GROUP BY run_key
+      HAVING SUM(is_goal_day) > 0
+      ORDER BY end_date DESC
+      LIMIT ?
+    `, [getActiveProfileId(), endDate, ...params, getActiveProfileId(), endDate, limit ?? -1]);
+  },
+
+  /**
+   * Calendar weeks (Monday to Sunday) up to a date in which every day met the
+   * goal, as judged by listGoalStreaks()
+   */
+  async countFullGoalWeeks(dailyGoal: number, endDate: string, unit: GoalUnit = 'minutes'): Promise<number> {
+    const { condition, params } = goalDayCondition(unit, dailyGoal);
+    const result = await queryFirst<{ weeks: number }>(`
+      WITH goal_days AS (
+        SELECT rs.date
+        FROM reading_sessions rs
+        JOIN enhanced_books eb ON rs.book_id = eb.id
+        WHERE eb.profile_id = ? AND rs.date <= ?
+        GROUP BY rs.date
+        HAVING ${condition}
+      )
+      SELECT COUNT(*) as weeks FROM (
+        SELECT date(date, '-' || ((CAST(strftime('%w', date) AS INTEGER) + 6) % 7) || ' days') as week_start
+        FROM goal_days
+        GROUP BY week_start
+        HAVING COUNT(*) = 7
+      )
+    `, [getActiveProfileId(), endDate, ...params]);
+    return result?.weeks || 0;
+  },
+
+  async getTotalMinutesForDate(date: string): Promise<number> {
+    const result = await queryFirst<{total_minutes: number}>(
+      `SELECT COALESCE(SUM(rs.minutes_read), 0) as total_minutes
+       FROM reading_sessions rs
+       JOIN enhanced_books eb ON rs.book_id = eb.id
+       WHERE eb.profile_id = ? AND rs.date = ?`,
+      [getActiveProfileId(), date]
+    );
+    return result?.total_minutes || 0;
+  },
+
+  async getTotalPagesForDate(date: string): Promise<number> {
+    const result = await queryFirst<{total_pages: number}>(
+      `SELECT COALESCE(SUM(rs.pages_read), 0) as total_pages
+       FROM reading_sessions rs
+       JOIN enhanced_books eb ON rs.book_id = eb.id
+       WHERE eb.profile_id = ? AND rs.date = ?`,
+      [getActiveProfileId(), date]
+    );
+    return result?.total_pages || 0;
+  },
+
+  /**
+   * Sessions between two dates (inclusive) that did not log how many pages were read
+   */
+  async countWithoutPagesBetween(startDate: string, endDate: string): Promise<number> {
+    const result = await queryFirst<{count: number}>(
+      `SELECT COUNT(*) as count
+       FROM reading_sessions rs
+       JOIN enhanced_books eb ON rs.book_id = eb.id
+       WHERE eb.profile_id = ? AND rs.date BETWEEN ? AND ? AND COALESCE(rs.pages_read, 0) = 0`,
+      [getActiveProfileId(), startDate, endDate]
+    );
+    return result?.count || 0;
+  },
+
+  async getTotalMinutesForBook(bookId: number): Promise<number> {
+    const result = await queryFirst<{total_minutes: number}>(
+      'SELECT COALESCE(SUM(minutes_read), 0) as total_minutes FROM reading_sessions WHERE book_id = ?',
+      [bookId]
+    );
+    return result?.total_minutes || 0;
+  },
+
+  /**
+   * Minutes and pages read in a book between two dates (inclusive)
+   */
+  async getTotalsForBookBetween(bookId: number, startDate: string, endDate: string): Promise<{ minutes: number; pages: number }> {
+    const result = await queryFirst<{ minutes: number; pages: number }>(
+      `SELECT COALESCE(SUM(minutes_read), 0) as minutes, COALESCE(SUM(pages_read), 0) as pages
+       FROM reading_sessions WHERE book_id = ? AND date BETWEEN ? AND ?`,
+      [bookId, startDate, endDate]
+    );
+    return { minutes: result?.minutes || 0, pages: result?.pages || 0 };
+  },
+
+  /**
+   * Minutes and pages of sessions that recorded both, most recent first.
+   * Covers one book when bookId is given, otherwise every book of the active profile.
+   */
+  async listSpeedSamples(options: { bookId?: number; limit?: number } = {}): Promise<SpeedSample[]> {
+    const bookFilter = options.bookId !== undefined ? 'AND rs.book_id = ?' : '';
+    return queryAll<SpeedSample>(`
+      SELECT rs.minutes_read as minutes, rs.pages_read as pages
+      FROM reading_sessions rs
+      JOIN enhanced_books eb ON rs.book_id = eb.id
+      WHERE eb.profile_id = ? AND rs.minutes_read > 0 AND rs.pages_read > 0 ${bookFilter}
+      ORDER BY rs.date DESC, datetime(COALESCE(rs.started_at, rs.created_at)) DESC, rs.id DESC
+      LIMIT ?
+    `, [
+      getActiveProfileId(),
+      ...(options.bookId !== undefined ? [options.bookId] : []),
+      options.limit ?? -1,
+    ]);
+  },
+
+  /**
+   * Speed samples of several books in one query, most recent first within each book
+   */
+  async listSpeedSamplesForBooks(bookIds: number[]): Promise<(SpeedSample & { book_id: number })[]> {
+    if (bookIds.length === 0) return [];
+    return queryAll<SpeedSample & { book_id: number }>(`
+      SELECT rs.book_id, rs.minutes_read as minutes, rs.pages_read as pages
+      FROM reading_sessions rs
+      JOIN enhanced_books eb ON rs.book_id = eb.id
+      WHERE eb.profile_id = ? AND rs.minutes_read > 0 AND rs.pages_read > 0
+        AND rs.book_id IN (SELECT value FROM json_each(?))
+      ORDER BY rs.book_id, rs.date DESC, datetime(COALESCE(rs.started_at, rs.created_at)) DESC, rs.id DESC
+    `, [getActiveProfileId(), JSON.stringify(bookIds)]);
+  },
+
+  /**
+   * Pages of a book read across the sessions of its current reading cycle,
+   * merged so rereads count once.
+   * Sessions logged as a plain page count (without a range) are taken to
+   * have read the book from page 1 onwards, one after the other.
+   */
+  async getPageRangesForBook(bookId: number, options: { excludeSessionId?: number } = {}): Promise<PageRange[]> {
+    const sessions = await queryAll<{ pages_read: number | null; start_page: number | null; end_page: number | null }>(`
+      SELECT pages_read, start_page, end_page FROM reading_sessions
+      WHERE book_id = ? AND id != ?
+        AND cycle_id IS (SELECT MAX(id) FROM reading_cycles WHERE book_id = ?)
+    `, [bookId, options.excludeSessionId ?? -1, bookId]);
+
+    const ranges: PageRange[] = [];
+    let countedPages = 0;
+    for (const session of sessions) {
+      if (session.start_page != null && session.end_page != null) {
+        ranges.push({ start: session.start_page, end: session.end_page });
+      } else {
+        countedPages += session.pages_read ?? 0;
+      }
+    }
+    if (countedPages > 0) {
+      ranges.push({ start: 1, end: countedPages });
+    }
+    return mergePageRanges(ranges);
+  },
+
+  /**
+   * Distinct pages read across the book's sessions
+   */
+  async getTotalPagesForBook(bookId: number): Promise<number> {
+    return countPages(await SessionRepository.getPageRangesForBook(bookId));
+  },
+
+  async getFirstSessionDate(bookId: number): Promise<string | null> {
+    const result = await queryFirst<{ date: string }>(
+      'SELECT date FROM reading_sessions WHERE book_id = ? ORDER BY date ASC LIMIT 1',
+      [bookId]
+    );
+    return result?.date ?? null;
+  },
+
+  /**
+   * Set the book's current_page to the furthest page reached across its sessions.
+   * Without any pages logged in the current read-through it goes back to its start, page 0.
+   */
+  async syncBookCurrentPage(bookId: number): Promise<void> {
+    const ranges = await SessionRepository.getPageRangesForBook(bookId);
+    const furthestPage = ranges.length > 0 ? ranges[ranges.length - 1].end : 0;
+    await BookRepository.setCurrentPage(bookId, furthestPage);
+  },
+
+  /**
+   * Log a reading session, optionally finishing the book in the same step
+   */
+  async log(session: NewSession, options: { finishBook?: boolean } = {}): Promise<number> {
+    assertNotInFuture(session.date);
+    const { pages, startPage, endPage } = getPageRange(session);
+    const cycle = await CycleRepository.getCurrent(session.bookId);
+    const result = await execute(
+      `INSERT INTO reading_sessions (
+         book_id, cycle_id, minutes_read, pages_read, start_page, end_page, date, notes, started_at, ended_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.bookId, cycle?.id ?? null, session.minutes, pages, startPage, endPage, session.date,
+        session.notes || null, session.startedAt ?? null, session.endedAt ?? null
+      ]
+    );
+
+    if (pages) {
+      await SessionRepository.syncBookCurrentPage(session.bookId);
+    }
+    if (options.finishBook) {
+      await BookRepository.finish(session.bookId);
+    }
+    // A backdated session adds to a week that may already be recorded
+    await WeeklyProgressRepository.refreshAchieved([session.date]);
+
+    return result.lastInsertRowId;
+  },
+
+  async update(sessionId: number, update: SessionUpdate): Promise<void> {
+    const session = await SessionRepository.getById(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const date = update.date ?? session.date;
+    assertNotInFuture(date);
+    const { pages, startPage, endPage } = getPageRange(update);
+    // A session moved to another day keeps its time of day
+    const daysMoved = Math.round(
+      (localDateStringToDate(date).getTime() - localDateStringToDate(session.date).getTime()) / (24 * 60 * 60 * 1000)
+    );
+
+    await execute(
+      `UPDATE reading_sessions
+       SET minutes_read = ?, notes = ?, pages_read = ?, start_page = ?, end_page = ?,
+         date = ?, started_at = ?, ended_at = ?
+       WHERE id = ?`,
+      [
+        update.minutes, update.notes || null, pages, startPage, endPage, date,
+        shiftTimestampByDays(session.started_at, daysMoved), shiftTimestampByDays(session.ended_at, daysMoved),
+        sessionId
+      ]
+    );
+
+    if (pages || session.pages_read) {
+      await SessionRepository.syncBookCurrentPage(session.book_id);
+    }
+    // Both the week it left and the week it moved to
+    await WeeklyProgressRepository.refreshAchieved([session.date, date]);
+  },
+
+  async delete(sessionId: number): Promise<void> {
+    const session = await SessionRepository.getById(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    await execute('DELETE FROM reading_sessions WHERE id = ?', [sessionId]);
+
+    if (session.pages_read) {
+      await SessionRepository.syncBookCurrentPage(session.book_id);
+    }
+    await WeeklyProgressRepository.refreshAchieved([session.date]);
+  },
+};
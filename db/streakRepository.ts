@@ -0,0 +1,68 @@
+import { execute, getActiveProfileId, queryAll, queryFirst } from './db';
+
+// Why a day keeps the streak alive without meeting the goal
+export type StreakDayKind = 'freeze' | 'rest';
+
+// A day covered by a spent streak freeze, or a rest day declared ahead of time
+export type StreakDay = {
+  id: number;
+  profile_id: number;
+  date: string; // YYYY-MM-DD
+  kind: StreakDayKind;
+  created_at?: string;
+};
+
+/**
+ * Streak freezes and rest days of the active profile
+ */
+export const StreakRepository = {
+  async listBetween(startDate: string, endDate: string): Promise<StreakDay[]> {
+    return queryAll<StreakDay>(
+      'SELECT * FROM streak_days WHERE profile_id = ? AND date BETWEEN ? AND ? ORDER BY date',
+      [getActiveProfileId(), startDate, endDate]
+    );
+  },
+
+  async countFreezesUsed(): Promise<number> {
+    const result = await queryFirst<{ count: number }>(
+      "SELECT COUNT(*) as count FROM streak_days WHERE profile_id = ? AND kind = 'freeze'",
+      [getActiveProfileId()]
+    );
+    return result?.count || 0;
+  },
+
+  /**
+   * Spend streak freezes on missed days. Days already covered are left alone.
+   */
+  async spendFreezes(dates: string[]): Promise<void> {
+    for (const date of dates) {
+      await execute(
+        "INSERT OR IGNORE INTO streak_days (profile_id, date, kind) VALUES (?, ?, 'freeze')",
+        [getActiveProfileId(), date]
+      );
+    }
+  },
+
+  /**
+   * Declare a day off. Only today or later can be planned as a rest day.
+   */
+  async addRestDay(date: string, today: string): Promise<void> {
+    if (date < today) {
+      throw new Error('Rest days must be planned ahead');
+    }
+    await execute(
+      "INSERT OR IGNORE INTO streak_days (profile_id, date, kind) VALUES (?, ?, 'rest')",
+      [getActiveProfileId(), date]
+    );
+  },
+
+  /**
+   * Take back a planned rest day; freezes already spent stay spent
+   */
+  async removeRestDay(date: string): Promise<void> {
+    await execute(
+      "DELETE FROM streak_days WHERE profile_id = ? AND date = ? AND kind = 'rest'",
+      [getActiveProfileId(), date]
+    );
+  },
+};
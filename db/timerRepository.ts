@@ -0,0 +1,101 @@
+import { execute, getActiveProfileId, queryFirst } from './db';
+import { NewSession, SessionRepository } from './sessionRepository';
+
+// The running (or paused) reading timer of a profile
+export type ReadingTimer = {
+  profile_id: number;
+  book_id: number;
+  started_at: string; // ISO timestamp
+  paused_at: string | null; // Set while paused
+  paused_seconds: number; // Time spent paused before the current run
+};
+
+export type ReadingTimerWithBook = ReadingTimer & {
+  book_name: string;
+};
+
+// What the reader fills in when the timer is turned into a session
+export type TimerSessionDetails = Omit<NewSession, 'bookId' | 'startedAt' | 'endedAt'>;
+
+/**
+ * Seconds spent reading so far: wall time since the start, minus time paused
+ */
+export function getElapsedSeconds(timer: ReadingTimer, now: Date = new Date()): number {
+  const end = timer.paused_at ? new Date(timer.paused_at) : now;
+  const total = Math.floor((end.getTime() - new Date(timer.started_at).getTime()) / 1000);
+  return Math.max(0, total - timer.paused_seconds);
+}
+
+/**
+ * The live reading timer of the active profile.
+ * Only timestamps are stored, so the elapsed time stays correct however long
+ * the app was closed in between.
+ */
+export const TimerRepository = {
+  async get(): Promise<ReadingTimerWithBook | null> {
+    return queryFirst<ReadingTimerWithBook>(`
+      SELECT rt.*, eb.name as book_name
+      FROM reading_timer rt
+      JOIN enhanced_books eb ON rt.book_id = eb.id
+      WHERE rt.profile_id = ?
+    `, [getActiveProfileId()]);
+  },
+
+  async start(bookId: number, now: Date = new Date()): Promise<void> {
+    if (await TimerRepository.get()) {
+      throw new Error('Timer already running');
+    }
+    await execute(
+      'INSERT INTO reading_timer (profile_id, book_id, started_at) VALUES (?, ?, ?)',
+      [getActiveProfileId(), bookId, now.toISOString()]
+    );
+  },
+
+  async pause(now: Date = new Date()): Promise<void> {
+    await execute(
+      'UPDATE reading_timer SET paused_at = ? WHERE profile_id = ? AND paused_at IS NULL',
+      [now.toISOString(), getActiveProfileId()]
+    );
+  },
+
+  async resume(now: Date = new Date()): Promise<void> {
+    const timer = await TimerRepository.get();
+    if (!timer?.paused_at) {
+      return;
+    }
+    const pausedFor = Math.floor((now.getTime() - new Date(timer.paused_at).getTime()) / 1000);
+    await execute(
+      'UPDATE reading_timer SET paused_at = NULL, paused_seconds = ? WHERE profile_id = ?',
+      [timer.paused_seconds + Math.max(0, pausedFor), timer.profile_id]
+    );
+  },
+
+  async discard(): Promise<void> {
+    await execute('DELETE FROM reading_timer WHERE profile_id = ?', [getActiveProfileId()]);
+  },
+
+  /**
+   * Log the timed reading as a session and clear the timer.
+   * The session runs from the timer's start to the moment it was paused
+   * (stopping pauses it), or to now if it is still running.
+   */
+  async complete(
+    details: TimerSessionDetails,
+    options: { finishBook?: boolean } = {},
+    now: Date = new Date()
+  ): Promise<number> {
+    const timer = await TimerRepository.get();
+    if (!timer) {
+      throw new Error('No timer running');
+    }
+
+    const sessionId = await SessionRepository.log({
+      ...details,
+      bookId: timer.book_id,
+      startedAt: timer.started_at,
+      endedAt: timer.paused_at ?? now.toISOString(),
+    }, options);
+    await TimerRepository.discard();
+    return sessionId;
+  },
+};
@@ -0,0 +1,177 @@
+import { BookRepository } from './bookRepository';
+import { ReadingCycle } from './cycleRepository';
+import { EnhancedBook, execute, getActiveProfileId, insertRow, queryAll, queryFirst, ReadingSession, withTransaction } from './db';
+import { SessionRepository } from './sessionRepository';
+import { WeeklyProgressRepository } from './weeklyProgressRepository';
+
+export type TrashItemType = 'book' | 'session';
+
+type TrashRow = {
+  id: number;
+  item_type: TrashItemType;
+  item_id: number;
+  book_id: number;
+  label: string;
+  payload: string;
+  deleted_at: string;
+  profile_id: number;
+};
+
+// What a trash entry holds: a book with the sessions (and read-throughs) deleted along with it, or a single session
+type TrashPayload = {
+  book?: EnhancedBook;
+  cycles?: ReadingCycle[];
+  sessions: ReadingSession[];
+};
+
+export type TrashItem = Omit<TrashRow, 'payload'> & TrashPayload;
+
+function toTrashItem({ payload, ...row }: TrashRow): TrashItem {
+  return { ...row, ...(JSON.parse(payload) as TrashPayload) };
+}
+
+/**
+ * Data access for the trash bin.
+ * Trashing moves rows out of enhanced_books / reading_sessions into trash,
+ * so statistics never see them; restoring puts them back with their
+ * original ids (AUTOINCREMENT never hands those ids out again).
+ * Each profile has its own trash; listing and purging cover the active profile.
+ */
+export const TrashRepository = {
+  async list(): Promise<TrashItem[]> {
+    const rows = await queryAll<TrashRow>(
+      'SELECT * FROM trash WHERE profile_id = ? ORDER BY deleted_at DESC, id DESC',
+      [getActiveProfileId()]
+    );
+    return rows.map(toTrashItem);
+  },
+
+  async count(): Promise<number> {
+    const result = await queryFirst<{ count: number }>(
+      'SELECT COUNT(*) as count FROM trash WHERE profile_id = ?',
+      [getActiveProfileId()]
+    );
+    return result?.count || 0;
+  },
+
+  /**
+   * Move a book and all of its reading sessions to the trash
+   * @returns The trash entry id, for undo
+   */
+  async trashBook(bookId: number): Promise<number> {
+    return withTransaction(async () => {
+      const book = await BookRepository.getById(bookId);
+      if (!book) {
+        throw new Error('Book not found');
+      }
+      const sessions = await queryAll<ReadingSession>(
+        'SELECT * FROM reading_sessions WHERE book_id = ? ORDER BY id',
+        [bookId]
+      );
+
+      const cycles = await queryAll<ReadingCycle>(
+        'SELECT * FROM reading_cycles WHERE book_id = ? ORDER BY id',
+        [bookId]
+      );
+
+      const payload: TrashPayload = { book, cycles, sessions };
+      const result = await execute(
+        `INSERT INTO trash (item_type, item_id, book_id, label, payload, profile_id) VALUES ('book', ?, ?, ?, ?, ?)`,
+        [bookId, bookId, book.name, JSON.stringify(payload), book.profile_id ?? getActiveProfileId()]
+      );
+
+      // reading_sessions and reading_cycles rows are removed by ON DELETE CASCADE
+      await BookRepository.delete(bookId);
+      await WeeklyProgressRepository.refreshAchieved(sessions.map(session => session.date));
+      return result.lastInsertRowId;
+    });
+  },
+
+  /**
+   * Move a single reading session to the trash
+   * @returns The trash entry id, for undo
+   */
+  async trashSession(sessionId: number): Promise<number> {
+    return withTransaction(async () => {
+      const session = await SessionRepository.getById(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      const book = await BookRepository.getById(session.book_id);
+
+      const payload: TrashPayload = { sessions: [session] };
+      const result = await execute(
+        `INSERT INTO trash (item_type, item_id, book_id, label, payload, profile_id) VALUES ('session', ?, ?, ?, ?, ?)`,
+        [sessionId, session.book_id, book?.name ?? '', JSON.stringify(payload), book?.profile_id ?? getActiveProfileId()]
+      );
+
+      // The repository re-syncs the book's current page from the remaining sessions
+      await SessionRepository.delete(sessionId);
+      return result.lastInsertRowId;
+    });
+  },
+
+  /**
+   * Put a trashed book (with its sessions) or session back.
+   * A session can only come back while its book is in the library.
+   */
+  async restore(trashId: number): Promise<void> {
+    await withTransaction(async () => {
+      const row = await queryFirst<TrashRow>('SELECT * FROM trash WHERE id = ?', [trashId]);
+      if (!row) {
+        throw new Error('Trash item not found');
+      }
+      const item = toTrashItem(row);
+
+      if (item.book) {
+        await insertRow('enhanced_books', item.book);
+      } else if (!(await BookRepository.getById(item.book_id))) {
+        throw new Error('Book not found');
+      }
+
+      for (const cycle of item.cycles ?? []) {
+        await insertRow('reading_cycles', cycle);
+      }
+      for (const session of item.sessions) {
+        await insertRow('reading_sessions', session);
+      }
+      if (item.sessions.some(session => session.pages_read)) {
+        await SessionRepository.syncBookCurrentPage(item.book_id);
+      }
+      await WeeklyProgressRepository.refreshAchieved(item.sessions.map(session => session.date));
+
+      await execute('DELETE FROM trash WHERE id = ?', [trashId]);
+    });
+  },
+
+  /**
+   * Permanently delete a trash entry.
+   * Purging a book also purges its separately trashed sessions, which could never be restored.
+   */
+  async purge(trashId: number): Promise<void> {
+    const row = await queryFirst<TrashRow>('SELECT * FROM trash WHERE id = ?', [trashId]);
+    if (!row) return;
+
+    if (row.item_type === 'book') {
+      await execute('DELETE FROM trash WHERE id = ? OR (item_type = ? AND book_id = ?)', [trashId, 'session', row.book_id]);
+    } else {
+      await execute('DELETE FROM trash WHERE id = ?', [trashId]);
+    }
+  },
+
+  async empty(): Promise<void> {
+    await execute('DELETE FROM trash WHERE profile_id = ?', [getActiveProfileId()]);
+  },
+
+  /**
+   * Permanently delete entries trashed more than the given number of days ago
+   * @returns Number of entries purged
+   */
+  async purgeOlderThan(days: number): Promise<number> {
+    const result = await execute(
+      "DELETE FROM trash WHERE profile_id = ? AND deleted_at < datetime('now', ?)",
+      [getActiveProfileId(), `-${days} days`]
+    );
+    return result.changes;
+  },
+};
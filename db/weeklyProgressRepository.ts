@@ -0,0 +1,75 @@
+import { getWeekStart } from '../utils/dateUtils';
+import { execute, getActiveProfileId, queryAll, queryFirst } from './db';
+
+// A calendar week's reading target and the minutes actually read in it
+export type WeeklyProgress = {
+  id: number;
+  weeks_passed: number; // Weeks since the first recorded week
+  week_start?: string; // Monday, YYYY-MM-DD
+  target_reading_minutes: number;
+  achived_reading_minutes: number;
+  date_created?: string;
+  profile_id?: number;
+};
+
+/**
+ * Week-by-week reading record of the active profile
+ */
+export const WeeklyProgressRepository = {
+  async list(): Promise<WeeklyProgress[]> {
+    return queryAll<WeeklyProgress>(
+      'SELECT * FROM weekly_progress WHERE profile_id = ? ORDER BY week_start',
+      [getActiveProfileId()]
+    );
+  },
+
+  async listBetween(startWeek: string, endWeek: string): Promise<WeeklyProgress[]> {
+    return queryAll<WeeklyProgress>(
+      'SELECT * FROM weekly_progress WHERE profile_id = ? AND week_start BETWEEN ? AND ? ORDER BY week_start',
+      [getActiveProfileId(), startWeek, endWeek]
+    );
+  },
+
+  async getLatest(): Promise<WeeklyProgress | null> {
+    return queryFirst<WeeklyProgress>(
+      'SELECT * FROM weekly_progress WHERE profile_id = ? ORDER BY week_start DESC LIMIT 1',
+      [getActiveProfileId()]
+    );
+  },
+
+  /**
+   * Record a week, replacing its target and minutes if it is already there
+   */
+  async saveWeek(week: Pick<WeeklyProgress, 'week_start' | 'weeks_passed' | 'target_reading_minutes' | 'achived_reading_minutes'>): Promise<void> {
+    await execute(`
+      INSERT INTO weekly_progress (profile_id, week_start, weeks_passed, target_reading_minutes, achived_reading_minutes)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (profile_id, week_start) DO UPDATE SET
+        weeks_passed = excluded.weeks_passed,
+        target_reading_minutes = excluded.target_reading_minutes,
+        achived_reading_minutes = excluded.achived_reading_minutes
+    `, [getActiveProfileId(), week.week_start, week.weeks_passed, week.target_reading_minutes, week.achived_reading_minutes]);
+  },
+
+  /**
+   * Recount the minutes read in the recorded weeks holding any of the dates.
+   * Days before the profile's first goal are left out, as when the week was recorded.
+   */
+  async refreshAchieved(dates: string[]): Promise<void> {
+    const weekStarts = [...new Set(dates.map(getWeekStart))];
+    await execute(`
+      UPDATE weekly_progress SET achived_reading_minutes = (
+        SELECT COALESCE(SUM(rs.minutes_read), 0)
+        FROM reading_sessions rs
+        JOIN enhanced_books eb ON rs.book_id = eb.id
+        WHERE eb.profile_id = weekly_progress.profile_id
+          AND rs.date BETWEEN weekly_progress.week_start AND date(weekly_progress.week_start, '+6 days')
+          AND rs.date >= COALESCE(
+            (SELECT MIN(gh.effective_date) FROM goal_history gh WHERE gh.profile_id = weekly_progress.profile_id),
+            weekly_progress.week_start
+          )
+      )
+      WHERE profile_id = ? AND week_start IN (SELECT value FROM json_each(?))
+    `, [getActiveProfileId(), JSON.stringify(weekStarts)]);
+  },
+};
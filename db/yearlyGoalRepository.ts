@@ -0,0 +1,35 @@
+import { execute, getActiveProfileId, queryAll } from './db';
+
+// The book goal a profile had for a calendar year
+export type YearlyGoal = {
+  id: number;
+  profile_id: number;
+  year: number;
+  goal: number;
+};
+
+/**
+ * Yearly book goals over time, so past years are judged against the goal they had
+ */
+export const YearlyGoalRepository = {
+  async list(): Promise<YearlyGoal[]> {
+    return queryAll<YearlyGoal>(
+      'SELECT * FROM yearly_book_goals WHERE profile_id = ? ORDER BY year',
+      [getActiveProfileId()]
+    );
+  },
+
+  /**
+   * Set a year's goal, replacing the one it had
+   */
+  async record(
+    goal: number,
+    profileId: number = getActiveProfileId(),
+    year: number = new Date().getFullYear()
+  ): Promise<void> {
+    await execute(
+      'INSERT OR REPLACE INTO yearly_book_goals (profile_id, year, goal) VALUES (?, ?, ?)',
+      [profileId, year, goal]
+    );
+  },
+};
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { subscribeToTables } from '../db/changeEvents';
+import { queryAll } from '../db/db';
+
+export type LiveResult<T> = {
+  data: T | undefined;
+  loading: boolean;
+  error: unknown;
+  refresh: () => Promise<void>;
+};
+
+/**
+ * Call onChange whenever a write touches one of the tables
+ */
+export function useTableChanges(tables: string[], onChange: () => void): void {
+  const onChangeRef = useRef(onChange);
+  const tablesKey = tables.join(',');
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    return subscribeToTables(tablesKey.split(','), () => onChangeRef.current());
+  }, [tablesKey]);
+}
+
+/**
+ * Run a loader now and again whenever a write touches one of the tables.
+ * The loader should be memoized (useCallback); changing it reloads the data.
+ */
+export function useLiveData<T>(load: () => Promise<T>, tables: string[]): LiveResult<T> {
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const requestRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    // Only the latest request may update state
+    const request = ++requestRef.current;
+    try {
+      const result = await load();
+      if (request === requestRef.current) {
+        setData(result);
+        setError(null);
+      }
+    } catch (e) {
+      console.error('❌ Live query failed:', e);
+      if (request === requestRef.current) {
+        setError(e);
+      }
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [load]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useTableChanges(tables, refresh);
+
+  return { data, loading, error, refresh };
+}
+
+/**
+ * Rows of a SQL query, kept up to date as the listed tables change
+ */
+export function useLiveQuery<T = any>(sql: string, params: any[], tables: string[]): LiveResult<T[]> {
+  // Compare parameters by value so inline arrays don't reload on every render
+  const paramsKey = JSON.stringify(params);
+  const load = useCallback(() => queryAll<T>(sql, JSON.parse(paramsKey)), [sql, paramsKey]);
+
+  return useLiveData(load, tables);
+}
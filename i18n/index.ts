@@ -13,8 +13,8 @@ const resources = {
         booksRead: 'Books Read',
         reading: 'Reading',
         wantToRead: 'Want to Read',
-        goalAchieved: '🎉 Goal achieved! Amazing work!',
-        goalProgress: '{{remaining}} more books to reach your yearly goal of {{goal}}',
+        goalPlanEnded: '🏁 Your reading plan has ended',
+        goalPlanEndedAction: 'See how it went and choose what comes next →',
         recentBooks: '📖 Recent Books ({{count}})',
         seeAll: 'See All →',
         noBooksYet: 'No books yet',
@@ -23,12 +23,56 @@ const resources = {
       },
 
       components: {
+        profileSwitcher: {
+          title: 'Readers',
+          subtitle: 'Each reader has their own books, sessions, goals and reminders.',
+          books: '{{count}} books',
+          active: 'Active',
+          addReader: 'Add Reader',
+          deleteConfirmTitle: 'Delete Reader?',
+          deleteConfirmMessage: '"{{name}}" and all of their books, reading sessions and goals will be deleted permanently.',
+          delete: 'Delete',
+          cancel: 'Cancel',
+          errorTitle: 'Error',
+          switchFailed: 'Failed to switch reader.',
+          deleteFailed: 'Failed to delete this reader.',
+        },
+        undoToast: {
+          undo: 'Undo',
+        },
+        trash: {
+          title: 'Trash',
+          retentionTitle: 'Keep deleted items for',
+          retentionSubtitle: 'Items older than this are deleted permanently.',
+          days: '{{count}} days',
+          items: 'Deleted items ({{count}})',
+          empty: 'Trash is empty',
+          emptyTrash: 'Empty Trash',
+          emptyConfirmTitle: 'Empty Trash?',
+          emptyConfirmMessage: 'Permanently delete all {{count}} items? This cannot be undone.',
+          bookDetails: '{{author}} · {{count}} sessions',
+          sessionDetails: '{{date}} · {{minutes}} min',
+          deletedAt: 'Deleted {{date}}',
+          deleteForever: 'Delete Forever',
+          purgeConfirmTitle: 'Delete Forever?',
+          purgeBookConfirmMessage: '"{{title}}" and its reading sessions will be deleted permanently.',
+          purgeSessionConfirmMessage: 'This reading session will be deleted permanently.',
+          cancel: 'Cancel',
+          errorTitle: 'Error',
+          restoreFailed: 'Failed to restore this item.',
+          restoreBookFirst: 'Restore "{{title}}" first; this session belongs to it.',
+        },
         bookCard: {
           by: 'by',
           pages: 'pages',
           currentlyReading: 'Currently Reading',
           read: 'Read',
           wantToRead: 'Want to Read',
+          paused: 'Paused',
+          dnf: 'Did Not Finish',
+          stoppedAt: 'Stopped at page {{page}}',
+          timeLeft: '{{time}} left',
+          finishBy: 'done by {{date}}',
           unknown: 'Unknown',
           complete: 'complete',
           finished: '✅ Finished:',
@@ -48,6 +92,15 @@ const resources = {
           everyMinute: '📚 Every minute counts! You got this!',
           readyToStart: '☕ Ready to start your reading session?',
           leftToReach: '{{time}} left to reach your daily goal',
+          monthTitle: "📅 This Month's Reading Progress",
+          thisMonth: 'This Month',
+          leftToReachMonthly: '{{time}} left to reach your monthly goal',
+          pages_one: '{{count}} page',
+          pages_other: '{{count}} pages',
+          books_one: '{{count}} book',
+          books_other: '{{count}} books',
+          missingPages_one: "⚠️ {{count}} session today didn't log pages, so it doesn't count toward your page goal",
+          missingPages_other: "⚠️ {{count}} sessions today didn't log pages, so they don't count toward your page goal",
         },
 
         readingTimeLogger: {
@@ -93,10 +146,53 @@ const resources = {
           loggedMinutes: 'Logged {{minutes}} minutes of reading for "{{bookName}}"',
           error: 'Error',
           failedToLog: 'Failed to log reading time. Please try again.',
+          startTimer: '⏱ Start a Timer Instead',
+          startedAt: 'When Did You Start?',
+          startedAtDescription: 'Used for your time-of-day reading stats',
+          startedAtDefault: 'Just finished reading',
+          startTimeInFuture: 'The start time cannot be in the future',
+          whichDay: 'Which Day?',
+          dateInFuture: 'You cannot log reading for a future date',
+          timerAlreadyRunning: 'A reading timer is already running. Stop it before starting a new one.',
+          failedToStartTimer: 'Failed to start the reading timer. Please try again.',
+        },
+
+        sessionDatePicker: {
+          today: 'Today',
+          yesterday: 'Yesterday',
+        },
+
+        pageRangeInput: {
+          from: 'From page',
+          to: 'To page',
+          preview: '📊 Pages {{start}}–{{end}} of "{{bookName}}" ({{pages}} pages)',
+          backwardWarning: '⚠️ The last page comes before the first page',
+          beyondBookWarning: '⚠️ "{{bookName}}" only has {{total}} pages',
+          overlapWarning: '↺ Already read: pages {{pages}}. Rereads are not counted twice toward progress.',
+          overlapTitle: 'Pages Already Read',
+          overlapMessage: 'You already logged pages {{pages}} of this book. Log this session anyway?',
+          logAnyway: 'Log Anyway',
+          cancel: 'Cancel',
+        },
+
+        readingTimer: {
+          reading: 'Reading',
+          paused: 'Paused',
+          pause: 'Pause',
+          resume: 'Resume',
+          stop: 'Stop & Log',
+          discard: 'Discard',
+          cancel: 'Cancel',
+          discardTitle: 'Discard Timer',
+          discardMessage: 'The time on this timer will not be logged.',
+          notificationTitle: '📖 Reading in progress',
+          notificationPausedTitle: '⏸ Reading paused',
+          notificationBody: '{{bookName}} · {{minutes}} min',
         },
 
         readingLogsEditModal: {
           title: 'Edit Session',
+          dateLabel: 'Date',
           cancel: 'Cancel',
           save: 'Save',
           saving: 'Saving...',
@@ -117,10 +213,10 @@ const resources = {
           updateErrorMessage: 'Failed to update session',
           updateSuccess: 'Success',
           updateSuccessMessage: 'Session updated successfully',
-          deleteSuccess: 'Success',
-          deleteSuccessMessage: 'Session deleted successfully',
+          movedToTrash: 'Session moved to trash',
           deleteError: 'Error',
           deleteErrorMessage: 'Failed to delete session',
+          restoreErrorMessage: 'Failed to restore session. You can still restore it from Settings → Trash.',
         },
 
         readingLogs: {
@@ -157,6 +253,7 @@ const resources = {
           },
           sessionCardBy: 'by',
           minutesSuffix: 'm',
+          pageRange: 'p. {{start}}–{{end}}',
         },
 
         notificationTester: {
@@ -203,6 +300,8 @@ const resources = {
           dailyBreakdown: 'Daily Reading Breakdown',
           readingTime: 'Reading Time',
           goalMet: 'Goal Met',
+          freezesAvailable_one: '❄️ {{count}} freeze left',
+          freezesAvailable_other: '❄️ {{count}} freezes left',
           dailyGoal: 'Daily Goal',
           progressStats: 'Progress Statistics',
           weeklyGoalProgress: 'Weekly Goal',
@@ -250,6 +349,23 @@ const resources = {
           genre: 'Genre',
           timeline: '📅 Timeline',
           addedToLibrary: 'Added to library',
+          readThroughs: '🔁 Reads',
+          timesRead_one: 'Read once',
+          timesRead_other: 'Read {{count}} times',
+          cycleNumber: 'Read #{{number}}',
+          cycleFinished: 'Finished',
+          cycleAbandoned: 'Stopped',
+          cycleInProgress: 'In progress',
+          cyclePaused: 'Paused',
+          cycleStopped: 'Stopped at page {{page}}',
+          cycleStopReason: '💬 {{reason}}',
+          cycleStats: '{{sessions}} sessions · {{time}} · {{pages}} pages',
+          timeLeft: '⏳ Time left',
+          projectedFinish: '📅 Projected finish',
+          noRecentPace: 'Read a little to see one',
+          readingSpeed: '⚡ Reading speed',
+          pagesPerHour: '{{pages}} pages/hour',
+          pagesPerHourOverall: '{{pages}} pages/hour (your average)',
           description: '📝 Description',
           language: 'Language',
           isbn: 'ISBN',
@@ -280,6 +396,119 @@ const resources = {
           hours: 'hours',
           hour: 'hour',
         },
+        readingCalendar: {
+          goalMet: 'Goal met',
+          frozen: 'Streak freeze',
+          rest: 'Rest day',
+          restHint: 'Long-press today or a later day to plan a rest day',
+        },
+        goalPlanReview: {
+          title: '🏁 Reading Plan',
+          endedOn: 'Your plan ended on {{date}}',
+          endsOn: 'Your plan runs until {{date}}',
+          noEndDate: 'Your goal has no end date',
+          startRate: 'Start (min/day)',
+          endRate: 'Reached',
+          targetRate: 'Target',
+          adherence_one: 'Goal met in {{met}} of {{count}} week ({{percent}}%)',
+          adherence_other: 'Goal met in {{met}} of {{count}} weeks ({{percent}}%)',
+          noWeeks: 'No finished weeks yet',
+          keep: '📌 Keep my current goal',
+          keepDescription: 'Stay at {{minutes}} min a day from now on.',
+          newTarget: '🚀 Set a new target',
+          newTargetDescription: 'Start a new plan from where you are now.',
+          maintenance: '🌿 Maintenance mode',
+          maintenanceDescription: 'Hold {{minutes}} min a day; the goal eases off after a missed week and climbs back after a good one.',
+          targetLabel: 'New daily target (minutes)',
+          dateLabel: 'Reach it by',
+          invalidTarget: 'Pick a target of at least {{minutes}} minutes and a date after today.',
+          back: 'Back',
+          startPlan: 'Start Plan',
+          errorTitle: 'Error',
+          saveFailed: 'Failed to save your choice.',
+        },
+        goalProgression: {
+          title: 'How your goal grows',
+          strategies: {
+            linear: 'Steady',
+            percentage: 'Percentage',
+            fixed: 'Fixed',
+            adaptive: 'Adaptive',
+          },
+          descriptions: {
+            linear: '+{{minutes}} min a day every week until you reach your target.',
+            percentage: 'Grows by a share of your current goal every week, at least 1 min.',
+            fixed: 'Your daily goal stays the same.',
+            adaptive: '+{{minutes}} min after a week you met, eases off after a week you missed.',
+          },
+          reachesTarget_one: 'Reaches {{minutes}} min a day in week {{count}}',
+          reachesTarget_other: 'Reaches {{minutes}} min a day in week {{count}}',
+          endsAt_one: '{{minutes}} min a day after {{count}} week',
+          endsAt_other: '{{minutes}} min a day after {{count}} weeks',
+        },
+        readingPlan: {
+          title: '🎯 Finish-by Plans',
+          sectionTitle: '🎯 Finish-by Plan',
+          due_one: 'Due {{date}} · {{count}} day left',
+          due_other: 'Due {{date}} · {{count}} days left',
+          pagesToday: '{{read}} / {{quota}} pages today',
+          minutesToday: '{{read}} / {{quota}} min today',
+          needsSpeed: 'Log a session with pages to get a daily quota',
+          onTrack: '✅ On track',
+          behind: '⚠️ Falling behind',
+          overdue: '⏰ Past the target date',
+          setPlan: '🎯 Set a finish-by date',
+          targetDate: 'Finish by',
+          unitLabel: 'Daily quota in',
+          unitPages: 'Pages',
+          unitMinutes: 'Minutes',
+          save: 'Save Plan',
+          cancel: 'Cancel',
+          change: 'Change',
+          remove: 'Remove',
+          errorTitle: 'Error',
+          saveFailed: 'Failed to save the plan.',
+        },
+        bookHistory: {
+          title: '🕘 History',
+          show: 'Show history',
+          hide: 'Hide history',
+          empty: 'No changes recorded yet.',
+          bookEdited: 'Book details edited',
+          bookAdded: 'Book added',
+          bookDeleted: 'Book deleted',
+          sessionAdded: 'Session added · {{date}}',
+          sessionEdited: 'Session edited · {{date}}',
+          sessionDeleted: 'Session deleted · {{date}}',
+          sessionSummary: '{{minutes}} min · {{pages}} pages',
+          emptyValue: '—',
+          revert: 'Revert',
+          revertConfirmTitle: 'Revert this change?',
+          revertConfirmMessage: 'The values from before this change will be put back.',
+          cancel: 'Cancel',
+          errorTitle: 'Error',
+          revertFailed: 'Failed to revert this change.',
+          revertRowMissing: 'This item no longer exists, so the change cannot be reverted.',
+          revertBookMissing: 'The book this session belonged to was deleted. Restore the book from the trash first.',
+          fields: {
+            name: 'Title',
+            author: 'Author',
+            page: 'Pages',
+            current_page: 'Current page',
+            reading_status: 'Status',
+            rating: 'Rating',
+            notes: 'Notes',
+            date_started: 'Date started',
+            date_finished: 'Date finished',
+            archived_at: 'Archived',
+            target_finish_date: 'Finish by',
+            minutes_read: 'Minutes',
+            pages_read: 'Pages read',
+            start_page: 'First page',
+            end_page: 'Last page',
+            date: 'Date',
+          },
+        },
       },
 
       booksPage: {
@@ -298,7 +527,10 @@ const resources = {
           want_to_read: 'Want to Read',
           currently_reading: 'Reading',
           read: 'Read',
+          paused: 'Paused',
+          dnf: 'Did Not Finish',
         },
+        dnfStats: '🚫 Did not finish {{rate}}% of books · {{pages}} pages read in them',
         listHeader: {
           myBooks: '📚 My Books',
           showing: 'showing',
@@ -323,6 +555,8 @@ const resources = {
           want_to_read: 'Want to Read',
           currently_reading: 'Reading',
           read: 'Read',
+          paused: 'Paused',
+          dnf: 'Did Not Finish',
         },
         search: {
           general: 'General',
@@ -366,9 +600,15 @@ const resources = {
           },
           alert: {
             deleteTitle: 'Delete Book',
-            deleteMessage: 'Are you sure you want to delete "{{title}}"?',
+            deleteMessage: 'Delete "{{title}}"? You can keep its reading sessions so your streaks and stats stay intact, or delete them too.',
             cancel: 'Cancel',
             delete: 'Delete',
+            keepHistory: 'Keep Sessions',
+            deleteWithSessions: 'Delete Sessions Too',
+            failedDelete: 'Failed to delete book',
+            movedToTrash: '"{{title}}" moved to trash',
+            restoreFailedTitle: 'Error',
+            restoreFailed: 'Failed to restore the book. You can still restore it from Settings → Trash.',
             statusUpdated: 'Status Updated',
             bookStatusUpdated: 'Book status has been updated to {{statusText}}.',
             failedUpdate: 'Failed to update book status. Please try again.',
@@ -382,6 +622,10 @@ const resources = {
         goal: '📖 Goal: {{goal}} books this year',
         editProfile: 'Tap to view & edit full profile',
         language: 'Language',
+        trash: 'Trash',
+        trashSubtitle: 'Restore or permanently delete removed books and sessions',
+        switchReader: 'Readers',
+        switchReaderSubtitle: 'Switch to another reader on this device or add one',
         about: 'About',
         appName: 'PageStreak',
         version: 'Version 1.0.0',
@@ -465,6 +709,8 @@ const resources = {
           format: 'Format:',
           compatibility: 'Compatibility:',
           options: {
+            includeAllReaders: 'All Readers',
+            includeAllReadersDescription: 'Every reader on this device, not just the current one',
             includeBooks: 'Books',
             includeBooksDescription: 'Your book collection and metadata',
             includeReadingSessions: 'Reading Sessions',
@@ -598,11 +844,57 @@ const resources = {
         settings: 'Settings',
       },
 
+      globalSearch: {
+        title: 'Search',
+        placeholder: 'Books, notes, session notes...',
+        books: 'Books ({{count}})',
+        sessions: 'Reading Sessions ({{count}})',
+        minutes: '{{count}} min',
+        openWeek: 'View in reading logs →',
+        hintTitle: 'Search your library',
+        hintMessage: 'Find books by title, author, description or subjects, and anything you wrote in your notes.',
+        noResults: 'Nothing found',
+        noResultsMessage: 'Try fewer or different words.',
+        errorTitle: 'Error',
+        statusUpdateFailed: 'Failed to update book status. Please try again.',
+      },
+
+      yearlyChallenge: {
+        title: 'Yearly Challenge',
+        cardTitle: '🏆 {{year}} Reading Challenge',
+        booksOfGoal: '{{finished}} of {{goal}} books',
+        achieved: '🎉 Goal achieved! Amazing work!',
+        ahead_one: '🚀 {{count}} book ahead of pace',
+        ahead_other: '🚀 {{count}} books ahead of pace',
+        behind_one: '⏳ {{count}} book behind pace',
+        behind_other: '⏳ {{count}} books behind pace',
+        onPace: '✅ Right on pace',
+        pagesPerDay: 'Read {{count}} pages a day to reach your goal',
+        viewDetails: 'View challenge →',
+        finished: 'Finished',
+        expected: 'Expected by today',
+        goal: 'Goal',
+        daysLeft_one: '{{count}} day left this year',
+        daysLeft_other: '{{count}} days left this year',
+        byMonth: '📊 Books finished by month',
+        monthlyPace: 'A dashed line marks {{pace}} books a month, the pace of your goal',
+        pastYears: '📚 Past years',
+        noPastYears: 'Your earlier years will show up here once a year is over.',
+        yearResult: '{{finished}} / {{goal}} books',
+        yearResultNoGoal_one: '{{count}} book finished',
+        yearResultNoGoal_other: '{{count}} books finished',
+        noGoal: 'Set a yearly book goal in your profile to start a challenge.',
+      },
+
       intro: {
         appWelcome: {
           title: 'Welcome to PageStreak!',
           subtitle: 'Let\'s set up your reading journey in just a few steps',
         },
+        newProfile: {
+          title: 'Add a Reader',
+          subtitle: 'Set up a separate profile with its own books, sessions and goals',
+        },
         welcome: {
           title: 'Nice to meet you!',
           subtitle: 'What should we call you on your reading journey?',
@@ -663,10 +955,12 @@ const resources = {
           continue: 'Continue →',
           getStarted: 'Get Started! 🚀',
           settingUp: 'Setting up...',
+          cancel: 'Cancel',
         },
         validation: {
           nameRequired: 'Please enter your name (2-50 characters)',
           nameInvalid: 'Name must be between 2 and 50 characters',
+          nameTaken: 'A reader with this name already exists on this device',
           goalRequired: 'Please enter your yearly book goal',
           goalInvalid: 'Please enter a valid number between 1 and 1000',
           goalMustBeInteger: 'Please enter a whole number',
@@ -712,7 +1006,25 @@ const resources = {
           yearlyGoal: 'Yearly Book Goal',
           currentDailyGoal: 'Current Daily Reading (minutes)',
           targetDailyGoal: 'Target Daily Reading (minutes)',
+          goalProgression: 'Goal Progression',
           favoriteGenres: 'Favorite Genres',
+          goalUnit: 'Goal Unit',
+          dailyPageGoal: 'Daily Page Goal',
+          monthlyBookGoal: 'Monthly Book Goal',
+        },
+        goalUnits: {
+          minutes: 'Minutes / day',
+          pages: 'Pages / day',
+          books: 'Books / month',
+        },
+        goalUnitHints: {
+          minutes: 'Your daily minutes follow the reading plan below.',
+          pages: 'Only sessions that log pages count toward a page goal.',
+          books: 'Every finished book counts toward the month it was finished in.',
+        },
+        goalPlan: {
+          review: 'Review reading plan',
+          ended: '🏁 Plan ended · choose what comes next',
         },
         labels: {
           username: 'Username',
@@ -721,12 +1033,16 @@ const resources = {
         units: {
           minutes: 'minutes',
           minPerDay: 'min/day',
+          pagesPerDay: 'pages/day',
+          booksPerMonth: 'books/month',
         },
         placeholders: {
           username: 'Enter your username',
           yearlyGoal: 'e.g., 24',
           dailyGoal: 'e.g., 30',
           targetGoal: 'e.g., 60',
+          pageGoal: 'e.g., 20',
+          bookGoal: 'e.g., 2',
         },
         stats: {
           memberSince: 'Member since {{date}}',
@@ -767,6 +1083,7 @@ const resources = {
           yearlyGoalRequired: 'Yearly goal must be between 1 and 1000',
           dailyGoalRequired: 'Daily goal must be between 1 and 480 minutes',
           targetGoalRequired: 'Target goal must be between current goal and 480 minutes',
+          unitGoalRequired: 'Enter how many pages or books your goal is',
         },
       },
 
@@ -782,10 +1099,38 @@ const resources = {
             label: 'Currently Reading',
             description: 'You are reading this book',
           },
+          reread: {
+            label: 'Read Again',
+            description: 'Start a new read; your earlier read is kept',
+          },
           read: {
             label: 'Read',
             description: 'You have finished this book',
           },
+          paused: {
+            label: 'Paused',
+            description: 'Put it aside for now and pick it up later',
+          },
+          resume: {
+            label: 'Resume Reading',
+            description: 'Carry on where you stopped',
+          },
+          dnf: {
+            label: 'Did Not Finish',
+            description: 'You stopped reading this book for good',
+          },
+        },
+        stop: {
+          pausedTitle: '⏸️ Where did you pause?',
+          dnfTitle: '🚫 Where did you stop?',
+          page: 'Stopped at page',
+          pageOf: 'Stopped at page (of {{total}})',
+          pagePlaceholder: 'Page number',
+          reason: 'Reason (optional)',
+          reasonPlaceholder: 'e.g. Too slow, not in the mood',
+          invalidPage: 'Enter a page between 0 and {{total}}',
+          back: 'Back',
+          confirm: 'Save',
         },
       },
     },
@@ -802,8 +1147,8 @@ const resources = {
         booksRead: 'Okunan Kitaplar',
         reading: 'Okunmakta',
         wantToRead: 'Okuma Listesinde',
-        goalAchieved: '🎉 Hedef başarıldı! Harika iş!',
-        goalProgress: 'Yıllık {{goal}} kitap hedefinize ulaşmak için {{remaining}} kitap daha',
+        goalPlanEnded: '🏁 Okuma planınız sona erdi',
+        goalPlanEndedAction: 'Nasıl geçtiğine bakın ve sıradakini seçin →',
         recentBooks: '📖 Son Kitaplar ({{count}})',
         seeAll: 'Tümünü Gör →',
         noBooksYet: 'Henüz kitap yok',
@@ -812,12 +1157,56 @@ const resources = {
       },
 
       components: {
+        profileSwitcher: {
+          title: 'Okuyucular',
+          subtitle: 'Her okuyucunun kendi kitapları, seansları, hedefleri ve hatırlatıcıları vardır.',
+          books: '{{count}} kitap',
+          active: 'Aktif',
+          addReader: 'Okuyucu Ekle',
+          deleteConfirmTitle: 'Okuyucu Silinsin mi?',
+          deleteConfirmMessage: '"{{name}}" ve tüm kitapları, okuma seansları ve hedefleri kalıcı olarak silinecek.',
+          delete: 'Sil',
+          cancel: 'İptal',
+          errorTitle: 'Hata',
+          switchFailed: 'Okuyucu değiştirilemedi.',
+          deleteFailed: 'Bu okuyucu silinemedi.',
+        },
+        undoToast: {
+          undo: 'Geri Al',
+        },
+        trash: {
+          title: 'Çöp Kutusu',
+          retentionTitle: 'Silinen öğeleri şu süre sakla',
+          retentionSubtitle: 'Bundan eski öğeler kalıcı olarak silinir.',
+          days: '{{count}} gün',
+          items: 'Silinen öğeler ({{count}})',
+          empty: 'Çöp kutusu boş',
+          emptyTrash: 'Çöpü Boşalt',
+          emptyConfirmTitle: 'Çöp Kutusu Boşaltılsın mı?',
+          emptyConfirmMessage: '{{count}} öğenin tümü kalıcı olarak silinsin mi? Bu işlem geri alınamaz.',
+          bookDetails: '{{author}} · {{count}} seans',
+          sessionDetails: '{{date}} · {{minutes}} dk',
+          deletedAt: 'Silinme: {{date}}',
+          deleteForever: 'Kalıcı Olarak Sil',
+          purgeConfirmTitle: 'Kalıcı Olarak Silinsin mi?',
+          purgeBookConfirmMessage: '"{{title}}" ve okuma seansları kalıcı olarak silinecek.',
+          purgeSessionConfirmMessage: 'Bu okuma seansı kalıcı olarak silinecek.',
+          cancel: 'İptal',
+          errorTitle: 'Hata',
+          restoreFailed: 'Bu öğe geri yüklenemedi.',
+          restoreBookFirst: 'Önce "{{title}}" kitabını geri yükleyin; bu seans ona ait.',
+        },
         bookCard: {
           by: 'Yazar:',
           pages: 'sayfa',
           currentlyReading: 'Okunmakta',
           read: 'Okundu',
           wantToRead: 'Okuma Listesinde',
+          paused: 'Ara Verildi',
+          dnf: 'Yarım Bırakıldı',
+          stoppedAt: '{{page}}. sayfada bırakıldı',
+          timeLeft: '{{time}} kaldı',
+          finishBy: '{{date}} tarihinde biter',
           unknown: 'Bilinmiyor',
           complete: 'tamamlandı',
           finished: '✅ Bitirildi:',
@@ -837,6 +1226,15 @@ const resources = {
           everyMinute: '📚 Her dakika değerli! Başarabilirsin!',
           readyToStart: '☕ Okuma seansına başlamaya hazır mısın?',
           leftToReach: 'Günlük hedefinize ulaşmak için {{time}} kaldı',
+          monthTitle: '📅 Bu Ayki Okuma İlerlemeniz',
+          thisMonth: 'Bu Ay',
+          leftToReachMonthly: 'Aylık hedefinize ulaşmak için {{time}} kaldı',
+          pages_one: '{{count}} sayfa',
+          pages_other: '{{count}} sayfa',
+          books_one: '{{count}} kitap',
+          books_other: '{{count}} kitap',
+          missingPages_one: '⚠️ Bugünkü {{count}} seansta sayfa girilmedi, bu yüzden sayfa hedefinize sayılmıyor',
+          missingPages_other: '⚠️ Bugünkü {{count}} seansta sayfa girilmedi, bu yüzden sayfa hedefinize sayılmıyor',
         },
 
         readingTimeLogger: {
@@ -881,10 +1279,53 @@ const resources = {
           loggedMinutes: '"{{bookName}}" için {{minutes}} dakika okuma süresi kaydedildi',
           error: 'Hata',
           failedToLog: 'Okuma süresi kaydedilemedi. Lütfen tekrar deneyin.',
+          startTimer: '⏱ Bunun Yerine Zamanlayıcı Başlat',
+          startedAt: 'Ne Zaman Başladınız?',
+          startedAtDescription: 'Günün hangi saatlerinde okuduğunuza dair istatistiklerde kullanılır',
+          startedAtDefault: 'Okumayı yeni bitirdim',
+          startTimeInFuture: 'Başlangıç saati gelecekte olamaz',
+          whichDay: 'Hangi Gün?',
+          dateInFuture: 'Gelecekteki bir tarih için okuma kaydedemezsiniz',
+          timerAlreadyRunning: 'Zaten çalışan bir okuma zamanlayıcısı var. Yenisini başlatmadan önce onu durdurun.',
+          failedToStartTimer: 'Okuma zamanlayıcısı başlatılamadı. Lütfen tekrar deneyin.',
+        },
+
+        sessionDatePicker: {
+          today: 'Bugün',
+          yesterday: 'Dün',
+        },
+
+        pageRangeInput: {
+          from: 'Başlangıç sayfası',
+          to: 'Bitiş sayfası',
+          preview: '📊 "{{bookName}}" kitabının {{start}}–{{end}}. sayfaları ({{pages}} sayfa)',
+          backwardWarning: '⚠️ Bitiş sayfası başlangıç sayfasından önce geliyor',
+          beyondBookWarning: '⚠️ "{{bookName}}" kitabı sadece {{total}} sayfa',
+          overlapWarning: '↺ Zaten okundu: {{pages}}. sayfalar. Tekrar okunan sayfalar ilerlemeye iki kez sayılmaz.',
+          overlapTitle: 'Sayfalar Zaten Okundu',
+          overlapMessage: 'Bu kitabın {{pages}}. sayfalarını zaten kaydettiniz. Bu seans yine de kaydedilsin mi?',
+          logAnyway: 'Yine de Kaydet',
+          cancel: 'İptal',
+        },
+
+        readingTimer: {
+          reading: 'Okunuyor',
+          paused: 'Duraklatıldı',
+          pause: 'Duraklat',
+          resume: 'Devam Et',
+          stop: 'Durdur ve Kaydet',
+          discard: 'Vazgeç',
+          cancel: 'İptal',
+          discardTitle: 'Zamanlayıcıdan Vazgeç',
+          discardMessage: 'Bu zamanlayıcıdaki süre kaydedilmeyecek.',
+          notificationTitle: '📖 Okuma devam ediyor',
+          notificationPausedTitle: '⏸ Okuma duraklatıldı',
+          notificationBody: '{{bookName}} · {{minutes}} dk',
         },
 
         readingLogsEditModal: {
           title: 'Seans Düzenle',
+          dateLabel: 'Tarih',
           cancel: 'İptal',
           save: 'Kaydet',
           saving: 'Kaydediliyor...',
@@ -905,10 +1346,10 @@ const resources = {
           updateErrorMessage: 'Seans güncellenemedi',
           updateSuccess: 'Başarılı',
           updateSuccessMessage: 'Seans başarıyla güncellendi',
-          deleteSuccess: 'Başarılı',
-          deleteSuccessMessage: 'Seans başarıyla silindi',
+          movedToTrash: 'Seans çöp kutusuna taşındı',
           deleteError: 'Hata',
           deleteErrorMessage: 'Seans silinemedi',
+          restoreErrorMessage: 'Seans geri yüklenemedi. Ayarlar → Çöp Kutusu üzerinden yine de geri yükleyebilirsiniz.',
         },
 
         readingLogs: {
@@ -945,6 +1386,7 @@ const resources = {
           },
           sessionCardBy: 'yazan',
           minutesSuffix: 'dk',
+          pageRange: 's. {{start}}–{{end}}',
         },
 
         notificationTester: {
@@ -991,6 +1433,8 @@ const resources = {
           dailyBreakdown: 'Günlük Okuma Dağılımı',
           readingTime: 'Okuma Süresi',
           goalMet: 'Hedef Tutturuldu',
+          freezesAvailable_one: '❄️ {{count}} dondurma hakkı',
+          freezesAvailable_other: '❄️ {{count}} dondurma hakkı',
           dailyGoal: 'Günlük Hedef',
           progressStats: 'İlerleme İstatistikleri',
           weeklyGoalProgress: 'Haftalık Hedef',
@@ -1038,6 +1482,23 @@ const resources = {
           genre: 'Tür',
           timeline: '📅 Zaman Çizelgesi',
           addedToLibrary: 'Kütüphaneye eklendi',
+          readThroughs: '🔁 Okumalar',
+          timesRead_one: 'Bir kez okundu',
+          timesRead_other: '{{count}} kez okundu',
+          cycleNumber: '{{number}}. okuma',
+          cycleFinished: 'Bitirildi',
+          cycleAbandoned: 'Bırakıldı',
+          cycleInProgress: 'Devam ediyor',
+          cyclePaused: 'Ara verildi',
+          cycleStopped: '{{page}}. sayfada bırakıldı',
+          cycleStopReason: '💬 {{reason}}',
+          cycleStats: '{{sessions}} seans · {{time}} · {{pages}} sayfa',
+          timeLeft: '⏳ Kalan süre',
+          projectedFinish: '📅 Tahmini bitiş',
+          noRecentPace: 'Görmek için biraz okuyun',
+          readingSpeed: '⚡ Okuma hızı',
+          pagesPerHour: 'Saatte {{pages}} sayfa',
+          pagesPerHourOverall: 'Saatte {{pages}} sayfa (ortalamanız)',
           description: '📝 Açıklama',
           language: 'Dil',
           isbn: 'ISBN',
@@ -1068,6 +1529,119 @@ const resources = {
           hours: 'saat',
           hour: 'saat',
         },
+        readingCalendar: {
+          goalMet: 'Hedef tutturuldu',
+          frozen: 'Seri dondurma',
+          rest: 'Dinlenme günü',
+          restHint: 'Dinlenme günü planlamak için bugüne veya sonraki bir güne uzun basın',
+        },
+        goalPlanReview: {
+          title: '🏁 Okuma Planı',
+          endedOn: 'Planınız {{date}} tarihinde sona erdi',
+          endsOn: 'Planınız {{date}} tarihine kadar sürüyor',
+          noEndDate: 'Hedefinizin bitiş tarihi yok',
+          startRate: 'Başlangıç (dk/gün)',
+          endRate: 'Ulaşılan',
+          targetRate: 'Hedef',
+          adherence_one: '{{count}} haftanın {{met}} haftasında hedef tutturuldu (%{{percent}})',
+          adherence_other: '{{count}} haftanın {{met}} haftasında hedef tutturuldu (%{{percent}})',
+          noWeeks: 'Henüz biten hafta yok',
+          keep: '📌 Mevcut hedefimi koru',
+          keepDescription: 'Bundan sonra günde {{minutes}} dk olarak kalsın.',
+          newTarget: '🚀 Yeni hedef belirle',
+          newTargetDescription: 'Şu anki seviyenizden yeni bir plan başlatın.',
+          maintenance: '🌿 Koruma modu',
+          maintenanceDescription: 'Günde {{minutes}} dk\'yı koruyun; kaçırılan bir haftadan sonra hedef azalır, iyi bir haftadan sonra yeniden yükselir.',
+          targetLabel: 'Yeni günlük hedef (dakika)',
+          dateLabel: 'Ulaşma tarihi',
+          invalidTarget: 'En az {{minutes}} dakikalık bir hedef ve bugünden sonraki bir tarih seçin.',
+          back: 'Geri',
+          startPlan: 'Planı Başlat',
+          errorTitle: 'Hata',
+          saveFailed: 'Seçiminiz kaydedilemedi.',
+        },
+        goalProgression: {
+          title: 'Hedefiniz nasıl büyür',
+          strategies: {
+            linear: 'Sabit artış',
+            percentage: 'Yüzde',
+            fixed: 'Sabit',
+            adaptive: 'Uyarlanabilir',
+          },
+          descriptions: {
+            linear: 'Hedefinize ulaşana kadar her hafta günde +{{minutes}} dk.',
+            percentage: 'Her hafta mevcut hedefinizin bir yüzdesi kadar, en az 1 dk artar.',
+            fixed: 'Günlük hedefiniz aynı kalır.',
+            adaptive: 'Tutturduğunuz haftadan sonra +{{minutes}} dk, kaçırdığınız haftadan sonra azalır.',
+          },
+          reachesTarget_one: '{{count}}. haftada günde {{minutes}} dk olur',
+          reachesTarget_other: '{{count}}. haftada günde {{minutes}} dk olur',
+          endsAt_one: '{{count}} hafta sonra günde {{minutes}} dk',
+          endsAt_other: '{{count}} hafta sonra günde {{minutes}} dk',
+        },
+        readingPlan: {
+          title: '🎯 Bitirme Planları',
+          sectionTitle: '🎯 Bitirme Planı',
+          due_one: '{{date}} · {{count}} gün kaldı',
+          due_other: '{{date}} · {{count}} gün kaldı',
+          pagesToday: 'Bugün {{read}} / {{quota}} sayfa',
+          minutesToday: 'Bugün {{read}} / {{quota}} dk',
+          needsSpeed: 'Günlük hedef için sayfalı bir oturum kaydedin',
+          onTrack: '✅ Yolunda',
+          behind: '⚠️ Geride kalıyor',
+          overdue: '⏰ Hedef tarih geçti',
+          setPlan: '🎯 Bitirme tarihi belirle',
+          targetDate: 'Bitirme tarihi',
+          unitLabel: 'Günlük hedef birimi',
+          unitPages: 'Sayfa',
+          unitMinutes: 'Dakika',
+          save: 'Planı Kaydet',
+          cancel: 'İptal',
+          change: 'Değiştir',
+          remove: 'Kaldır',
+          errorTitle: 'Hata',
+          saveFailed: 'Plan kaydedilemedi.',
+        },
+        bookHistory: {
+          title: '🕘 Geçmiş',
+          show: 'Geçmişi göster',
+          hide: 'Geçmişi gizle',
+          empty: 'Henüz kaydedilmiş bir değişiklik yok.',
+          bookEdited: 'Kitap bilgileri düzenlendi',
+          bookAdded: 'Kitap eklendi',
+          bookDeleted: 'Kitap silindi',
+          sessionAdded: 'Seans eklendi · {{date}}',
+          sessionEdited: 'Seans düzenlendi · {{date}}',
+          sessionDeleted: 'Seans silindi · {{date}}',
+          sessionSummary: '{{minutes}} dk · {{pages}} sayfa',
+          emptyValue: '—',
+          revert: 'Geri Al',
+          revertConfirmTitle: 'Bu değişiklik geri alınsın mı?',
+          revertConfirmMessage: 'Bu değişiklikten önceki değerler geri yüklenecek.',
+          cancel: 'İptal',
+          errorTitle: 'Hata',
+          revertFailed: 'Bu değişiklik geri alınamadı.',
+          revertRowMissing: 'Bu öğe artık mevcut değil, bu yüzden değişiklik geri alınamaz.',
+          revertBookMissing: 'Bu seansın ait olduğu kitap silindi. Önce kitabı çöp kutusundan geri yükleyin.',
+          fields: {
+            name: 'Başlık',
+            author: 'Yazar',
+            page: 'Sayfa',
+            current_page: 'Mevcut sayfa',
+            reading_status: 'Durum',
+            rating: 'Değerlendirme',
+            notes: 'Notlar',
+            date_started: 'Başlama tarihi',
+            date_finished: 'Bitirme tarihi',
+            archived_at: 'Arşivlendi',
+            target_finish_date: 'Bitirme hedefi',
+            minutes_read: 'Dakika',
+            pages_read: 'Okunan sayfa',
+            start_page: 'İlk sayfa',
+            end_page: 'Son sayfa',
+            date: 'Tarih',
+          },
+        },
       },
 
       booksPage: {
@@ -1086,7 +1660,10 @@ const resources = {
           want_to_read: 'Okuma Listesinde',
           currently_reading: 'Okunmakta',
           read: 'Okundu',
+          paused: 'Ara Verildi',
+          dnf: 'Yarım Bırakıldı',
         },
+        dnfStats: '🚫 Kitapların %{{rate}} kadarı yarım bırakıldı · bunlarda {{pages}} sayfa okundu',
         listHeader: {
           myBooks: '📚 Kitaplarım',
           showing: '',
@@ -1111,6 +1688,8 @@ const resources = {
           want_to_read: 'Okuma Listesinde',
           currently_reading: 'Okunmakta',
           read: 'Okundu',
+          paused: 'Ara Verildi',
+          dnf: 'Yarım Bırakıldı',
         },
         search: {
           general: 'Genel',
@@ -1154,9 +1733,15 @@ const resources = {
 
         alert: {
             deleteTitle: 'Kitabı Sil',
-            deleteMessage: '"{{title}}" kitabını silmek istediğinizden emin misiniz?',
+            deleteMessage: '"{{title}}" silinsin mi? Seri ve istatistiklerinizin korunması için okuma oturumlarını saklayabilir ya da onları da silebilirsiniz.',
             cancel: 'İptal',
             delete: 'Sil',
+            keepHistory: 'Oturumları Sakla',
+            deleteWithSessions: 'Oturumları da Sil',
+            failedDelete: 'Kitap silinemedi',
+            movedToTrash: '"{{title}}" çöp kutusuna taşındı',
+            restoreFailedTitle: 'Hata',
+            restoreFailed: 'Kitap geri yüklenemedi. Ayarlar → Çöp Kutusu üzerinden yine de geri yükleyebilirsiniz.',
             statusUpdated: 'Durum Güncellendi',
             bookStatusUpdated: 'Kitap durumu {{statusText}} olarak güncellendi.',
             failedUpdate: 'Kitap durumu güncellenemedi. Lütfen tekrar deneyin.',
@@ -1170,6 +1755,10 @@ const resources = {
         goal: '📖 Hedef: Bu yıl {{goal}} kitap',
         editProfile: 'Profili görüntülemek ve düzenlemek için dokunun',
         language: 'Dil',
+        trash: 'Çöp Kutusu',
+        trashSubtitle: 'Silinen kitapları ve seansları geri yükleyin veya kalıcı olarak silin',
+        switchReader: 'Okuyucular',
+        switchReaderSubtitle: 'Bu cihazdaki başka bir okuyucuya geçin veya yeni okuyucu ekleyin',
         about: 'Hakkında',
         appName: 'PageStreak',
         version: 'Sürüm 1.0.0',
@@ -1253,6 +1842,8 @@ const resources = {
           format: 'Format:',
           compatibility: 'Uyumluluk:',
           options: {
+            includeAllReaders: 'Tüm Okuyucular',
+            includeAllReadersDescription: 'Yalnızca mevcut okuyucu değil, bu cihazdaki tüm okuyucular',
             includeBooks: 'Kitaplar',
             includeBooksDescription: 'Kitap koleksiyonunuz ve meta veriler',
             includeReadingSessions: 'Okuma Seansları',
@@ -1386,11 +1977,57 @@ const resources = {
         settings: 'Ayarlar',
       },
 
+      globalSearch: {
+        title: 'Ara',
+        placeholder: 'Kitaplar, notlar, okuma notları...',
+        books: 'Kitaplar ({{count}})',
+        sessions: 'Okuma Oturumları ({{count}})',
+        minutes: '{{count}} dk',
+        openWeek: 'Okuma kayıtlarında göster →',
+        hintTitle: 'Kütüphanende ara',
+        hintMessage: 'Kitapları başlık, yazar, açıklama veya konularına göre bul; notlarına yazdığın her şeyi ara.',
+        noResults: 'Sonuç bulunamadı',
+        noResultsMessage: 'Daha az veya farklı kelimeler dene.',
+        errorTitle: 'Hata',
+        statusUpdateFailed: 'Kitap durumu güncellenemedi. Lütfen tekrar deneyin.',
+      },
+
+      yearlyChallenge: {
+        title: 'Yıllık Meydan Okuma',
+        cardTitle: '🏆 {{year}} Okuma Meydan Okuması',
+        booksOfGoal: '{{goal}} kitaptan {{finished}} tanesi',
+        achieved: '🎉 Hedef başarıldı! Harika iş!',
+        ahead_one: '🚀 Tempodan {{count}} kitap öndesiniz',
+        ahead_other: '🚀 Tempodan {{count}} kitap öndesiniz',
+        behind_one: '⏳ Tempodan {{count}} kitap geridesiniz',
+        behind_other: '⏳ Tempodan {{count}} kitap geridesiniz',
+        onPace: '✅ Tam tempodasınız',
+        pagesPerDay: 'Hedefinize ulaşmak için günde {{count}} sayfa okuyun',
+        viewDetails: 'Meydan okumayı gör →',
+        finished: 'Bitirilen',
+        expected: 'Bugüne kadar beklenen',
+        goal: 'Hedef',
+        daysLeft_one: 'Bu yıl {{count}} gün kaldı',
+        daysLeft_other: 'Bu yıl {{count}} gün kaldı',
+        byMonth: '📊 Aylara göre bitirilen kitaplar',
+        monthlyPace: 'Kesikli çizgi, hedefinizin temposu olan ayda {{pace}} kitabı gösterir',
+        pastYears: '📚 Geçmiş yıllar',
+        noPastYears: 'Bir yıl bittiğinde önceki yıllarınız burada görünecek.',
+        yearResult: '{{finished}} / {{goal}} kitap',
+        yearResultNoGoal_one: '{{count}} kitap bitirildi',
+        yearResultNoGoal_other: '{{count}} kitap bitirildi',
+        noGoal: 'Meydan okumaya başlamak için profilinizde yıllık kitap hedefi belirleyin.',
+      },
+
       intro: {
         appWelcome: {
           title: 'PageStreak\'e Hoş Geldiniz!',
           subtitle: 'Okuma yolculuğunuzu sadece birkaç adımda ayarlayalım',
         },
+        newProfile: {
+          title: 'Okuyucu Ekle',
+          subtitle: 'Kendi kitapları, seansları ve hedefleri olan ayrı bir profil oluşturun',
+        },
         welcome: {
           title: 'Tanıştığımıza memnun oldum!',
           subtitle: 'Okuma yolculuğunuzda size nasıl hitap edelim?',
@@ -1451,10 +2088,12 @@ const resources = {
           continue: 'Devam →',
           getStarted: 'Başlayalım! 🚀',
           settingUp: 'Ayarlanıyor...',
+          cancel: 'İptal',
         },
         validation: {
           nameRequired: 'Lütfen isminizi girin (2-50 karakter)',
           nameInvalid: 'İsim 2 ile 50 karakter arasında olmalıdır',
+          nameTaken: 'Bu cihazda bu isimde bir okuyucu zaten var',
           goalRequired: 'Lütfen yıllık kitap hedefinizi girin',
           goalInvalid: 'Lütfen 1 ile 1000 arasında geçerli bir sayı girin',
           goalMustBeInteger: 'Lütfen tam sayı girin',
@@ -1500,7 +2139,25 @@ const resources = {
           yearlyGoal: 'Yıllık Kitap Hedefi',
           currentDailyGoal: 'Mevcut Günlük Okuma (dakika)',
           targetDailyGoal: 'Hedef Günlük Okuma (dakika)',
+          goalProgression: 'Hedef İlerlemesi',
           favoriteGenres: 'Favori Türler',
+          goalUnit: 'Hedef Birimi',
+          dailyPageGoal: 'Günlük Sayfa Hedefi',
+          monthlyBookGoal: 'Aylık Kitap Hedefi',
+        },
+        goalUnits: {
+          minutes: 'Dakika / gün',
+          pages: 'Sayfa / gün',
+          books: 'Kitap / ay',
+        },
+        goalUnitHints: {
+          minutes: 'Günlük dakikalarınız aşağıdaki okuma planını izler.',
+          pages: 'Sayfa hedefine yalnızca sayfa girilen seanslar sayılır.',
+          books: 'Bitirilen her kitap bitirildiği aya sayılır.',
+        },
+        goalPlan: {
+          review: 'Okuma planını gözden geçir',
+          ended: '🏁 Plan bitti · sıradakini seçin',
         },
         labels: {
           username: 'Kullanıcı Adı',
@@ -1509,12 +2166,16 @@ const resources = {
         units: {
           minutes: 'dakika',
           minPerDay: 'dk/gün',
+          pagesPerDay: 'sayfa/gün',
+          booksPerMonth: 'kitap/ay',
         },
         placeholders: {
           username: 'Kullanıcı adınızı girin',
           yearlyGoal: 'örn. 24',
           dailyGoal: 'örn. 30',
           targetGoal: 'örn. 60',
+          pageGoal: 'örn. 20',
+          bookGoal: 'örn. 2',
         },
         stats: {
           memberSince: '{{date}} tarihinden beri üye',
@@ -1555,6 +2216,7 @@ const resources = {
           yearlyGoalRequired: 'Yıllık hedef 1 ile 1000 arasında olmalıdır',
           dailyGoalRequired: 'Günlük hedef 1 ile 480 dakika arasında olmalıdır',
           targetGoalRequired: 'Hedef, mevcut hedef ile 480 dakika arasında olmalıdır',
+          unitGoalRequired: 'Hedefinizin kaç sayfa veya kitap olduğunu girin',
         },
       },
 
@@ -1570,10 +2232,38 @@ const resources = {
             label: 'Okunmakta',
             description: 'Bu kitabı okuyorsunuz',
           },
+          reread: {
+            label: 'Yeniden Oku',
+            description: 'Yeni bir okuma başlatın; önceki okumanız saklanır',
+          },
           read: {
             label: 'Okundu',
             description: 'Bu kitabı bitirdiniz',
           },
+          paused: {
+            label: 'Ara Verildi',
+            description: 'Şimdilik bir kenara koyun, sonra devam edin',
+          },
+          resume: {
+            label: 'Okumaya Devam Et',
+            description: 'Kaldığınız yerden devam edin',
+          },
+          dnf: {
+            label: 'Yarım Bırakıldı',
+            description: 'Bu kitabı okumayı tamamen bıraktınız',
+          },
+        },
+        stop: {
+          pausedTitle: '⏸️ Nerede ara verdiniz?',
+          dnfTitle: '🚫 Nerede bıraktınız?',
+          page: 'Bırakılan sayfa',
+          pageOf: 'Bırakılan sayfa ({{total}} sayfadan)',
+          pagePlaceholder: 'Sayfa numarası',
+          reason: 'Neden (isteğe bağlı)',
+          reasonPlaceholder: 'ör. Çok yavaş, havamda değilim',
+          invalidPage: '0 ile {{total}} arasında bir sayfa girin',
+          back: 'Geri',
+          confirm: 'Kaydet',
         },
       },
     },
@@ -0,0 +1,710 @@
+import { notifyTablesChanged } from '../db/changeEvents';
+import { CycleRepository, ReadingCycle } from '../db/cycleRepository';
+import type { AppUsageTracking, EnhancedBook, NotificationPreferences, ReadingSession } from '../db/db';
+import { DEFAULT_PROFILE_ID, execute, getActiveProfileId, initializeDatabase, queryAll, READING_STATUSES } from '../db/db';
+import type { GoalChange } from '../db/goalHistoryRepository';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../db/preferencesRepository';
+import type { StreakDay } from '../db/streakRepository';
+import type { WeeklyProgress } from '../db/weeklyProgressRepository';
+import type { YearlyGoal } from '../db/yearlyGoalRepository';
+import type { UserPreferences } from '../types/database';
+import { DEFAULT_GOAL_PROGRESSION_STRATEGY } from '../utils/goalProgression';
+
+/*
+ * Backup contents without any file handling: building a backup from the
+ * database, validating backup JSON and restoring it. dataBackupService.ts
+ * wraps these with the device file system, picker and share sheet.
+ */
+
+// Current app schema version - increment when making breaking changes to backup format
+// Version 2: rows carry the reader profile they belong to
+export const BACKUP_SCHEMA_VERSION = 2;
+export const APP_IDENTIFIER = 'pagestreak';
+
+export type BackupData = {
+  app: string;
+  schemaVersion: number;
+  createdAt: string;
+  profileId?: number; // Set when the backup holds a single reader profile
+  deviceInfo?: {
+    platform: string;
+    version: string;
+  };
+  tables: {
+    enhanced_books?: EnhancedBook[];
+    reading_cycles?: ReadingCycle[]; // Exported with the books; absent from backups made before rereads
+    user_preferences?: UserPreferences[];
+    goal_history?: GoalChange[]; // Exported with the preferences; absent from backups made before goal history
+    yearly_book_goals?: YearlyGoal[]; // Exported with the preferences; absent from backups made before yearly challenges
+    reading_sessions?: ReadingSession[];
+    weekly_progress?: WeeklyProgress[];
+    streak_days?: StreakDay[]; // Exported with the weekly progress; absent from backups made before streak freezes
+    notification_preferences?: NotificationPreferences[];
+    app_usage_tracking?: AppUsageTracking[];
+  };
+};
+
+export type BackupOptions = {
+  includeBooks: boolean;
+  includeReadingSessions: boolean;
+  includeUserPreferences: boolean;
+  includeWeeklyProgress: boolean;
+  includeNotificationPreferences: boolean;
+  includeAppUsage: boolean;
+  profileId?: number; // Export only this reader profile; every profile when omitted
+  compressed?: boolean; // For future use with .json.gz
+};
+
+export type ImportOptions = {
+  mode: 'replace' | 'merge';
+  validateIntegrity: boolean;
+};
+
+export type BackupValidationResult = {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  stats: {
+    totalBooks: number;
+    totalSessions: number;
+    hasUserPreferences: boolean;
+    schemaVersion: number;
+    createdAt: string;
+  };
+};
+
+export type ProgressCallback = (progress: number, message: string) => void;
+
+function emptyValidationResult(): BackupValidationResult {
+  return {
+    isValid: false,
+    errors: [],
+    warnings: [],
+    stats: {
+      totalBooks: 0,
+      totalSessions: 0,
+      hasUserPreferences: false,
+      schemaVersion: 0,
+      createdAt: '',
+    },
+  };
+}
+
+/**
+ * Validation result for a backup that could not be read at all
+ */
+export function validationFailure(message: string): BackupValidationResult {
+  const result = emptyValidationResult();
+  result.errors.push(message);
+  return result;
+}
+
+/**
+ * Read the selected tables into a backup object.
+ * App usage tracking is shared by every profile and is exported as a whole.
+ */
+export async function buildBackupData(
+  options: BackupOptions,
+  onProgress?: ProgressCallback
+): Promise<BackupData> {
+  const backupData: BackupData = {
+    app: APP_IDENTIFIER,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    deviceInfo: {
+      platform: 'mobile', // Could be enhanced with actual platform detection
+      version: '1.0.0', // Could be read from package.json
+    },
+    tables: {},
+  };
+  if (options.profileId !== undefined) {
+    backupData.profileId = options.profileId;
+  }
+
+  // Restrict profile-owned rows to one profile when asked to
+  const profileFilter = (column: string) => options.profileId !== undefined ? `WHERE ${column} = ?` : '';
+  const profileParams = options.profileId !== undefined ? [options.profileId] : [];
+
+  let progress = 10;
+
+  // Export enhanced_books
+  if (options.includeBooks) {
+    onProgress?.(progress, 'Exporting books...');
+    const books = await queryAll<EnhancedBook>(
+      `SELECT * FROM enhanced_books ${profileFilter('profile_id')} ORDER BY id`,
+      profileParams
+    );
+    backupData.tables.enhanced_books = books;
+    backupData.tables.reading_cycles = await queryAll<ReadingCycle>(`
+      SELECT rc.* FROM reading_cycles rc
+      JOIN enhanced_books eb ON eb.id = rc.book_id
+      ${profileFilter('eb.profile_id')}
+      ORDER BY rc.id
+    `, profileParams);
+    progress += 15;
+  }
+
+  // Export reading_sessions
+  if (options.includeReadingSessions) {
+    onProgress?.(progress, 'Exporting reading sessions...');
+    const sessions = await queryAll<ReadingSession>(`
+      SELECT rs.* FROM reading_sessions rs
+      JOIN enhanced_books eb ON eb.id = rs.book_id
+      ${profileFilter('eb.profile_id')}
+      ORDER BY rs.created_at
+    `, profileParams);
+    backupData.tables.reading_sessions = sessions;
+    progress += 15;
+  }
+
+  // Export user_preferences
+  if (options.includeUserPreferences) {
+    onProgress?.(progress, 'Exporting user preferences...');
+    const preferences = await queryAll<UserPreferences>(
+      `SELECT * FROM user_preferences ${profileFilter('id')}`,
+      profileParams
+    );
+    backupData.tables.user_preferences = preferences;
+    backupData.tables.goal_history = await queryAll<GoalChange>(
+      `SELECT * FROM goal_history ${profileFilter('profile_id')} ORDER BY profile_id, effective_date`,
+      profileParams
+    );
+    backupData.tables.yearly_book_goals = await queryAll<YearlyGoal>(
+      `SELECT * FROM yearly_book_goals ${profileFilter('profile_id')} ORDER BY profile_id, year`,
+      profileParams
+    );
+    progress += 10;
+  }
+
+  // Export weekly_progress
+  if (options.includeWeeklyProgress) {
+    onProgress?.(progress, 'Exporting weekly progress...');
+    const weeklyProgress = await queryAll<WeeklyProgress>(
+      `SELECT * FROM weekly_progress ${profileFilter('profile_id')} ORDER BY profile_id, week_start`,
+      profileParams
+    );
+    backupData.tables.weekly_progress = weeklyProgress;
+    backupData.tables.streak_days = await queryAll<StreakDay>(
+      `SELECT * FROM streak_days ${profileFilter('profile_id')} ORDER BY date`,
+      profileParams
+    );
+    progress += 10;
+  }
+
+  // Export notification_preferences
+  if (options.includeNotificationPreferences) {
+    onProgress?.(progress, 'Exporting notification settings...');
+    const notificationPrefs = await queryAll<NotificationPreferences>(
+      `SELECT * FROM notification_preferences ${profileFilter('id')}`,
+      profileParams
+    );
+    backupData.tables.notification_preferences = notificationPrefs;
+    progress += 10;
+  }
+
+  // Export app_usage_tracking (optional, might be large)
+  if (options.includeAppUsage) {
+    onProgress?.(progress, 'Exporting app usage data...');
+    const appUsage = await queryAll<AppUsageTracking>('SELECT * FROM app_usage_tracking ORDER BY date DESC');
+    backupData.tables.app_usage_tracking = appUsage;
+    progress += 10;
+  }
+
+  return backupData;
+}
+
+/**
+ * Validate the JSON text of a backup before importing
+ */
+export function validateBackupContent(fileContent: string): BackupValidationResult {
+  const result = emptyValidationResult();
+
+  try {
+    const backupData: BackupData = JSON.parse(fileContent);
+
+    // Validate basic structure
+    if (!backupData.app) {
+      result.errors.push('Missing app identifier');
+    } else if (backupData.app !== APP_IDENTIFIER) {
+      result.errors.push(`Invalid app identifier: expected "${APP_IDENTIFIER}", got "${backupData.app}"`);
+    }
+
+    if (!backupData.schemaVersion) {
+      result.errors.push('Missing schema version');
+    } else {
+      result.stats.schemaVersion = backupData.schemaVersion;
+      if (backupData.schemaVersion > BACKUP_SCHEMA_VERSION) {
+        result.errors.push(`Backup schema version ${backupData.schemaVersion} is newer than supported version ${BACKUP_SCHEMA_VERSION}`);
+      } else if (backupData.schemaVersion < BACKUP_SCHEMA_VERSION) {
+        result.warnings.push(`Backup schema version ${backupData.schemaVersion} is older than current version ${BACKUP_SCHEMA_VERSION}. Data will be migrated.`);
+      }
+    }
+
+    if (!backupData.createdAt) {
+      result.errors.push('Missing creation timestamp');
+    } else {
+      result.stats.createdAt = backupData.createdAt;
+    }
+
+    if (!backupData.tables) {
+      result.errors.push('Missing tables data');
+    } else {
+      // Validate table data
+      const { tables } = backupData;
+
+      // Count statistics
+      result.stats.totalBooks = tables.enhanced_books?.length || 0;
+      result.stats.totalSessions = tables.reading_sessions?.length || 0;
+      result.stats.hasUserPreferences = (tables.user_preferences?.length || 0) > 0;
+
+      // Validate book data integrity
+      if (tables.enhanced_books?.length) {
+        const invalidBooks = tables.enhanced_books.filter(book => 
+          !book.name || !book.author || typeof book.page !== 'number'
+        );
+        if (invalidBooks.length > 0) {
+          result.errors.push(`${invalidBooks.length} books have invalid data`);
+        }
+
+        const unknownStatusBooks = tables.enhanced_books.filter(book =>
+          book.reading_status != null && !READING_STATUSES.includes(book.reading_status)
+        );
+        if (unknownStatusBooks.length > 0) {
+          result.errors.push(`${unknownStatusBooks.length} books have an unknown reading status`);
+        }
+      }
+
+      // Validate reading sessions integrity
+      if (tables.reading_sessions?.length) {
+        const invalidSessions = tables.reading_sessions.filter(session => 
+          !session.book_id || !session.minutes_read || !session.date
+        );
+        if (invalidSessions.length > 0) {
+          result.errors.push(`${invalidSessions.length} reading sessions have invalid data`);
+        }
+
+        // Check for orphaned sessions (sessions without corresponding books)
+        if (tables.enhanced_books?.length) {
+          const bookIds = new Set(tables.enhanced_books.map(book => book.id));
+          const orphanedSessions = tables.reading_sessions.filter(session => 
+            !bookIds.has(session.book_id)
+          );
+          if (orphanedSessions.length > 0) {
+            result.warnings.push(`${orphanedSessions.length} reading sessions reference books that don't exist in the backup`);
+          }
+        }
+      }
+    }
+
+    result.isValid = result.errors.length === 0;
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Failed to parse backup file');
+  }
+
+  return result;
+}
+
+/**
+ * Write a backup into the database in a single transaction.
+ * A backup of one profile (or a version 1 backup, made before profiles
+ * existed, which goes into the active profile) only replaces that profile's
+ * data; a backup of every profile replaces the whole library.
+ * Rolls back and rethrows if any row fails to import.
+ */
+export async function restoreBackupData(
+  backupData: BackupData,
+  options: ImportOptions,
+  onProgress?: ProgressCallback
+): Promise<{ books: number; sessions: number }> {
+  const imported = { books: 0, sessions: 0 };
+
+  // Ensure database is properly initialized with latest schema
+  await initializeDatabase();
+
+  const isLegacyBackup = backupData.schemaVersion < 2;
+  const targetProfileId = isLegacyBackup ? getActiveProfileId() : backupData.profileId;
+  // Legacy rows have no profile (and their preferences rows use id 1)
+  const profileIdOf = (profileId: number | undefined) =>
+    isLegacyBackup || profileId === undefined ? targetProfileId ?? DEFAULT_PROFILE_ID : profileId;
+
+  // Enable WAL mode for better performance
+  await execute('PRAGMA journal_mode=WAL');
+  await execute('PRAGMA foreign_keys=ON');
+
+  // Start transaction
+  await execute('BEGIN TRANSACTION');
+
+  try {
+    let progress = 20;
+
+    // Import based on mode
+    if (options.mode === 'replace') {
+      onProgress?.(progress, 'Clearing existing data...');
+      
+      // Clear existing data in reverse dependency order, only within the restored profile if there is one
+      const where = (column: string) => targetProfileId !== undefined ? ` WHERE ${column} = ?` : '';
+      const params = targetProfileId !== undefined ? [targetProfileId] : [];
+      if (backupData.tables.reading_sessions) {
+        await execute(
+          `DELETE FROM reading_sessions WHERE book_id IN (SELECT id FROM enhanced_books${where('profile_id')})`,
+          params
+        );
+      }
+      if (backupData.tables.reading_cycles) {
+        await execute(
+          `DELETE FROM reading_cycles WHERE book_id IN (SELECT id FROM enhanced_books${where('profile_id')})`,
+          params
+        );
+      }
+      if (backupData.tables.enhanced_books) {
+        await execute(`DELETE FROM enhanced_books${where('profile_id')}`, params);
+        // Trashed rows belong to the library being replaced and could clash with restored ids
+        await execute(`DELETE FROM trash${where('profile_id')}`, params);
+      }
+      if (backupData.tables.user_preferences) {
+        await execute(`DELETE FROM user_preferences${where('id')}`, params);
+      }
+      if (backupData.tables.goal_history) {
+        await execute(`DELETE FROM goal_history${where('profile_id')}`, params);
+      }
+      if (backupData.tables.yearly_book_goals) {
+        await execute(`DELETE FROM yearly_book_goals${where('profile_id')}`, params);
+      }
+      if (backupData.tables.weekly_progress) {
+        await execute(`DELETE FROM weekly_progress${where('profile_id')}`, params);
+      }
+      if (backupData.tables.streak_days) {
+        await execute(`DELETE FROM streak_days${where('profile_id')}`, params);
+      }
+      if (backupData.tables.notification_preferences) {
+        await execute(`DELETE FROM notification_preferences${where('id')}`, params);
+      }
+      if (backupData.tables.app_usage_tracking) {
+        await execute('DELETE FROM app_usage_tracking');
+      }
+      
+      progress += 10;
+    }
+
+    // Import user preferences first
+    if (backupData.tables.user_preferences?.length) {
+      onProgress?.(progress, 'Importing user preferences...');
+      for (const pref of backupData.tables.user_preferences) {
+        if (options.mode === 'replace') {
+          await execute(`
+            INSERT INTO user_preferences (
+              id, username, yearly_book_goal, preferred_genres, created_at, updated_at,
+              weekly_reading_goal, initial_reading_rate_minutes_per_day,
+              end_reading_rate_goal_minutes_per_day, end_reading_rate_goal_date,
+              current_reading_rate_minutes_per_day, current_reading_rate_last_updated,
+              weekly_reading_rate_increase_minutes, weekly_reading_rate_increase_minutes_percentage,
+              trash_retention_days, goal_progression_strategy, goal_mode, goal_plan_start_date,
+              goal_unit, daily_page_goal, monthly_book_goal
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            profileIdOf(pref.id), pref.username, pref.yearly_book_goal, pref.preferred_genres,
+            pref.created_at, pref.updated_at, pref.weekly_reading_goal,
+            pref.initial_reading_rate_minutes_per_day, pref.end_reading_rate_goal_minutes_per_day,
+            pref.end_reading_rate_goal_date, pref.current_reading_rate_minutes_per_day,
+            pref.current_reading_rate_last_updated, pref.weekly_reading_rate_increase_minutes,
+            pref.weekly_reading_rate_increase_minutes_percentage,
+            pref.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
+            pref.goal_progression_strategy ?? DEFAULT_GOAL_PROGRESSION_STRATEGY,
+            pref.goal_mode ?? 'plan',
+            pref.goal_plan_start_date ?? null,
+            pref.goal_unit ?? 'minutes',
+            pref.daily_page_goal ?? null,
+            pref.monthly_book_goal ?? null
+          ]);
+        } else {
+          // Merge mode - use INSERT OR REPLACE
+          await execute(`
+            INSERT OR REPLACE INTO user_preferences (
+              id, username, yearly_book_goal, preferred_genres, created_at, updated_at,
+              weekly_reading_goal, initial_reading_rate_minutes_per_day,
+              end_reading_rate_goal_minutes_per_day, end_reading_rate_goal_date,
+              current_reading_rate_minutes_per_day, current_reading_rate_last_updated,
+              weekly_reading_rate_increase_minutes, weekly_reading_rate_increase_minutes_percentage,
+              trash_retention_days, goal_progression_strategy, goal_mode, goal_plan_start_date,
+              goal_unit, daily_page_goal, monthly_book_goal
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            profileIdOf(pref.id), pref.username, pref.yearly_book_goal, pref.preferred_genres,
+            pref.created_at, pref.updated_at, pref.weekly_reading_goal,
+            pref.initial_reading_rate_minutes_per_day, pref.end_reading_rate_goal_minutes_per_day,
+            pref.end_reading_rate_goal_date, pref.current_reading_rate_minutes_per_day,
+            pref.current_reading_rate_last_updated, pref.weekly_reading_rate_increase_minutes,
+            pref.weekly_reading_rate_increase_minutes_percentage,
+            pref.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
+            pref.goal_progression_strategy ?? DEFAULT_GOAL_PROGRESSION_STRATEGY,
+            pref.goal_mode ?? 'plan',
+            pref.goal_plan_start_date ?? null,
+            pref.goal_unit ?? 'minutes',
+            pref.daily_page_goal ?? null,
+            pref.monthly_book_goal ?? null
+          ]);
+        }
+      }
+      for (const goalChange of backupData.tables.goal_history || []) {
+        await execute(`
+          INSERT OR REPLACE INTO goal_history (profile_id, effective_date, minutes_per_day)
+          VALUES (?, ?, ?)
+        `, [profileIdOf(goalChange.profile_id), goalChange.effective_date, goalChange.minutes_per_day]);
+      }
+      for (const yearlyGoal of backupData.tables.yearly_book_goals || []) {
+        await execute(`
+          INSERT OR REPLACE INTO yearly_book_goals (profile_id, year, goal)
+          VALUES (?, ?, ?)
+        `, [profileIdOf(yearlyGoal.profile_id), yearlyGoal.year, yearlyGoal.goal]);
+      }
+      progress += 10;
+    }
+
+    // Import books
+    if (backupData.tables.enhanced_books?.length) {
+      onProgress?.(progress, 'Importing books...');
+
+      // Book ids are shared by every profile; never let one reader's backup overwrite another's books
+      if (targetProfileId !== undefined) {
+        const clashing = await queryAll(
+          'SELECT id FROM enhanced_books WHERE profile_id != ? AND id IN (SELECT value FROM json_each(?))',
+          [targetProfileId, JSON.stringify(backupData.tables.enhanced_books.map(book => book.id))]
+        );
+        if (clashing.length > 0) {
+          throw new Error(`${clashing.length} books in the backup belong to another reader on this device`);
+        }
+      }
+      for (const book of backupData.tables.enhanced_books) {
+        if (options.mode === 'replace') {
+          await execute(`
+            INSERT INTO enhanced_books (
+              id, name, author, page, isbn, cover_id, cover_url, first_publish_year,
+              publisher, language, description, subjects, open_library_key, author_key,
+              rating, date_added, date_started, date_finished, current_page, reading_status, notes,
+              archived_at, profile_id, target_finish_date, plan_unit, plan_start_date, plan_start_page
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            book.id, book.name, book.author, book.page, book.isbn, book.cover_id,
+            book.cover_url, book.first_publish_year, book.publisher, book.language,
+            book.description, book.subjects, book.open_library_key, book.author_key,
+            book.rating, book.date_added, book.date_started, book.date_finished,
+            book.current_page, book.reading_status, book.notes, book.archived_at ?? null,
+            profileIdOf(book.profile_id), book.target_finish_date ?? null, book.plan_unit ?? null,
+            book.plan_start_date ?? null, book.plan_start_page ?? null
+          ]);
+        } else {
+          // Merge mode - upsert in place. INSERT OR REPLACE would delete the
+          // existing row first and cascade that delete to its reading sessions.
+          await execute(`
+            INSERT INTO enhanced_books (
+              id, name, author, page, isbn, cover_id, cover_url, first_publish_year,
+              publisher, language, description, subjects, open_library_key, author_key,
+              rating, date_added, date_started, date_finished, current_page, reading_status, notes,
+              archived_at, profile_id, target_finish_date, plan_unit, plan_start_date, plan_start_page
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+              name = excluded.name, author = excluded.author, page = excluded.page,
+              isbn = excluded.isbn, cover_id = excluded.cover_id, cover_url = excluded.cover_url,
+              first_publish_year = excluded.first_publish_year, publisher = excluded.publisher,
+              language = excluded.language, description = excluded.description,
+              subjects = excluded.subjects, open_library_key = excluded.open_library_key,
+              author_key = excluded.author_key, rating = excluded.rating,
+              date_added = excluded.date_added, date_started = excluded.date_started,
+              date_finished = excluded.date_finished, current_page = excluded.current_page,
+              reading_status = excluded.reading_status, notes = excluded.notes,
+              archived_at = excluded.archived_at, profile_id = excluded.profile_id,
+              target_finish_date = excluded.target_finish_date, plan_unit = excluded.plan_unit,
+              plan_start_date = excluded.plan_start_date, plan_start_page = excluded.plan_start_page
+          `, [
+            book.id, book.name, book.author, book.page, book.isbn, book.cover_id,
+            book.cover_url, book.first_publish_year, book.publisher, book.language,
+            book.description, book.subjects, book.open_library_key, book.author_key,
+            book.rating, book.date_added, book.date_started, book.date_finished,
+            book.current_page, book.reading_status, book.notes, book.archived_at ?? null,
+            profileIdOf(book.profile_id), book.target_finish_date ?? null, book.plan_unit ?? null,
+            book.plan_start_date ?? null, book.plan_start_page ?? null
+          ]);
+        }
+      }
+      imported.books = backupData.tables.enhanced_books.length;
+      progress += 20;
+    }
+
+    // Import reading cycles of the books that exist
+    if (backupData.tables.reading_cycles?.length) {
+      const bookRows = await queryAll<{id: number}>('SELECT id FROM enhanced_books');
+      const existingBookIds = new Set(bookRows.map(row => row.id));
+      // Merge mode upserts in place; REPLACE would delete the existing row first
+      const upsertClause = options.mode === 'replace'
+        ? ''
+        : `ON CONFLICT(id) DO UPDATE SET
+            book_id = excluded.book_id, started_at = excluded.started_at, finished_at = excluded.finished_at,
+            outcome = excluded.outcome, stop_page = excluded.stop_page, stop_reason = excluded.stop_reason`;
+      for (const cycle of backupData.tables.reading_cycles) {
+        if (!existingBookIds.has(cycle.book_id)) {
+          continue;
+        }
+        await execute(`
+          INSERT INTO reading_cycles (id, book_id, started_at, finished_at, outcome, stop_page, stop_reason)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ${upsertClause}
+        `, [
+          cycle.id, cycle.book_id, cycle.started_at, cycle.finished_at, cycle.outcome,
+          cycle.stop_page ?? null, cycle.stop_reason ?? null
+        ]);
+      }
+    }
+
+    // Import reading sessions
+    if (backupData.tables.reading_sessions?.length) {
+      onProgress?.(progress, 'Importing reading sessions...');
+
+      // Sessions must reference an existing book (foreign key); skip orphans
+      const bookRows = await queryAll<{id: number}>('SELECT id FROM enhanced_books');
+      const existingBookIds = new Set(bookRows.map(row => row.id));
+      let skippedSessions = 0;
+
+      for (const session of backupData.tables.reading_sessions) {
+        if (!existingBookIds.has(session.book_id)) {
+          skippedSessions++;
+          continue;
+        }
+        if (options.mode === 'replace') {
+          await execute(`
+            INSERT INTO reading_sessions (
+              id, book_id, cycle_id, minutes_read, pages_read, start_page, end_page, date, created_at, notes,
+              started_at, ended_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            session.id, session.book_id, session.cycle_id ?? null, session.minutes_read, session.pages_read,
+            session.start_page ?? null, session.end_page ?? null,
+            session.date, session.created_at, session.notes, session.started_at ?? null, session.ended_at ?? null
+          ]);
+        } else {
+          // Merge mode - upsert in place. REPLACE's implicit delete skips the delete
+          // triggers, leaving stale note search tokens and logging an insert.
+          await execute(`
+            INSERT INTO reading_sessions (
+              id, book_id, cycle_id, minutes_read, pages_read, start_page, end_page, date, created_at, notes,
+              started_at, ended_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+              book_id = excluded.book_id, cycle_id = excluded.cycle_id, minutes_read = excluded.minutes_read,
+              pages_read = excluded.pages_read, start_page = excluded.start_page, end_page = excluded.end_page,
+              date = excluded.date, created_at = excluded.created_at, notes = excluded.notes,
+              started_at = excluded.started_at, ended_at = excluded.ended_at
+          `, [
+            session.id, session.book_id, session.cycle_id ?? null, session.minutes_read, session.pages_read,
+            session.start_page ?? null, session.end_page ?? null,
+            session.date, session.created_at, session.notes, session.started_at ?? null, session.ended_at ?? null
+          ]);
+        }
+      }
+      if (skippedSessions > 0) {
+        console.warn(`⚠️ Skipped ${skippedSessions} reading sessions that reference missing books`);
+      }
+      imported.sessions = backupData.tables.reading_sessions.length - skippedSessions;
+      progress += 20;
+    }
+
+    // Backups made before rereads have no cycles; give their books one like the schema migration did
+    await CycleRepository.createMissing();
+
+    // Import other tables...
+    if (backupData.tables.weekly_progress?.length) {
+      onProgress?.(progress, 'Importing weekly progress...');
+      for (const weeklyProg of backupData.tables.weekly_progress) {
+        // Backups from before weekly rows have no week; the next app open rebuilds the record
+        if (!weeklyProg.week_start) {
+          continue;
+        }
+        const insertQuery = options.mode === 'replace' 
+          ? 'INSERT INTO weekly_progress'
+          : 'INSERT OR REPLACE INTO weekly_progress';
+        
+        await execute(`
+          ${insertQuery} (weeks_passed, week_start, target_reading_minutes, achived_reading_minutes, date_created, profile_id)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `, [
+          weeklyProg.weeks_passed, weeklyProg.week_start, weeklyProg.target_reading_minutes,
+          weeklyProg.achived_reading_minutes, weeklyProg.date_created, profileIdOf(weeklyProg.profile_id)
+        ]);
+      }
+      progress += 10;
+    }
+
+    if (backupData.tables.streak_days?.length) {
+      for (const streakDay of backupData.tables.streak_days) {
+        // A day already covered in this profile keeps its row
+        await execute(`
+          INSERT OR IGNORE INTO streak_days (profile_id, date, kind, created_at)
+          VALUES (?, ?, ?, ?)
+        `, [profileIdOf(streakDay.profile_id), streakDay.date, streakDay.kind, streakDay.created_at ?? null]);
+      }
+    }
+
+    if (backupData.tables.notification_preferences?.length) {
+      onProgress?.(progress, 'Importing notification preferences...');
+      for (const notifPref of backupData.tables.notification_preferences) {
+        const insertQuery = options.mode === 'replace' 
+          ? 'INSERT INTO notification_preferences'
+          : 'INSERT OR REPLACE INTO notification_preferences';
+        
+        await execute(`
+          ${insertQuery} (
+            id, notifications_enabled, daily_reminder_enabled, daily_reminder_hours_after_last_open,
+            daily_reminder_title, daily_reminder_body, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          profileIdOf(notifPref.id), notifPref.notifications_enabled, notifPref.daily_reminder_enabled,
+          notifPref.daily_reminder_hours_after_last_open, notifPref.daily_reminder_title,
+          notifPref.daily_reminder_body, notifPref.created_at, notifPref.updated_at
+        ]);
+      }
+      progress += 5;
+    }
+
+    if (backupData.tables.app_usage_tracking?.length) {
+      onProgress?.(progress, 'Importing app usage data...');
+      for (const usage of backupData.tables.app_usage_tracking) {
+        const insertQuery = options.mode === 'replace' 
+          ? 'INSERT INTO app_usage_tracking'
+          : 'INSERT OR REPLACE INTO app_usage_tracking';
+        
+        await execute(`
+          ${insertQuery} (id, last_opened_at, last_closed_at, session_count_today, date)
+          VALUES (?, ?, ?, ?, ?)
+        `, [
+          usage.id, usage.last_opened_at, usage.last_closed_at, usage.session_count_today, usage.date
+        ]);
+      }
+    }
+
+    if (options.mode === 'replace' && backupData.tables.enhanced_books) {
+      // The history described the replaced library; the restored one starts with a clean slate
+      if (targetProfileId !== undefined) {
+        await execute(
+          'DELETE FROM change_log WHERE book_id IN (SELECT id FROM enhanced_books WHERE profile_id = ?)',
+          [targetProfileId]
+        );
+      } else {
+        await execute('DELETE FROM change_log');
+      }
+    }
+
+    // Commit transaction
+    await execute('COMMIT');
+
+    // Let live queries reload everything the backup may have touched
+    notifyTablesChanged([...Object.keys(backupData.tables), 'reading_cycles']);
+    
+    onProgress?.(100, 'Import completed successfully!');
+
+  } catch (error) {
+    // Rollback on error
+    await execute('ROLLBACK');
+    throw error;
+  }
+
+  return imported;
+}
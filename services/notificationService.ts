@@ -1,19 +1,37 @@
 import Constants from 'expo-constants';
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import { AppUsageTracking, checkNotificationDatabaseIntegrity, execute, NotificationPreferences, queryFirst, repairNotificationDatabase } from '../db/db';
+import { AppUsageTracking, checkNotificationDatabaseIntegrity, execute, getActiveProfileId, NotificationPreferences, queryFirst, repairNotificationDatabase } from '../db/db';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { GoalUnit } from '../types/database';
 import { dateToLocalDateString, getTodayDateString } from '../utils/dateUtils';
 import { isDevModeEnabled } from '../utils/devMode';
+import { getReadingGoalProgress } from '../utils/readingGoal';
+import { listBookPlans } from '../utils/readingPlans';
+
+// Identifier of the ongoing reading timer notification; presenting it again replaces it
+const READING_TIMER_NOTIFICATION_ID = 'reading-timer';
+
+// Identifier of the finish-by-date reminder; scheduling it again replaces it
+const DEADLINE_REMINDER_NOTIFICATION_ID = 'deadline-reminder';
+
+// Hour of the day the finish-by-date reminder goes out
+const DEADLINE_REMINDER_HOUR = 19;
 
 // Configure notification handler
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
+  handleNotification: async (notification) => {
+    // Timer updates stay quietly in the notification list instead of popping up over the app
+    const isTimerUpdate = notification.request.content.data?.type === 'reading_timer';
+    return {
+      shouldShowAlert: !isTimerUpdate,
+      shouldPlaySound: !isTimerUpdate,
+      shouldSetBadge: false,
+      shouldShowBanner: !isTimerUpdate,
+      shouldShowList: true,
+    };
+  },
 });
 
 export class NotificationService {
@@ -37,12 +55,11 @@ export class NotificationService {
   }
 
   /**
-   * Check if a user is logged in by verifying user_preferences table
+   * Check if the active profile has finished the intro (has a user_preferences row)
    */
   private async isUserLoggedIn(): Promise<boolean> {
     try {
-      const user = await queryFirst('SELECT id FROM user_preferences WHERE id = 1');
-      return !!user;
+      return await PreferencesRepository.exists();
     } catch (error) {
       console.error('❌ Error checking user login status:', error);
       return false;
@@ -146,7 +163,8 @@ export class NotificationService {
   async getNotificationPreferences(): Promise<NotificationPreferences | null> {
     try {
       const prefs = await queryFirst<NotificationPreferences>(
-        'SELECT * FROM notification_preferences WHERE id = 1'
+        'SELECT * FROM notification_preferences WHERE id = ?',
+        [getActiveProfileId()]
       );
       
       // If no preferences exist, create default ones
@@ -154,7 +172,8 @@ export class NotificationService {
         console.log('🔔 No notification preferences found, creating defaults...');
         await this.createDefaultNotificationPreferences();
         return await queryFirst<NotificationPreferences>(
-          'SELECT * FROM notification_preferences WHERE id = 1'
+          'SELECT * FROM notification_preferences WHERE id = ?',
+          [getActiveProfileId()]
         );
       }
       
@@ -167,7 +186,8 @@ export class NotificationService {
       try {
         await this.createDefaultNotificationPreferences();
         return await queryFirst<NotificationPreferences>(
-          'SELECT * FROM notification_preferences WHERE id = 1'
+          'SELECT * FROM notification_preferences WHERE id = ?',
+          [getActiveProfileId()]
         );
       } catch (createError) {
         console.error('❌ Failed to create default notification preferences:', createError);
@@ -193,8 +213,8 @@ export class NotificationService {
       values.push(new Date().toISOString()); // updated_at
 
       await execute(
-        `UPDATE notification_preferences SET ${fields}, updated_at = ? WHERE id = 1`,
-        values
+        `UPDATE notification_preferences SET ${fields}, updated_at = ? WHERE id = ?`,
+        [...values, getActiveProfileId()]
       );
 
       // If notifications were disabled, cancel any scheduled notifications
@@ -210,11 +230,11 @@ export class NotificationService {
   }
 
   /**
-   * Check if this is a fresh app installation (no notification preferences exist yet)
+   * Check if this is a fresh app installation (no profile has notification preferences yet)
    */
   async isFirstInstallation(): Promise<boolean> {
     try {
-      const prefs = await queryFirst('SELECT id FROM notification_preferences WHERE id = 1');
+      const prefs = await queryFirst('SELECT id FROM notification_preferences LIMIT 1');
       return !prefs;
     } catch (error) {
       // If we can't check, assume it's not a first install
@@ -242,9 +262,8 @@ export class NotificationService {
         )
       `);
       
-      // Check if this is a first-time installation
-      const existingPrefs = await queryFirst('SELECT id FROM notification_preferences WHERE id = 1');
-      const isFirstInstall = !existingPrefs;
+      // Check if this is a first-time installation; later profiles reuse the permission already asked for
+      const isFirstInstall = await this.isFirstInstallation();
       
       // On first install, try to request notification permissions
       let notificationsEnabled = true; // Default to true
@@ -277,10 +296,10 @@ export class NotificationService {
         INSERT OR REPLACE INTO notification_preferences (
           id, notifications_enabled, daily_reminder_enabled, daily_reminder_hours_after_last_open,
           daily_reminder_title, daily_reminder_body, created_at, updated_at
-        ) VALUES (1, ?, ?, 5, 'Time to read! 📚', 
+        ) VALUES (?, ?, ?, 5, 'Time to read! 📚', 
           'You haven''t reached your daily reading goal yet. Keep your streak going!',
           datetime('now'), datetime('now'))
-      `, [notificationsEnabled ? 1 : 0, dailyRemindersEnabled ? 1 : 0]);
+      `, [getActiveProfileId(), notificationsEnabled ? 1 : 0, dailyRemindersEnabled ? 1 : 0]);
       
       if (isFirstInstall) {
         console.log('🔔 Created default notification preferences for first install:', {
@@ -534,6 +553,89 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Remind about books with a finish-by date that were not read today.
+   * Goes out in the evening, soon after when it is already later; in
+   * development it goes out in 1 minute.
+   */
+  async scheduleDeadlineReminder(): Promise<void> {
+    try {
+      const isLoggedIn = await this.isUserLoggedIn();
+      if (!isLoggedIn) {
+        return;
+      }
+
+      const areEnabled = await this.areNotificationsEnabled();
+      if (!areEnabled) {
+        return;
+      }
+
+      const hasPermission = await this.checkCurrentPermissions();
+      if (!hasPermission) {
+        console.log('📵 No notification permission, skipping deadline reminder');
+        return;
+      }
+
+      const today = getTodayDateString();
+      const plans = await listBookPlans();
+      const untouched = [];
+      for (const plan of plans) {
+        const readToday = await SessionRepository.getTotalsForBookBetween(plan.book.id, today, today);
+        if (plan.daysLeft > 0 && readToday.minutes === 0) {
+          untouched.push(plan);
+        }
+      }
+      if (untouched.length === 0) {
+        console.log('🎯 Every deadline book was read today, no deadline reminder needed');
+        return;
+      }
+
+      const now = new Date();
+      let triggerSeconds: number;
+      if (this.isDevelopment()) {
+        triggerSeconds = 60; // 1 minute
+        console.log(`🔧 [DEV MODE] Scheduling deadline reminder in 1 minute for testing`);
+      } else {
+        const reminderTime = new Date(now);
+        reminderTime.setHours(DEADLINE_REMINDER_HOUR, 0, 0, 0);
+        triggerSeconds = Math.max(60, Math.round((reminderTime.getTime() - now.getTime()) / 1000));
+        if (dateToLocalDateString(new Date(now.getTime() + triggerSeconds * 1000)) !== today) {
+          console.log('🌙 Too late for a deadline reminder today');
+          return;
+        }
+      }
+
+      const [plan] = untouched;
+      const quota = plan.dailyQuota === null
+        ? ''
+        : ` Read ${plan.dailyQuota} ${plan.unit === 'minutes' ? 'minutes' : 'pages'} today to stay on track.`;
+      const others = untouched.length > 1 ? ` (+${untouched.length - 1} more)` : '';
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: DEADLINE_REMINDER_NOTIFICATION_ID,
+        content: {
+          title: plan.daysLeft === 1 ? '⏰ Due today' : `⏰ ${plan.daysLeft} days to go`,
+          body: `"${plan.book.name}" hasn't been opened today${others}.${quota}`,
+          sound: 'default',
+          data: {
+            type: 'deadline_reminder',
+            bookId: plan.book.id,
+            scheduledAt: now.toISOString(),
+            isDevelopment: this.isDevelopment(),
+          },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: triggerSeconds
+        },
+      });
+
+      console.log(`✅ Scheduled deadline reminder for "${plan.book.name}" in ${Math.round(triggerSeconds / 60)} minute(s)`);
+    } catch (error) {
+      console.error('❌ Error scheduling deadline reminder:', error);
+    }
+  }
+
   /**
    * Cancel the currently scheduled notification
    */
@@ -553,66 +655,62 @@ export class NotificationService {
   }
 
   /**
-   * Check if daily reading goal has been met today
+   * Show (or refresh) the ongoing notification for the reading timer.
+   * Does not ask for permission; without it the timer simply runs silently.
    */
-  async isDailyGoalMet(): Promise<boolean> {
+  async showReadingTimerNotification(title: string, body: string): Promise<void> {
     try {
-      const today = getTodayDateString();
-      
-      // Get user's current daily reading goal with fallback for missing columns
-      let userPrefs;
-      try {
-        // First try to get the current reading rate if the column exists
-        userPrefs = await queryFirst<{current_reading_rate_minutes_per_day: number}>(
-          'SELECT current_reading_rate_minutes_per_day FROM user_preferences WHERE id = 1'
-        );
-      } catch (columnError) {
-        // If the column doesn't exist, fall back to basic user preferences
-        console.log('📝 current_reading_rate_minutes_per_day column not found, using default goal');
-        userPrefs = null;
+      const hasPermission = await this.checkCurrentPermissions();
+      if (!hasPermission) {
+        return;
       }
-      
-      // Determine daily goal with fallbacks
-      let dailyGoal = 30; // Default fallback
-      
-      if (userPrefs?.current_reading_rate_minutes_per_day) {
-        dailyGoal = userPrefs.current_reading_rate_minutes_per_day;
-      } else {
-        // Try to get from other possible columns as fallback
-        try {
-          const basicUserPrefs = await queryFirst<{yearly_book_goal?: number}>(
-            'SELECT yearly_book_goal FROM user_preferences WHERE id = 1'
-          );
-          // If user exists but no current reading rate, use a calculated default
-          if (basicUserPrefs) {
-            dailyGoal = 30; // Conservative default
-          } else {
-            // No user preferences exist yet
-            return false;
-          }
-        } catch (error) {
-          console.log('📝 No user preferences found, assuming goal not met');
-          return false;
-        }
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync('reading-timer', {
+          name: 'Reading timer',
+          importance: Notifications.AndroidImportance.LOW,
+        });
       }
 
-      // Get today's total reading minutes
-      let todayStats;
-      try {
-        todayStats = await queryFirst<{total_minutes: number}>(
-          `SELECT SUM(minutes_read) as total_minutes 
-           FROM reading_sessions 
-           WHERE date = ?`,
-          [today]
-        );
-      } catch (sessionError) {
-        // reading_sessions table might not exist yet
-        console.log('📝 reading_sessions table not found, assuming no reading today');
+      await Notifications.scheduleNotificationAsync({
+        identifier: READING_TIMER_NOTIFICATION_ID,
+        content: {
+          title,
+          body,
+          sticky: true,
+          autoDismiss: false,
+          data: { type: 'reading_timer' },
+        },
+        trigger: Platform.OS === 'android' ? { channelId: 'reading-timer' } : null,
+      });
+    } catch (error) {
+      console.error('❌ Error showing reading timer notification:', error);
+    }
+  }
+
+  /**
+   * Remove the reading timer notification once the timer is stopped or discarded
+   */
+  async dismissReadingTimerNotification(): Promise<void> {
+    try {
+      await Notifications.dismissNotificationAsync(READING_TIMER_NOTIFICATION_ID);
+    } catch (error) {
+      console.error('❌ Error dismissing reading timer notification:', error);
+    }
+  }
+
+  /**
+   * Check if the reading goal has been met, today or this month for a book goal
+   */
+  async isDailyGoalMet(): Promise<boolean> {
+    try {
+      // No user preferences exist yet
+      if (!(await PreferencesRepository.exists())) {
         return false;
       }
 
-      const totalMinutesToday = todayStats?.total_minutes || 0;
-      return totalMinutesToday >= dailyGoal;
+      const { amount, progress } = await getReadingGoalProgress();
+      return progress >= amount;
       
     } catch (error) {
       console.error('❌ Error checking daily goal:', error);
@@ -621,90 +719,76 @@ export class NotificationService {
   }
 
   /**
-   * Get remaining time to reach daily reading goal
+   * Get what is left to reach the reading goal, in the goal's unit
    */
-  async getRemainingTimeToGoal(): Promise<{
-    remainingMinutes: number;
-    dailyGoal: number;
-    minutesRead: number;
-    formattedTime: string;
+  async getRemainingToGoal(): Promise<{
+    unit: GoalUnit;
+    remaining: number;
+    goal: number;
+    progress: number;
+    formattedRemaining: string;
   }> {
     try {
-      const today = getTodayDateString();
-      
-      // Get user's daily reading goal
-      let userPrefs;
-      try {
-        userPrefs = await queryFirst<{current_reading_rate_minutes_per_day: number}>(
-          'SELECT current_reading_rate_minutes_per_day FROM user_preferences WHERE id = 1'
-        );
-      } catch (columnError) {
-        userPrefs = null;
-      }
-      
-      const dailyGoal = userPrefs?.current_reading_rate_minutes_per_day || 30;
-
-      // Get today's total reading minutes
-      let todayStats;
-      try {
-        todayStats = await queryFirst<{total_minutes: number}>(
-          `SELECT SUM(minutes_read) as total_minutes 
-           FROM reading_sessions 
-           WHERE date = ?`,
-          [today]
-        );
-      } catch (sessionError) {
-        todayStats = null;
-      }
-
-      const minutesRead = todayStats?.total_minutes || 0;
-      const remainingMinutes = Math.max(0, dailyGoal - minutesRead);
-
-      // Format remaining time
-      let formattedTime = '';
-      if (remainingMinutes === 0) {
-        formattedTime = '0 minutes';
-      } else if (remainingMinutes < 60) {
-        formattedTime = `${remainingMinutes} minute${remainingMinutes !== 1 ? 's' : ''}`;
+      const { unit, amount: goal, progress } = await getReadingGoalProgress();
+      const remaining = Math.max(0, goal - progress);
+
+      // Format what is left
+      let formattedRemaining = '';
+      if (unit === 'pages') {
+        formattedRemaining = `${remaining} page${remaining !== 1 ? 's' : ''}`;
+      } else if (unit === 'books') {
+        formattedRemaining = `${remaining} book${remaining !== 1 ? 's' : ''}`;
+      } else if (remaining === 0) {
+        formattedRemaining = '0 minutes';
+      } else if (remaining < 60) {
+        formattedRemaining = `${remaining} minute${remaining !== 1 ? 's' : ''}`;
       } else {
-        const hours = Math.floor(remainingMinutes / 60);
-        const minutes = remainingMinutes % 60;
+        const hours = Math.floor(remaining / 60);
+        const minutes = remaining % 60;
         if (minutes === 0) {
-          formattedTime = `${hours} hour${hours !== 1 ? 's' : ''}`;
+          formattedRemaining = `${hours} hour${hours !== 1 ? 's' : ''}`;
         } else {
-          formattedTime = `${hours}h ${minutes}m`;
+          formattedRemaining = `${hours}h ${minutes}m`;
         }
       }
 
       return {
-        remainingMinutes,
-        dailyGoal,
-        minutesRead,
-        formattedTime
+        unit,
+        remaining,
+        goal,
+        progress,
+        formattedRemaining
       };
     } catch (error) {
       console.error('❌ Error getting remaining time to goal:', error);
       return {
-        remainingMinutes: 30,
-        dailyGoal: 30,
-        minutesRead: 0,
-        formattedTime: '30 minutes'
+        unit: 'minutes',
+        remaining: 30,
+        goal: 30,
+        progress: 0,
+        formattedRemaining: '30 minutes'
       };
     }
   }
 
   /**
-   * Generate notification message with remaining time to goal
+   * Generate notification message with what is left to reach the goal
    */
   async generateNotificationMessage(baseMessage: string): Promise<string> {
     try {
-      const goalStatus = await this.getRemainingTimeToGoal();
+      const goalStatus = await this.getRemainingToGoal();
       
-      if (goalStatus.remainingMinutes === 0) {
-        return 'Congratulations! You\'ve already reached your daily reading goal! 🎉';
+      if (goalStatus.remaining === 0) {
+        return goalStatus.unit === 'books'
+          ? 'Congratulations! You\'ve already reached this month\'s book goal! 🎉'
+          : 'Congratulations! You\'ve already reached your daily reading goal! 🎉';
       }
-      
-      return `${baseMessage} You have ${goalStatus.formattedTime} left to reach your daily goal of ${goalStatus.dailyGoal} minutes.`;
+
+      if (goalStatus.unit === 'books') {
+        return `${baseMessage} You have ${goalStatus.formattedRemaining} left to finish this month to reach your goal of ${goalStatus.goal}.`;
+      }
+      const goalText = goalStatus.unit === 'pages' ? `${goalStatus.goal} pages` : `${goalStatus.goal} minutes`;
+      return `${baseMessage} You have ${goalStatus.formattedRemaining} left to reach your daily goal of ${goalText}.`;
     } catch (error) {
       console.error('❌ Error generating notification message:', error);
       return baseMessage;
@@ -759,6 +843,9 @@ export class NotificationService {
         
         // Schedule notification if goal not met
         await this.checkAndScheduleNotification();
+
+        // Remind about deadline books left untouched today
+        await this.scheduleDeadlineReminder();
       }
     } catch (error) {
       console.error('❌ Error handling app state change:', error);
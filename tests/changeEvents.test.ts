@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { getWrittenTable, notifyTablesChanged, recordStatement, subscribeToTables } from '../db/changeEvents';
+
+// Notifications are delivered on the next tick
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('getWrittenTable', () => {
+  test('finds the table of every write form the repositories use', () => {
+    assert.equal(getWrittenTable('INSERT INTO reading_sessions (book_id) VALUES (?)'), 'reading_sessions');
+    assert.equal(getWrittenTable('INSERT OR REPLACE INTO weekly_progress VALUES (?)'), 'weekly_progress');
+    assert.equal(getWrittenTable('insert or ignore into streak_days VALUES (?)'), 'streak_days');
+    assert.equal(getWrittenTable('REPLACE INTO user_preferences VALUES (?)'), 'user_preferences');
+    assert.equal(getWrittenTable('UPDATE enhanced_books SET current_page = ?'), 'enhanced_books');
+    assert.equal(getWrittenTable('UPDATE OR IGNORE reading_cycles SET finished_at = ?'), 'reading_cycles');
+    assert.equal(getWrittenTable('\n  DELETE FROM trash WHERE id = ?'), 'trash');
+    assert.equal(getWrittenTable('DROP TABLE IF EXISTS "books_fts"'), 'books_fts');
+    assert.equal(getWrittenTable('ALTER TABLE Enhanced_Books ADD COLUMN notes TEXT'), 'enhanced_books');
+  });
+
+  test('ignores reads and other statements', () => {
+    assert.equal(getWrittenTable('SELECT * FROM enhanced_books'), null);
+    assert.equal(getWrittenTable('WITH days AS (SELECT 1) SELECT * FROM days'), null);
+    assert.equal(getWrittenTable('PRAGMA foreign_keys = ON'), null);
+    assert.equal(getWrittenTable('BEGIN TRANSACTION'), null);
+  });
+});
+
+describe('table change notifications', () => {
+  const unsubscribers: (() => void)[] = [];
+
+  // Collect the change sets a listener receives for the given tables
+  const listen = (tables: string[]): ReadonlySet<string>[] => {
+    const received: ReadonlySet<string>[] = [];
+    unsubscribers.push(subscribeToTables(tables, changed => received.push(changed)));
+    return received;
+  };
+
+  afterEach(async () => {
+    // Leave no transaction open and nothing pending for the next test
+    recordStatement('ROLLBACK');
+    await nextTick();
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+  });
+
+  test('batches the writes of one tick into a single notification', async () => {
+    const received = listen(['reading_sessions']);
+
+    recordStatement('INSERT INTO reading_sessions (book_id) VALUES (1)');
+    recordStatement('UPDATE reading_timer SET paused_at = NULL');
+    assert.equal(received.length, 0);
+
+    await nextTick();
+    assert.deepEqual(received.map(changed => [...changed].sort()), [['reading_sessions', 'reading_timer']]);
+  });
+
+  test('only calls listeners subscribed to a changed table', async () => {
+    const sessions = listen(['reading_sessions']);
+    const trash = listen(['trash']);
+
+    recordStatement('DELETE FROM trash WHERE id = 1');
+    await nextTick();
+
+    assert.equal(sessions.length, 0);
+    assert.equal(trash.length, 1);
+  });
+
+  test('holds writes inside a transaction until COMMIT', async () => {
+    const received = listen(['reading_sessions']);
+
+    recordStatement('BEGIN TRANSACTION');
+    recordStatement('INSERT INTO reading_sessions (book_id) VALUES (1)');
+    await nextTick();
+    assert.equal(received.length, 0);
+
+    recordStatement('COMMIT');
+    await nextTick();
+    assert.deepEqual(received.map(changed => [...changed]), [['reading_sessions']]);
+  });
+
+  test('drops writes inside a transaction on ROLLBACK, but not on ROLLBACK TO a savepoint', async () => {
+    const received = listen(['reading_sessions']);
+
+    recordStatement('BEGIN');
+    recordStatement('INSERT INTO reading_sessions (book_id) VALUES (1)');
+    recordStatement('ROLLBACK TO SAVEPOINT before_insert');
+    recordStatement('ROLLBACK');
+    await nextTick();
+    assert.equal(received.length, 0);
+
+    // Writes after the rolled back transaction are announced right away again
+    recordStatement('INSERT INTO reading_sessions (book_id) VALUES (1)');
+    await nextTick();
+    assert.equal(received.length, 1);
+  });
+
+  test('deleting a book also announces the tables its rows cascade to', async () => {
+    const received = listen(['reading_timer']);
+
+    notifyTablesChanged(['enhanced_books']);
+    await nextTick();
+
+    assert.deepEqual([...received[0]].sort(), ['enhanced_books', 'reading_cycles', 'reading_sessions', 'reading_timer']);
+  });
+
+  test('stops calling a listener once it unsubscribes', async () => {
+    const received: ReadonlySet<string>[] = [];
+    const unsubscribe = subscribeToTables(['trash'], changed => received.push(changed));
+    unsubscribe();
+
+    recordStatement('DELETE FROM trash');
+    await nextTick();
+    assert.equal(received.length, 0);
+  });
+});
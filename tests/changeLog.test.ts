@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { ChangeLogRepository, diffSnapshots } from '../db/changeLogRepository';
+import { execute, queryAll } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { TrashRepository } from '../db/trashRepository';
+import { daysAgo, useTestDatabase } from './testDatabase';
+
+async function addBook(): Promise<number> {
+  return BookRepository.create({ name: 'Middlemarch', author: 'George Eliot', page: 880, reading_status: 'currently_reading' });
+}
+
+describe('diffSnapshots', () => {
+  test('lists only the columns that changed', () => {
+    assert.deepEqual(
+      diffSnapshots({ id: 1, minutes_read: 20, notes: null }, { id: 1, minutes_read: 30, notes: null }),
+      [{ field: 'minutes_read', before: 20, after: 30 }]
+    );
+  });
+});
+
+describe('ChangeLogRepository', () => {
+  useTestDatabase();
+
+  test('records inserts, updates and deletes with full row snapshots', async () => {
+    const bookId = await addBook();
+    const sessionId = await SessionRepository.log({ bookId, minutes: 20, date: daysAgo(0) });
+    await SessionRepository.update(sessionId, { minutes: 45 });
+    await SessionRepository.delete(sessionId);
+
+    const history = await ChangeLogRepository.listForBook(bookId);
+    assert.deepEqual(
+      history.map(entry => [entry.table_name, entry.operation]),
+      [
+        ['reading_sessions', 'delete'],
+        ['reading_sessions', 'update'],
+        ['reading_sessions', 'insert'],
+        ['enhanced_books', 'insert'],
+      ]
+    );
+
+    // Snapshots cover every column, so a schema change that forgets to refresh the triggers fails here
+    const columns = await queryAll<{ name: string }>('PRAGMA table_info(reading_sessions)');
+    assert.deepEqual(Object.keys(history[0].before!).sort(), columns.map(column => column.name).sort());
+    assert.deepEqual(history[1].changes, [{ field: 'minutes_read', before: 20, after: 45 }]);
+  });
+
+  test('skips updates that change nothing', async () => {
+    const bookId = await addBook();
+    await BookRepository.setCurrentPage(bookId, 0);
+
+    assert.equal((await ChangeLogRepository.listForBook(bookId)).length, 1);
+  });
+
+  test('reverting an update restores only the columns it changed', async () => {
+    const bookId = await addBook();
+    const sessionId = await SessionRepository.log({ bookId, minutes: 20, pages: 10, date: daysAgo(0), notes: 'prelude' });
+    await SessionRepository.update(sessionId, { minutes: 20, pages: 40, notes: 'prelude' });
+    // The book's synced current_page is logged too; pick the session edit
+    const pagesEdit = (await ChangeLogRepository.listForBook(bookId))
+      .find(entry => entry.table_name === 'reading_sessions' && entry.operation === 'update')!;
+    await SessionRepository.update(sessionId, { minutes: 20, pages: 40, notes: 'finale' });
+
+    await ChangeLogRepository.revert(pagesEdit.id);
+
+    const session = await SessionRepository.getById(sessionId);
+    assert.equal(session?.pages_read, 10);
+    assert.equal(session?.notes, 'finale');
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 10);
+  });
+
+  test('reverting a delete brings the session back from the trash', async () => {
+    const bookId = await addBook();
+    const sessionId = await SessionRepository.log({ bookId, minutes: 20, date: daysAgo(0) });
+    await TrashRepository.trashSession(sessionId);
+    const [deletion] = await ChangeLogRepository.listForBook(bookId);
+
+    await ChangeLogRepository.revert(deletion.id);
+
+    assert.equal((await SessionRepository.getById(sessionId))?.minutes_read, 20);
+    assert.equal(await TrashRepository.count(), 0);
+  });
+
+  test('reverting a move to another book resyncs the current page of both books', async () => {
+    const bookId = await addBook();
+    const otherBookId = await BookRepository.create({ name: 'Persuasion', author: 'Jane Austen', page: 250, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId, minutes: 20, pages: 10, date: daysAgo(1) });
+    const sessionId = await SessionRepository.log({ bookId, minutes: 30, pages: 30, date: daysAgo(0) });
+    await execute('UPDATE reading_sessions SET book_id = ? WHERE id = ?', [otherBookId, sessionId]);
+    await SessionRepository.syncBookCurrentPage(bookId);
+    await SessionRepository.syncBookCurrentPage(otherBookId);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 10);
+    // The synced current pages are logged too; pick the session move
+    const move = (await ChangeLogRepository.listForBook(otherBookId))
+      .find(entry => entry.table_name === 'reading_sessions' && entry.operation === 'update')!;
+
+    await ChangeLogRepository.revert(move.id);
+
+    assert.equal((await SessionRepository.getById(sessionId))?.book_id, bookId);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 40);
+  });
+
+  test('reverting a session delete fails clearly once its book is gone', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 20, date: daysAgo(0) });
+    // Deleting the book cascades to its sessions, which are logged as deletes
+    await BookRepository.delete(bookId);
+    const deletion = (await ChangeLogRepository.listForBook(bookId))
+      .find(entry => entry.table_name === 'reading_sessions' && entry.operation === 'delete')!;
+
+    await assert.rejects(ChangeLogRepository.revert(deletion.id), /Book not found/);
+  });
+
+  test('reverting an insert moves the session to the trash', async () => {
+    const bookId = await addBook();
+    const sessionId = await SessionRepository.log({ bookId, minutes: 20, date: daysAgo(0) });
+    const [insertion] = await ChangeLogRepository.listForBook(bookId);
+
+    await ChangeLogRepository.revert(insertion.id);
+
+    assert.equal(await SessionRepository.getById(sessionId), null);
+    assert.equal(await TrashRepository.count(), 1);
+  });
+});
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { ChangeLogRepository } from '../db/changeLogRepository';
+import { EnhancedBook, queryAll } from '../db/db';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { SearchRepository } from '../db/searchRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import {
+  BackupOptions,
+  buildBackupData,
+  restoreBackupData,
+  validateBackupContent
+} from '../services/backupData';
+import { useTestDatabase } from './testDatabase';
+
+const ALL_TABLES: BackupOptions = {
+  includeBooks: true,
+  includeReadingSessions: true,
+  includeUserPreferences: true,
+  includeWeeklyProgress: true,
+  includeNotificationPreferences: true,
+  includeAppUsage: true,
+};
+
+async function seedLibrary(): Promise<number> {
+  await PreferencesRepository.create({
+    username: 'reader',
+    yearly_book_goal: 12,
+    preferred_genres: '[]',
+    weekly_reading_goal: 210,
+    initial_reading_rate_minutes_per_day: 15,
+    end_reading_rate_goal_minutes_per_day: 45,
+    end_reading_rate_goal_date: '2025-06-30',
+    current_reading_rate_minutes_per_day: 15,
+    weekly_reading_rate_increase_minutes: 2,
+    weekly_reading_rate_increase_minutes_percentage: 5,
+    goal_progression_strategy: 'linear',
+  });
+  const bookId = await BookRepository.create({
+    name: 'Dune', author: 'Frank Herbert', page: 412, reading_status: 'currently_reading'
+  });
+  await SessionRepository.log({ bookId, minutes: 30, pages: 25, date: '2025-01-01' });
+  await SessionRepository.log({ bookId, minutes: 45, pages: 40, date: '2025-01-02', notes: 'Arrakis' });
+  return bookId;
+}
+
+describe('backup round trip', () => {
+  useTestDatabase();
+
+  test('replace mode restores exactly what was exported', async () => {
+    await seedLibrary();
+    const backup = await buildBackupData(ALL_TABLES);
+    const booksBefore = await queryAll('SELECT * FROM enhanced_books ORDER BY id');
+    const sessionsBefore = await queryAll('SELECT * FROM reading_sessions ORDER BY id');
+
+    // Changes made after the backup are discarded on restore
+    await BookRepository.create({ name: 'Emma', author: 'Jane Austen', page: 474, reading_status: 'want_to_read' });
+    await SessionRepository.delete((sessionsBefore[0] as { id: number }).id);
+
+    const imported = await restoreBackupData(backup, { mode: 'replace', validateIntegrity: true });
+
+    assert.deepEqual(imported, { books: 1, sessions: 2 });
+    assert.deepEqual(await queryAll('SELECT * FROM enhanced_books ORDER BY id'), booksBefore);
+    assert.deepEqual(await queryAll('SELECT * FROM reading_sessions ORDER BY id'), sessionsBefore);
+    assert.equal((await PreferencesRepository.get())?.username, 'reader');
+    assert.equal((await PreferencesRepository.get())?.goal_progression_strategy, 'linear');
+  });
+
+  test('merge mode updates books without dropping their sessions', async () => {
+    const bookId = await seedLibrary();
+    const backup = await buildBackupData({ ...ALL_TABLES, includeReadingSessions: false });
+    backup.tables.enhanced_books![0].rating = 5;
+
+    await restoreBackupData(backup, { mode: 'merge', validateIntegrity: true });
+
+    assert.equal((await BookRepository.getById(bookId))?.rating, 5);
+    const sessions = await queryAll('SELECT * FROM reading_sessions WHERE book_id = ?', [bookId]);
+    assert.equal(sessions.length, 2);
+  });
+
+  test('merge mode edits existing sessions in place, keeping search and history in step', async () => {
+    const bookId = await seedLibrary();
+    const backup = await buildBackupData(ALL_TABLES);
+    const edited = backup.tables.reading_sessions!.find(session => session.notes === 'Arrakis')!;
+    edited.notes = 'Caladan';
+
+    await restoreBackupData(backup, { mode: 'merge', validateIntegrity: true });
+
+    assert.equal((await SearchRepository.searchSessions('Arrakis')).length, 0);
+    assert.deepEqual((await SearchRepository.searchSessions('Caladan')).map(session => session.id), [edited.id]);
+    const [change] = await ChangeLogRepository.listForBook(bookId);
+    assert.equal(change.operation, 'update');
+    assert.deepEqual(change.changes, [{ field: 'notes', before: 'Arrakis', after: 'Caladan' }]);
+  });
+
+  test('skips sessions whose book is not in the backup', async () => {
+    await seedLibrary();
+    const backup = await buildBackupData(ALL_TABLES);
+    backup.tables.reading_sessions![1].book_id = 99;
+
+    const imported = await restoreBackupData(backup, { mode: 'replace', validateIntegrity: true });
+
+    assert.equal(imported.sessions, 1);
+    assert.equal((await queryAll('SELECT * FROM reading_sessions')).length, 1);
+  });
+});
+
+describe('validateBackupContent', () => {
+  useTestDatabase();
+
+  test('accepts a fresh backup and reports its contents', async () => {
+    await seedLibrary();
+    const backup = await buildBackupData(ALL_TABLES);
+
+    const result = validateBackupContent(JSON.stringify(backup));
+
+    assert.equal(result.isValid, true);
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.stats.totalBooks, 1);
+    assert.equal(result.stats.totalSessions, 2);
+    assert.equal(result.stats.hasUserPreferences, true);
+  });
+
+  test('rejects backups from another app', async () => {
+    const backup = await buildBackupData(ALL_TABLES);
+
+    const result = validateBackupContent(JSON.stringify({ ...backup, app: 'other' }));
+
+    assert.equal(result.isValid, false);
+    assert.match(result.errors[0], /Invalid app identifier/);
+  });
+
+  test('rejects books with a reading status the app does not know', async () => {
+    await seedLibrary();
+    const backup = await buildBackupData(ALL_TABLES);
+    backup.tables.enhanced_books![0].reading_status = 'abandoned' as EnhancedBook['reading_status'];
+
+    const result = validateBackupContent(JSON.stringify(backup));
+
+    assert.equal(result.isValid, false);
+    assert.deepEqual(result.errors, ['1 books have an unknown reading status']);
+  });
+
+  test('rejects files that are not JSON', () => {
+    const result = validateBackupContent('not a backup');
+
+    assert.equal(result.isValid, false);
+    assert.equal(result.errors.length, 1);
+  });
+});
@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  checkNotificationDatabaseIntegrity,
+  execute,
+  getDatabaseVersion,
+  initializeDatabase,
+  queryAll,
+  queryFirst,
+  resetInitializationFlag
+} from '../db/db';
+import { LATEST_DB_VERSION } from '../db/migrations';
+import { useTestDatabase } from './testDatabase';
+
+async function columnNames(table: string): Promise<string[]> {
+  const columns = await queryAll<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.map(column => column.name);
+}
+
+describe('initializeDatabase', () => {
+  useTestDatabase();
+
+  test('creates every table with its required columns', async () => {
+    const expectedColumns: Record<string, string[]> = {
+      enhanced_books: [
+        'id', 'name', 'author', 'page', 'isbn', 'cover_id', 'cover_url',
+        'first_publish_year', 'publisher', 'language', 'description', 'subjects',
+        'open_library_key', 'author_key', 'rating', 'date_added', 'date_started',
+        'date_finished', 'current_page', 'reading_status', 'notes', 'archived_at'
+      ],
+      user_preferences: [
+        'id', 'username', 'yearly_book_goal', 'preferred_genres', 'created_at',
+        'updated_at', 'weekly_reading_goal', 'initial_reading_rate_minutes_per_day',
+        'end_reading_rate_goal_minutes_per_day', 'end_reading_rate_goal_date',
+        'current_reading_rate_minutes_per_day', 'current_reading_rate_last_updated',
+        'weekly_reading_rate_increase_minutes', 'weekly_reading_rate_increase_minutes_percentage'
+      ],
+      reading_sessions: ['id', 'book_id', 'minutes_read', 'pages_read', 'date', 'created_at', 'notes'],
+      weekly_progress: ['id', 'weeks_passed', 'target_reading_minutes', 'achived_reading_minutes', 'date_created'],
+      notification_preferences: [
+        'id', 'notifications_enabled', 'daily_reminder_enabled', 'daily_reminder_hours_after_last_open',
+        'daily_reminder_title', 'daily_reminder_body', 'created_at', 'updated_at'
+      ],
+      app_usage_tracking: ['id', 'last_opened_at', 'last_closed_at', 'session_count_today', 'date'],
+    };
+
+    for (const [table, expected] of Object.entries(expectedColumns)) {
+      const actual = await columnNames(table);
+      const missing = expected.filter(column => !actual.includes(column));
+      assert.deepEqual(missing, [], `${table} is missing columns`);
+    }
+  });
+
+  test('records the latest schema version', async () => {
+    assert.equal(await getDatabaseVersion(), LATEST_DB_VERSION);
+  });
+
+  test('is safe to run again on an up-to-date database', async () => {
+    await execute(
+      "INSERT INTO enhanced_books (name, author, page) VALUES ('Dune', 'Frank Herbert', 412)"
+    );
+
+    resetInitializationFlag();
+    await initializeDatabase();
+
+    const books = await queryAll('SELECT * FROM enhanced_books');
+    assert.equal(books.length, 1);
+    assert.equal(await getDatabaseVersion(), LATEST_DB_VERSION);
+  });
+
+  test('indexes reading_sessions by date and book', async () => {
+    const indexes = await queryAll<{ name: string }>('PRAGMA index_list(reading_sessions)');
+    const names = indexes.map(index => index.name);
+
+    assert.ok(names.includes('idx_reading_sessions_date'));
+    assert.ok(names.includes('idx_reading_sessions_book_id'));
+  });
+
+  test('creates the notification tables without default preferences', async () => {
+    const integrity = await checkNotificationDatabaseIntegrity();
+
+    assert.equal(integrity.notification_preferences_exists, true);
+    assert.equal(integrity.app_usage_tracking_exists, true);
+    // NotificationService creates the defaults during first-time setup
+    assert.equal(integrity.notification_preferences_has_defaults, false);
+  });
+
+  test('deleting a book cascades to its reading sessions', async () => {
+    const book = await execute(
+      "INSERT INTO enhanced_books (name, author, page) VALUES ('Dune', 'Frank Herbert', 412)"
+    );
+    await execute(
+      "INSERT INTO reading_sessions (book_id, minutes_read, date) VALUES (?, 30, '2025-01-01')",
+      [book.lastInsertRowId]
+    );
+
+    await execute('DELETE FROM enhanced_books WHERE id = ?', [book.lastInsertRowId]);
+
+    const sessions = await queryAll('SELECT * FROM reading_sessions');
+    assert.equal(sessions.length, 0);
+  });
+
+  test('rejects sessions for books that do not exist', async () => {
+    await assert.rejects(
+      execute("INSERT INTO reading_sessions (book_id, minutes_read, date) VALUES (999, 30, '2025-01-01')"),
+      /FOREIGN KEY/
+    );
+  });
+});
+
+describe('upgrading a version 3 database', () => {
+  useTestDatabase({ initialize: false });
+
+  // Version 3 schema: reading_sessions has no foreign key and may point at deleted books
+  async function createVersion3Database(): Promise<void> {
+    await execute('CREATE TABLE database_version (id INTEGER PRIMARY KEY, version INTEGER NOT NULL, updated_at DATETIME)');
+    await execute('INSERT INTO database_version (id, version) VALUES (1, 3)');
+    await execute(`
+      CREATE TABLE enhanced_books (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, author TEXT NOT NULL,
+        page INTEGER NOT NULL, isbn TEXT, cover_id INTEGER, cover_url TEXT,
+        first_publish_year INTEGER, publisher TEXT, language TEXT DEFAULT 'eng',
+        description TEXT, subjects TEXT, open_library_key TEXT, author_key TEXT,
+        rating REAL, date_added DATETIME DEFAULT CURRENT_TIMESTAMP, date_started DATETIME,
+        date_finished DATETIME, current_page INTEGER DEFAULT 0,
+        reading_status TEXT DEFAULT 'want_to_read', notes TEXT
+      )
+    `);
+    await execute(`
+      CREATE TABLE user_preferences (
+        id INTEGER PRIMARY KEY, username TEXT NOT NULL, yearly_book_goal INTEGER NOT NULL
+      )
+    `);
+    await execute(`
+      CREATE TABLE weekly_progress (
+        id INTEGER PRIMARY KEY, weeks_passed INTEGER NOT NULL DEFAULT 0,
+        target_reading_minutes INTEGER NOT NULL DEFAULT 210, achived_reading_minutes INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+    await execute(`
+      CREATE TABLE reading_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, book_id INTEGER NOT NULL,
+        minutes_read INTEGER NOT NULL, pages_read INTEGER, date TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP, notes TEXT
+      )
+    `);
+  }
+
+  test('keeps orphaned sessions by attaching them to archived placeholder books', async () => {
+    await createVersion3Database();
+    await execute("INSERT INTO enhanced_books (id, name, author, page) VALUES (1, 'Dune', 'Frank Herbert', 412)");
+    await execute("INSERT INTO reading_sessions (book_id, minutes_read, date) VALUES (1, 20, '2025-01-01')");
+    await execute("INSERT INTO reading_sessions (book_id, minutes_read, date) VALUES (7, 45, '2025-01-02')");
+
+    await initializeDatabase();
+
+    assert.equal(await getDatabaseVersion(), LATEST_DB_VERSION);
+
+    const sessions = await queryAll('SELECT book_id, minutes_read FROM reading_sessions ORDER BY id');
+    assert.deepEqual(sessions, [
+      { book_id: 1, minutes_read: 20 },
+      { book_id: 7, minutes_read: 45 },
+    ]);
+
+    const placeholder = await queryFirst<{ archived_at: string | null }>(
+      'SELECT archived_at FROM enhanced_books WHERE id = 7'
+    );
+    assert.ok(placeholder?.archived_at, 'placeholder book should be archived');
+  });
+
+  test('places older weekly progress rows in the weeks they were recorded', async () => {
+    await createVersion3Database();
+    await execute('ALTER TABLE weekly_progress ADD COLUMN date_created DATETIME');
+    await execute(`
+      INSERT INTO weekly_progress (id, weeks_passed, achived_reading_minutes, date_created) VALUES
+        (1, 0, 100, '2025-01-06 09:00:00'),
+        (2, 1, 150, '2025-01-15 10:00:00'),
+        (3, 1, 160, '2025-01-16 10:00:00'),
+        (4, 2, 120, NULL),
+        (5, 3, 90, '2025-01-29 08:00:00')
+    `);
+
+    await initializeDatabase();
+
+    const weeks = await queryAll('SELECT id, week_start, achived_reading_minutes FROM weekly_progress ORDER BY week_start');
+    assert.deepEqual(weeks, [
+      { id: 1, week_start: '2025-01-06', achived_reading_minutes: 100 },
+      { id: 3, week_start: '2025-01-13', achived_reading_minutes: 160 },
+      { id: 4, week_start: '2025-01-20', achived_reading_minutes: 120 },
+      { id: 5, week_start: '2025-01-27', achived_reading_minutes: 90 },
+    ]);
+  });
+});
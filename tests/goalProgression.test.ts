@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { execute } from '../db/db';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { ProfileRepository } from '../db/profileRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { TrashRepository } from '../db/trashRepository';
+import { WeeklyProgressRepository } from '../db/weeklyProgressRepository';
+import { GoalProgressionStrategy } from '../types/database';
+import { dateToLocalDateString, getWeekStart, localDateStringToDate } from '../utils/dateUtils';
+import { getGoalPlanSummary, isGoalPlanFinished } from '../utils/goalPlan';
+import { buildGoalSchedule, buildProgressionSettings, getNextWeeklyGoal } from '../utils/goalProgression';
+import { syncWeeklyProgress } from '../utils/weeklyProgress';
+import { daysAgo, useTestDatabase } from './testDatabase';
+
+describe('goal progression strategies', () => {
+  useTestDatabase();
+
+  test('each strategy ramps the daily goal up to the target and stops there', () => {
+    const settings = buildProgressionSettings(20, 30, 4);
+    assert.equal(settings.weeklyIncreaseMinutes, 3);
+
+    assert.deepEqual(buildGoalSchedule('linear', settings, 6), [20, 23, 26, 29, 30, 30]);
+    assert.deepEqual(buildGoalSchedule('percentage', settings, 5), [20, 23, 26, 30, 30]);
+    assert.deepEqual(buildGoalSchedule('fixed', settings, 3), [20, 20, 20]);
+    assert.deepEqual(buildGoalSchedule('adaptive', settings, 6), [20, 23, 26, 29, 30, 30]);
+  });
+
+  test('the percentage strategy always adds at least a minute', () => {
+    const settings = buildProgressionSettings(5, 10, 52);
+
+    assert.equal(getNextWeeklyGoal('percentage', 5, settings), 6);
+  });
+
+  test('the adaptive strategy holds without a verdict and eases off after a missed week', () => {
+    const settings = buildProgressionSettings(20, 40, 10);
+
+    assert.equal(getNextWeeklyGoal('adaptive', 26, settings, null), 26);
+    assert.equal(getNextWeeklyGoal('adaptive', 26, settings, true), 28);
+    assert.equal(getNextWeeklyGoal('adaptive', 26, settings, false), 24);
+    assert.equal(getNextWeeklyGoal('adaptive', 21, settings, false), 20);
+  });
+
+  test('changing the goal starts the schedule over from the new goal', async () => {
+    const profileId = await PreferencesRepository.create({
+      username: 'reader',
+      yearly_book_goal: 12,
+      preferred_genres: '',
+      weekly_reading_goal: 140,
+      initial_reading_rate_minutes_per_day: 20,
+      end_reading_rate_goal_minutes_per_day: 30,
+      end_reading_rate_goal_date: '2099-12-31T00:00:00.000Z',
+      current_reading_rate_minutes_per_day: 20,
+      weekly_reading_rate_increase_minutes: 3,
+      weekly_reading_rate_increase_minutes_percentage: 15,
+      goal_progression_strategy: 'adaptive',
+    });
+    await ProfileRepository.switchTo(profileId);
+
+    await PreferencesRepository.update({
+      username: 'reader',
+      yearly_book_goal: 12,
+      preferred_genres: '',
+      weekly_reading_goal: 280,
+      end_reading_rate_goal_minutes_per_day: 60,
+      end_reading_rate_goal_date: '2099-12-31T00:00:00.000Z',
+      current_reading_rate_minutes_per_day: 40,
+      weekly_reading_rate_increase_minutes: 5,
+      weekly_reading_rate_increase_minutes_percentage: 0,
+      goal_progression_strategy: 'adaptive',
+    });
+    const preferences = await PreferencesRepository.get();
+    assert.equal(preferences?.initial_reading_rate_minutes_per_day, 40);
+
+    // A missed week eases off no lower than the new starting goal
+    const settings = {
+      startGoal: preferences!.initial_reading_rate_minutes_per_day!,
+      targetGoal: 60,
+      weeklyIncreaseMinutes: 5,
+      weeklyIncreasePercentage: 0,
+    };
+    assert.deepEqual(buildGoalSchedule('adaptive', settings, 3), [40, 45, 50]);
+    assert.equal(getNextWeeklyGoal('adaptive', 40, settings, false), 40);
+  });
+});
+
+const addDays = (date: string, days: number): string => {
+  const shifted = localDateStringToDate(date);
+  shifted.setDate(shifted.getDate() + days);
+  return dateToLocalDateString(shifted);
+};
+
+// A profile whose goal of 20 minutes started on the Monday three weeks ago
+async function addProfileStartedWeeksAgo(strategy: GoalProgressionStrategy): Promise<string> {
+  const profileId = await PreferencesRepository.create({
+    username: 'reader',
+    yearly_book_goal: 12,
+    preferred_genres: '',
+    weekly_reading_goal: 140,
+    initial_reading_rate_minutes_per_day: 20,
+    end_reading_rate_goal_minutes_per_day: 30,
+    end_reading_rate_goal_date: '2099-12-31T00:00:00.000Z',
+    current_reading_rate_minutes_per_day: 20,
+    weekly_reading_rate_increase_minutes: 3,
+    weekly_reading_rate_increase_minutes_percentage: 15,
+    goal_progression_strategy: strategy,
+  });
+  await ProfileRepository.switchTo(profileId);
+  const firstWeek = getWeekStart(daysAgo(21));
+  await execute('UPDATE goal_history SET effective_date = ?', [firstWeek]);
+
+  // Only the first week is read in full
+  const bookId = await BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page: 400, reading_status: 'currently_reading' });
+  await SessionRepository.log({ bookId, minutes: 140, date: firstWeek });
+  return firstWeek;
+}
+
+describe('weekly progress catch-up', () => {
+  useTestDatabase();
+
+  test('records every week missed since the last open and progresses through each', async () => {
+    const firstWeek = await addProfileStartedWeeksAgo('linear');
+
+    await syncWeeklyProgress();
+    await syncWeeklyProgress();
+
+    const weeks = await WeeklyProgressRepository.list();
+    assert.equal(weeks[0].week_start, firstWeek);
+    assert.deepEqual(weeks.map(week => week.weeks_passed), [0, 1, 2, 3]);
+    assert.deepEqual(weeks.map(week => week.target_reading_minutes), [140, 161, 182, 203]);
+    assert.deepEqual(weeks.map(week => week.achived_reading_minutes), [140, 0, 0, 0]);
+    assert.equal(await PreferencesRepository.getDailyGoalMinutes(), 29);
+  });
+
+  test('the adaptive strategy judges each missed week on its own', async () => {
+    await addProfileStartedWeeksAgo('adaptive');
+
+    await syncWeeklyProgress();
+
+    const weeks = await WeeklyProgressRepository.list();
+    assert.deepEqual(weeks.map(week => week.target_reading_minutes), [140, 161, 140, 140]);
+    assert.equal(await PreferencesRepository.getDailyGoalMinutes(), 20);
+  });
+
+  test('backdating or moving a session recounts the recorded weeks it touches', async () => {
+    const firstWeek = await addProfileStartedWeeksAgo('fixed');
+    await syncWeeklyProgress();
+    const secondWeek = addDays(firstWeek, 7);
+    const thirdWeek = addDays(firstWeek, 14);
+    const achievedIn = async (weekStart: string) =>
+      (await WeeklyProgressRepository.list()).find(week => week.week_start === weekStart)?.achived_reading_minutes;
+
+    const [book] = await BookRepository.listRecent();
+    const sessionId = await SessionRepository.log({ bookId: book.id, minutes: 30, date: addDays(secondWeek, 2) });
+    assert.equal(await achievedIn(secondWeek), 30);
+
+    await SessionRepository.update(sessionId, { minutes: 45, date: addDays(thirdWeek, 1) });
+    assert.equal(await achievedIn(secondWeek), 0);
+    assert.equal(await achievedIn(thirdWeek), 45);
+    assert.equal(await achievedIn(firstWeek), 140);
+  });
+
+  test('trashing and restoring sessions recounts their weeks, and a sync recounts every recorded week', async () => {
+    const firstWeek = await addProfileStartedWeeksAgo('fixed');
+    await syncWeeklyProgress();
+    const secondWeek = addDays(firstWeek, 7);
+    const achievedIn = async (weekStart: string) =>
+      (await WeeklyProgressRepository.list()).find(week => week.week_start === weekStart)?.achived_reading_minutes;
+
+    const [book] = await BookRepository.listRecent();
+    const sessionId = await SessionRepository.log({ bookId: book.id, minutes: 30, date: addDays(secondWeek, 2) });
+    const trashId = await TrashRepository.trashSession(sessionId);
+    assert.equal(await achievedIn(secondWeek), 0);
+    await TrashRepository.restore(trashId);
+    assert.equal(await achievedIn(secondWeek), 30);
+
+    // Written behind the repositories' back, as a backup import does
+    await execute('UPDATE reading_sessions SET minutes_read = 50 WHERE id = ?', [sessionId]);
+    await syncWeeklyProgress();
+    assert.equal(await achievedIn(secondWeek), 50);
+  });
+});
+
+describe('end of a goal plan', () => {
+  useTestDatabase();
+
+  // The plan ran for its first two weeks and ended on the second Tuesday
+  async function addEndedPlan(): Promise<void> {
+    const firstWeek = await addProfileStartedWeeksAgo('linear');
+    await execute('UPDATE user_preferences SET end_reading_rate_goal_date = ?, goal_plan_start_date = ?', [
+      localDateStringToDate(addDays(firstWeek, 8)).toISOString(),
+      firstWeek,
+    ]);
+    await syncWeeklyProgress();
+  }
+
+  test('stops progressing at the end date and sums up the plan', async () => {
+    await addEndedPlan();
+
+    const preferences = await PreferencesRepository.get();
+    assert.equal(isGoalPlanFinished(preferences!), true);
+    assert.deepEqual(await getGoalPlanSummary(), {
+      startDate: getWeekStart(daysAgo(21)),
+      endDate: addDays(getWeekStart(daysAgo(21)), 8),
+      startRate: 20,
+      endRate: 23,
+      targetRate: 30,
+      weeksMet: 1,
+      weeksTracked: 2,
+      adherence: 0.5,
+    });
+  });
+
+  test('maintenance holds the goal reached and eases off after a missed week', async () => {
+    await addEndedPlan();
+
+    await PreferencesRepository.endGoalPlan('maintenance');
+    const preferences = await PreferencesRepository.get();
+    assert.equal(isGoalPlanFinished(preferences!), false);
+    assert.equal(preferences?.end_reading_rate_goal_minutes_per_day, 23);
+
+    await syncWeeklyProgress(daysAgo(-7));
+    assert.equal(await PreferencesRepository.getDailyGoalMinutes(), 20);
+  });
+});
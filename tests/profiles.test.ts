@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  initializeDatabase,
+  queryAll,
+  resetInitializationFlag,
+  setActiveProfileId
+} from '../db/db';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { ProfileRepository } from '../db/profileRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { buildBackupData, restoreBackupData } from '../services/backupData';
+import { daysAgo, useTestDatabase } from './testDatabase';
+
+async function addProfile(username: string): Promise<number> {
+  return PreferencesRepository.create({
+    username,
+    yearly_book_goal: 12,
+    preferred_genres: '[]',
+    weekly_reading_goal: 210,
+    initial_reading_rate_minutes_per_day: 15,
+    end_reading_rate_goal_minutes_per_day: 45,
+    end_reading_rate_goal_date: '2025-06-30',
+    current_reading_rate_minutes_per_day: 15,
+    weekly_reading_rate_increase_minutes: 2,
+    weekly_reading_rate_increase_minutes_percentage: 5,
+    goal_progression_strategy: 'linear',
+  });
+}
+
+async function addBookWithSession(name: string, minutes: number): Promise<number> {
+  const bookId = await BookRepository.create({ name, author: 'Anonymous', page: 300, reading_status: 'currently_reading' });
+  await SessionRepository.log({ bookId, minutes, date: daysAgo(0) });
+  return bookId;
+}
+
+describe('ProfileRepository', () => {
+  useTestDatabase();
+
+  test('keeps books and sessions of each reader apart', async () => {
+    const ada = await addProfile('ada');
+    const bob = await addProfile('bob');
+    await ProfileRepository.switchTo(ada);
+    await addBookWithSession('Emma', 20);
+    await ProfileRepository.switchTo(bob);
+    await addBookWithSession('Dune', 45);
+
+    assert.deepEqual((await BookRepository.list()).map(book => book.name), ['Dune']);
+    assert.equal(await SessionRepository.getTotalMinutesForDate(daysAgo(0)), 45);
+
+    await ProfileRepository.switchTo(ada);
+    assert.deepEqual((await BookRepository.list()).map(book => book.name), ['Emma']);
+    assert.equal((await SessionRepository.getDailyTotals(daysAgo(0), daysAgo(0)))[0]?.total_minutes, 20);
+    assert.equal((await PreferencesRepository.get())?.username, 'ada');
+  });
+
+  test('remembers the active reader across launches', async () => {
+    await addProfile('ada');
+    const bob = await addProfile('bob');
+    await ProfileRepository.switchTo(bob);
+
+    // Simulate a relaunch: in-memory state is gone, the database is not
+    setActiveProfileId(DEFAULT_PROFILE_ID);
+    resetInitializationFlag();
+    await initializeDatabase();
+
+    assert.equal(getActiveProfileId(), bob);
+  });
+
+  test('deletes a reader with everything they logged', async () => {
+    const ada = await addProfile('ada');
+    const bob = await addProfile('bob');
+    await ProfileRepository.switchTo(bob);
+    await addBookWithSession('Dune', 45);
+    await ProfileRepository.switchTo(ada);
+
+    await assert.rejects(ProfileRepository.delete(ada), /active profile/);
+    await ProfileRepository.delete(bob);
+
+    assert.deepEqual((await ProfileRepository.list()).map(profile => profile.username), ['ada']);
+    assert.equal((await queryAll('SELECT id FROM enhanced_books')).length, 0);
+    assert.equal((await queryAll('SELECT id FROM reading_sessions')).length, 0);
+    assert.equal((await queryAll('SELECT id FROM change_log')).length, 0);
+  });
+});
+
+describe('per-reader backups', () => {
+  useTestDatabase();
+
+  test('exports and replaces only the active reader', async () => {
+    const ada = await addProfile('ada');
+    const bob = await addProfile('bob');
+    await ProfileRepository.switchTo(ada);
+    await addBookWithSession('Emma', 20);
+    await ProfileRepository.switchTo(bob);
+    await addBookWithSession('Dune', 45);
+
+    const backup = await buildBackupData({
+      includeBooks: true,
+      includeReadingSessions: true,
+      includeUserPreferences: true,
+      includeWeeklyProgress: true,
+      includeNotificationPreferences: true,
+      includeAppUsage: false,
+      profileId: bob,
+    });
+    assert.deepEqual(backup.tables.enhanced_books?.map(book => book.name), ['Dune']);
+    assert.deepEqual(backup.tables.user_preferences?.map(prefs => prefs.username), ['bob']);
+
+    await restoreBackupData(backup, { mode: 'replace', validateIntegrity: true });
+
+    const books = await queryAll<{ name: string; profile_id: number }>('SELECT name, profile_id FROM enhanced_books ORDER BY name');
+    assert.deepEqual(books.map(book => [book.name, book.profile_id]), [['Dune', bob], ['Emma', ada]]);
+    assert.equal((await ProfileRepository.list()).length, 2);
+  });
+});
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { CycleRepository } from '../db/cycleRepository';
+import { queryAll } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { TrashRepository } from '../db/trashRepository';
+import { buildBackupData, restoreBackupData } from '../services/backupData';
+import { calculateBookProgressFromSessions } from '../utils/readingProgress';
+import { daysAgo, useTestDatabase } from './testDatabase';
+
+async function readDuneOnce(): Promise<number> {
+  const bookId = await BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page: 400, reading_status: 'currently_reading' });
+  await SessionRepository.log({ bookId, minutes: 60, pages: 150, date: daysAgo(2) });
+  await SessionRepository.log({ bookId, minutes: 90, pages: 250, date: daysAgo(1) }, { finishBook: true });
+  return bookId;
+}
+
+describe('reading cycles', () => {
+  useTestDatabase();
+
+  test('reading a finished book again keeps the first read and starts progress over', async () => {
+    const bookId = await readDuneOnce();
+
+    const changes = await BookRepository.setStatus(bookId, 'currently_reading');
+    await SessionRepository.log({ bookId, minutes: 20, pages: 30, date: daysAgo(0) });
+
+    assert.equal(changes.current_page, 0);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 30);
+    assert.equal((await calculateBookProgressFromSessions(bookId, 400)).pagesRead, 30);
+
+    const cycles = await CycleRepository.listForBook(bookId);
+    assert.deepEqual(
+      cycles.map(cycle => [cycle.outcome, cycle.session_count, cycle.total_pages]),
+      [['finished', 2, 400], [null, 1, 30]]
+    );
+  });
+
+  test('the yearly goal counts every finished read, rereads included', async () => {
+    const bookId = await readDuneOnce();
+    await BookRepository.setStatus(bookId, 'currently_reading');
+    await BookRepository.setStatus(bookId, 'read');
+
+    const abandonedId = await BookRepository.create({ name: 'Emma', author: 'Jane Austen', page: 474, reading_status: 'currently_reading' });
+    await BookRepository.setStatus(abandonedId, 'want_to_read');
+
+    assert.equal(await CycleRepository.countFinishedInYear(new Date().getFullYear()), 2);
+    assert.equal(await CycleRepository.countFinishedInYear(new Date().getFullYear() - 1), 0);
+    assert.equal((await CycleRepository.getCurrent(abandonedId))?.outcome, 'abandoned');
+  });
+
+  test('a trashed book comes back with its reads', async () => {
+    const bookId = await readDuneOnce();
+    await BookRepository.setStatus(bookId, 'currently_reading');
+    const cyclesBefore = await queryAll('SELECT * FROM reading_cycles ORDER BY id');
+
+    await TrashRepository.restore(await TrashRepository.trashBook(bookId));
+
+    assert.deepEqual(await queryAll('SELECT * FROM reading_cycles ORDER BY id'), cyclesBefore);
+    assert.equal((await CycleRepository.listForBook(bookId))[0].session_count, 2);
+  });
+
+  test('restoring a backup made before rereads gives its books a read each', async () => {
+    const bookId = await readDuneOnce();
+    const backup = await buildBackupData({
+      includeBooks: true,
+      includeReadingSessions: true,
+      includeUserPreferences: false,
+      includeWeeklyProgress: false,
+      includeNotificationPreferences: false,
+      includeAppUsage: false,
+    });
+    delete backup.tables.reading_cycles;
+    backup.tables.reading_sessions?.forEach(session => delete session.cycle_id);
+
+    await restoreBackupData(backup, { mode: 'replace', validateIntegrity: true });
+
+    const cycles = await CycleRepository.listForBook(bookId);
+    assert.equal(cycles.length, 1);
+    assert.equal(cycles[0].outcome, 'finished');
+    assert.equal(cycles[0].session_count, 2);
+  });
+});
+
+describe('paused and did-not-finish books', () => {
+  useTestDatabase();
+
+  test('resuming a paused book carries on from where it stopped', async () => {
+    const bookId = await BookRepository.create({ name: 'Emma', author: 'Jane Austen', page: 474, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId, minutes: 40, pages: 60, date: daysAgo(3) });
+    const startedAt = (await BookRepository.getById(bookId))?.date_started;
+
+    await BookRepository.setStatus(bookId, 'paused', { page: 60, reason: 'Busy week' });
+    assert.equal((await CycleRepository.getCurrent(bookId))?.stop_reason, 'Busy week');
+    assert.deepEqual(await BookRepository.listCurrentlyReading(), []);
+
+    const changes = await BookRepository.setStatus(bookId, 'currently_reading');
+
+    assert.equal(changes.current_page, undefined);
+    const book = await BookRepository.getById(bookId);
+    assert.equal(book?.current_page, 60);
+    assert.equal(book?.date_started, startedAt);
+    const cycles = await CycleRepository.listForBook(bookId);
+    assert.equal(cycles.length, 1);
+    assert.equal(cycles[0].stop_page, null);
+  });
+
+  test('giving up a book ends its read where it stopped and counts toward the DNF stats', async () => {
+    await readDuneOnce();
+    const bookId = await BookRepository.create({ name: 'Ulysses', author: 'James Joyce', page: 730, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId, minutes: 50, pages: 80, date: daysAgo(2) });
+
+    const changes = await BookRepository.setStatus(bookId, 'dnf', { page: 95, reason: 'Too dense' });
+
+    assert.equal(changes.current_page, 95);
+    const cycle = await CycleRepository.getCurrent(bookId);
+    assert.deepEqual(
+      [cycle?.outcome, cycle?.stop_page, cycle?.stop_reason],
+      ['abandoned', 95, 'Too dense']
+    );
+    assert.deepEqual(await BookRepository.getDnfStats(), { finished: 1, dnf: 1, dnfRate: 0.5, dnfPages: 95 });
+    assert.equal((await BookRepository.countByStatus()).dnf, 1);
+  });
+});
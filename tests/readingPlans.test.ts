@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { getTodayDateString } from '../utils/dateUtils';
+import { calculatePlanProgress, listBookPlans } from '../utils/readingPlans';
+import { daysAgo, useTestDatabase } from './testDatabase';
+
+describe('finish-by-date plans', () => {
+  useTestDatabase();
+
+  test('spreads the pages left over the days left', () => {
+    const plan = { totalPages: 300, currentPage: 150, startPage: 0, startDate: '2025-03-01', targetDate: '2025-03-10', unit: 'pages' as const };
+
+    const progress = calculatePlanProgress(plan, { minutes: 40, pages: 20 }, null, '2025-03-05');
+
+    assert.equal(progress.daysLeft, 6);
+    assert.equal(progress.pagesLeft, 170);
+    assert.equal(progress.dailyQuota, 29);
+    assert.equal(progress.readToday, 20);
+    assert.equal(progress.isBehind, false);
+
+    const minutes = calculatePlanProgress({ ...plan, unit: 'minutes' }, { minutes: 40, pages: 20 }, 0.5, '2025-03-05');
+    assert.equal(minutes.dailyQuota, 57);
+    assert.equal(minutes.readToday, 40);
+  });
+
+  test('falls behind when short of an even pace or past the date', () => {
+    const plan = { totalPages: 300, currentPage: 60, startPage: 0, startDate: '2025-03-01', targetDate: '2025-03-10', unit: 'pages' as const };
+
+    assert.equal(calculatePlanProgress(plan, { minutes: 0, pages: 0 }, null, '2025-03-05').isBehind, true);
+    assert.equal(calculatePlanProgress({ ...plan, currentPage: 200 }, { minutes: 0, pages: 0 }, null, '2025-03-11').isBehind, true);
+    assert.equal(calculatePlanProgress({ ...plan, currentPage: 300 }, { minutes: 0, pages: 0 }, null, '2025-03-11').isBehind, false);
+  });
+
+  test('lists plans of unfinished books and drops them once a book is read', async () => {
+    const today = getTodayDateString();
+    const duneId = await BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page: 400, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId: duneId, minutes: 30, pages: 40, date: daysAgo(1) });
+    await assert.rejects(BookRepository.setPlan(duneId, daysAgo(1), 'pages', today), /in the past/);
+    await BookRepository.setPlan(duneId, today, 'pages', today);
+
+    const [plan] = await listBookPlans();
+    assert.equal(plan.book.id, duneId);
+    assert.equal(plan.daysLeft, 1);
+    assert.equal(plan.dailyQuota, 360);
+
+    await BookRepository.setStatus(duneId, 'read');
+    assert.deepEqual(await listBookPlans(), []);
+    assert.equal((await BookRepository.getById(duneId))?.target_finish_date, null);
+  });
+});
@@ -0,0 +1,339 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { execute } from '../db/db';
+import { GoalHistoryRepository } from '../db/goalHistoryRepository';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { StreakRepository } from '../db/streakRepository';
+import {
+  calculateBookProgressFromSessions,
+  getEnhancedBookProgress,
+  getReadingStreak,
+  getSessionStartTime,
+  getWeeklyReadingMinutes
+} from '../utils/readingProgress';
+import { getReadingGoalProgress, isDailyGoalMet } from '../utils/readingGoal';
+import { getFreezeInventory } from '../utils/streakFreezes';
+import { addProfile, daysAgo, useTestDatabase } from './testDatabase';
+
+function addBook(page: number = 400): Promise<number> {
+  return BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page, reading_status: 'currently_reading' });
+}
+
+describe('book progress', () => {
+  useTestDatabase();
+
+  test('sums the pages logged across sessions', async () => {
+    const bookId = await addBook(400);
+    await SessionRepository.log({ bookId, minutes: 30, pages: 50, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 20, pages: 50, date: daysAgo(0) });
+
+    assert.deepEqual(await calculateBookProgressFromSessions(bookId, 400), {
+      pagesRead: 100,
+      percentage: 25,
+      isComplete: false,
+    });
+  });
+
+  test('caps the percentage at 100', async () => {
+    const bookId = await addBook(100);
+    await SessionRepository.log({ bookId, minutes: 90, pages: 120, date: daysAgo(0) });
+
+    const progress = await calculateBookProgressFromSessions(bookId, 100);
+    assert.equal(progress.percentage, 100);
+    assert.equal(progress.isComplete, true);
+  });
+
+  test('falls back to current_page when no pages were logged', async () => {
+    const bookId = await addBook(200);
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(0) });
+
+    const progress = await getEnhancedBookProgress(bookId, 200, 50);
+    assert.equal(progress.source, 'current_page');
+    assert.equal(progress.percentage, 25);
+  });
+
+  test('keeps current_page in sync as sessions change', async () => {
+    const bookId = await addBook(300);
+    const sessionId = await SessionRepository.log({ bookId, minutes: 30, pages: 40, date: daysAgo(0) });
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 40);
+
+    await SessionRepository.update(sessionId, { minutes: 30, pages: 60 });
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 60);
+
+    const rangeSessionId = await SessionRepository.log({ bookId, minutes: 30, startPage: 61, endPage: 90, date: daysAgo(0) });
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 90);
+
+    // Taking away the furthest pages falls back to what is left, and to 0 once none are
+    await SessionRepository.delete(rangeSessionId);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 60);
+    await SessionRepository.update(sessionId, { minutes: 30 });
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 0);
+
+    const lastRangeSessionId = await SessionRepository.log({ bookId, minutes: 30, startPage: 1, endPage: 20, date: daysAgo(0) });
+    await SessionRepository.delete(lastRangeSessionId);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 0);
+  });
+});
+
+describe('getReadingStreak', () => {
+  useTestDatabase();
+
+  test('counts consecutive days meeting the goal up to today', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(0) });
+    await SessionRepository.log({ bookId, minutes: 15, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 20, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 40, date: daysAgo(2) });
+    // Below the goal, so the streak stops before this day
+    await SessionRepository.log({ bookId, minutes: 10, date: daysAgo(3) });
+    await SessionRepository.log({ bookId, minutes: 60, date: daysAgo(4) });
+
+    assert.equal(await getReadingStreak(30), 3);
+  });
+
+  test('is zero when today has not met the goal', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 45, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 45, date: daysAgo(2) });
+
+    assert.equal(await getReadingStreak(30), 0);
+  });
+});
+
+describe('streak freezes and rest days', () => {
+  useTestDatabase();
+
+  test('a planned rest day keeps the streak going without adding to it', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(2) });
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(1) });
+    await assert.rejects(StreakRepository.addRestDay(daysAgo(1), daysAgo(0)), /planned ahead/);
+
+    await StreakRepository.addRestDay(daysAgo(0), daysAgo(0));
+
+    assert.equal(await getReadingStreak(30), 2);
+  });
+
+  test('a full week of goal days earns a freeze that covers a missed day', async () => {
+    const bookId = await addBook();
+    const daysSinceMonday = (new Date().getDay() + 6) % 7;
+    for (let day = daysSinceMonday + 14; day >= 2; day--) {
+      await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(day) });
+    }
+    // Missed yesterday
+    await SessionRepository.log({ bookId, minutes: 5, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(0) });
+
+    assert.equal(await getReadingStreak(30), daysSinceMonday + 14);
+    assert.equal((await getFreezeInventory(30)).used, 1);
+    assert.deepEqual(
+      (await StreakRepository.listBetween(daysAgo(1), daysAgo(1))).map(day => day.kind),
+      ['freeze']
+    );
+  });
+
+  test('no freeze is spent without one to spend', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(2) });
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(0) });
+
+    assert.equal(await getReadingStreak(30), 1);
+    assert.equal((await getFreezeInventory(30)).used, 0);
+  });
+});
+
+describe('goal history', () => {
+  useTestDatabase();
+
+  test('judges past days against the goal in force on them', async () => {
+    const bookId = await addBook();
+    await GoalHistoryRepository.record(20, undefined, daysAgo(5));
+    await GoalHistoryRepository.record(40, undefined, daysAgo(0));
+    await SessionRepository.log({ bookId, minutes: 25, date: daysAgo(2) });
+    await SessionRepository.log({ bookId, minutes: 25, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 40, date: daysAgo(0) });
+
+    assert.equal(await getReadingStreak(40), 3);
+  });
+
+  test('only records a goal that differs from the one in force', async () => {
+    await GoalHistoryRepository.record(20, undefined, daysAgo(5));
+    await GoalHistoryRepository.record(20, undefined, daysAgo(3));
+    await GoalHistoryRepository.record(30, undefined, daysAgo(0));
+    await GoalHistoryRepository.record(20, undefined, daysAgo(0));
+
+    const history = await GoalHistoryRepository.list();
+    assert.deepEqual(history.map(change => [change.effective_date, change.minutes_per_day]), [[daysAgo(5), 20]]);
+  });
+});
+
+describe('daily aggregations', () => {
+  useTestDatabase();
+
+  test('getWeeklyReadingMinutes returns the last seven days, oldest first', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 20, date: daysAgo(0) });
+    await SessionRepository.log({ bookId, minutes: 25, date: daysAgo(0) });
+    await SessionRepository.log({ bookId, minutes: 10, date: daysAgo(3) });
+    await SessionRepository.log({ bookId, minutes: 99, date: daysAgo(7) });
+
+    assert.deepEqual(await getWeeklyReadingMinutes(), [0, 0, 0, 10, 0, 0, 45]);
+  });
+
+  test('listGoalStreaks splits runs on days that miss the goal or have no sessions', async () => {
+    const bookId = await addBook();
+    for (const date of ['2025-01-01', '2025-01-02', '2025-01-03', '2025-01-05', '2025-01-06']) {
+      await SessionRepository.log({ bookId, minutes: 30, date });
+    }
+    await SessionRepository.log({ bookId, minutes: 5, date: '2025-01-07' });
+    await SessionRepository.log({ bookId, minutes: 30, date: '2025-01-08' });
+
+    assert.deepEqual(await SessionRepository.listGoalStreaks(30, '2025-01-31'), [
+      { start_date: '2025-01-08', end_date: '2025-01-08', days: 1 },
+      { start_date: '2025-01-05', end_date: '2025-01-06', days: 2 },
+      { start_date: '2025-01-01', end_date: '2025-01-03', days: 3 },
+    ]);
+    assert.equal((await SessionRepository.listGoalStreaks(30, '2025-01-06', 1))[0].days, 2);
+  });
+});
+
+describe('session start times', () => {
+  useTestDatabase();
+
+  test('uses the recorded start and falls back to when a legacy session was entered', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({
+      bookId, minutes: 30, date: '2025-01-01',
+      startedAt: '2025-01-01T06:30:00.000Z', endedAt: '2025-01-01T07:00:00.000Z'
+    });
+    await SessionRepository.log({ bookId, minutes: 30, date: '2025-01-01' });
+    // Legacy rows only have SQLite's CURRENT_TIMESTAMP, which is UTC
+    await execute("UPDATE reading_sessions SET created_at = '2025-01-01 21:15:00' WHERE started_at IS NULL");
+
+    const sessions = await SessionRepository.listWithBooksBetween('2025-01-01', '2025-01-01');
+    assert.deepEqual(
+      sessions.map(session => getSessionStartTime(session).toISOString()),
+      ['2025-01-01T06:30:00.000Z', '2025-01-01T21:15:00.000Z']
+    );
+  });
+});
+
+describe('backdated and moved sessions', () => {
+  useTestDatabase();
+
+  test('moving a session to another day keeps its time of day and updates the streak', async () => {
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(0) });
+    const sessionId = await SessionRepository.log({
+      bookId, minutes: 30, date: daysAgo(0),
+      startedAt: '2025-01-01T06:30:00.000Z', endedAt: '2025-01-01T07:00:00.000Z'
+    });
+    assert.equal(await getReadingStreak(30), 1);
+
+    await SessionRepository.update(sessionId, { minutes: 30, date: daysAgo(1) });
+
+    const moved = await SessionRepository.getById(sessionId);
+    assert.equal(moved?.date, daysAgo(1));
+    const expectedStart = new Date('2025-01-01T06:30:00.000Z');
+    expectedStart.setDate(expectedStart.getDate() - 1);
+    assert.equal(moved?.started_at, expectedStart.toISOString());
+    assert.equal(await getReadingStreak(30), 2);
+  });
+
+  test('rejects sessions dated in the future', async () => {
+    const bookId = await addBook();
+    const sessionId = await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(0) });
+
+    await assert.rejects(SessionRepository.log({ bookId, minutes: 30, date: daysAgo(-1) }), /future/);
+    await assert.rejects(SessionRepository.update(sessionId, { minutes: 30, date: daysAgo(-1) }), /future/);
+  });
+});
+
+describe('page-range sessions', () => {
+  useTestDatabase();
+
+  test('counts a reread chapter once and follows a book started midway', async () => {
+    const bookId = await addBook(400);
+    await SessionRepository.log({ bookId, minutes: 30, startPage: 101, endPage: 150, date: daysAgo(2) });
+    await SessionRepository.log({ bookId, minutes: 30, startPage: 151, endPage: 200, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 20, startPage: 141, endPage: 160, date: daysAgo(0) });
+
+    assert.equal((await calculateBookProgressFromSessions(bookId, 400)).pagesRead, 100);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 200);
+    assert.equal((await SessionRepository.getPageRangesForBook(bookId)).length, 1);
+  });
+
+  test('treats sessions logged as a page count as read from the first page', async () => {
+    const bookId = await addBook(400);
+    await SessionRepository.log({ bookId, minutes: 30, pages: 40, date: daysAgo(1) });
+    const sessionId = await SessionRepository.log({ bookId, minutes: 30, startPage: 31, endPage: 60, date: daysAgo(0) });
+
+    assert.deepEqual(await SessionRepository.getPageRangesForBook(bookId), [{ start: 1, end: 60 }]);
+    assert.equal((await SessionRepository.getById(sessionId))?.pages_read, 30);
+  });
+
+  test('rejects a range that ends before it starts', async () => {
+    const bookId = await addBook(400);
+
+    await assert.rejects(
+      SessionRepository.log({ bookId, minutes: 30, startPage: 80, endPage: 60, date: daysAgo(0) }),
+      /ends before it starts/
+    );
+  });
+});
+
+describe('goal units', () => {
+  useTestDatabase();
+
+  test('a page goal counts only sessions that logged pages', async () => {
+    await addProfile(12);
+    await PreferencesRepository.setGoalUnit('pages', 20);
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 10, pages: 25, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 10, pages: 10, date: daysAgo(0) });
+    await SessionRepository.log({ bookId, minutes: 60, date: daysAgo(0) });
+
+    assert.deepEqual(await getReadingGoalProgress(daysAgo(0)), {
+      unit: 'pages',
+      amount: 20,
+      progress: 10,
+      sessionsWithoutPages: 1,
+    });
+    assert.deepEqual(await SessionRepository.listGoalStreaks(20, daysAgo(0), undefined, 'pages'), [
+      { start_date: daysAgo(1), end_date: daysAgo(1), days: 1 },
+    ]);
+    assert.equal(await getReadingStreak(20, 'pages'), 0);
+  });
+
+  test('a page-goal week judges each day by its pages, not its minutes', async () => {
+    await addProfile(12);
+    await PreferencesRepository.setGoalUnit('pages', 20);
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 5, pages: 30, date: daysAgo(2) });
+    await SessionRepository.log({ bookId, minutes: 90, pages: 10, date: daysAgo(1) });
+    await SessionRepository.log({ bookId, minutes: 90, date: daysAgo(0) });
+
+    const goal = await PreferencesRepository.getReadingGoal();
+    const goalHistory = await GoalHistoryRepository.list();
+    const days = await SessionRepository.getDailyTotals(daysAgo(2), daysAgo(0));
+    assert.deepEqual(
+      days.map(day => isDailyGoalMet(goal, { date: day.date, minutes: day.total_minutes, pages: day.total_pages }, goalHistory)),
+      [true, false, false]
+    );
+  });
+
+  test('a book goal spreads the yearly goal over the months and counts books finished this month', async () => {
+    await addProfile(24);
+    await PreferencesRepository.setGoalUnit('books');
+    const bookId = await addBook();
+    await SessionRepository.log({ bookId, minutes: 5, date: daysAgo(0) }, { finishBook: true });
+
+    const goal = await getReadingGoalProgress(daysAgo(0));
+    assert.equal(goal.amount, 2);
+    assert.equal(goal.progress, 1);
+    // Any reading keeps a streak going under a monthly goal
+    assert.equal(await getReadingStreak(goal.amount, 'books'), 1);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { getTodayDateString } from '../utils/dateUtils';
+import { calculatePagesPerMinute, getBookFinishEstimate, getBookReadingSpeed, getReadingSpeeds, projectFinish } from '../utils/readingSpeed';
+import { daysAgo, useTestDatabase } from './testDatabase';
+
+describe('reading speed', () => {
+  useTestDatabase();
+
+  test('recent sessions weigh more than older ones', () => {
+    const speed = calculatePagesPerMinute([
+      { minutes: 30, pages: 30 },
+      { minutes: 30, pages: 15 },
+    ]);
+
+    assert.ok(speed! > 0.75 && speed! < 1);
+    assert.equal(calculatePagesPerMinute([{ minutes: 20, pages: 0 }]), null);
+  });
+
+  test('projects the finish date from the daily pace', () => {
+    assert.deepEqual(projectFinish(100, 1, 25, '2025-03-30'), { minutesLeft: 100, finishDate: '2025-04-03' });
+    assert.deepEqual(projectFinish(100, 1, 0, '2025-03-30'), { minutesLeft: 100, finishDate: null });
+  });
+
+  test('a book without page data falls back to the overall speed', async () => {
+    const duneId = await BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page: 400, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId: duneId, minutes: 60, pages: 30, date: daysAgo(3) });
+    const emmaId = await BookRepository.create({ name: 'Emma', author: 'Jane Austen', page: 100, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId: emmaId, minutes: 28, date: daysAgo(1) });
+
+    const estimate = await getBookFinishEstimate({ id: emmaId, page: 100, current_page: 0 });
+
+    assert.equal(estimate?.speedSource, 'global');
+    assert.equal(estimate?.pagesPerMinute, 0.5);
+    assert.equal(estimate?.minutesLeft, 200);
+    assert.equal(estimate?.dailyMinutes, 2);
+    assert.ok(estimate!.finishDate! > getTodayDateString());
+  });
+
+  test('speeds for a whole list match the per-book lookup', async () => {
+    const duneId = await BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page: 400, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId: duneId, minutes: 60, pages: 30, date: daysAgo(3) });
+    await SessionRepository.log({ bookId: duneId, minutes: 20, pages: 20, date: daysAgo(1) });
+    const emmaId = await BookRepository.create({ name: 'Emma', author: 'Jane Austen', page: 100, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId: emmaId, minutes: 30, pages: 60, date: daysAgo(2) });
+    const ulyssesId = await BookRepository.create({ name: 'Ulysses', author: 'James Joyce', page: 700, reading_status: 'currently_reading' });
+    await SessionRepository.log({ bookId: ulyssesId, minutes: 15, date: daysAgo(1) });
+
+    const speeds = await getReadingSpeeds([duneId, emmaId, ulyssesId]);
+
+    for (const bookId of [duneId, emmaId, ulyssesId]) {
+      assert.deepEqual(speeds.get(bookId), await getBookReadingSpeed(bookId));
+    }
+    assert.equal(speeds.get(emmaId)?.pagesPerMinute, 2);
+    assert.equal(speeds.get(ulyssesId)?.source, 'global');
+    assert.equal((await getBookFinishEstimate({ id: emmaId, page: 100, current_page: 0 }, speeds.get(emmaId)))?.minutesLeft, 20);
+  });
+});
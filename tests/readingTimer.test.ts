@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { getElapsedSeconds, TimerRepository } from '../db/timerRepository';
+import { useTestDatabase } from './testDatabase';
+
+const at = (time: string) => new Date(`2025-03-01T${time}:00Z`);
+
+async function addBook(): Promise<number> {
+  return BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page: 412, reading_status: 'currently_reading' });
+}
+
+describe('TimerRepository', () => {
+  useTestDatabase();
+
+  test('leaves paused time out of the elapsed total', async () => {
+    await TimerRepository.start(await addBook(), at('10:00'));
+    await TimerRepository.pause(at('10:20'));
+    await TimerRepository.resume(at('10:50'));
+
+    const timer = await TimerRepository.get();
+    assert.equal(getElapsedSeconds(timer!, at('11:00')), 30 * 60);
+
+    await TimerRepository.pause(at('11:05'));
+    assert.equal(getElapsedSeconds((await TimerRepository.get())!, at('12:00')), 35 * 60);
+  });
+
+  test('allows only one timer at a time', async () => {
+    const bookId = await addBook();
+    await TimerRepository.start(bookId, at('10:00'));
+
+    await assert.rejects(TimerRepository.start(bookId, at('10:05')), /already running/);
+  });
+
+  test('completing logs a session with the real start and end and clears the timer', async () => {
+    const bookId = await addBook();
+    await TimerRepository.start(bookId, at('10:00'));
+    await TimerRepository.pause(at('10:45'));
+
+    const sessionId = await TimerRepository.complete({ minutes: 45, pages: 30, date: '2025-03-01' }, {}, at('11:30'));
+
+    const session = await SessionRepository.getById(sessionId);
+    assert.equal(session?.started_at, at('10:00').toISOString());
+    assert.equal(session?.ended_at, at('10:45').toISOString());
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 30);
+    assert.equal(await TimerRepository.get(), null);
+  });
+
+  test('goes away with its book', async () => {
+    const bookId = await addBook();
+    await TimerRepository.start(bookId, at('10:00'));
+
+    await BookRepository.delete(bookId);
+
+    assert.equal(await TimerRepository.get(), null);
+  });
+});
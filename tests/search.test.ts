@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { execute } from '../db/db';
+import { HIGHLIGHT_END, HIGHLIGHT_START, SearchRepository, toFtsQuery } from '../db/searchRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { useTestDatabase } from './testDatabase';
+
+async function addBook(name: string, notes: string | null = null): Promise<number> {
+  const bookId = await BookRepository.create({ name, author: 'Virginia Woolf', page: 209, reading_status: 'read' });
+  if (notes) {
+    await execute('UPDATE enhanced_books SET notes = ? WHERE id = ?', [notes, bookId]);
+  }
+  return bookId;
+}
+
+describe('toFtsQuery', () => {
+  test('requires every word and matches word prefixes', () => {
+    assert.equal(toFtsQuery('  light  house '), '"light"* "house"*');
+  });
+
+  test('keeps FTS syntax in user input literal', () => {
+    assert.equal(toFtsQuery('"NEAR" -sea'), '"NEAR"* "-sea"*');
+  });
+
+  test('returns null for blank input', () => {
+    assert.equal(toFtsQuery('   '), null);
+  });
+});
+
+describe('SearchRepository', () => {
+  useTestDatabase();
+
+  test('finds books by notes and highlights the match', async () => {
+    await addBook('Orlando', 'A tower overlooking the lighthouse');
+    await addBook('Mrs Dalloway');
+
+    const books = await SearchRepository.searchBooks('lighth');
+
+    assert.equal(books.length, 1);
+    assert.equal(books[0].name, 'Orlando');
+    assert.ok(books[0].snippet.includes(`${HIGHLIGHT_START}lighthouse${HIGHLIGHT_END}`));
+  });
+
+  test('ignores accents and case', async () => {
+    await addBook('Çalıkuşu');
+
+    assert.equal((await SearchRepository.searchBooks('CALıKUSU')).length, 1);
+  });
+
+  test('finds session notes with their book', async () => {
+    const bookId = await addBook('To the Lighthouse');
+    await SessionRepository.log({ bookId, minutes: 30, date: '2025-02-03', notes: 'Wrote about the beam at night' });
+
+    const sessions = await SessionRepository.listRecentWithBooks(1);
+    const results = await SearchRepository.searchSessions('beam');
+
+    assert.equal(results.length, 1);
+    assert.equal(results[0].id, sessions[0].id);
+    assert.equal(results[0].book_name, 'To the Lighthouse');
+    assert.equal(results[0].date, '2025-02-03');
+  });
+
+  test('follows edits and deletes of the source rows', async () => {
+    const bookId = await addBook('The Waves', 'Notes on the sea');
+    const sessionId = await SessionRepository.log({ bookId, minutes: 20, date: '2025-02-03', notes: 'sunrise chapter' });
+
+    await execute('UPDATE enhanced_books SET notes = ? WHERE id = ?', ['Notes on the shore', bookId]);
+    await SessionRepository.update(sessionId, { minutes: 20, notes: 'sunset chapter' });
+
+    assert.equal((await SearchRepository.searchBooks('sea')).length, 0);
+    assert.equal((await SearchRepository.searchBooks('shore')).length, 1);
+    assert.equal((await SearchRepository.searchSessions('sunrise')).length, 0);
+    assert.equal((await SearchRepository.searchSessions('sunset')).length, 1);
+
+    // Deleting the book cascades to its sessions, and both leave the index
+    await BookRepository.delete(bookId);
+
+    assert.deepEqual(await SearchRepository.search('shore'), { books: [], sessions: [] });
+    assert.deepEqual(await SearchRepository.search('sunset'), { books: [], sessions: [] });
+  });
+
+  test('leaves archived books out of book results', async () => {
+    const bookId = await addBook('Jacob’s Room', 'war and memory');
+    await BookRepository.archive(bookId);
+
+    assert.equal((await SearchRepository.searchBooks('memory')).length, 0);
+  });
+});
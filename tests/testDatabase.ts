@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, mock } from 'node:test';
+import { initializeDatabase, setDatabaseHandle } from '../db/db';
+import { NodeDatabaseHandle, openNodeDatabase } from '../db/nodeSqliteAdapter';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { ProfileRepository } from '../db/profileRepository';
+import { dateToLocalDateString } from '../utils/dateUtils';
+
+/**
+ * Give every test in the enclosing suite a fresh in-memory database.
+ * Set initialize to false to start from an empty database (e.g. to seed a legacy schema).
+ */
+export function useTestDatabase({ initialize = true }: { initialize?: boolean } = {}): void {
+  let handle: NodeDatabaseHandle | null = null;
+
+  beforeEach(async () => {
+    // initializeDatabase and the migrations log every step
+    mock.method(console, 'log', () => {});
+
+    handle = openNodeDatabase();
+    setDatabaseHandle(handle);
+    if (initialize) {
+      await initializeDatabase();
+    }
+  });
+
+  afterEach(() => {
+    handle?.close();
+    handle = null;
+    mock.restoreAll();
+  });
+}
+
+/**
+ * A YYYY-MM-DD date string the given number of days before today (local time)
+ */
+export function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return dateToLocalDateString(date);
+}
+
+/**
+ * Create a profile on a fixed 30-minute daily goal with the given yearly book goal and switch to it
+ */
+export async function addProfile(yearlyBookGoal: number): Promise<void> {
+  const profileId = await PreferencesRepository.create({
+    username: 'reader',
+    yearly_book_goal: yearlyBookGoal,
+    preferred_genres: '',
+    weekly_reading_goal: 210,
+    initial_reading_rate_minutes_per_day: 30,
+    end_reading_rate_goal_minutes_per_day: 30,
+    end_reading_rate_goal_date: '2099-12-31T00:00:00.000Z',
+    current_reading_rate_minutes_per_day: 30,
+    weekly_reading_rate_increase_minutes: 0,
+    weekly_reading_rate_increase_minutes_percentage: 0,
+    goal_progression_strategy: 'fixed',
+  });
+  await ProfileRepository.switchTo(profileId);
+}
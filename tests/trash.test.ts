@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { execute, queryAll } from '../db/db';
+import { SearchRepository } from '../db/searchRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { TrashRepository } from '../db/trashRepository';
+import { getReadingStreak } from '../utils/readingProgress';
+import { daysAgo, useTestDatabase } from './testDatabase';
+
+async function addBookWithSessions(): Promise<number> {
+  const bookId = await BookRepository.create({
+    name: 'The Waves', author: 'Virginia Woolf', page: 300, reading_status: 'currently_reading'
+  });
+  await SessionRepository.log({ bookId, minutes: 30, pages: 20, date: daysAgo(1), notes: 'sunrise' });
+  await SessionRepository.log({ bookId, minutes: 30, pages: 30, date: daysAgo(0) });
+  return bookId;
+}
+
+describe('TrashRepository', () => {
+  useTestDatabase();
+
+  test('trashing a book hides it and its sessions from statistics', async () => {
+    const bookId = await addBookWithSessions();
+    assert.equal(await getReadingStreak(30), 2);
+
+    await TrashRepository.trashBook(bookId);
+
+    assert.equal(await BookRepository.getById(bookId), null);
+    assert.equal(await getReadingStreak(30), 0);
+    assert.equal((await SearchRepository.searchSessions('sunrise')).length, 0);
+
+    const [item] = await TrashRepository.list();
+    assert.equal(item.item_type, 'book');
+    assert.equal(item.label, 'The Waves');
+    assert.equal(item.sessions.length, 2);
+  });
+
+  test('restoring a book brings back the same rows', async () => {
+    const bookId = await addBookWithSessions();
+    const booksBefore = await queryAll('SELECT * FROM enhanced_books');
+    const sessionsBefore = await queryAll('SELECT * FROM reading_sessions ORDER BY id');
+
+    const trashId = await TrashRepository.trashBook(bookId);
+    await TrashRepository.restore(trashId);
+
+    assert.deepEqual(await queryAll('SELECT * FROM enhanced_books'), booksBefore);
+    assert.deepEqual(await queryAll('SELECT * FROM reading_sessions ORDER BY id'), sessionsBefore);
+    assert.equal(await TrashRepository.count(), 0);
+    assert.equal((await SearchRepository.searchSessions('sunrise')).length, 1);
+  });
+
+  test('trashing and restoring a session keeps current_page in sync', async () => {
+    const bookId = await addBookWithSessions();
+    const [latest] = await queryAll<{ id: number }>('SELECT id FROM reading_sessions ORDER BY id DESC LIMIT 1');
+
+    const trashId = await TrashRepository.trashSession(latest.id);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 20);
+
+    await TrashRepository.restore(trashId);
+    assert.equal((await BookRepository.getById(bookId))?.current_page, 50);
+  });
+
+  test('a session cannot be restored while its book is gone', async () => {
+    const bookId = await addBookWithSessions();
+    const [first] = await queryAll<{ id: number }>('SELECT id FROM reading_sessions ORDER BY id LIMIT 1');
+    const sessionTrashId = await TrashRepository.trashSession(first.id);
+    const bookTrashId = await TrashRepository.trashBook(bookId);
+
+    await assert.rejects(TrashRepository.restore(sessionTrashId), /Book not found/);
+
+    // Restoring the book first makes the session restorable again
+    await TrashRepository.restore(bookTrashId);
+    await TrashRepository.restore(sessionTrashId);
+    assert.equal((await SessionRepository.listWithBooksBetween(daysAgo(7), daysAgo(0))).length, 2);
+  });
+
+  test('purging a book also purges its separately trashed sessions', async () => {
+    const bookId = await addBookWithSessions();
+    const [first] = await queryAll<{ id: number }>('SELECT id FROM reading_sessions ORDER BY id LIMIT 1');
+    await TrashRepository.trashSession(first.id);
+    const bookTrashId = await TrashRepository.trashBook(bookId);
+
+    await TrashRepository.purge(bookTrashId);
+
+    assert.equal(await TrashRepository.count(), 0);
+  });
+
+  test('purgeOlderThan only removes entries past the retention period', async () => {
+    const oldBook = await addBookWithSessions();
+    const recentBook = await BookRepository.create({ name: 'Orlando', author: 'Virginia Woolf', page: 200, reading_status: 'read' });
+    const oldTrashId = await TrashRepository.trashBook(oldBook);
+    await TrashRepository.trashBook(recentBook);
+    await execute("UPDATE trash SET deleted_at = datetime('now', '-31 days') WHERE id = ?", [oldTrashId]);
+
+    assert.equal(await TrashRepository.purgeOlderThan(30), 1);
+
+    const remaining = await TrashRepository.list();
+    assert.deepEqual(remaining.map(item => item.label), ['Orlando']);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BookRepository } from '../db/bookRepository';
+import { execute } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { YearlyGoalRepository } from '../db/yearlyGoalRepository';
+import { calculateYearlyPace, getYearlyChallenge, listPastYears } from '../utils/yearlyChallenge';
+import { addProfile, daysAgo, useTestDatabase } from './testDatabase';
+
+async function finishBook(page: number): Promise<void> {
+  const bookId = await BookRepository.create({ name: 'Dune', author: 'Frank Herbert', page, reading_status: 'currently_reading' });
+  await SessionRepository.log({ bookId, minutes: 30, date: daysAgo(0) }, { finishBook: true });
+}
+
+describe('yearly challenge', () => {
+  useTestDatabase();
+
+  test('compares the books finished with an even pace over the year', () => {
+    // 2 July is day 183 of 365
+    assert.deepEqual(calculateYearlyPace(12, 2, 300, '2025-07-02'), {
+      expected: 6,
+      difference: -4,
+      daysLeft: 183,
+      pagesPerDay: 17,
+    });
+    assert.equal(calculateYearlyPace(12, 12, 300, '2025-07-02').pagesPerDay, 0);
+    assert.equal(calculateYearlyPace(12, 1, 300, '2025-01-01').difference, 1);
+  });
+
+  test('counts this year by month and keeps past years with the goal they had', async () => {
+    await addProfile(24);
+    await finishBook(200);
+    await finishBook(400);
+    await execute("UPDATE reading_cycles SET finished_at = '2020-05-10T12:00:00.000Z' WHERE id = (SELECT MIN(id) FROM reading_cycles)");
+    await YearlyGoalRepository.record(10, undefined, 2020);
+
+    const challenge = await getYearlyChallenge(daysAgo(0));
+    assert.equal(challenge?.goal, 24);
+    assert.equal(challenge?.finished, 1);
+    assert.equal(challenge?.months.reduce((sum, count) => sum + count, 0), 1);
+    assert.equal(challenge?.months[new Date().getMonth()], 1);
+
+    // A new yearly goal only applies to this year
+    await execute('UPDATE user_preferences SET yearly_book_goal = 30');
+    await YearlyGoalRepository.record(30);
+    assert.deepEqual(await listPastYears(daysAgo(0)), [{ year: 2020, goal: 10, finished: 1 }]);
+    assert.equal((await getYearlyChallenge(daysAgo(0)))?.goal, 30);
+  });
+});
@@ -1,3 +1,13 @@
+// How the daily reading goal ramps up toward the target from week to week
+export type GoalProgressionStrategy = 'linear' | 'percentage' | 'fixed' | 'adaptive';
+
+// A running plan toward a target, or what was chosen once a plan ended:
+// keep the goal where it is, or hold it with some leeway (maintenance)
+export type GoalMode = 'plan' | 'keep' | 'maintenance';
+
+// What the reader's goal counts: minutes a day, pages a day or books a month
+export type GoalUnit = 'minutes' | 'pages' | 'books';
+
 export type UserPreferences = {
   id: number;
   username: string;
@@ -13,6 +23,13 @@ export type UserPreferences = {
   current_reading_rate_last_updated?: string;
   weekly_reading_rate_increase_minutes?: number;
   weekly_reading_rate_increase_minutes_percentage?: number;
+  goal_progression_strategy?: GoalProgressionStrategy;
+  goal_mode?: GoalMode;
+  goal_plan_start_date?: string; // YYYY-MM-DD
+  goal_unit?: GoalUnit;
+  daily_page_goal?: number | null;
+  monthly_book_goal?: number | null;
+  trash_retention_days?: number;
 };
 
 // Reading Session type for tracking reading progress
@@ -17,6 +17,33 @@ export const dateToLocalDateString = (date: Date): string => {
   return `${year}-${month}-${day}`;
 };
 
+/**
+ * Parses a YYYY-MM-DD string as local midnight
+ * new Date('YYYY-MM-DD') parses as UTC, which is the previous day west of Greenwich
+ */
+export const localDateStringToDate = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Parses a stored timestamp: an ISO string, or SQLite's CURRENT_TIMESTAMP format
+ * ("YYYY-MM-DD HH:MM:SS" in UTC), which new Date() would read as local time
+ */
+export const parseTimestamp = (timestamp: string): Date => {
+  const isSqliteTimestamp = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(timestamp);
+  return new Date(isSqliteTimestamp ? `${timestamp.replace(' ', 'T')}Z` : timestamp);
+};
+
+/**
+ * Monday of the calendar week a YYYY-MM-DD date falls in
+ */
+export const getWeekStart = (dateString: string): string => {
+  const date = localDateStringToDate(dateString);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dateToLocalDateString(date);
+};
+
 /**
  * Gets today's date in YYYY-MM-DD format using local timezone
  */
@@ -0,0 +1,65 @@
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { WeeklyProgressRepository } from '../db/weeklyProgressRepository';
+import { UserPreferences } from '../types/database';
+import { dateToLocalDateString, getTodayDateString, getWeekStart, parseTimestamp } from './dateUtils';
+
+// How a reading goal plan went, for the end-of-plan review
+export type GoalPlanSummary = {
+  startDate: string | null; // YYYY-MM-DD
+  endDate: string | null;
+  startRate: number;
+  endRate: number; // Daily goal reached
+  targetRate: number;
+  weeksMet: number;
+  weeksTracked: number; // Finished weeks of the plan
+  adherence: number; // Share of finished weeks whose goal was met, 0 to 1
+};
+
+/**
+ * Day a plan ends on, from its stored end date
+ */
+export const getGoalPlanEndDate = (preferences: Pick<UserPreferences, 'end_reading_rate_goal_date'>): string | null => {
+  return preferences.end_reading_rate_goal_date
+    ? dateToLocalDateString(parseTimestamp(preferences.end_reading_rate_goal_date))
+    : null;
+};
+
+/**
+ * Whether a running plan has passed its end date and is waiting for the
+ * reader to choose what happens next
+ */
+export const isGoalPlanFinished = (
+  preferences: Pick<UserPreferences, 'end_reading_rate_goal_date' | 'goal_mode'>,
+  today: string = getTodayDateString()
+): boolean => {
+  const endDate = getGoalPlanEndDate(preferences);
+  return (preferences.goal_mode || 'plan') === 'plan' && endDate !== null && endDate < today;
+};
+
+export const getGoalPlanSummary = async (today: string = getTodayDateString()): Promise<GoalPlanSummary | null> => {
+  const preferences = await PreferencesRepository.get();
+  if (!preferences) return null;
+
+  const startDate = preferences.goal_plan_start_date || null;
+  const endDate = getGoalPlanEndDate(preferences);
+  const lastDay = endDate && endDate < today ? endDate : today;
+
+  // The week still running is not judged yet
+  const weeks = startDate
+    ? (await WeeklyProgressRepository.listBetween(getWeekStart(startDate), getWeekStart(lastDay)))
+      .filter(week => week.week_start !== getWeekStart(today))
+    : [];
+  const weeksMet = weeks.filter(week => week.achived_reading_minutes >= week.target_reading_minutes).length;
+
+  const currentRate = preferences.current_reading_rate_minutes_per_day || 0;
+  return {
+    startDate,
+    endDate,
+    startRate: preferences.initial_reading_rate_minutes_per_day || currentRate,
+    endRate: currentRate,
+    targetRate: preferences.end_reading_rate_goal_minutes_per_day || currentRate,
+    weeksMet,
+    weeksTracked: weeks.length,
+    adherence: weeks.length > 0 ? weeksMet / weeks.length : 0,
+  };
+};
@@ -0,0 +1,88 @@
+import { GoalProgressionStrategy } from '../types/database';
+
+export const GOAL_PROGRESSION_STRATEGIES: GoalProgressionStrategy[] = ['linear', 'percentage', 'fixed', 'adaptive'];
+
+export const DEFAULT_GOAL_PROGRESSION_STRATEGY: GoalProgressionStrategy = 'percentage';
+
+// What every strategy works from
+export type ProgressionSettings = {
+  startGoal: number; // Minutes a day; a strategy never eases off below it
+  targetGoal: number; // Minutes a day the ramp-up stops at
+  weeklyIncreaseMinutes: number;
+  weeklyIncreasePercentage: number;
+};
+
+type ProgressionStep = (goal: number, settings: ProgressionSettings, lastWeekMet: boolean | null) => number;
+
+const towardTarget = (goal: number, next: number, settings: ProgressionSettings): number => {
+  if (goal >= settings.targetGoal) {
+    return goal;
+  }
+  return Math.min(Math.round(next), settings.targetGoal);
+};
+
+/**
+ * Next week's daily goal for each strategy.
+ * lastWeekMet is null when there is no finished week to judge yet.
+ */
+const PROGRESSION_STEPS: Record<GoalProgressionStrategy, ProgressionStep> = {
+  linear: (goal, settings) => towardTarget(goal, goal + settings.weeklyIncreaseMinutes, settings),
+  // Compounding, always at least one more minute so small goals still move
+  percentage: (goal, settings) => towardTarget(
+    goal,
+    Math.max(goal * (1 + settings.weeklyIncreasePercentage / 100), goal + 1),
+    settings
+  ),
+  fixed: goal => goal,
+  // Ramps up only after a week that met its goal and eases off after a missed one
+  adaptive: (goal, settings, lastWeekMet) => {
+    const step = Math.max(1, settings.weeklyIncreaseMinutes);
+    if (lastWeekMet === true) {
+      return towardTarget(goal, goal + step, settings);
+    }
+    if (lastWeekMet === false) {
+      return Math.max(settings.startGoal, goal - step);
+    }
+    return goal;
+  },
+};
+
+export function getNextWeeklyGoal(
+  strategy: GoalProgressionStrategy,
+  goal: number,
+  settings: ProgressionSettings,
+  lastWeekMet: boolean | null = null
+): number {
+  const step = PROGRESSION_STEPS[strategy] ?? PROGRESSION_STEPS[DEFAULT_GOAL_PROGRESSION_STRATEGY];
+  return step(goal, settings, lastWeekMet);
+}
+
+/**
+ * Daily goal for each week from the start, for previewing a strategy.
+ * The adaptive strategy is shown as if every week's goal is met.
+ */
+export function buildGoalSchedule(strategy: GoalProgressionStrategy, settings: ProgressionSettings, weeks: number): number[] {
+  const schedule = [settings.startGoal];
+  for (let week = 1; week < weeks; week++) {
+    schedule.push(getNextWeeklyGoal(strategy, schedule[week - 1], settings, true));
+  }
+  return schedule;
+}
+
+/**
+ * Whole weeks from now until a date, at least one
+ */
+export function getWeeksUntil(endDate: Date, now: Date = new Date()): number {
+  return Math.max(1, Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 7)));
+}
+
+/**
+ * The weekly step needed to go from the start goal to the target in a number
+ * of weeks, in minutes and as a share of the start goal
+ */
+export function buildProgressionSettings(startGoal: number, targetGoal: number, weeks: number): ProgressionSettings {
+  const totalIncrease = targetGoal - startGoal;
+  const weeklyIncreaseMinutes = totalIncrease > 0 ? Math.ceil(totalIncrease / Math.max(1, weeks)) : 0;
+  const weeklyIncreasePercentage = startGoal > 0 ? (weeklyIncreaseMinutes / startGoal) * 100 : 0;
+  return { startGoal, targetGoal, weeklyIncreaseMinutes, weeklyIncreasePercentage };
+}
@@ -0,0 +1,81 @@
+/**
+ * Page range arithmetic for reading sessions.
+ * Ranges are inclusive: { start: 10, end: 12 } covers pages 10, 11 and 12.
+ */
+
+export type PageRange = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Sort ranges and merge the ones that overlap or touch, so every page appears once
+ */
+export const mergePageRanges = (ranges: PageRange[]): PageRange[] => {
+  const sorted = ranges
+    .filter(range => range.end >= range.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: PageRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Number of distinct pages covered by the ranges
+ */
+export const countPages = (ranges: PageRange[]): number => {
+  return mergePageRanges(ranges).reduce((sum, range) => sum + range.end - range.start + 1, 0);
+};
+
+/**
+ * Parts of a range that were already read (e.g. a reread chapter)
+ */
+export const findOverlaps = (range: PageRange, readRanges: PageRange[]): PageRange[] => {
+  return mergePageRanges(readRanges)
+    .map(read => ({ start: Math.max(read.start, range.start), end: Math.min(read.end, range.end) }))
+    .filter(overlap => overlap.end >= overlap.start);
+};
+
+/**
+ * Why a range cannot be logged for a book, or null when it can
+ */
+export const getPageRangeProblem = (range: PageRange, totalPages: number): 'backward' | 'beyondBook' | null => {
+  if (range.end < range.start) {
+    return 'backward';
+  }
+  if (totalPages > 0 && range.end > totalPages) {
+    return 'beyondBook';
+  }
+  return null;
+};
+
+/**
+ * Human readable ranges, e.g. "10–12, 40–45"
+ */
+export const formatPageRanges = (ranges: PageRange[]): string => {
+  return ranges.map(range => (range.start === range.end ? `${range.start}` : `${range.start}–${range.end}`)).join(', ');
+};
+
+/**
+ * Read a range from the two page inputs.
+ * Returns null when both are empty and 'invalid' when only one is filled or either is not a page number.
+ */
+export const parsePageRange = (startText: string, endText: string): PageRange | null | 'invalid' => {
+  if (!startText.trim() && !endText.trim()) {
+    return null;
+  }
+  const start = Number(startText);
+  const end = Number(endText);
+  if (!startText.trim() || !endText.trim() || !Number.isInteger(start) || !Number.isInteger(end) || start <= 0 || end <= 0) {
+    return 'invalid';
+  }
+  return { start, end };
+};
@@ -0,0 +1,65 @@
+import { CycleRepository } from '../db/cycleRepository';
+import { getGoalOnDate, GoalChange } from '../db/goalHistoryRepository';
+import { PreferencesRepository, ReadingGoal } from '../db/preferencesRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { GoalUnit } from '../types/database';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate } from './dateUtils';
+
+export const GOAL_UNITS: GoalUnit[] = ['minutes', 'pages', 'books'];
+
+// How far along the goal is: today for minute and page goals, this month for book goals
+export type ReadingGoalProgress = ReadingGoal & {
+  progress: number;
+  sessionsWithoutPages: number; // Today's sessions a page goal cannot count
+};
+
+// A day's reading in every unit a goal can count
+export type DayReading = {
+  date: string;
+  minutes: number;
+  pages: number;
+};
+
+/**
+ * Whether a day met the reading goal. Minute goals follow the goal history;
+ * a book goal is monthly, so any reading day counts.
+ */
+export const isDailyGoalMet = (goal: ReadingGoal, day: DayReading, goalHistory: GoalChange[]): boolean => {
+  switch (goal.unit) {
+    case 'pages':
+      return day.pages >= goal.amount;
+    case 'books':
+      return day.minutes > 0;
+    default:
+      return day.minutes >= getGoalOnDate(goalHistory, day.date, goal.amount);
+  }
+};
+
+/**
+ * First and last day of the month a date falls in
+ */
+export const getMonthRange = (date: string): { start: string; end: string } => {
+  const day = localDateStringToDate(date);
+  return {
+    start: dateToLocalDateString(new Date(day.getFullYear(), day.getMonth(), 1)),
+    end: dateToLocalDateString(new Date(day.getFullYear(), day.getMonth() + 1, 0)),
+  };
+};
+
+export const getReadingGoalProgress = async (today: string = getTodayDateString()): Promise<ReadingGoalProgress> => {
+  const goal = await PreferencesRepository.getReadingGoal();
+  switch (goal.unit) {
+    case 'pages':
+      return {
+        ...goal,
+        progress: await SessionRepository.getTotalPagesForDate(today),
+        sessionsWithoutPages: await SessionRepository.countWithoutPagesBetween(today, today),
+      };
+    case 'books': {
+      const month = getMonthRange(today);
+      return { ...goal, progress: await CycleRepository.countFinishedBetween(month.start, month.end), sessionsWithoutPages: 0 };
+    }
+    default:
+      return { ...goal, progress: await SessionRepository.getTotalMinutesForDate(today), sessionsWithoutPages: 0 };
+  }
+};
@@ -0,0 +1,108 @@
+import { BookRepository } from '../db/bookRepository';
+import { EnhancedBook, PlanUnit } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { getTodayDateString, localDateStringToDate } from './dateUtils';
+import { getBookReadingSpeed } from './readingSpeed';
+
+// A book's finish-by-date plan and where it stands
+export type PlanState = {
+  totalPages: number;
+  currentPage: number;
+  startPage: number; // Where the book stood when the plan was made
+  startDate: string; // YYYY-MM-DD
+  targetDate: string; // YYYY-MM-DD
+  unit: PlanUnit;
+};
+
+// Today's share of a plan
+export type PlanProgress = {
+  daysLeft: number; // Days left to read on, today included; 0 once the target date has passed
+  pagesLeft: number; // As of the start of today
+  dailyQuota: number | null; // Pages or minutes a day; null for a minute plan without a reading speed
+  readToday: number; // In the plan's unit
+  isBehind: boolean;
+};
+
+export type BookPlan = PlanProgress & {
+  book: EnhancedBook;
+  unit: PlanUnit;
+  targetDate: string;
+};
+
+const daysBetween = (from: string, to: string): number => {
+  const millisecondsPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((localDateStringToDate(to).getTime() - localDateStringToDate(from).getTime()) / millisecondsPerDay);
+};
+
+/**
+ * Today's quota for a plan: the pages left at the start of today spread evenly
+ * over the days left, so it is worked out again after every session.
+ * A plan is behind when the book is short of where an even pace from the
+ * plan's start would have it by the end of yesterday, or the date has passed.
+ */
+export const calculatePlanProgress = (
+  plan: PlanState,
+  readToday: { minutes: number; pages: number },
+  pagesPerMinute: number | null,
+  today: string
+): PlanProgress => {
+  const pageAtStartOfToday = Math.max(0, plan.currentPage - readToday.pages);
+  const pagesLeft = Math.max(0, plan.totalPages - pageAtStartOfToday);
+  const daysLeft = Math.max(0, daysBetween(today, plan.targetDate) + 1);
+  const pagesPerDay = pagesLeft / Math.max(1, daysLeft);
+
+  let dailyQuota: number | null = Math.ceil(pagesPerDay);
+  if (plan.unit === 'minutes') {
+    dailyQuota = pagesPerMinute ? Math.ceil(pagesPerDay / pagesPerMinute) : null;
+  }
+
+  const planDays = daysBetween(plan.startDate, plan.targetDate) + 1;
+  const elapsedDays = daysBetween(plan.startDate, today);
+  const expectedPage = plan.startPage + (plan.totalPages - plan.startPage) * Math.min(1, elapsedDays / planDays);
+  const isFinished = plan.currentPage >= plan.totalPages;
+
+  return {
+    daysLeft,
+    pagesLeft,
+    dailyQuota,
+    readToday: plan.unit === 'minutes' ? readToday.minutes : readToday.pages,
+    isBehind: !isFinished && (daysLeft === 0 || pageAtStartOfToday < Math.floor(expectedPage)),
+  };
+};
+
+/**
+ * Where a book's plan stands today, or null when the book has no plan
+ */
+export const getBookPlan = async (book: EnhancedBook, today: string = getTodayDateString()): Promise<BookPlan | null> => {
+  if (!book.target_finish_date || !book.plan_unit) {
+    return null;
+  }
+  const unit = book.plan_unit;
+  const readToday = await SessionRepository.getTotalsForBookBetween(book.id, today, today);
+  const speed = unit === 'minutes' ? await getBookReadingSpeed(book.id) : null;
+
+  const progress = calculatePlanProgress({
+    totalPages: book.page,
+    currentPage: book.current_page || 0,
+    startPage: book.plan_start_page || 0,
+    startDate: book.plan_start_date || today,
+    targetDate: book.target_finish_date,
+    unit,
+  }, readToday, speed?.pagesPerMinute ?? null, today);
+
+  return { ...progress, book, unit, targetDate: book.target_finish_date };
+};
+
+/**
+ * Plans of the active profile's unfinished books, soonest deadline first
+ */
+export const listBookPlans = async (): Promise<BookPlan[]> => {
+  try {
+    const books = await BookRepository.listPlanned();
+    const plans = await Promise.all(books.map(book => getBookPlan(book)));
+    return plans.filter((plan): plan is BookPlan => plan !== null);
+  } catch (error) {
+    console.error('Error loading reading plans:', error);
+    return [];
+  }
+};
@@ -1,5 +1,8 @@
-import { execute, queryAll, queryFirst } from '../db/db';
-import { dateToLocalDateString, getTodayDateString } from './dateUtils';
+import { execute, ReadingSession } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { GoalUnit } from '../types/database';
+import { dateToLocalDateString, getTodayDateString, parseTimestamp } from './dateUtils';
+import { applyStreakFreezes } from './streakFreezes';
 
 /**
  * Calculate book completion percentage based on cumulative pages read from sessions
@@ -12,12 +15,7 @@ export const calculateBookProgressFromSessions = async (bookId: number, totalPag
 }> => {
   try {
     // Get total pages read from all sessions for this book
-    const result = await queryFirst<{total_pages: number}>(
-      'SELECT COALESCE(SUM(pages_read), 0) as total_pages FROM reading_sessions WHERE book_id = ? AND pages_read IS NOT NULL',
-      [bookId]
-    );
-    
-    const pagesRead = result?.total_pages || 0;
+    const pagesRead = await SessionRepository.getTotalPagesForBook(bookId);
     const percentage = totalPages > 0 ? Math.min(Math.round((pagesRead / totalPages) * 100), 100) : 0;
     const isComplete = percentage >= 100;
     
@@ -83,19 +81,7 @@ export const getEnhancedBookProgress = async (bookId: number, totalPages: number
  */
 export const syncBookCurrentPageFromSessions = async (bookId: number): Promise<void> => {
   try {
-    const result = await queryFirst<{total_pages: number}>(
-      'SELECT COALESCE(SUM(pages_read), 0) as total_pages FROM reading_sessions WHERE book_id = ? AND pages_read IS NOT NULL',
-      [bookId]
-    );
-    
-    const totalPagesRead = result?.total_pages || 0;
-    
-    if (totalPagesRead > 0) {
-      await execute(
-        'UPDATE enhanced_books SET current_page = ? WHERE id = ?',
-        [totalPagesRead, bookId]
-      );
-    }
+    await SessionRepository.syncBookCurrentPage(bookId);
   } catch (error) {
     console.error('Error syncing book current page from sessions:', error);
   }
@@ -124,52 +110,21 @@ export const initializeReadingSessions = async () => {
 
 export const getTodayReadingMinutes = async (): Promise<number> => {
   try {
-    const today = getTodayDateString();
-    const result = await queryFirst<{total_minutes: number}>(
-      'SELECT COALESCE(SUM(minutes_read), 0) as total_minutes FROM reading_sessions WHERE date = ?',
-      [today]
-    );
-    return result?.total_minutes || 0;
+    return await SessionRepository.getTotalMinutesForDate(getTodayDateString());
   } catch (error) {
     console.error('Error getting today reading minutes:', error);
     return 0;
   }
 };
 
-export const getReadingStreak = async (dailyGoal: number = 30): Promise<number> => {
+export const getReadingStreak = async (dailyGoal: number = 30, unit: GoalUnit = 'minutes'): Promise<number> => {
   try {
-    // Get all dates with reading sessions that meet the daily goal, ordered by date desc
-    const result = await queryAll<{date: string, total_minutes: number}>(
-      `SELECT date, SUM(minutes_read) as total_minutes 
-       FROM reading_sessions 
-       GROUP BY date 
-       HAVING total_minutes >= ? 
-       ORDER BY date DESC`,
-      [dailyGoal]
-    );
-
-    if (result.length === 0) {
-      return 0;
-    }
+    // The most recent run of goal days counts only if it reaches today
+    const today = getTodayDateString();
+    await applyStreakFreezes(dailyGoal, today, unit);
+    const [latestStreak] = await SessionRepository.listGoalStreaks(dailyGoal, today, 1, unit);
 
-    // Calculate consecutive days from today backwards
-    let streak = 0;
-    const today = new Date();
-    
-    for (let i = 0; i < result.length; i++) {
-      const sessionDate = new Date(result[i].date);
-      const expectedDate = new Date(today);
-      expectedDate.setDate(today.getDate() - i);
-      
-      // Check if this date matches our expected consecutive date
-      if (sessionDate.toDateString() === expectedDate.toDateString()) {
-        streak++;
-      } else {
-        break;
-      }
-    }
-    
-    return streak;
+    return latestStreak?.end_date === today ? latestStreak.days : 0;
   } catch (error) {
     console.error('Error calculating reading streak:', error);
     return 0;
@@ -188,17 +143,10 @@ export const getWeeklyReadingMinutes = async (): Promise<number[]> => {
       weekDates.push(dateToLocalDateString(date));
     }
     
-    const weeklyData = await Promise.all(
-      weekDates.map(async (date) => {
-        const result = await queryFirst<{total_minutes: number}>(
-          'SELECT COALESCE(SUM(minutes_read), 0) as total_minutes FROM reading_sessions WHERE date = ?',
-          [date]
-        );
-        return result?.total_minutes || 0;
-      })
-    );
+    const dailyTotals = await SessionRepository.getDailyTotals(weekDates[0], weekDates[6]);
+    const minutesByDate = new Map(dailyTotals.map(day => [day.date, day.total_minutes]));
     
-    return weeklyData;
+    return weekDates.map(date => minutesByDate.get(date) || 0);
   } catch (error) {
     console.error('Error getting weekly reading data:', error);
     return [0, 0, 0, 0, 0, 0, 0];
@@ -207,11 +155,7 @@ export const getWeeklyReadingMinutes = async (): Promise<number[]> => {
 
 export const getBookReadingTime = async (bookId: number): Promise<number> => {
   try {
-    const result = await queryFirst<{total_minutes: number}>(
-      'SELECT COALESCE(SUM(minutes_read), 0) as total_minutes FROM reading_sessions WHERE book_id = ?',
-      [bookId]
-    );
-    return result?.total_minutes || 0;
+    return await SessionRepository.getTotalMinutesForBook(bookId);
   } catch (error) {
     console.error('Error getting book reading time:', error);
     return 0;
@@ -220,25 +164,17 @@ export const getBookReadingTime = async (bookId: number): Promise<number> => {
 
 export const getRecentReadingSessions = async (limit: number = 5) => {
   try {
-    const sessions = await queryAll<{
-      id: number;
-      minutes_read: number;
-      date: string;
-      created_at: string;
-      notes?: string;
-      book_name: string;
-      book_author: string;
-    }>(
-      `SELECT rs.*, eb.name as book_name, eb.author as book_author
-       FROM reading_sessions rs
-       JOIN enhanced_books eb ON rs.book_id = eb.id
-       ORDER BY rs.created_at DESC
-       LIMIT ?`,
-      [limit]
-    );
-    return sessions;
+    return await SessionRepository.listRecentWithBooks(limit);
   } catch (error) {
     console.error('Error getting recent reading sessions:', error);
     return [];
   }
 };
+
+/**
+ * When the reading in a session started.
+ * Sessions logged before start times were recorded fall back to when they were entered.
+ */
+export const getSessionStartTime = (session: Pick<ReadingSession, 'started_at' | 'created_at'>): Date => {
+  return parseTimestamp(session.started_at ?? session.created_at);
+};
@@ -0,0 +1,156 @@
+import { EnhancedBook } from '../db/db';
+import { SessionRepository } from '../db/sessionRepository';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate } from './dateUtils';
+import { getEnhancedBookProgress } from './readingProgress';
+
+// Minutes and pages of one session
+export type SpeedSample = {
+  minutes: number;
+  pages: number;
+};
+
+// Time left in a book and when it will be done at the current pace
+export type FinishEstimate = {
+  pagesPerMinute: number;
+  speedSource: 'book' | 'global'; // global when the book has no sessions with pages yet
+  pagesLeft: number;
+  minutesLeft: number;
+  dailyMinutes: number; // Recent minutes per day; 0 when nothing was read lately
+  finishDate: string | null; // YYYY-MM-DD, null without a recent pace
+};
+
+// A session this many sessions older than the latest counts half as much
+const SPEED_HALF_LIFE_SESSIONS = 5;
+
+// Days the current daily pace is averaged over
+const PACE_WINDOW_DAYS = 14;
+
+// Latest sessions the overall reading speed is taken from
+const GLOBAL_SPEED_SESSIONS = 50;
+
+/**
+ * Pages per minute across sessions given most recent first, weighting recent
+ * sessions more so the speed follows how the reading goes now.
+ * Returns null when no session has both minutes and pages.
+ */
+export const calculatePagesPerMinute = (samples: SpeedSample[]): number | null => {
+  let weightedPages = 0;
+  let weightedMinutes = 0;
+  samples
+    .filter(sample => sample.minutes > 0 && sample.pages > 0)
+    .forEach((sample, age) => {
+      const weight = Math.pow(0.5, age / SPEED_HALF_LIFE_SESSIONS);
+      weightedPages += sample.pages * weight;
+      weightedMinutes += sample.minutes * weight;
+    });
+  return weightedMinutes > 0 ? weightedPages / weightedMinutes : null;
+};
+
+/**
+ * Reading time left for a number of pages, and the day they will be read
+ * when reading dailyMinutes a day from tomorrow
+ */
+export const projectFinish = (
+  pagesLeft: number,
+  pagesPerMinute: number,
+  dailyMinutes: number,
+  today: string = getTodayDateString()
+): { minutesLeft: number; finishDate: string | null } => {
+  const minutesLeft = Math.ceil(pagesLeft / pagesPerMinute);
+  if (dailyMinutes <= 0) {
+    return { minutesLeft, finishDate: null };
+  }
+  const finishDate = localDateStringToDate(today);
+  finishDate.setDate(finishDate.getDate() + Math.ceil(minutesLeft / dailyMinutes));
+  return { minutesLeft, finishDate: dateToLocalDateString(finishDate) };
+};
+
+// Pages per minute in a book and where the speed comes from
+export type BookReadingSpeed = {
+  pagesPerMinute: number;
+  source: FinishEstimate['speedSource'];
+};
+
+/**
+ * Pages per minute in several books at once, with their sessions read in one
+ * query and the overall speed looked up once for books without page data.
+ * Books with no speed to go on map to null.
+ */
+export const getReadingSpeeds = async (bookIds: number[]): Promise<Map<number, BookReadingSpeed | null>> => {
+  const samplesByBook = new Map<number, SpeedSample[]>();
+  for (const { book_id, ...sample } of await SessionRepository.listSpeedSamplesForBooks(bookIds)) {
+    const samples = samplesByBook.get(book_id) ?? [];
+    samples.push(sample);
+    samplesByBook.set(book_id, samples);
+  }
+
+  let globalSpeed: number | null | undefined;
+  const speeds = new Map<number, BookReadingSpeed | null>();
+  for (const bookId of bookIds) {
+    const bookSpeed = calculatePagesPerMinute(samplesByBook.get(bookId) ?? []);
+    if (bookSpeed) {
+      speeds.set(bookId, { pagesPerMinute: bookSpeed, source: 'book' });
+      continue;
+    }
+    if (globalSpeed === undefined) {
+      globalSpeed = calculatePagesPerMinute(await SessionRepository.listSpeedSamples({ limit: GLOBAL_SPEED_SESSIONS }));
+    }
+    speeds.set(bookId, globalSpeed ? { pagesPerMinute: globalSpeed, source: 'global' } : null);
+  }
+  return speeds;
+};
+
+/**
+ * Pages per minute in a book: from its own sessions, or the reader's overall
+ * speed when the book has no page data. Null when no session has pages at all.
+ */
+export const getBookReadingSpeed = async (bookId: number): Promise<BookReadingSpeed | null> =>
+  (await getReadingSpeeds([bookId])).get(bookId) ?? null;
+
+/**
+ * Estimate how long a book still takes and when it will be finished.
+ * The pace is the minutes a day spent on the book lately, or on reading at
+ * all when the book was not picked up lately.
+ * Lists pass the speed from getReadingSpeeds so it is not looked up per book.
+ * Returns null for finished books and when there is no speed to go on.
+ */
+export const getBookFinishEstimate = async (
+  book: Pick<EnhancedBook, 'id' | 'page' | 'current_page'>,
+  readingSpeed?: BookReadingSpeed | null
+): Promise<FinishEstimate | null> => {
+  try {
+    const progress = await getEnhancedBookProgress(book.id, book.page, book.current_page || 0);
+    const pagesLeft = book.page - progress.pagesRead;
+    if (book.page <= 0 || pagesLeft <= 0) {
+      return null;
+    }
+
+    const speed = readingSpeed === undefined ? await getBookReadingSpeed(book.id) : readingSpeed;
+    if (!speed) {
+      return null;
+    }
+
+    const today = getTodayDateString();
+    const windowStart = localDateStringToDate(today);
+    windowStart.setDate(windowStart.getDate() - (PACE_WINDOW_DAYS - 1));
+    const startDate = dateToLocalDateString(windowStart);
+
+    let recentMinutes = (await SessionRepository.getTotalsForBookBetween(book.id, startDate, today)).minutes;
+    if (recentMinutes === 0) {
+      const dailyTotals = await SessionRepository.getDailyTotals(startDate, today);
+      recentMinutes = dailyTotals.reduce((sum, day) => sum + day.total_minutes, 0);
+    }
+    const dailyMinutes = recentMinutes / PACE_WINDOW_DAYS;
+
+    return {
+      pagesPerMinute: speed.pagesPerMinute,
+      speedSource: speed.source,
+      pagesLeft,
+      dailyMinutes,
+      ...projectFinish(pagesLeft, speed.pagesPerMinute, dailyMinutes, today),
+    };
+  } catch (error) {
+    console.error('Error estimating book finish:', error);
+    return null;
+  }
+};
@@ -0,0 +1,60 @@
+import { SessionRepository } from '../db/sessionRepository';
+import { StreakRepository } from '../db/streakRepository';
+import { GoalUnit } from '../types/database';
+import { dateToLocalDateString, getTodayDateString, localDateStringToDate } from './dateUtils';
+
+// Streak freezes earned and spent so far
+export type FreezeInventory = {
+  earned: number; // One per calendar week in which every day met the goal
+  used: number;
+  available: number;
+};
+
+const addDays = (date: string, days: number): string => {
+  const shifted = localDateStringToDate(date);
+  shifted.setDate(shifted.getDate() + days);
+  return dateToLocalDateString(shifted);
+};
+
+export const getFreezeInventory = async (
+  dailyGoal: number,
+  today: string = getTodayDateString(),
+  unit: GoalUnit = 'minutes'
+): Promise<FreezeInventory> => {
+  const earned = await SessionRepository.countFullGoalWeeks(dailyGoal, today, unit);
+  const used = await StreakRepository.countFreezesUsed();
+  return { earned, used, available: Math.max(0, earned - used) };
+};
+
+/**
+ * Spend streak freezes on the days missed since the latest streak, up to
+ * yesterday, so the streak carries on. Nothing is spent when there are not
+ * enough freezes to cover the whole gap, since the streak would break anyway.
+ * Every streak computation runs this first so they all agree.
+ */
+export const applyStreakFreezes = async (
+  dailyGoal: number,
+  today: string = getTodayDateString(),
+  unit: GoalUnit = 'minutes'
+): Promise<void> => {
+  try {
+    const yesterday = addDays(today, -1);
+    const [latestStreak] = await SessionRepository.listGoalStreaks(dailyGoal, yesterday, 1, unit);
+    if (!latestStreak || latestStreak.end_date >= yesterday) {
+      return;
+    }
+
+    const missedDays: string[] = [];
+    for (let date = addDays(latestStreak.end_date, 1); date <= yesterday; date = addDays(date, 1)) {
+      missedDays.push(date);
+    }
+
+    const { available } = await getFreezeInventory(dailyGoal, today, unit);
+    if (missedDays.length > available) {
+      return;
+    }
+    await StreakRepository.spendFreezes(missedDays);
+  } catch (error) {
+    console.error('Error applying streak freezes:', error);
+  }
+};
@@ -0,0 +1,107 @@
+import { getActiveProfileId } from '../db/db';
+import { GoalChange, GoalHistoryRepository, getGoalOnDate } from '../db/goalHistoryRepository';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { SessionRepository } from '../db/sessionRepository';
+import { WeeklyProgressRepository } from '../db/weeklyProgressRepository';
+import { dateToLocalDateString, getTodayDateString, getWeekStart, localDateStringToDate } from './dateUtils';
+import { getGoalPlanEndDate } from './goalPlan';
+import { DEFAULT_GOAL_PROGRESSION_STRATEGY, getNextWeeklyGoal } from './goalProgression';
+
+const addDays = (date: string, days: number): string => {
+  const shifted = localDateStringToDate(date);
+  shifted.setDate(shifted.getDate() + days);
+  return dateToLocalDateString(shifted);
+};
+
+/**
+ * A week's target (the goals of its days added up) and the minutes read in it.
+ * Days before the profile's first goal are left out of both.
+ */
+const summarizeWeek = async (
+  weekStart: string,
+  history: GoalChange[],
+  fallbackGoal: number,
+  trackedFrom: string
+): Promise<{ target: number; achieved: number }> => {
+  const weekEnd = addDays(weekStart, 6);
+  const firstDay = weekStart > trackedFrom ? weekStart : trackedFrom;
+
+  let target = 0;
+  for (let date = firstDay; date <= weekEnd; date = addDays(date, 1)) {
+    target += getGoalOnDate(history, date, fallbackGoal);
+  }
+  const dailyTotals = await SessionRepository.getDailyTotals(firstDay, weekEnd);
+  const achieved = dailyTotals.reduce((sum, day) => sum + day.total_minutes, 0);
+  return { target, achieved };
+};
+
+/**
+ * Bring the weekly record up to date: recorded weeks are recounted, every
+ * calendar week since the last recorded one gets its row, and each week that ended moves the daily goal
+ * one step along the profile's strategy, from the Monday after it, while the
+ * plan runs or in maintenance. Weeks missed while the app was closed are
+ * caught up one by one.
+ */
+export const syncWeeklyProgress = async (today: string = getTodayDateString()): Promise<void> => {
+  const preferences = await PreferencesRepository.get();
+  if (!preferences) return;
+
+  const fallbackGoal = preferences.current_reading_rate_minutes_per_day || 30;
+  let history = await GoalHistoryRepository.list();
+  if (history.length === 0) {
+    await GoalHistoryRepository.record(fallbackGoal, getActiveProfileId(), today);
+    history = await GoalHistoryRepository.list();
+  }
+  const trackedFrom = history[0].effective_date;
+
+  // Maintenance holds the goal reached, easing off after missed weeks like the adaptive strategy
+  const mode = preferences.goal_mode || 'plan';
+  const strategy = mode === 'maintenance'
+    ? 'adaptive'
+    : preferences.goal_progression_strategy || DEFAULT_GOAL_PROGRESSION_STRATEGY;
+  const settings = {
+    startGoal: preferences.initial_reading_rate_minutes_per_day || fallbackGoal,
+    targetGoal: preferences.end_reading_rate_goal_minutes_per_day || fallbackGoal,
+    weeklyIncreaseMinutes: preferences.weekly_reading_rate_increase_minutes || 0,
+    weeklyIncreasePercentage: preferences.weekly_reading_rate_increase_minutes_percentage || 0,
+  };
+  const goalEndDate = getGoalPlanEndDate(preferences);
+
+  // Recorded weeks are recounted as sessions change; this catches writes made outside the app, like backup imports
+  const recordedWeeks = await WeeklyProgressRepository.list();
+  await WeeklyProgressRepository.refreshAchieved(recordedWeeks.flatMap(week => week.week_start ? [week.week_start] : []));
+
+  const latest = await WeeklyProgressRepository.getLatest();
+  const currentWeek = getWeekStart(today);
+  let weekStart = latest?.week_start ?? getWeekStart(trackedFrom);
+  let weeksPassed = latest?.weeks_passed ?? 0;
+
+  while (weekStart <= currentWeek) {
+    const { target, achieved } = await summarizeWeek(weekStart, history, fallbackGoal, trackedFrom);
+    await WeeklyProgressRepository.saveWeek({
+      week_start: weekStart,
+      weeks_passed: weeksPassed,
+      target_reading_minutes: target,
+      achived_reading_minutes: achieved,
+    });
+    if (weekStart === currentWeek) break;
+
+    // A goal the reader set on that Monday themselves is left alone
+    const nextWeek = addDays(weekStart, 7);
+    const isPlanRunning = mode === 'plan' && goalEndDate !== null && nextWeek <= goalEndDate;
+    if ((isPlanRunning || mode === 'maintenance') && !history.some(change => change.effective_date === nextWeek)) {
+      const goal = getGoalOnDate(history, addDays(weekStart, 6), fallbackGoal);
+      const nextGoal = getNextWeeklyGoal(strategy, goal, settings, achieved >= target);
+      await GoalHistoryRepository.record(nextGoal, getActiveProfileId(), nextWeek);
+      history = await GoalHistoryRepository.list();
+    }
+
+    weekStart = nextWeek;
+    weeksPassed++;
+  }
+
+  const todaysGoal = getGoalOnDate(history, today, fallbackGoal);
+  if (todaysGoal !== preferences.current_reading_rate_minutes_per_day) {
+    await PreferencesRepository.setCurrentReadingRate(todaysGoal);
+  }
+};
@@ -0,0 +1,116 @@
+import { CycleRepository } from '../db/cycleRepository';
+import { PreferencesRepository } from '../db/preferencesRepository';
+import { YearlyGoalRepository } from '../db/yearlyGoalRepository';
+import { getTodayDateString, localDateStringToDate } from './dateUtils';
+
+// Pages assumed per book before any book with a page count is finished
+const DEFAULT_BOOK_PAGES = 300;
+
+// Where the year stands against an even pace toward its goal
+export type YearlyPace = {
+  expected: number; // Whole books an even pace would have finished by today
+  difference: number; // Books ahead of that pace, negative when behind
+  daysLeft: number; // Today included
+  pagesPerDay: number; // To still reach the goal by the end of the year; 0 once it is reached
+};
+
+export type YearlyChallenge = YearlyPace & {
+  year: number;
+  goal: number;
+  finished: number;
+  months: number[]; // Books finished in each month, January first
+};
+
+// Where a year stands: goal reached, or ahead of, behind or on its pace
+export type PaceStatus = 'achieved' | 'ahead' | 'behind' | 'onPace';
+
+// A finished year and the goal it had; null when no goal was stored for it
+export type YearResult = {
+  year: number;
+  goal: number | null;
+  finished: number;
+};
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Pace for a year's goal as of a day: the goal spread evenly over the year's
+ * days, and the pages a day the books still missing would take
+ */
+export const calculateYearlyPace = (
+  goal: number,
+  finished: number,
+  averagePages: number,
+  today: string
+): YearlyPace => {
+  const date = localDateStringToDate(today);
+  const year = date.getFullYear();
+  const yearStart = new Date(year, 0, 1).getTime();
+  const daysInYear = Math.round((new Date(year + 1, 0, 1).getTime() - yearStart) / MILLISECONDS_PER_DAY);
+  const dayOfYear = Math.round((date.getTime() - yearStart) / MILLISECONDS_PER_DAY) + 1;
+
+  const expected = Math.floor((goal * dayOfYear) / daysInYear);
+  const daysLeft = daysInYear - dayOfYear + 1;
+  const booksLeft = Math.max(0, goal - finished);
+
+  return {
+    expected,
+    difference: finished - expected,
+    daysLeft,
+    pagesPerDay: Math.ceil((booksLeft * averagePages) / daysLeft),
+  };
+};
+
+export const getPaceStatus = (challenge: YearlyChallenge): PaceStatus => {
+  if (challenge.finished >= challenge.goal) {
+    return 'achieved';
+  }
+  if (challenge.difference > 0) {
+    return 'ahead';
+  }
+  return challenge.difference < 0 ? 'behind' : 'onPace';
+};
+
+/**
+ * This year's challenge. A new year starts with the profile's yearly goal,
+ * which is stored for it so the year keeps its goal once it is over.
+ */
+export const getYearlyChallenge = async (today: string = getTodayDateString()): Promise<YearlyChallenge | null> => {
+  const year = localDateStringToDate(today).getFullYear();
+  const goals = await YearlyGoalRepository.list();
+  let goal = goals.find(entry => entry.year === year)?.goal ?? null;
+  if (goal === null) {
+    const preferredGoal = await PreferencesRepository.getYearlyBookGoal();
+    if (!preferredGoal) {
+      return null;
+    }
+    await YearlyGoalRepository.record(preferredGoal, undefined, year);
+    goal = preferredGoal;
+  }
+
+  const finished = await CycleRepository.countFinishedInYear(year);
+  const months = new Array<number>(12).fill(0);
+  for (const { month, count } of await CycleRepository.countFinishedByMonth(year)) {
+    months[month - 1] = count;
+  }
+  const averagePages = (await CycleRepository.getAverageFinishedPages()) || DEFAULT_BOOK_PAGES;
+
+  return { year, goal, finished, months, ...calculateYearlyPace(goal, finished, averagePages, today) };
+};
+
+/**
+ * Years before this one with a goal or a finished book, latest first
+ */
+export const listPastYears = async (today: string = getTodayDateString()): Promise<YearResult[]> => {
+  const currentYear = localDateStringToDate(today).getFullYear();
+  const results = new Map<number, YearResult>();
+  for (const { year, count } of await CycleRepository.countFinishedByYear()) {
+    results.set(year, { year, goal: null, finished: count });
+  }
+  for (const { year, goal } of await YearlyGoalRepository.list()) {
+    results.set(year, { year, goal, finished: results.get(year)?.finished ?? 0 });
+  }
+  return [...results.values()]
+    .filter(result => result.year < currentYear)
+    .sort((a, b) => b.year - a.year);
+};